@@ -25,11 +25,23 @@ import {
   Settings,
   ArrowRightLeft,
   Sparkles,
-  MessageSquare
+  MessageSquare,
+  Cloud,
+  CloudAlert,
+  RefreshCw,
+  GitMerge,
+  BookOpenCheck,
+  ShoppingCart,
+  Truck,
+  Send,
+  Store,
+  Route as RouteIcon,
+  PackageCheck,
+  Gauge,
+  Warehouse
 } from 'lucide-react';
 
 import { Product, InventoryItem, ViewState, InventoryLocation, Transaction, MasterLocation, generateId, SavedPickList } from './types';
-import { AREA_CONFIG } from './consts/warehouse';
 import InventoryForm from './components/InventoryForm';
 import OutboundForm from './components/OutboundForm';
 import WarehouseMap from './components/WarehouseMap';
@@ -44,6 +56,26 @@ import ConfirmModal, { ModalType } from './components/ConfirmModal';
 import SidebarItem from './components/SidebarItem';
 import DashboardPage from './components/DashboardPage';
 import ItemAnalyticsPage from './components/ItemAnalyticsPage';
+import SyncConflictsPage from './components/SyncConflictsPage';
+import OutboxPage from './components/OutboxPage';
+import SettingsPage from './components/SettingsPage';
+import LedgerPage from './components/LedgerPage';
+import LoginPage from './components/LoginPage';
+import UsersPage from './components/UsersPage';
+import PurchaseOrdersPage from './components/PurchaseOrdersPage';
+import SuppliersPage from './components/SuppliersPage';
+import ReorderPage from './components/ReorderPage';
+import OrdersPage from './components/OrdersPage';
+import CustomersPage from './components/CustomersPage';
+import WavePickingPage from './components/WavePickingPage';
+import PutawayPage from './components/PutawayPage';
+import BinUtilizationPage from './components/BinUtilizationPage';
+import LayoutDesignerPage from './components/LayoutDesignerPage';
+import LocationPage from './components/LocationPage';
+import UnitsPage from './components/UnitsPage';
+import CategoryPage from './components/CategoryPage';
+import { isInTransit } from './services/putaway';
+import { can, ROLE_LABELS } from './services/auth';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { GASService } from './services/gasApi';
 
@@ -62,15 +94,42 @@ function App() {
     products,
     transactions,
     savedPickLists,
+    palletRules,
     masterLocations,
+    layouts,
+    activeLayout,
     editingItem, // We stick with global edit state for now as it's easier than URL params for complex objects
     sidebarOpen,
     modalConfig,
     inventorySummary,
-    lowStockItems,
+    reorderSuggestions,
+    suppliers,
+    itemCategories,
+    units,
+    customers,
+    outboundOrders,
     topMovers,
     deadStock,
+    expiredBatches,
+    expiringBatches,
+    expiryWarningDays,
     gasConfig,
+    storageConfig,
+    isSyncing,
+    syncStatus,
+    syncConflicts,
+    outbox,
+    historyVersion,
+    historyLimit,
+    isFullHistoryLoaded,
+    ledgerMode,
+    users,
+    currentUser,
+    canCreateFirstAdmin,
+    approvals,
+    approvalThresholds,
+    putawaySettings,
+    purchaseOrders,
     actions
   } = useAppState();
 
@@ -87,6 +146,35 @@ function App() {
     handleMoveStock,
     handleSyncGas,
     handleUpdateProducts,
+    handleResolveConflict,
+    handleChangeStorageConfig,
+    handleRetryOutboxEntry,
+    handleDiscardOutboxEntry,
+    queryTransactions,
+    handleSetLedgerMode,
+    handleReconcileLedger,
+    handleRebuildFromLedger,
+    handleLogin,
+    handleLogout,
+    handleCreateFirstAdmin,
+    handleSaveUser,
+    handleDeleteUser,
+    handleApproveRequest,
+    handleRejectRequest,
+    handleUpdateApprovalThresholds,
+    handleSavePurchaseOrder,
+    handleClosePurchaseOrder,
+    handleDeletePurchaseOrder,
+    handleReceivePurchaseOrder,
+    handleDraftPurchaseOrder,
+    handleSaveSupplier,
+    handleDeleteSupplier,
+    handleSaveCustomer,
+    handleDeleteCustomer,
+    handleSaveOutboundOrder,
+    handleDeleteOutboundOrder,
+    handleStartPicking,
+    handleShipOrder,
     showAlert,
     closeModal
   } = actions;
@@ -106,6 +194,35 @@ function App() {
     navigate('/inbound');
   };
 
+  const modal = (
+    <ConfirmModal
+      isOpen={modalConfig.isOpen}
+      onClose={closeModal}
+      onConfirm={modalConfig.onConfirm}
+      title={modalConfig.title}
+      message={modalConfig.message}
+      type={modalConfig.type}
+      reasonLabel={modalConfig.reasonLabel}
+    />
+  );
+
+  // Every action is attributed to a signed-in user
+  if (!currentUser) {
+    return (
+      <>
+        <LoginPage
+          users={users}
+          canCreateFirstAdmin={canCreateFirstAdmin}
+          isSyncing={isSyncing}
+          onLogin={handleLogin}
+          onCreateFirstAdmin={handleCreateFirstAdmin}
+          onRetrySync={() => handleSyncGas(false)}
+        />
+        {modal}
+      </>
+    );
+  }
+
   return (
     <div className="flex h-screen bg-[url('https://images.unsplash.com/photo-1586528116311-ad8dd3c8310d?q=80&w=2670&auto=format&fit=crop')] bg-cover bg-center text-slate-100 relative">
       <div className="absolute inset-0 bg-background/90 backdrop-blur-sm"></div>
@@ -144,7 +261,7 @@ function App() {
               to="/dashboard"
               icon={LayoutDashboard}
               label="Dashboard"
-              alert={lowStockItems.length > 0}
+              alert={reorderSuggestions.some(s => s.urgency === 'critical') || expiredBatches.some(b => b.item.status !== 'quarantine')}
               onClick={() => setSidebarOpen(false)}
             />
             <SidebarItem
@@ -167,12 +284,44 @@ function App() {
                 setEditingItem(null); // Reset edit state when clicking directly
               }}
             />
+            <SidebarItem
+              to="/purchase-orders"
+              icon={ClipboardList}
+              label="Purchase Orders"
+              onClick={() => setSidebarOpen(false)}
+            />
+            <SidebarItem
+              to="/reorder"
+              icon={ShoppingCart}
+              label="Reorder"
+              alert={reorderSuggestions.some(s => s.urgency === 'critical')}
+              onClick={() => setSidebarOpen(false)}
+            />
+            <SidebarItem
+              to="/orders"
+              icon={Send}
+              label="Customer Orders"
+              onClick={() => setSidebarOpen(false)}
+            />
             <SidebarItem
               to="/outbound"
               icon={PackageMinus}
               label="Outbound"
               onClick={() => setSidebarOpen(false)}
             />
+            <SidebarItem
+              to="/waves"
+              icon={RouteIcon}
+              label="Wave Picking"
+              onClick={() => setSidebarOpen(false)}
+            />
+            <SidebarItem
+              to="/putaway"
+              icon={PackageCheck}
+              label="Putaway"
+              alert={inventory.some(isInTransit)}
+              onClick={() => setSidebarOpen(false)}
+            />
             <SidebarItem
               to="/move"
               icon={ArrowRightLeft}
@@ -202,12 +351,24 @@ function App() {
               label="Visual Map"
               onClick={() => setSidebarOpen(false)}
             />
+            <SidebarItem
+              to="/utilization"
+              icon={Gauge}
+              label="Bin Utilization"
+              onClick={() => setSidebarOpen(false)}
+            />
             <SidebarItem
               to="/history"
               icon={ClipboardList}
               label="History"
               onClick={() => setSidebarOpen(false)}
             />
+            <SidebarItem
+              to="/ledger"
+              icon={BookOpenCheck}
+              label="Stock Ledger"
+              onClick={() => setSidebarOpen(false)}
+            />
 
             <div className="my-4 border-t border-white/5 mx-4"></div>
 
@@ -219,13 +380,138 @@ function App() {
               label="Product Master"
               onClick={() => setSidebarOpen(false)}
             />
+            <SidebarItem
+              to="/categories"
+              icon={Tag}
+              label="Categories"
+              onClick={() => setSidebarOpen(false)}
+            />
+            <SidebarItem
+              to="/units"
+              icon={Ruler}
+              label="Units"
+              onClick={() => setSidebarOpen(false)}
+            />
+            <SidebarItem
+              to="/locations"
+              icon={MapPin}
+              label="Bin Master"
+              onClick={() => setSidebarOpen(false)}
+            />
+            <SidebarItem
+              to="/suppliers"
+              icon={Truck}
+              label="Suppliers"
+              onClick={() => setSidebarOpen(false)}
+            />
+            <SidebarItem
+              to="/customers"
+              icon={Store}
+              label="Customers"
+              onClick={() => setSidebarOpen(false)}
+            />
             <SidebarItem
               to="/notes"
               icon={MessageSquare}
               label="Special Notes"
+              alert={approvals.some(r => r.status === 'pending')}
               onClick={() => setSidebarOpen(false)}
             />
+            {can(currentUser, 'manageUsers') && (
+              <SidebarItem
+                to="/users"
+                icon={Users}
+                label="Users"
+                onClick={() => setSidebarOpen(false)}
+              />
+            )}
+            {can(currentUser, 'changeSettings') && (
+              <SidebarItem
+                to="/layout"
+                icon={Warehouse}
+                label="Warehouse Layout"
+                onClick={() => setSidebarOpen(false)}
+              />
+            )}
+            {can(currentUser, 'changeSettings') && (
+              <SidebarItem
+                to="/settings"
+                icon={Settings}
+                label="Settings"
+                onClick={() => setSidebarOpen(false)}
+              />
+            )}
+            {syncConflicts.length > 0 && (
+              <SidebarItem
+                to="/sync-conflicts"
+                icon={GitMerge}
+                label={`Sync Conflicts (${syncConflicts.length})`}
+                alert
+                onClick={() => setSidebarOpen(false)}
+              />
+            )}
           </nav>
+
+          {/* Cloud Sync Status */}
+          {storageConfig.remote !== 'none' && (
+            <button
+              onClick={() => {
+                navigate('/outbox');
+                setSidebarOpen(false);
+              }}
+              className="relative z-10 mt-4 flex items-center gap-3 px-4 py-3 rounded-lg border border-white/10 bg-black/20 hover:bg-white/5 transition-colors text-left"
+              title={syncStatus.error || 'Open sync outbox'}
+            >
+              {isSyncing ? (
+                <RefreshCw className="w-4 h-4 text-primary animate-spin" />
+              ) : syncStatus.error ? (
+                <CloudAlert className="w-4 h-4 text-amber-400" />
+              ) : (
+                <Cloud className="w-4 h-4 text-green-400" />
+              )}
+              <div className="min-w-0">
+                <p className="text-xs font-bold text-slate-300 uppercase tracking-wider">
+                  {syncStatus.error ? 'Sync Issue' : syncStatus.pending > 0 ? `${syncStatus.pending} Pending` : 'Synced'}
+                </p>
+                <p className="text-[10px] text-slate-500 truncate">
+                  {syncStatus.error
+                    ? syncStatus.error
+                    : syncStatus.lastSyncedAt
+                      ? `Last ack ${new Date(syncStatus.lastSyncedAt).toLocaleTimeString()}`
+                      : 'Waiting for first sync'}
+                </p>
+              </div>
+              {outbox.length > 0 && (
+                <span
+                  className={`ml-auto min-w-[1.5rem] px-1.5 py-0.5 rounded-full text-[10px] font-bold text-center ${outbox.some(e => e.status === 'failed') ? 'bg-red-500 text-white' : 'bg-amber-500 text-black'}`}
+                  title={`${outbox.length} change(s) queued in outbox`}
+                >
+                  {outbox.length}
+                </span>
+              )}
+            </button>
+          )}
+
+          {/* Signed-in User */}
+          <div className="relative z-10 mt-3 flex items-center gap-3 px-4 py-3 rounded-lg border border-white/10 bg-black/20">
+            <div className="w-8 h-8 rounded-full bg-primary/20 border border-primary/50 flex items-center justify-center text-sm font-bold text-primary">
+              {currentUser.name.charAt(0).toUpperCase()}
+            </div>
+            <div className="min-w-0">
+              <p className="text-sm font-bold text-slate-200 truncate">{currentUser.name}</p>
+              <p className="text-[10px] text-slate-500 uppercase tracking-wider">{ROLE_LABELS[currentUser.role]}</p>
+            </div>
+            <button
+              onClick={() => {
+                handleLogout();
+                setSidebarOpen(false);
+              }}
+              className="ml-auto p-2 text-slate-400 hover:text-red-400 transition-colors"
+              title="Sign out"
+            >
+              <LogOut className="w-4 h-4" />
+            </button>
+          </div>
         </div>
       </div>
 
@@ -249,10 +535,16 @@ function App() {
                   inventory={inventory}
                   inventorySummary={inventorySummary}
                   products={products}
-                  lowStockItems={lowStockItems}
+                  reorderSuggestions={reorderSuggestions}
                   topMovers={topMovers}
                   deadStock={deadStock}
                   transactions={transactions}
+                  expiredBatches={expiredBatches}
+                  expiringBatches={expiringBatches}
+                  expiryWarningDays={expiryWarningDays}
+                  onChangeExpiryWarningDays={actions.setExpiryWarningDays}
+                  onQuarantineBatch={can(currentUser, 'holdStock') ? actions.handleQuarantineBatch : undefined}
+                  layout={activeLayout}
                 />
               } />
 
@@ -260,8 +552,9 @@ function App() {
                 <ErrorBoundary name="Item Analytics Page">
                   <ItemAnalyticsPage
                     inventory={inventory}
-                    transactions={transactions}
                     products={products}
+                    historyVersion={historyVersion}
+                    onQueryTransactions={queryTransactions}
                   />
                 </ErrorBoundary>
               } />
@@ -271,12 +564,55 @@ function App() {
                   products={products}
                   inventory={inventory}
                   masterLocations={masterLocations}
+                  putawaySettings={putawaySettings}
                   initialData={editingItem}
                   onSave={handleSaveInventory}
                   onCancel={() => {
                     navigate('/inventory');
                     setEditingItem(null);
                   }}
+                  purchaseOrders={purchaseOrders}
+                  initialPurchaseOrderId={(location.state as { poId?: string } | null)?.poId}
+                  onReceivePurchaseOrder={handleReceivePurchaseOrder}
+                />
+              } />
+
+              <Route path="/purchase-orders" element={
+                <PurchaseOrdersPage
+                  purchaseOrders={purchaseOrders}
+                  products={products}
+                  suppliers={suppliers}
+                  canManage={can(currentUser, 'managePurchaseOrders')}
+                  onSave={handleSavePurchaseOrder}
+                  onClose={handleClosePurchaseOrder}
+                  onDelete={handleDeletePurchaseOrder}
+                  onReceive={(id) => {
+                    setEditingItem(null);
+                    navigate('/inbound', { state: { poId: id } });
+                  }}
+                />
+              } />
+
+              <Route path="/reorder" element={
+                <ReorderPage
+                  suggestions={reorderSuggestions}
+                  suppliers={suppliers}
+                  canOrder={can(currentUser, 'managePurchaseOrders')}
+                  onDraftPurchaseOrder={(supplierId, lines) => {
+                    const ok = handleDraftPurchaseOrder(supplierId, lines);
+                    if (ok) navigate('/purchase-orders');
+                    return ok;
+                  }}
+                />
+              } />
+
+              <Route path="/suppliers" element={
+                <SuppliersPage
+                  suppliers={suppliers}
+                  products={products}
+                  readOnly={!can(currentUser, 'editProducts')}
+                  onSaveSupplier={handleSaveSupplier}
+                  onDeleteSupplier={handleDeleteSupplier}
                 />
               } />
 
@@ -297,6 +633,46 @@ function App() {
                     setSavedPickLists(prev => [...prev, newList]);
                   }}
                   onDeleteList={(id) => setSavedPickLists(prev => prev.filter(l => l.id !== id))}
+                  outboundOrders={outboundOrders}
+                  onLearnAliases={actions.handleLearnProductAliases}
+                  initialOrderId={(location.state as { orderId?: string } | null)?.orderId}
+                  onStartOrder={handleStartPicking}
+                />
+              } />
+
+              <Route path="/orders" element={
+                <OrdersPage
+                  outboundOrders={outboundOrders}
+                  customers={customers}
+                  products={products}
+                  canManage={can(currentUser, 'manageOrders')}
+                  onSave={handleSaveOutboundOrder}
+                  onDelete={handleDeleteOutboundOrder}
+                  onPick={(id) => {
+                    if (handleStartPicking(id)) navigate('/outbound', { state: { orderId: id } });
+                  }}
+                  onShip={handleShipOrder}
+                />
+              } />
+
+              <Route path="/waves" element={
+                <WavePickingPage
+                  outboundOrders={outboundOrders}
+                  inventory={inventory}
+                  products={products}
+                  layout={activeLayout}
+                  onStartPicking={handleStartPicking}
+                  onProcessWave={(items, note) => handleOutboundProcess(items, note)}
+                />
+              } />
+
+              <Route path="/customers" element={
+                <CustomersPage
+                  customers={customers}
+                  outboundOrders={outboundOrders}
+                  readOnly={!can(currentUser, 'manageOrders')}
+                  onSaveCustomer={handleSaveCustomer}
+                  onDeleteCustomer={handleDeleteCustomer}
                 />
               } />
 
@@ -313,11 +689,79 @@ function App() {
               } />
 
               <Route path="/history" element={
-                <ItemEntriesPage transactions={transactions} />
+                <ItemEntriesPage
+                  historyVersion={historyVersion}
+                  historyLimit={historyLimit}
+                  onQueryTransactions={queryTransactions}
+                />
               } />
 
               <Route path="/notes" element={
-                <SpecialNotesPage transactions={transactions} />
+                <SpecialNotesPage
+                  transactions={transactions}
+                  approvals={approvals}
+                  canApprove={can(currentUser, 'approveChanges')}
+                  onApprove={handleApproveRequest}
+                  onReject={handleRejectRequest}
+                />
+              } />
+
+              <Route path="/settings" element={
+                <SettingsPage
+                  storageConfig={storageConfig}
+                  gasUrl={gasConfig.url}
+                  onSaveStorageConfig={handleChangeStorageConfig}
+                  approvalThresholds={approvalThresholds}
+                  onSaveApprovalThresholds={handleUpdateApprovalThresholds}
+                  putawaySettings={putawaySettings}
+                  onSavePutawaySettings={actions.handleUpdatePutawaySettings}
+                />
+              } />
+
+              <Route path="/layout" element={
+                <LayoutDesignerPage
+                  layout={activeLayout}
+                  layouts={layouts}
+                  inventory={inventory}
+                  onSave={actions.handleSaveLayout}
+                />
+              } />
+
+              <Route path="/outbox" element={
+                <OutboxPage
+                  outbox={outbox}
+                  isSyncing={isSyncing}
+                  syncError={syncStatus.error}
+                  onSyncNow={() => handleSyncGas(true)}
+                  onRetry={handleRetryOutboxEntry}
+                  onDiscard={handleDiscardOutboxEntry}
+                />
+              } />
+
+              <Route path="/users" element={
+                <UsersPage
+                  users={users}
+                  currentUserId={currentUser.id}
+                  onSaveUser={handleSaveUser}
+                  onDeleteUser={handleDeleteUser}
+                />
+              } />
+
+              <Route path="/ledger" element={
+                <LedgerPage
+                  inventory={inventory}
+                  transactions={transactions}
+                  ledgerMode={ledgerMode}
+                  isHistoryLoaded={isFullHistoryLoaded}
+                  onLoadHistory={actions.handleLoadFullHistory}
+                  onSetLedgerMode={handleSetLedgerMode}
+                  onReconcile={handleReconcileLedger}
+                  onRebuildFromLedger={handleRebuildFromLedger}
+                />
+              } />
+
+              <Route path="/sync-conflicts" element={
+                <SyncConflictsPage conflicts={syncConflicts} onResolve={handleResolveConflict} />
               } />
 
               <Route path="/map" element={
@@ -325,15 +769,67 @@ function App() {
                   inventory={inventory}
                   products={products}
                   masterLocations={masterLocations}
+                  layout={activeLayout}
                   onInventoryChange={handleMapInventoryChange}
+                  onToggleBinStatus={can(currentUser, 'toggleBins') ? actions.handleToggleBinStatus : undefined}
+                  onUpdateBinCapacity={can(currentUser, 'toggleBins') ? actions.handleUpdateBinCapacity : undefined}
+                />
+              } />
+
+              <Route path="/locations" element={
+                <LocationPage
+                  locations={masterLocations}
+                  layout={activeLayout}
+                  inventory={inventory}
+                  products={products}
+                  readOnly={!can(currentUser, 'toggleBins')}
+                  onRenameBin={actions.handleUpdateBinName}
                   onToggleBinStatus={actions.handleToggleBinStatus}
+                  onOpenLayout={can(currentUser, 'changeSettings') ? () => navigate('/layout') : undefined}
+                />
+              } />
+
+              <Route path="/categories" element={
+                <CategoryPage
+                  categories={itemCategories}
+                  products={products}
+                  inventory={inventory}
+                  readOnly={!can(currentUser, 'editProducts')}
+                  onAdd={(value) => actions.handleAddMasterValue('category', value)}
+                  onUpdate={(from, to) => actions.handleRenameMasterValue('category', from, to)}
+                  onDelete={(value) => actions.handleDeleteMasterValue('category', value)}
+                />
+              } />
+
+              <Route path="/units" element={
+                <UnitsPage
+                  units={units}
+                  products={products}
+                  inventory={inventory}
+                  readOnly={!can(currentUser, 'editProducts')}
+                  onAdd={(value) => actions.handleAddMasterValue('unit', value)}
+                  onUpdate={(from, to) => actions.handleRenameMasterValue('unit', from, to)}
+                  onDelete={(value) => actions.handleDeleteMasterValue('unit', value)}
+                />
+              } />
+
+              <Route path="/utilization" element={
+                <BinUtilizationPage
+                  inventory={inventory}
+                  products={products}
+                  masterLocations={masterLocations}
+                  layout={activeLayout}
                 />
               } />
 
               <Route path="/products" element={
                 <ProductPage
                   products={products}
+                  suppliers={suppliers}
+                  categories={itemCategories}
+                  units={units}
                   onUpdateProducts={handleUpdateProducts}
+                  readOnly={!can(currentUser, 'editProducts')}
                   gasUrl={gasConfig.url}
                 />
               } />
@@ -342,7 +838,11 @@ function App() {
                 <SmartPickPage
                   inventory={inventory}
                   products={products}
-                  onProcessOutbound={handleOutboundProcess}
+                  palletRules={palletRules}
+                  canEditRules={can(currentUser, 'managePickingRules')}
+                  onSavePalletRules={actions.handleSavePalletRules}
+                  onProcessOutbound={(items, note, manifestId) => handleOutboundProcess(items, note, undefined, undefined, { manifestId })}
+                  onLearnAliases={actions.handleLearnProductAliases}
                 />
               } />
 
@@ -356,6 +856,16 @@ function App() {
                 />
               } />
 
+              <Route path="/putaway" element={
+                <PutawayPage
+                  inventory={inventory}
+                  products={products}
+                  masterLocations={masterLocations}
+                  putawaySettings={putawaySettings}
+                  onMove={handleMoveStock}
+                />
+              } />
+
               <Route path="*" element={<Navigate to="/dashboard" replace />} />
             </Routes>
           </ErrorBoundary>
@@ -363,14 +873,7 @@ function App() {
       </div>
 
       {/* Global Modal */}
-      <ConfirmModal
-        isOpen={modalConfig.isOpen}
-        onClose={closeModal}
-        onConfirm={modalConfig.onConfirm}
-        title={modalConfig.title}
-        message={modalConfig.message}
-        type={modalConfig.type}
-      />
+      {modal}
     </div>
   );
 }
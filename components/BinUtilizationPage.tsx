@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import { InventoryItem, MasterLocation, Product, WarehouseLayout } from '../types';
+import { getAreaUtilization } from '../services/binCapacity';
+import { getAreaName } from '../services/warehouseLayout';
+import { getOccupancyColor } from '../utils';
+import { Gauge, AlertTriangle } from 'lucide-react';
+
+interface BinUtilizationPageProps {
+    inventory: InventoryItem[];
+    products: Product[];
+    masterLocations: MasterLocation[];
+    layout: WarehouseLayout;
+}
+
+const toPercent = (used: number, capacity: number) => capacity > 0 ? Math.round((used / capacity) * 100) : undefined;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const UsageCell: React.FC<{ used: number; capacity: number }> = ({ used, capacity }) => {
+    const percent = toPercent(used, capacity);
+    if (percent === undefined) return <span className="text-slate-600">-</span>;
+    return (
+        <div className="flex items-center justify-end gap-2">
+            <span className="font-mono text-slate-300">{round(used)} / {capacity}</span>
+            <span className={`text-xs font-bold px-1.5 py-0.5 rounded border ${getOccupancyColor(percent)}`}>{percent}%</span>
+        </div>
+    );
+};
+
+/**
+ * Occupancy per area of the warehouse layout. Pallet and case figures only cover bins that have
+ * a capacity in that unit (set on the Visual Map); disabled bins are left out.
+ */
+const BinUtilizationPage: React.FC<BinUtilizationPageProps> = ({ inventory, products, masterLocations, layout }) => {
+    const rows = useMemo(() => getAreaUtilization(masterLocations, inventory, products), [masterLocations, inventory, products]);
+
+    const totals = rows.reduce((acc, r) => ({
+        bins: acc.bins + r.bins,
+        occupiedBins: acc.occupiedBins + r.occupiedBins,
+        limitedBins: acc.limitedBins + r.limitedBins,
+        overfilledBins: acc.overfilledBins + r.overfilledBins,
+        pallets: { used: acc.pallets.used + r.pallets.used, capacity: acc.pallets.capacity + r.pallets.capacity },
+        cases: { used: acc.cases.used + r.cases.used, capacity: acc.cases.capacity + r.cases.capacity }
+    }), { bins: 0, occupiedBins: 0, limitedBins: 0, overfilledBins: 0, pallets: { used: 0, capacity: 0 }, cases: { used: 0, capacity: 0 } });
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex items-center gap-3">
+                    <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                        <Gauge className="w-6 h-6 text-primary" />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Bin Utilization</h2>
+                        <p className="text-sm text-slate-400">
+                            Occupancy per area. {totals.limitedBins} of {totals.bins} active bins have a capacity - set it per bin, level or rack on the Visual Map.
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {totals.overfilledBins > 0 && (
+                <div className="bg-red-500/10 border border-red-500/30 text-red-300 rounded-xl p-4 text-sm flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 shrink-0" /> {totals.overfilledBins} bin(s) are over capacity. Use the heat layer on the Visual Map to find them.
+                </div>
+            )}
+
+            <div className="bg-slate-900/60 backdrop-blur-md rounded-xl border border-white/10 overflow-hidden">
+                <table className="w-full text-left text-sm text-slate-400">
+                    <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                        <tr>
+                            <th className="px-4 py-3">Area</th>
+                            <th className="px-4 py-3 text-right">Occupied Bins</th>
+                            <th className="px-4 py-3 text-right">Pallet Positions</th>
+                            <th className="px-4 py-3 text-right">Cases</th>
+                            <th className="px-4 py-3 text-right">Over Capacity</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5">
+                        {rows.map(r => (
+                            <tr key={r.area} className="hover:bg-white/5">
+                                <td className="px-4 py-3">
+                                    <div className="font-bold text-slate-200">{getAreaName(layout, r.area)}</div>
+                                    <div className="text-xs text-slate-500">{r.limitedBins} of {r.bins} bins with a capacity</div>
+                                </td>
+                                <td className="px-4 py-3 text-right">
+                                    <UsageCell used={r.occupiedBins} capacity={r.bins} />
+                                </td>
+                                <td className="px-4 py-3 text-right"><UsageCell used={r.pallets.used} capacity={r.pallets.capacity} /></td>
+                                <td className="px-4 py-3 text-right"><UsageCell used={r.cases.used} capacity={r.cases.capacity} /></td>
+                                <td className={`px-4 py-3 text-right font-mono font-bold ${r.overfilledBins > 0 ? 'text-red-400' : 'text-slate-600'}`}>{r.overfilledBins}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot className="bg-black/40 border-t border-white/10 font-bold">
+                        <tr>
+                            <td className="px-4 py-3 text-slate-200 uppercase text-xs tracking-wider">Warehouse</td>
+                            <td className="px-4 py-3 text-right"><UsageCell used={totals.occupiedBins} capacity={totals.bins} /></td>
+                            <td className="px-4 py-3 text-right"><UsageCell used={totals.pallets.used} capacity={totals.pallets.capacity} /></td>
+                            <td className="px-4 py-3 text-right"><UsageCell used={totals.cases.used} capacity={totals.cases.capacity} /></td>
+                            <td className={`px-4 py-3 text-right font-mono ${totals.overfilledBins > 0 ? 'text-red-400' : 'text-slate-600'}`}>{totals.overfilledBins}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default BinUtilizationPage;
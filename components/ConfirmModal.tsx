@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { X, AlertTriangle, CheckCircle, Info } from 'lucide-react';
 
 export type ModalType = 'info' | 'confirm' | 'danger' | 'warning';
@@ -6,12 +6,13 @@ export type ModalType = 'info' | 'confirm' | 'danger' | 'warning';
 interface ConfirmModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm?: () => void;
+  onConfirm?: (reason?: string) => void;
   title: string;
   message: string;
   type?: ModalType;
   confirmText?: string;
   cancelText?: string;
+  reasonLabel?: string; // Asks for a reason; Confirm stays disabled until one is given
 }
 
 const ConfirmModal: React.FC<ConfirmModalProps> = ({
@@ -22,8 +23,15 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
   message,
   type = 'info',
   confirmText = 'Confirm',
-  cancelText = 'Cancel'
+  cancelText = 'Cancel',
+  reasonLabel
 }) => {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setReason('');
+  }, [isOpen, title, message]);
+
   if (!isOpen) return null;
 
   const getIcon = () => {
@@ -61,11 +69,22 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
         {/* Body */}
         <div className="px-6 py-4">
           <p className="text-slate-600 text-sm leading-relaxed whitespace-pre-wrap">{message}</p>
+          {reasonLabel && (
+            <div className="mt-3">
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{reasonLabel}</label>
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                autoFocus
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-800 outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+          )}
         </div>
 
         {/* Footer */}
         <div className="px-6 py-4 bg-slate-50 flex justify-end gap-3">
-          {(type === 'confirm' || type === 'danger') && (
+          {(type === 'confirm' || type === 'danger' || reasonLabel) && (
             <button
               onClick={onClose}
               className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg font-medium text-sm transition-colors"
@@ -76,17 +95,19 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
 
           <button
             onClick={() => {
-              if (onConfirm) onConfirm();
-              onClose(); // Auto close on simple alerts, or logic handles it
+              // Close first, so a confirm action can open the next dialog
+              onClose();
+              if (onConfirm) onConfirm(reasonLabel ? reason.trim() : undefined);
             }}
-            className={`px-6 py-2 rounded-lg text-white font-bold text-sm shadow-md transition-all transform active:scale-95 ${type === 'danger'
+            disabled={!!reasonLabel && !reason.trim()}
+            className={`px-6 py-2 rounded-lg text-white font-bold text-sm shadow-md transition-all transform active:scale-95 disabled:opacity-50 ${type === 'danger'
                 ? 'bg-red-600 hover:bg-red-700 shadow-red-200'
                 : type === 'warning'
                   ? 'bg-amber-500 hover:bg-amber-600 shadow-amber-200 text-white'
                   : 'bg-primary hover:opacity-90 shadow-slate-200'
               }`}
           >
-            {type === 'info' ? 'OK' : confirmText}
+            {type === 'info' && !reasonLabel ? 'OK' : confirmText}
           </button>
         </div>
       </div>
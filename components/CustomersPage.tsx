@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { Customer, OutboundOrder } from '../types';
+import { smartSearch } from '../utils';
+import { Store, Plus, Edit, Trash2, X, Save, Search, Phone, MapPin } from 'lucide-react';
+
+interface CustomersPageProps {
+    customers: Customer[];
+    outboundOrders: OutboundOrder[];
+    readOnly?: boolean;
+    onSaveCustomer: (customer: Omit<Customer, 'id' | 'updatedAt'> & { id?: string }) => boolean;
+    onDeleteCustomer: (id: string) => void;
+}
+
+type Draft = {
+    id?: string;
+    name: string;
+    kind: Customer['kind'];
+    address: string;
+    contactName: string;
+    phone: string;
+    notes: string;
+};
+
+const EMPTY_DRAFT: Draft = { name: '', kind: 'customer', address: '', contactName: '', phone: '', notes: '' };
+
+const KIND_LABELS: Record<Customer['kind'], string> = {
+    customer: 'Customer',
+    internal: 'Internal'
+};
+
+const CustomersPage: React.FC<CustomersPageProps> = ({ customers, outboundOrders, readOnly = false, onSaveCustomer, onDeleteCustomer }) => {
+    const [searchTerm, setSearchTerm] = useState('');
+    const [draft, setDraft] = useState<Draft | null>(null);
+
+    const visibleCustomers = customers
+        .filter(c => smartSearch(c, ['name', 'address', 'contactName', 'phone'], searchTerm))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    const openEditor = (c?: Customer) => {
+        setDraft(c ? {
+            id: c.id,
+            name: c.name,
+            kind: c.kind,
+            address: c.address || '',
+            contactName: c.contactName || '',
+            phone: c.phone || '',
+            notes: c.notes || ''
+        } : { ...EMPTY_DRAFT });
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+        const ok = onSaveCustomer({
+            id: draft.id,
+            name: draft.name,
+            kind: draft.kind,
+            address: draft.address.trim() || undefined,
+            contactName: draft.contactName.trim() || undefined,
+            phone: draft.phone.trim() || undefined,
+            notes: draft.notes.trim() || undefined
+        });
+        if (ok) setDraft(null);
+    };
+
+    const inputClass = 'w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none';
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                            <Store className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Customers & Destinations</h2>
+                            <p className="text-sm text-slate-400">Stores and sites orders ship to, including our own kitchens.</p>
+                        </div>
+                    </div>
+                    {!readOnly && (
+                        <button
+                            onClick={() => openEditor()}
+                            className="px-4 py-2 bg-primary/20 text-primary border border-primary/50 rounded-lg hover:bg-primary/30 flex items-center gap-2 text-sm font-bold transition-all shadow-[0_0_10px_rgba(139,92,246,0.3)]"
+                        >
+                            <Plus className="w-4 h-4" /> Add Customer
+                        </button>
+                    )}
+                </div>
+                <div className="relative w-full md:w-96 mt-6">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-500 w-4 h-4" />
+                    <input
+                        type="text"
+                        placeholder="Search customers..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="w-full pl-9 pr-4 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                    />
+                </div>
+            </div>
+
+            <div className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm text-slate-400">
+                        <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                            <tr>
+                                <th className="px-6 py-4">Name</th>
+                                <th className="px-6 py-4">Type</th>
+                                <th className="px-6 py-4">Ship To</th>
+                                <th className="px-6 py-4">Contact</th>
+                                <th className="px-6 py-4 text-right">Open Orders</th>
+                                {!readOnly && <th className="px-6 py-4 text-right">Actions</th>}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {visibleCustomers.map(c => (
+                                <tr key={c.id} className="hover:bg-white/5 transition-colors">
+                                    <td className="px-6 py-4">
+                                        <div className="font-medium text-slate-200">{c.name}</div>
+                                        {c.notes && <div className="text-xs text-slate-500">{c.notes}</div>}
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border ${c.kind === 'internal' ? 'bg-blue-500/20 text-blue-400 border-blue-500/30' : 'bg-slate-800 text-slate-300 border-white/10'}`}>
+                                            {KIND_LABELS[c.kind]}
+                                        </span>
+                                    </td>
+                                    <td className="px-6 py-4 text-xs">
+                                        {c.address ? <div className="flex items-start gap-1 whitespace-pre-line"><MapPin className="w-3 h-3 mt-0.5 flex-none" /> {c.address}</div> : '-'}
+                                    </td>
+                                    <td className="px-6 py-4 text-xs space-y-0.5">
+                                        {c.contactName && <div className="text-slate-300">{c.contactName}</div>}
+                                        {c.phone && <div className="flex items-center gap-1"><Phone className="w-3 h-3" /> {c.phone}</div>}
+                                    </td>
+                                    <td className="px-6 py-4 text-right font-mono">{outboundOrders.filter(o => o.customerId === c.id && o.status !== 'shipped').length}</td>
+                                    {!readOnly && (
+                                        <td className="px-6 py-4 text-right whitespace-nowrap">
+                                            <button onClick={() => openEditor(c)} className="p-2 text-slate-400 hover:text-blue-400 transition-colors" title="Edit">
+                                                <Edit className="w-4 h-4" />
+                                            </button>
+                                            <button onClick={() => onDeleteCustomer(c.id)} className="p-2 text-slate-400 hover:text-red-400 transition-colors" title="Remove">
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                            {visibleCustomers.length === 0 && (
+                                <tr>
+                                    <td colSpan={6} className="p-10 text-center text-slate-500">No customers yet.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {draft && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                    <form onSubmit={handleSave} className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-slate-900 border border-white/10 rounded-xl shadow-2xl p-6 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-bold text-white">{draft.id ? 'Edit Customer' : 'New Customer'}</h3>
+                            <button type="button" onClick={() => setDraft(null)} className="text-slate-500 hover:text-white transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            <div className="md:col-span-2">
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Name</label>
+                                <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Costco #1024" autoFocus className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Type</label>
+                                <select value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as Customer['kind'] })} className={inputClass}>
+                                    {(Object.keys(KIND_LABELS) as Customer['kind'][]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+                                </select>
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Ship-To Address</label>
+                            <textarea value={draft.address} onChange={(e) => setDraft({ ...draft, address: e.target.value })} rows={3} className={inputClass} />
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Contact</label>
+                                <input type="text" value={draft.contactName} onChange={(e) => setDraft({ ...draft, contactName: e.target.value })} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Phone</label>
+                                <input type="tel" value={draft.phone} onChange={(e) => setDraft({ ...draft, phone: e.target.value })} className={inputClass} />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Notes</label>
+                            <input type="text" value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} placeholder="Dock hours, delivery instructions..." className={inputClass} />
+                        </div>
+
+                        <div className="flex justify-end gap-2 pt-2">
+                            <button
+                                type="button"
+                                onClick={() => setDraft(null)}
+                                className="px-4 py-2 rounded-lg text-sm font-bold text-slate-400 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 transition-colors"
+                            >
+                                <Save className="w-4 h-4" /> Save
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CustomersPage;
@@ -1,6 +1,5 @@
 import React, { useMemo } from 'react';
-import { InventoryItem, Transaction, Product } from '../types';
-import { AREA_CONFIG } from '../consts/warehouse';
+import { InventoryItem, Transaction, Product, WarehouseLayout, getBatchExpiry } from '../types';
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, AreaChart, Area, CartesianGrid } from 'recharts';
 import { format } from 'date-fns';
 
@@ -10,6 +9,7 @@ interface DashboardChartsProps {
     products: Product[];
     topMovers: any[];
     deadStock: any[];
+    layout: WarehouseLayout;
 }
 
 const COLORS = ['#8b5cf6', '#10b981', '#f59e0b', '#ef4444', '#3b82f6', '#6366f1'];
@@ -27,7 +27,7 @@ const renderCustomizedLabel = ({ cx, cy, midAngle, innerRadius, outerRadius, per
     );
 };
 
-const DashboardCharts: React.FC<DashboardChartsProps> = ({ inventory, transactions, products, topMovers, deadStock }) => {
+const DashboardCharts: React.FC<DashboardChartsProps> = ({ inventory, transactions, products, topMovers, deadStock, layout }) => {
 
     // 1. Slot Distribution Data (Count of locations/pallets instead of raw qty)
     const categoryData = useMemo(() => {
@@ -58,17 +58,11 @@ const DashboardCharts: React.FC<DashboardChartsProps> = ({ inventory, transactio
     const rackData = useMemo(() => {
         const counts: Record<string, number> = {};
 
-        // Use updated keys from AREA_CONFIG (S, R, Z are already in there)
-        const racks = Object.keys(AREA_CONFIG).sort((a, b) => {
-            // Optional: Custom sort to put S, R, Z first or alphabetical
-            const priority = ['S', 'R', 'Z'];
-            const idxA = priority.indexOf(a);
-            const idxB = priority.indexOf(b);
-            if (idxA !== -1 && idxB !== -1) return idxA - idxB;
-            if (idxA !== -1) return -1;
-            if (idxB !== -1) return 1;
-            return a.localeCompare(b);
-        });
+        // Block areas (staging, reserve, ...) first in layout order, then the racks alphabetically
+        const racks = [
+            ...layout.areas.filter(a => a.kind === 'area'),
+            ...layout.areas.filter(a => a.kind === 'rack').sort((a, b) => a.code.localeCompare(b.code))
+        ].map(a => a.code);
 
         racks.forEach(r => counts[r] = 0); // Init
 
@@ -87,7 +81,7 @@ const DashboardCharts: React.FC<DashboardChartsProps> = ({ inventory, transactio
         });
 
         return racks.map(rack => ({ name: rack, count: counts[rack] }));
-    }, [inventory]);
+    }, [inventory, layout]);
 
     // 4. Activity Trends Data (Last 7 Days)
     const activityData = useMemo(() => {
@@ -113,6 +107,36 @@ const DashboardCharts: React.FC<DashboardChartsProps> = ({ inventory, transactio
         return Object.values(data);
     }, [transactions]);
 
+    // 5. Expiry Horizon (Batch count per bucket, quarantined batches excluded)
+    const expiryData = useMemo(() => {
+        const DAY = 24 * 60 * 60 * 1000;
+        const now = new Date();
+        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+        const buckets = [
+            { name: 'Expired', count: 0, fill: '#ef4444' },
+            { name: '≤ 7d', count: 0, fill: '#f97316' },
+            { name: '≤ 30d', count: 0, fill: '#f59e0b' },
+            { name: '≤ 90d', count: 0, fill: '#10b981' },
+            { name: '> 90d', count: 0, fill: '#3b82f6' },
+        ];
+
+        inventory.forEach(item => {
+            if (item.status === 'quarantine') return;
+            const product = products.find(p => p.productCode === item.productCode);
+            const expiry = getBatchExpiry(item, product);
+            if (!expiry) return;
+
+            const daysLeft = (expiry - today) / DAY;
+            if (daysLeft < 0) buckets[0].count++;
+            else if (daysLeft <= 7) buckets[1].count++;
+            else if (daysLeft <= 30) buckets[2].count++;
+            else if (daysLeft <= 90) buckets[3].count++;
+            else buckets[4].count++;
+        });
+
+        return buckets;
+    }, [inventory, products]);
+
     return (
         <div className="space-y-6 mt-6">
             {/* Row 1: Pies & Trends */}
@@ -277,6 +301,28 @@ const DashboardCharts: React.FC<DashboardChartsProps> = ({ inventory, transactio
                     </div>
                 </div>
             </div>
+
+            {/* Row 3: Expiry Horizon */}
+            <div className="bg-slate-900/60 p-6 rounded-xl border border-white/10 backdrop-blur-md shadow-[0_0_15px_rgba(0,0,0,0.3)]">
+                <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">Expiry Horizon (Batches)</h3>
+                <div className="h-48">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={expiryData}>
+                            <XAxis dataKey="name" stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} />
+                            <YAxis stroke="#64748b" fontSize={10} tickLine={false} axisLine={false} allowDecimals={false} />
+                            <Tooltip
+                                cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                                contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#fff' }}
+                            />
+                            <Bar dataKey="count" radius={[4, 4, 0, 0]} name="Batches">
+                                {expiryData.map(entry => (
+                                    <Cell key={entry.name} fill={entry.fill} />
+                                ))}
+                            </Bar>
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
         </div>
     );
 };
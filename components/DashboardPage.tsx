@@ -1,28 +1,90 @@
 import React from 'react';
-import { InventoryItem, Transaction, Product } from '../types';
-import { AlertTriangle, Tag, Boxes, Users } from 'lucide-react';
+import { InventoryItem, Transaction, Product, WarehouseLayout } from '../types';
+import { ReorderSuggestion } from '../services/reorder';
+import { AlertTriangle, Tag, Boxes, Users, CalendarClock, ShieldAlert, ShieldCheck } from 'lucide-react';
 import { getCategoryColor } from '../utils';
 import DashboardCharts from './DashboardCharts';
 
+interface ExpiryAlert {
+    item: InventoryItem;
+    expiryDate: number;
+    daysLeft: number;
+}
+
 interface DashboardProps {
     inventory: InventoryItem[];
     inventorySummary: any[]; // Or specific type
     products: Product[];
-    lowStockItems: any[];
+    reorderSuggestions: ReorderSuggestion[];
     topMovers: any[];
     deadStock: any[];
     transactions: Transaction[];
+    expiredBatches?: ExpiryAlert[];
+    expiringBatches?: ExpiryAlert[];
+    expiryWarningDays?: number;
+    onChangeExpiryWarningDays?: (days: number) => void;
+    onQuarantineBatch?: (id: string, hold: boolean) => void;
+    layout: WarehouseLayout;
 }
 
+const EXPIRY_WINDOW_OPTIONS = [7, 14, 30, 60];
+
 const DashboardPage: React.FC<DashboardProps> = ({
     inventory,
     inventorySummary,
     products,
-    lowStockItems,
+    reorderSuggestions,
     topMovers,
     deadStock,
-    transactions
+    transactions,
+    expiredBatches = [],
+    expiringBatches = [],
+    expiryWarningDays = 14,
+    onChangeExpiryWarningDays,
+    onQuarantineBatch,
+    layout
 }) => {
+    const renderExpiryRow = (alert: ExpiryAlert, isExpired: boolean) => {
+        const { item, expiryDate, daysLeft } = alert;
+        const isHeld = item.status === 'quarantine';
+        return (
+            <div key={item.id} className={`bg-slate-900/60 p-3 rounded-lg border flex items-center justify-between gap-3 backdrop-blur-md ${isExpired ? 'border-red-500/20' : 'border-amber-500/20'}`}>
+                <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                        <span className="font-bold text-slate-200 truncate">{item.productName}</span>
+                        <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${getCategoryColor(item.category)}`}>{item.category}</span>
+                    </div>
+                    <div className="text-xs text-slate-500 font-mono mt-0.5">
+                        {item.productCode}
+                        {item.lotNumber ? ` • LOT ${item.lotNumber}` : ''}
+                        {' • '}{item.locations.map(l => `${l.rack}-${l.bay}-${l.level}`).join(', ')}
+                    </div>
+                </div>
+                <div className="text-right flex-none">
+                    <div className="text-white font-bold font-mono">{item.quantity} <span className="text-xs text-slate-500">{item.unit}</span></div>
+                    <div className={`text-[10px] font-bold uppercase ${isExpired ? 'text-red-400' : 'text-amber-400'}`}>
+                        {isExpired ? `Expired ${Math.abs(daysLeft)}d ago` : daysLeft === 0 ? 'Expires today' : `${daysLeft}d left`}
+                        <span className="text-slate-500 font-mono normal-case"> ({new Date(expiryDate).toLocaleDateString()})</span>
+                    </div>
+                </div>
+                {onQuarantineBatch && (
+                    <button
+                        onClick={() => onQuarantineBatch(item.id, !isHeld)}
+                        className={`flex-none px-2 py-1 rounded text-[10px] font-bold uppercase border flex items-center gap-1 transition-colors ${isHeld
+                            ? 'bg-slate-800 text-slate-300 border-white/10 hover:bg-slate-700'
+                            : 'bg-red-500/20 text-red-400 border-red-500/30 hover:bg-red-500/30'
+                            }`}
+                        title={isHeld ? 'Release batch back to pickable stock' : 'Place batch on hold (excluded from picking)'}
+                    >
+                        {isHeld ? <><ShieldCheck className="w-3 h-3" /> Release</> : <><ShieldAlert className="w-3 h-3" /> Quarantine</>}
+                    </button>
+                )}
+            </div>
+        );
+    };
+
+    const criticalItems = reorderSuggestions.filter(s => s.urgency === 'critical');
+
     return (
         <div className="space-y-6 animate-in fade-in duration-500 pb-10">
             <div className="flex justify-between items-end">
@@ -30,14 +92,14 @@ const DashboardPage: React.FC<DashboardProps> = ({
             </div>
 
             {/* Alerts Section */}
-            {lowStockItems.length > 0 && (
+            {criticalItems.length > 0 && (
                 <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-6 shadow-[0_0_20px_rgba(239,68,68,0.1)] relative overflow-hidden group">
                     <div className="absolute inset-0 bg-red-500/5 group-hover:bg-red-500/10 transition-colors"></div>
                     <h3 className="text-red-400 font-bold text-xl flex items-center gap-2 mb-4 font-display relative z-10">
                         <AlertTriangle className="w-6 h-6" /> Critical Warnings
                     </h3>
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 relative z-10">
-                        {lowStockItems.map(item => (
+                        {criticalItems.map(item => (
                             <div key={item.productCode} className="bg-slate-900/60 p-4 rounded-lg border border-red-500/20 shadow-sm flex flex-col justify-between hover:border-red-500/50 transition-colors backdrop-blur-md">
                                 <div className="flex justify-between items-start mb-2">
                                     <div className="flex-1">
@@ -51,24 +113,73 @@ const DashboardPage: React.FC<DashboardProps> = ({
                                 <div className="flex justify-between items-end border-t border-white/5 pt-2 mt-1">
                                     <div className="text-xs text-slate-500 uppercase tracking-widest">Stock Level</div>
                                     <div className="text-red-400 font-bold font-mono text-lg">
-                                        {item.qty} <span className="text-xs font-normal text-slate-600">/ {item.minStockLevel} {item.unit}</span>
+                                        {item.onHand} <span className="text-xs font-normal text-slate-600">/ {item.minStockLevel} {item.unit}</span>
                                     </div>
                                 </div>
+                                <div className="flex justify-between text-xs text-slate-500 mt-1">
+                                    <span>{item.onOrder > 0 ? `${item.onOrder} on order` : item.supplier?.name || 'No supplier'}</span>
+                                    <span className="font-mono">Order {item.suggestedQty}</span>
+                                </div>
                             </div>
                         ))}
                     </div>
                 </div>
             )}
 
+            {/* Expiry Alert Center */}
+            <div className="bg-slate-900/60 border border-white/10 rounded-xl p-6 backdrop-blur-md shadow-[0_0_15px_rgba(0,0,0,0.3)]">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                    <h3 className="text-amber-400 font-bold text-xl flex items-center gap-2 font-display">
+                        <CalendarClock className="w-6 h-6" /> Expiry Alerts
+                    </h3>
+                    <div className="flex items-center gap-2 text-xs text-slate-400">
+                        <span className="uppercase font-bold tracking-wider">Warn within</span>
+                        {EXPIRY_WINDOW_OPTIONS.map(days => (
+                            <button
+                                key={days}
+                                onClick={() => onChangeExpiryWarningDays?.(days)}
+                                className={`px-3 py-1 rounded-full font-bold border transition-colors ${expiryWarningDays === days
+                                    ? 'bg-amber-500 text-black border-amber-500'
+                                    : 'bg-slate-800 text-slate-400 border-white/5 hover:text-amber-400'
+                                    }`}
+                            >
+                                {days}d
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {expiredBatches.length === 0 && expiringBatches.length === 0 ? (
+                    <p className="text-sm text-slate-500 italic">No batches expired or expiring within {expiryWarningDays} days.</p>
+                ) : (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div>
+                            <p className="text-xs font-bold text-red-400 uppercase tracking-widest mb-2">Expired ({expiredBatches.length})</p>
+                            <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+                                {expiredBatches.length === 0 && <p className="text-sm text-slate-500 italic">None</p>}
+                                {expiredBatches.map(alert => renderExpiryRow(alert, true))}
+                            </div>
+                        </div>
+                        <div>
+                            <p className="text-xs font-bold text-amber-400 uppercase tracking-widest mb-2">Expiring ≤ {expiryWarningDays}d ({expiringBatches.length})</p>
+                            <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+                                {expiringBatches.length === 0 && <p className="text-sm text-slate-500 italic">None</p>}
+                                {expiringBatches.map(alert => renderExpiryRow(alert, false))}
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="bg-slate-900/60 p-6 rounded-xl border border-white/10 hover:border-accent/50 transition-all backdrop-blur-md group shadow-[0_0_15px_rgba(0,0,0,0.3)]">
                     <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mb-1 group-hover:text-accent transition-colors">Products</p>
                     <p className="text-4xl font-bold text-white font-display">{inventorySummary.length}</p>
                 </div>
                 <div className="bg-slate-900/60 p-6 rounded-xl border border-white/10 hover:border-red-500/50 transition-all backdrop-blur-md group shadow-[0_0_15px_rgba(0,0,0,0.3)]">
-                    <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mb-1 group-hover:text-red-400 transition-colors">Low Stock</p>
+                    <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mb-1 group-hover:text-red-400 transition-colors">To Reorder</p>
                     <p className="text-4xl font-bold text-red-400 font-display">
-                        {lowStockItems.length}
+                        {reorderSuggestions.length}
                     </p>
                 </div>
                 <div className="bg-slate-900/60 p-6 rounded-xl border border-white/10 hover:border-blue-500/50 transition-all backdrop-blur-md group shadow-[0_0_15px_rgba(0,0,0,0.3)]">
@@ -86,6 +197,7 @@ const DashboardPage: React.FC<DashboardProps> = ({
                 products={products}
                 topMovers={topMovers}
                 deadStock={deadStock}
+                layout={layout}
             />
         </div>
     );
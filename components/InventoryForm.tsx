@@ -1,24 +1,36 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Product, InventoryItem, MasterLocation, InventoryLocation, generateId } from '../types';
-import { AREA_CONFIG, LEVELS, BAYS_PER_RACK } from '../consts/warehouse';
-import { smartSearch, filterBinCodes, getEmbedLink } from '../utils';
-import { X, CheckCircle, Save, MapPin, Lock, Check, Package, ChevronDown } from 'lucide-react';
+import { Product, InventoryItem, MasterLocation, InventoryLocation, PurchaseOrder, PutawaySettings, generateId } from '../types';
+import { ReceiptLineInput } from '../services/purchaseOrders';
+import { smartSearch, filterBinCodes, getEmbedLink, toDateInputValue, fromDateInputValue } from '../utils';
+import { PUTAWAY_REASON_LABELS, findReceivingBin, suggestPutaway } from '../services/putaway';
+import { DEFAULT_PUTAWAY_SETTINGS } from '../config/putawayConfig';
+import { convertQty, getUnitFactors } from '../services/unitConversion';
+import { X, CheckCircle, Save, MapPin, Lock, Check, ChevronDown, CalendarClock } from 'lucide-react';
 import ConfirmModal, { ModalType } from './ConfirmModal';
+import PurchaseOrderReceiving from './PurchaseOrderReceiving';
 
 interface InventoryFormProps {
   products: Product[];
   inventory?: InventoryItem[]; // Added for auto-bin logic
   masterLocations?: MasterLocation[]; // Now optional but recommended
+  putawaySettings?: PutawaySettings; // Bin suggestions and auto-assign
   initialData?: InventoryItem | null;
   onSave: (item: Omit<InventoryItem, 'id' | 'updatedAt'>) => void;
   onCancel: () => void;
+  // Receiving against purchase orders (hidden when not provided)
+  purchaseOrders?: PurchaseOrder[];
+  initialPurchaseOrderId?: string;
+  onReceivePurchaseOrder?: (poId: string, lines: ReceiptLineInput[], options: { date?: number; note?: string; closeShort?: boolean }) => boolean;
 }
 
-const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [], masterLocations = [], initialData, onSave, onCancel }) => {
+const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [], masterLocations = [], putawaySettings = DEFAULT_PUTAWAY_SETTINGS, initialData, onSave, onCancel, purchaseOrders, initialPurchaseOrderId, onReceivePurchaseOrder }) => {
+  const canReceivePO = !initialData && !!purchaseOrders && !!onReceivePurchaseOrder;
+  const [mode, setMode] = useState<'free' | 'po'>(initialPurchaseOrderId ? 'po' : 'free');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [quantity, setQuantity] = useState<string>('');
   const [unit, setUnit] = useState<string>('');
+  const [entryUnit, setEntryUnit] = useState<string>(''); // Unit the quantity is typed in; stored in `unit`
   // const [expandedImage, setExpandedImage] = useState<string | null | undefined>(null); // Removed per user request
   const [category, setCategory] = useState<string>('OTH');
   const [inboundType, setInboundType] = useState<string>('Purchase');
@@ -50,6 +62,12 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
   };
 
   const [notes, setNotes] = useState<string>('');
+
+  // Batch / Lot Tracking (Dates kept as YYYY-MM-DD strings until submit)
+  const [lotNumber, setLotNumber] = useState<string>('');
+  const [productionDate, setProductionDate] = useState<string>('');
+  const [expiryDate, setExpiryDate] = useState<string>('');
+
   const [locations, setLocations] = useState<InventoryLocation[]>([]);
 
   // Location Search State
@@ -84,6 +102,7 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
       setSearchTerm(`${initialData.productCode} - ${initialData.productName} `);
       setQuantity(initialData.quantity);
       setUnit(initialData.unit);
+      setEntryUnit(initialData.unit);
       setCategory(initialData.category);
       setCategory(initialData.category);
 
@@ -98,6 +117,10 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
         setNotes(existingNote);
       }
 
+      setLotNumber(initialData.lotNumber || '');
+      setProductionDate(toDateInputValue(initialData.productionDate));
+      setExpiryDate(toDateInputValue(initialData.expiryDate));
+
       setLocations(initialData.locations);
     }
   }, [initialData, products]);
@@ -125,16 +148,26 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
     return filterBinCodes(masterLocations, locationSearch).slice(0, 8);
   }, [locationSearch, masterLocations]);
 
+  const putawayContext = { products, inventory, masterLocations, settings: putawaySettings };
+  const putawaySuggestions = useMemo(() => {
+    if (!selectedProduct || initialData) return [];
+    return suggestPutaway(selectedProduct.productCode, unit, { products, inventory, masterLocations, settings: putawaySettings }, 4);
+  }, [selectedProduct, initialData, unit, products, inventory, masterLocations, putawaySettings]);
+
   const handleSelectProduct = (product: Product) => {
     setSelectedProduct(product);
     setSearchTerm(product.name);
     if (!initialData) {
       setCategory(product.defaultCategory || 'OTH');
       setUnit(product.defaultUnit || 'pcs');
+      setEntryUnit(product.defaultUnit || 'pcs');
     }
   };
 
-  const handleAddLocation = (loc: MasterLocation) => {
+  const unitOptions = useMemo(() => getUnitFactors(selectedProduct || undefined, unit), [selectedProduct, unit]);
+  const storedQty = selectedProduct ? convertQty(selectedProduct, Number(quantity) || 0, entryUnit || unit, unit) : undefined;
+
+  const handleAddLocation = (loc: MasterLocation | InventoryLocation) => {
     // Avoid duplicates
     const exists = locations.some(l =>
       l.rack === loc.rack && l.bay === loc.bay && l.level === loc.level
@@ -156,53 +189,41 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
       showAlert("Validation Error", "Please select a product and enter a valid quantity.", 'danger');
       return;
     }
+    if (storedQty === undefined) {
+      showAlert("Validation Error", `${selectedProduct.name} has no conversion from ${entryUnit} to ${unit}.`, 'danger');
+      return;
+    }
 
-    // Auto-assign Logic
+    const productionTs = fromDateInputValue(productionDate);
+    const expiryTs = fromDateInputValue(expiryDate);
+    if (productionTs && expiryTs && expiryTs < productionTs) {
+      showAlert("Validation Error", "Expiry date cannot be before the production date.", 'danger');
+      return;
+    }
+
+    // Auto-assign: next empty Transit bin, or the best putaway bin when Transit is full
     let finalLocations = locations;
 
     if (finalLocations.length === 0) {
-      // Logic: Find first empty 'T' bin
-      // We need to iterate through all possible T bins: T-1-1 to T-5-5
-      // Simplest way: Generate all T candidates and find first one not in inventory
-
-      let targetBin: InventoryLocation | null = null;
-
-      // Transit Config: 5 Bays, 5 Levels. 
-      // Iterate Bays 1-5, Levels 1-5. 
-      // Order: T-1-1, T-1-2 ... T-1-5, T-2-1 ...
-
-      outerLoop:
-      for (let b = 1; b <= 5; b++) {
-        for (let l = 1; l <= 5; l++) {
-          const levelStr = String(l);
-          // Check if occupied
-          const isOccupied = inventory.some(item =>
-            item.locations.some(loc => loc.rack === 'T' && loc.bay === b && loc.level === levelStr)
-          );
-
-          if (!isOccupied) {
-            targetBin = { rack: 'T', bay: b, level: levelStr };
-            break outerLoop;
-          }
-        }
-      }
-
-      // Fallback if all full -> T-1-1
-      if (!targetBin) {
-        targetBin = { rack: 'T', bay: 1, level: '1' };
+      const bin = findReceivingBin(selectedProduct.productCode, unit, putawayContext);
+      if (!bin) {
+        showAlert("No Free Bin", "Transit is full and no storage bin fits this product. Choose a bin or put away stock first.", 'warning');
+        return;
       }
-
-      finalLocations = [targetBin];
+      finalLocations = [bin];
     }
 
     onSave({
       productCode: selectedProduct.productCode,
       productName: selectedProduct.name,
-      quantity,
+      quantity: storedQty,
       unit,
       category,
 
       notes: `[${inboundType}] ${notes} `,
+      lotNumber: lotNumber.trim() || undefined,
+      productionDate: productionTs,
+      expiryDate: expiryTs,
       locations: finalLocations,
       // @ts-ignore
       date: getAdjustedTimestamp(date)
@@ -210,15 +231,19 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
 
     // Success State & Reset
     const locString = finalLocations.map(l => `${l.rack} -${l.bay} `).join(', ');
-    setSuccessMessage(`Received ${quantity} ${unit} of ${selectedProduct.name} at ${locString} `);
+    setSuccessMessage(`Received ${storedQty} ${unit} of ${selectedProduct.name} at ${locString} `);
 
     if (!initialData) {
       // Only reset if it's a new entry (not editing existing)
       setQuantity(0);
+      setEntryUnit(unit);
       setSelectedProduct(null);
       setSearchTerm('');
       setInboundType('Purchase');
       setNotes('');
+      setLotNumber('');
+      setProductionDate('');
+      setExpiryDate('');
       setLocations([]);
     }
   };
@@ -245,8 +270,36 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
             Editing Mode
           </span>
         )}
+        {canReceivePO && (
+          <div className="flex bg-black/40 border border-white/10 rounded-lg p-1">
+            {(['free', 'po'] as const).map(m => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMode(m)}
+                className={`px-3 py-1.5 rounded-md text-xs font-bold uppercase tracking-wide transition-colors ${mode === m ? 'bg-primary/20 text-primary' : 'text-slate-400 hover:text-white'}`}
+              >
+                {m === 'free' ? 'Free Entry' : 'Against PO'}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
+      {canReceivePO && mode === 'po' ? (
+        <PurchaseOrderReceiving
+          purchaseOrders={purchaseOrders!}
+          products={products}
+          masterLocations={masterLocations}
+          initialPoId={initialPurchaseOrderId}
+          onReceive={(poId, lines, options) => {
+            const ok = onReceivePurchaseOrder!(poId, lines, options);
+            const po = purchaseOrders!.find(p => p.id === poId);
+            if (ok && po) setSuccessMessage(`Received delivery against ${po.poNumber}`);
+            return ok;
+          }}
+        />
+      ) : (
       <form onSubmit={handleSubmit} className="space-y-6">
 
         {/* Product Search */}
@@ -308,35 +361,22 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
                 className="w-full px-4 py-2 border border-white/10 bg-black/40 text-slate-100 rounded-lg focus:ring-2 focus:ring-primary outline-none placeholder-slate-600 font-bold"
                 placeholder="Total Units"
               />
+              {unitOptions.length > 1 && (
+                <select
+                  value={entryUnit}
+                  onChange={(e) => setEntryUnit(e.target.value)}
+                  className="px-2 py-2 border border-white/10 bg-black/40 text-slate-100 rounded-lg focus:ring-2 focus:ring-primary outline-none font-bold"
+                  title="Unit the quantity is entered in"
+                >
+                  {unitOptions.map(u => <option key={u.unit} value={u.unit}>{u.unit}</option>)}
+                </select>
+              )}
             </div>
-            {selectedProduct && selectedProduct.countPerPallet ? (
-              <div className="mt-3 bg-violet-500/10 border border-violet-500/20 rounded-lg p-3">
-                <div className="flex justify-between items-center mb-2">
-                  <div className="flex items-center gap-1.5 text-violet-300">
-                    <Package className="w-3.5 h-3.5" />
-                    <span className="text-[10px] font-bold uppercase tracking-wider">Pallet Calc</span>
-                  </div>
-                  <div className="text-[10px] bg-violet-500/20 text-violet-200 px-1.5 py-0.5 rounded border border-violet-500/30">
-                    1 PLT = <strong>{selectedProduct.countPerPallet}</strong> {unit}
-                  </div>
-                </div>
-                <div className="relative">
-                  <input
-                    type="number"
-                    min="0"
-                    placeholder="Enter Pallet Count..."
-                    className="w-full pl-3 pr-12 py-2 bg-black/40 border border-violet-500/30 rounded-md text-sm text-white focus:ring-1 focus:ring-violet-500 outline-none placeholder-slate-600 font-bold"
-                    onChange={(e) => {
-                      const plt = parseFloat(e.target.value);
-                      if (!isNaN(plt) && selectedProduct.countPerPallet) {
-                        setQuantity(plt * selectedProduct.countPerPallet);
-                      }
-                    }}
-                  />
-                  <span className="absolute right-3 top-2 text-xs font-bold text-violet-500">PLTs</span>
-                </div>
-              </div>
-            ) : null}
+            {entryUnit && unit && entryUnit !== unit && (
+              <p className={`text-xs mt-1 ml-1 font-bold ${storedQty === undefined ? 'text-red-400' : 'text-violet-300'}`}>
+                {storedQty === undefined ? `No ${entryUnit} conversion` : `= ${storedQty} ${unit}`}
+              </p>
+            )}
           </div>
           <div className="col-span-1">
             <label className="block text-sm font-bold text-slate-400 mb-1 uppercase tracking-wider flex items-center gap-1">
@@ -396,6 +436,57 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
 
 
 
+        {/* Batch / Lot Tracking */}
+        <div className="border border-white/10 rounded-lg p-4 bg-black/20">
+          <div className="flex justify-between items-center mb-3">
+            <label className="block text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+              <CalendarClock className="w-4 h-4 text-primary" /> Batch / Lot
+            </label>
+            <span className="text-xs text-slate-500 italic">
+              {selectedProduct?.shelfLifeDays ? `Shelf life: ${selectedProduct.shelfLifeDays} days • ` : ''}Expiry drives FEFO picking
+            </span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-400 mb-1 uppercase tracking-wider">Lot Number</label>
+              <input
+                type="text"
+                value={lotNumber}
+                onChange={(e) => setLotNumber(e.target.value)}
+                placeholder="e.g. L240815"
+                className="w-full px-3 py-2 border border-white/10 bg-black/40 text-slate-100 rounded-lg focus:ring-2 focus:ring-primary outline-none placeholder-slate-600 font-bold font-mono"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 mb-1 uppercase tracking-wider">Production Date</label>
+              <input
+                type="date"
+                value={productionDate}
+                onChange={(e) => {
+                  setProductionDate(e.target.value);
+                  // Auto-fill expiry from Product shelf life (only if not entered manually)
+                  const prodTs = fromDateInputValue(e.target.value);
+                  if (prodTs && !expiryDate && selectedProduct?.shelfLifeDays) {
+                    const expiry = new Date(prodTs);
+                    expiry.setDate(expiry.getDate() + selectedProduct.shelfLifeDays);
+                    setExpiryDate(toDateInputValue(expiry.getTime()));
+                  }
+                }}
+                className="w-full px-3 py-2 bg-black/40 text-sm text-slate-300 border border-white/10 rounded-lg outline-none focus:border-primary"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 mb-1 uppercase tracking-wider">Expiry Date</label>
+              <input
+                type="date"
+                value={expiryDate}
+                onChange={(e) => setExpiryDate(e.target.value)}
+                className="w-full px-3 py-2 bg-black/40 text-sm text-slate-300 border border-white/10 rounded-lg outline-none focus:border-primary"
+              />
+            </div>
+          </div>
+        </div>
+
         {/* Selected Product Image Preview */}
         {
           selectedProduct && selectedProduct.image && (
@@ -423,7 +514,7 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
         <div className="border border-white/10 rounded-lg p-4 bg-black/20">
           <div className="flex justify-between items-center mb-3">
             <label className="block text-sm font-bold text-slate-300 uppercase tracking-wider">Bin (Storage)</label>
-            <span className="text-xs text-slate-500 italic">Leave empty to assign to Staging Area</span>
+            <span className="text-xs text-slate-500 italic">Leave empty to assign to Transit</span>
           </div>
 
           <div className="relative mb-4">
@@ -470,7 +561,7 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
           </div>
 
           <div className="flex flex-wrap gap-2">
-            {locations.length === 0 && <span className="text-sm text-slate-500 italic">No specific bins selected. Will auto-assign to next empty <strong>Transit Bin</strong>.</span>}
+            {locations.length === 0 && <span className="text-sm text-slate-500 italic">No specific bins selected. Will auto-assign to next empty <strong>Transit Bin</strong> for putaway.</span>}
             {locations.map((loc, idx) => (
               <div key={idx} className={`border rounded-full px-3 py-1 text-sm flex items-center gap-2 shadow-sm ${loc.rack === 'S' || loc.rack.startsWith('STG') ? 'bg-amber-900/30 border-amber-700/50 text-amber-200' : 'bg-slate-800 border-slate-600 text-slate-300'}`}>
                 <span className="font-bold font-mono">
@@ -482,6 +573,25 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
               </div>
             ))}
           </div>
+
+          {putawaySuggestions.length > 0 && (
+            <div className="mt-4 pt-3 border-t border-white/5">
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Suggested Bins</p>
+              <div className="flex flex-wrap gap-2">
+                {putawaySuggestions.map(sg => (
+                  <button
+                    key={sg.binCode}
+                    type="button"
+                    onClick={() => handleAddLocation(sg.location)}
+                    className="border border-primary/40 bg-primary/10 text-slate-200 rounded-full px-3 py-1 text-sm flex items-center gap-2 hover:bg-primary/20 transition-colors"
+                  >
+                    <span className="font-bold font-mono">{sg.binCode}</span>
+                    <span className="text-xs text-slate-400">{PUTAWAY_REASON_LABELS[sg.reason]}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Actions */}
@@ -502,6 +612,7 @@ const InventoryForm: React.FC<InventoryFormProps> = ({ products, inventory = [],
           </button>
         </div>
       </form>
+      )}
 
       {/* Validation/Error Modal */}
       <ConfirmModal
@@ -1,9 +1,10 @@
 
 import React, { useState, useMemo } from 'react';
-import { InventoryItem, Product } from '../types';
+import { InventoryItem, Product, compareFefo, getBatchExpiry } from '../types';
 import { FileText, AlertTriangle, Search, Package, Filter, List } from 'lucide-react';
-import { smartSearch, getCategoryColor, getEmbedLink } from '../utils';
+import { smartSearch, getCategoryColor, getEmbedLink, getExpiryColor } from '../utils';
 import ImageThumbnail from './ImageThumbnail';
+import { convertQty, formatUnitBreakdown, roundQty } from '../services/unitConversion';
 
 interface InventoryListProps {
     inventory: InventoryItem[];
@@ -31,7 +32,8 @@ const InventoryList: React.FC<InventoryListProps> = ({ inventory, products }) =>
             department: string, // Added department
             locations: Set<string>,
             minStock: number,
-            image?: string
+            image?: string,
+            breakdown: string // Total in larger units, e.g. "2 PLT + 15 CS"
         }> = {};
 
         inventory.forEach(item => {
@@ -41,19 +43,25 @@ const InventoryList: React.FC<InventoryListProps> = ({ inventory, products }) =>
                     productCode: item.productCode,
                     name: item.productName,
                     qty: 0,
-                    unit: item.unit,
+                    unit: product?.defaultUnit || item.unit,
                     category: item.category,
                     department: product?.department || '-', // Derive department
                     locations: new Set(),
                     minStock: product?.minStockLevel || 0,
-                    image: product?.image
+                    image: product?.image,
+                    breakdown: ''
                 };
             }
-            summary[item.productCode].qty += item.quantity;
+            // Batches kept in another unit are converted when the product defines it
+            const row = summary[item.productCode];
+            row.qty = roundQty(row.qty + (convertQty(product, item.quantity, item.unit, row.unit) ?? item.quantity));
             item.locations.forEach(l => summary[item.productCode].locations.add(`${l.rack}-${l.bay}-${l.level}`));
         });
 
-        return Object.values(summary);
+        return Object.values(summary).map(row => ({
+            ...row,
+            breakdown: formatUnitBreakdown(products.find(p => p.productCode === row.productCode), row.qty, row.unit)
+        }));
     }, [inventory, products]);
 
     const filteredItems = inventorySummary.filter(item => {
@@ -134,7 +142,8 @@ const InventoryList: React.FC<InventoryListProps> = ({ inventory, products }) =>
                             {filteredItems.map(item => {
                                 const isLow = item.minStock > 0 && item.qty < item.minStock;
                                 const isExpanded = expandedItems.has(item.productCode);
-                                const productInventory = inventory.filter(i => i.productCode === item.productCode);
+                                const productInventory = inventory.filter(i => i.productCode === item.productCode).sort((a, b) => compareFefo(a, b, code => products.find(p => p.productCode === code))); // Next-to-pick first
+                                const product = products.find(p => p.productCode === item.productCode);
 
                                 return (
                                     <React.Fragment key={item.productCode}>
@@ -166,6 +175,7 @@ const InventoryList: React.FC<InventoryListProps> = ({ inventory, products }) =>
                                             <td className="px-6 py-4 text-right">
                                                 <span className="text-lg font-bold font-mono text-white">{item.qty}</span>
                                                 <span className="text-xs text-slate-500 ml-1">{item.unit}</span>
+                                                {item.breakdown && <div className="text-[10px] text-slate-500 font-bold">{item.breakdown}</div>}
                                             </td>
                                             <td className="px-6 py-4 text-center">
                                                 <span className={`px-2 py-1 rounded text-xs font-bold uppercase border ${!isLow
@@ -200,11 +210,32 @@ const InventoryList: React.FC<InventoryListProps> = ({ inventory, products }) =>
                                                         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
                                                             {productInventory.map((invItem, idx) => (
                                                                 <div key={idx} className="flex justify-between items-center p-2 bg-black/40 rounded border border-white/5 hover:border-white/10 transition-colors">
-                                                                    <div className="font-mono text-primary font-bold">
-                                                                        {invItem.locations.map(l => `${l.rack}-${l.bay}-${l.level}`).join(', ')}
+                                                                    <div>
+                                                                        <div className="font-mono text-primary font-bold">
+                                                                            {invItem.locations.map(l => `${l.rack}-${l.bay}-${l.level}`).join(', ')}
+                                                                        </div>
+                                                                        {(invItem.lotNumber || getBatchExpiry(invItem, product) || invItem.status === 'quarantine') && (
+                                                                            <div className="flex flex-wrap gap-1 mt-1">
+                                                                                {invItem.status === 'quarantine' && (
+                                                                                    <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-red-500/20 text-red-400 border border-red-500/30 uppercase">
+                                                                                        Hold
+                                                                                    </span>
+                                                                                )}
+                                                                                {invItem.lotNumber && (
+                                                                                    <span className="px-1.5 py-0.5 rounded text-[10px] font-mono bg-white/5 text-slate-300 border border-white/10">
+                                                                                        LOT {invItem.lotNumber}
+                                                                                    </span>
+                                                                                )}
+                                                                                {getBatchExpiry(invItem, product) && (
+                                                                                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-mono ${getExpiryColor(getBatchExpiry(invItem, product))}`}>
+                                                                                        EXP {new Date(getBatchExpiry(invItem, product)!).toLocaleDateString()}
+                                                                                    </span>
+                                                                                )}
+                                                                            </div>
+                                                                        )}
                                                                     </div>
                                                                     <div className="text-right">
-                                                                        <div className="text-white font-bold">{invItem.quantity} {item.unit}</div>
+                                                                        <div className="text-white font-bold">{invItem.quantity} {invItem.unit}</div>
                                                                         {(invItem.locations[0]?.rack === 'S' || invItem.locations[0]?.rack.startsWith('STG')) && (
                                                                             <div className="text-[10px] text-amber-500 uppercase">Staging</div>
                                                                         )}
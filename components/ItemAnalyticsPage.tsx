@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
     Chart as ChartJS,
     CategoryScale,
@@ -18,6 +18,7 @@ import {
 import ChartDataLabels from 'chartjs-plugin-datalabels';
 import { Bar, Line, Chart } from 'react-chartjs-2';
 import { InventoryItem, Transaction, Product } from '../types';
+import { TransactionQuery, TransactionPage } from '../services/storageAdapters';
 import { Search, RotateCcw, X, Calendar, ArrowUp, ArrowDown, Box, AlertTriangle } from 'lucide-react';
 import { format, subDays, startOfDay, isSameDay, addDays, startOfMonth, endOfMonth, eachDayOfInterval, startOfWeek, endOfWeek, subWeeks, subMonths, subYears, getQuarter, getYear, startOfYear } from 'date-fns';
 import { smartSearch, getEmbedLink } from '../utils';
@@ -43,15 +44,27 @@ ChartJS.register(
 
 interface ItemAnalyticsPageProps {
     inventory: InventoryItem[];
-    transactions: Transaction[];
     products: Product[];
+    historyVersion: number;
+    onQueryTransactions: (query: TransactionQuery) => Promise<TransactionPage>;
 }
 
-const ItemAnalyticsPage: React.FC<ItemAnalyticsPageProps> = ({ inventory = [], transactions = [], products = [] }) => {
+const ItemAnalyticsPage: React.FC<ItemAnalyticsPageProps> = ({ inventory = [], products = [], historyVersion, onQueryTransactions }) => {
     const [searchTerm, setSearchTerm] = useState('');
     const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
     const [timeRange, setTimeRange] = useState<TimeRange>('mtd');
     const [viewMode, setViewMode] = useState<ViewMode>('daily');
+    const [transactions, setTransactions] = useState<Transaction[]>([]); // Selected product's full history
+
+    // Only the selected product's history is read (product index on IndexedDB). Re-runs after each history write.
+    useEffect(() => {
+        if (!selectedProduct) return;
+        let cancelled = false;
+        onQueryTransactions({ productCode: selectedProduct.productCode, offset: 0, limit: Number.MAX_SAFE_INTEGER })
+            .then(res => { if (!cancelled) setTransactions(res.items); })
+            .catch(e => console.error('NexusWMS: Failed to query history', e));
+        return () => { cancelled = true; };
+    }, [selectedProduct, historyVersion]);
 
     // -- 1. Search & Filter Logic --
 
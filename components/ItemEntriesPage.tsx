@@ -1,19 +1,25 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Transaction } from '../types';
-import { smartSearch } from '../utils';
-import { ClipboardList, ArrowDownLeft, ArrowUpRight, RefreshCw, Search, Filter, X, ArrowRightLeft, Trash2, ClipboardCheck } from 'lucide-react';
+import { TransactionQuery, TransactionPage } from '../services/storageAdapters';
+import { ClipboardList, ArrowDownLeft, ArrowUpRight, RefreshCw, Search, Filter, X, ArrowRightLeft, Trash2, ClipboardCheck, ChevronLeft, ChevronRight } from 'lucide-react';
 
 const TRANSACTION_TYPES = ['INBOUND', 'OUTBOUND', 'MOVE', 'ADJUSTMENT', 'DELETE', 'COUNT'];
+const PAGE_SIZE = 100;
 
 interface ItemEntriesPageProps {
-    transactions: Transaction[];
+    historyVersion: number;
+    historyLimit?: number; // Set when this device only keeps the newest entries (Browser Storage)
+    onQueryTransactions: (query: TransactionQuery) => Promise<TransactionPage>;
 }
 
-const ItemEntriesPage: React.FC<ItemEntriesPageProps> = ({ transactions }) => {
+const ItemEntriesPage: React.FC<ItemEntriesPageProps> = ({ historyVersion, historyLimit, onQueryTransactions }) => {
     const [searchTerm, setSearchTerm] = useState('');
     const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
     const [startDate, setStartDate] = useState('');
     const [endDate, setEndDate] = useState('');
+    const [page, setPage] = useState(0);
+    const [result, setResult] = useState<TransactionPage>({ items: [], total: 0 });
+    const [balanceById, setBalanceById] = useState<Map<string, number>>(new Map());
 
     const toggleType = (type: string) => {
         setSelectedTypes(prev =>
@@ -23,46 +29,54 @@ const ItemEntriesPage: React.FC<ItemEntriesPageProps> = ({ transactions }) => {
         );
     };
 
-    // Calculate balances based on full history to ensure accuracy before filtering
-    const transactionsWithBalance = useMemo(() => {
-        // 1. Sort chronologically (Oldest first)
-        const sorted = [...transactions].sort((a, b) => a.date - b.date);
+    // Back to the first page whenever the filters change
+    useEffect(() => { setPage(0); }, [searchTerm, selectedTypes, startDate, endDate]);
 
-        // 2. Track running totals per product
-        const productBalances: Record<string, number> = {};
-
-        return sorted.map(t => {
-            const prevBalance = productBalances[t.productCode] || 0;
-            const newBalance = prevBalance + t.quantity;
-            productBalances[t.productCode] = newBalance;
-
-            return {
-                ...t,
-                balanceSnapshot: newBalance
-            };
-        });
-    }, [transactions]);
-
-    // Filter and Sort for Display (Newest first)
-    const filteredTransactions = transactionsWithBalance.filter(t => {
-        const matchesSearch = smartSearch(t, ['productCode', 'productName', 'type'], searchTerm);
-
-        const matchesType = selectedTypes.length === 0 || selectedTypes.includes(t.type);
-
-        let matchesDate = true;
+    // Fetch one page (Newest first). Re-runs after each history write has landed.
+    useEffect(() => {
+        let from: number | undefined;
+        let to: number | undefined;
         if (startDate) {
             const [y, m, d] = startDate.split('-').map(Number);
-            const start = new Date(y, m - 1, d).setHours(0, 0, 0, 0);
-            if (t.date < start) matchesDate = false;
+            from = new Date(y, m - 1, d).setHours(0, 0, 0, 0);
         }
-        if (endDate && matchesDate) {
+        if (endDate) {
             const [y, m, d] = endDate.split('-').map(Number);
-            const end = new Date(y, m - 1, d).setHours(23, 59, 59, 999);
-            if (t.date > end) matchesDate = false;
+            to = new Date(y, m - 1, d).setHours(23, 59, 59, 999);
         }
 
-        return matchesSearch && matchesType && matchesDate;
-    }).sort((a, b) => b.date - a.date);
+        let cancelled = false;
+        onQueryTransactions({
+            search: searchTerm,
+            types: selectedTypes as Transaction['type'][],
+            from,
+            to,
+            offset: page * PAGE_SIZE,
+            limit: PAGE_SIZE
+        })
+            .then(async res => {
+                // Balances come from each listed product's full history, so they stay right whatever the filters
+                const codes = Array.from(new Set(res.items.map(t => t.productCode)));
+                const histories = await Promise.all(codes.map(productCode =>
+                    onQueryTransactions({ productCode, offset: 0, limit: Number.MAX_SAFE_INTEGER })
+                ));
+                if (cancelled) return;
+                const balances = new Map<string, number>();
+                histories.forEach(({ items }) => {
+                    let balance = 0;
+                    [...items].reverse().forEach(t => { // Oldest first
+                        balance += t.quantity;
+                        balances.set(t.id, balance);
+                    });
+                });
+                setResult(res);
+                setBalanceById(balances);
+            })
+            .catch(e => console.error('NexusWMS: Failed to query history', e));
+        return () => { cancelled = true; };
+    }, [searchTerm, selectedTypes, startDate, endDate, page, historyVersion]);
+
+    const pageCount = Math.max(1, Math.ceil(result.total / PAGE_SIZE));
 
     const getTypeStyle = (type: string) => {
         switch (type) {
@@ -206,11 +220,12 @@ const ItemEntriesPage: React.FC<ItemEntriesPageProps> = ({ transactions }) => {
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-white/5">
-                            {filteredTransactions.map((t) => (
+                            {result.items.map((t) => (
                                 <tr key={t.id} className="hover:bg-white/5 transition-colors">
                                     <td className="px-6 py-4 whitespace-nowrap">
                                         <div className="font-medium text-slate-300">{new Date(t.date).toLocaleDateString()}</div>
                                         <div className="text-xs text-slate-500">{new Date(t.date).toLocaleTimeString()}</div>
+                                        {t.user && <div className="text-[10px] text-slate-500 uppercase tracking-wide mt-0.5">by {t.user}</div>}
                                     </td>
                                     <td className="px-6 py-4">
                                         <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border ${getTypeStyle(t.type)}`}>
@@ -221,6 +236,7 @@ const ItemEntriesPage: React.FC<ItemEntriesPageProps> = ({ transactions }) => {
                                     <td className="px-6 py-4">
                                         <div className="font-medium text-slate-200 text-base">{t.productName}</div>
                                         <div className="text-xs text-slate-500 font-mono mt-0.5">{t.productCode}</div>
+                                        {t.lotNumber && <div className="text-[10px] text-slate-500 font-mono">LOT {t.lotNumber}</div>}
                                     </td>
                                     <td className="px-6 py-4 text-right font-mono">
                                         <span className={t.quantity > 0 ? 'text-green-400 font-bold' : 'text-orange-400 font-bold'}>
@@ -229,14 +245,14 @@ const ItemEntriesPage: React.FC<ItemEntriesPageProps> = ({ transactions }) => {
                                         <span className="text-xs text-slate-500 ml-1">{t.unit}</span>
                                     </td>
                                     <td className="px-6 py-4 text-right font-mono text-white font-bold bg-black/20">
-                                        {t.balanceSnapshot}
+                                        {balanceById.get(t.id) ?? '-'}
                                     </td>
                                     <td className="px-6 py-4 text-xs font-mono text-slate-500">
                                         {t.locationInfo}
                                     </td>
                                 </tr>
                             ))}
-                            {filteredTransactions.length === 0 && (
+                            {result.items.length === 0 && (
                                 <tr>
                                     <td colSpan={8} className="p-10 text-center text-slate-500">
                                         No records found.
@@ -246,6 +262,38 @@ const ItemEntriesPage: React.FC<ItemEntriesPageProps> = ({ transactions }) => {
                         </tbody>
                     </table>
                 </div>
+
+                {result.total > PAGE_SIZE && (
+                    <div className="flex items-center justify-between px-6 py-3 border-t border-white/10 text-xs text-slate-400">
+                        <span>
+                            {page * PAGE_SIZE + 1}-{Math.min((page + 1) * PAGE_SIZE, result.total)} of {result.total.toLocaleString()}
+                        </span>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setPage(p => Math.max(0, p - 1))}
+                                disabled={page === 0}
+                                className="p-1.5 rounded border border-white/10 hover:bg-white/5 disabled:opacity-30"
+                                title="Newer"
+                            >
+                                <ChevronLeft className="w-4 h-4" />
+                            </button>
+                            <span className="font-mono">{page + 1} / {pageCount}</span>
+                            <button
+                                onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))}
+                                disabled={page >= pageCount - 1}
+                                className="p-1.5 rounded border border-white/10 hover:bg-white/5 disabled:opacity-30"
+                                title="Older"
+                            >
+                                <ChevronRight className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                )}
+                {historyLimit !== undefined && (
+                    <div className="px-6 py-3 border-t border-white/10 text-xs text-amber-400">
+                        Browser Storage keeps only the newest {historyLimit.toLocaleString()} entries. Switch to IndexedDB or a remote backend in Settings to keep the full history.
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,353 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { InventoryItem, LayoutArea, LayoutAreaKind, WarehouseLayout, generateId } from '../types';
+import { DEFAULT_WAREHOUSE_LAYOUT } from '../config/layoutConfig';
+import { MAX_BAYS, findStockedRemovedBins, getFloorPlanSize } from '../services/warehouseLayout';
+import { Warehouse, Plus, Trash2, Save, ArrowUp, ArrowDown, RotateCcw, History, AlertTriangle } from 'lucide-react';
+
+interface LayoutDesignerPageProps {
+    layout: WarehouseLayout; // Active version
+    layouts: WarehouseLayout[]; // Every saved version
+    inventory: InventoryItem[];
+    onSave: (areas: LayoutArea[], note?: string) => boolean;
+}
+
+// Levels are edited as comma separated text (top level first); key tracks an area while its code is edited
+type Draft = Omit<LayoutArea, 'levels'> & { key: string; levels: string };
+
+const CELL_PX = 28;
+
+const toDraft = (area: LayoutArea): Draft => ({ ...area, key: generateId(), levels: area.levels.join(', ') });
+
+const fromDraft = ({ key, ...draft }: Draft): LayoutArea => ({
+    ...draft,
+    name: draft.name || undefined,
+    levels: draft.levels.split(',').map(l => l.trim()).filter(Boolean)
+});
+
+const NEW_AREA: Record<LayoutAreaKind, Pick<LayoutArea, 'bays' | 'levels' | 'width' | 'height'>> = {
+    rack: { bays: 12, levels: ['3', '2', '1', 'Floor'], width: 1, height: 12 },
+    area: { bays: 4, levels: ['2', '1'], width: 4, height: 3 }
+};
+
+const KIND_CLASSES: Record<LayoutAreaKind, string> = {
+    rack: 'bg-primary/20 border-primary/60 text-primary',
+    area: 'bg-amber-500/15 border-amber-500/60 text-amber-300'
+};
+
+const overlaps = (a: Pick<LayoutArea, 'x' | 'y' | 'width' | 'height'>, b: Pick<LayoutArea, 'x' | 'y' | 'width' | 'height'>) =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+/**
+ * Warehouse layout designer: racks and areas, their bays / levels and where they sit on the floor plan.
+ * Saving creates a new layout version; bins are added / removed to match. Areas are listed in pick-walk order.
+ */
+const LayoutDesignerPage: React.FC<LayoutDesignerPageProps> = ({ layout, layouts, inventory, onSave }) => {
+    const [drafts, setDrafts] = useState<Draft[]>(() => layout.areas.map(toDraft));
+    const [selectedKey, setSelectedKey] = useState<string | null>(drafts[0]?.key || null);
+    const [note, setNote] = useState('');
+    const [dragging, setDragging] = useState<{ key: string; dx: number; dy: number } | null>(null);
+
+    const resetDraft = (source: LayoutArea[], nextNote = '') => {
+        const next = source.map(toDraft);
+        setDrafts(next);
+        setSelectedKey(next[0]?.key || null);
+        setNote(nextNote);
+    };
+
+    // A new active version (saved here or synced in) replaces the draft
+    useEffect(() => { resetDraft(layout.areas); }, [layout.id]);
+
+    const areas = useMemo(() => drafts.map(fromDraft), [drafts]);
+    const isDirty = JSON.stringify(areas) !== JSON.stringify(layout.areas);
+    const stockedBins = useMemo(() => findStockedRemovedBins(layout, { areas }, inventory), [layout, areas, inventory]);
+    const { cols, rows } = getFloorPlanSize(areas);
+    const selected = drafts.find(d => d.key === selectedKey);
+    const history = [...layouts].sort((a, b) => b.version - a.version || b.updatedAt - a.updatedAt);
+
+    const updateSelected = (changes: Partial<Draft>) => {
+        setDrafts(prev => prev.map(d => d.key === selectedKey ? { ...d, ...changes } : d));
+    };
+
+    const move = (idx: number, delta: number) => {
+        const target = idx + delta;
+        if (target < 0 || target >= drafts.length) return;
+        setDrafts(prev => {
+            const next = [...prev];
+            [next[idx], next[target]] = [next[target], next[idx]];
+            return next;
+        });
+    };
+
+    // Next free letter, then the first free spot on the floor plan
+    const addArea = (kind: LayoutAreaKind) => {
+        const used = new Set(drafts.map(d => d.code));
+        const code = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('').find(c => !used.has(c)) || '';
+        const size = NEW_AREA[kind];
+        let spot = { x: 0, y: rows };
+        for (let y = 0; y + size.height <= rows && spot.y === rows; y++) {
+            for (let x = 0; x + size.width <= cols; x++) {
+                if (!areas.some(a => overlaps(a, { x, y, ...size }))) {
+                    spot = { x, y };
+                    break;
+                }
+            }
+        }
+        const draft = toDraft({ code, kind, ...size, ...spot });
+        setDrafts(prev => [...prev, draft]);
+        setSelectedKey(draft.key);
+    };
+
+    const removeSelected = () => {
+        if (!selected) return;
+        const remaining = drafts.filter(d => d.key !== selected.key);
+        setDrafts(remaining);
+        setSelectedKey(remaining[0]?.key || null);
+    };
+
+    const loadVersion = (version: WarehouseLayout) => resetDraft(version.areas, `Restored version ${version.version}`);
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        if (!dragging) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = Math.max(0, Math.floor((e.clientX - rect.left) / CELL_PX) - dragging.dx);
+        const y = Math.max(0, Math.floor((e.clientY - rect.top) / CELL_PX) - dragging.dy);
+        setDrafts(prev => prev.map(d => d.key === dragging.key ? { ...d, x, y } : d));
+        setDragging(null);
+    };
+
+    const inputClass = 'w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none';
+    const numberInput = (field: 'bays' | 'x' | 'y' | 'width' | 'height', label: string, min: number) => (
+        <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">{label}</label>
+            <input
+                type="number"
+                min={min}
+                max={field === 'bays' ? MAX_BAYS : undefined}
+                value={selected ? selected[field] : ''}
+                onChange={(e) => updateSelected({ [field]: Math.max(min, parseInt(e.target.value) || 0) })}
+                className={inputClass}
+            />
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                            <Warehouse className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Warehouse Layout</h2>
+                            <p className="text-sm text-slate-400">
+                                {layout.version === 0
+                                    ? 'Factory layout - saving creates version 1.'
+                                    : `Version ${layout.version}${layout.createdBy ? ` by ${layout.createdBy}` : ''}, ${new Date(layout.updatedAt).toLocaleString()}.`}
+                                {' '}Drag racks and areas to place them on the floor plan.
+                            </p>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            type="text"
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            placeholder="What changed?"
+                            className="w-48 px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 outline-none focus:border-primary"
+                        />
+                        <button
+                            onClick={() => resetDraft(layout.areas)}
+                            disabled={!isDirty}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-slate-800 text-slate-300 border border-white/10 hover:bg-slate-700 disabled:opacity-40 transition-colors"
+                        >
+                            <RotateCcw className="w-4 h-4" /> Discard
+                        </button>
+                        <button
+                            onClick={() => onSave(areas, note)}
+                            disabled={!isDirty || stockedBins.size > 0}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 disabled:opacity-50 transition-colors"
+                        >
+                            <Save className="w-4 h-4" /> Save Version
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {stockedBins.size > 0 && (
+                <div className="bg-red-500/10 border border-red-500/30 text-red-300 rounded-xl p-4 text-sm flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                    <span>
+                        {stockedBins.size} bin(s) removed by this draft still hold stock: {Array.from(stockedBins.keys()).slice(0, 10).join(', ')}{stockedBins.size > 10 ? ', ...' : ''}.
+                        Move the stock out before saving.
+                    </span>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                {/* Floor plan */}
+                <div className="xl:col-span-2 bg-slate-900/60 backdrop-blur-md rounded-xl border border-white/10 p-4 overflow-auto">
+                    <div
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={handleDrop}
+                        className="relative rounded border border-white/5 bg-slate-950/50"
+                        style={{
+                            width: cols * CELL_PX,
+                            height: rows * CELL_PX,
+                            backgroundImage: 'linear-gradient(rgba(255,255,255,0.04) 1px, transparent 1px), linear-gradient(90deg, rgba(255,255,255,0.04) 1px, transparent 1px)',
+                            backgroundSize: `${CELL_PX}px ${CELL_PX}px`
+                        }}
+                    >
+                        {drafts.map((d, idx) => {
+                            const clash = drafts.some((other, j) => j !== idx && overlaps(d, other));
+                            return (
+                                <div
+                                    key={d.key}
+                                    draggable
+                                    onDragStart={(e) => {
+                                        const rect = e.currentTarget.getBoundingClientRect();
+                                        setDragging({ key: d.key, dx: Math.floor((e.clientX - rect.left) / CELL_PX), dy: Math.floor((e.clientY - rect.top) / CELL_PX) });
+                                        setSelectedKey(d.key);
+                                    }}
+                                    onDragEnd={() => setDragging(null)}
+                                    onClick={() => setSelectedKey(d.key)}
+                                    title={`${d.code}${d.name ? ` - ${d.name}` : ''}: ${d.bays} bays`}
+                                    className={`absolute flex flex-col items-center justify-center rounded border text-xs font-bold cursor-move overflow-hidden transition-shadow
+                                        ${clash ? 'bg-red-500/20 border-red-500 text-red-300' : KIND_CLASSES[d.kind]}
+                                        ${d.key === selectedKey ? 'ring-2 ring-white z-10' : ''}`}
+                                    style={{ left: d.x * CELL_PX, top: d.y * CELL_PX, width: d.width * CELL_PX, height: d.height * CELL_PX }}
+                                >
+                                    <span className="font-mono">{d.code || '?'}</span>
+                                    {d.name && d.width > 1 && <span className="text-[10px] font-normal opacity-80 truncate max-w-full px-1">{d.name}</span>}
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <div className="flex gap-4 mt-3 text-xs text-slate-500">
+                        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border bg-primary/20 border-primary/60" /> Rack (Visual Map overview)</span>
+                        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border bg-amber-500/15 border-amber-500/60" /> Area (own tab)</span>
+                        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded border bg-red-500/20 border-red-500" /> Overlapping</span>
+                    </div>
+                </div>
+
+                <div className="space-y-6">
+                    {/* Selected area */}
+                    <div className="bg-slate-900/60 backdrop-blur-md rounded-xl border border-white/10 p-4 space-y-3">
+                        {selected ? (
+                            <>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Code</label>
+                                        <input
+                                            type="text"
+                                            value={selected.code}
+                                            maxLength={3}
+                                            onChange={(e) => updateSelected({ code: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '') })}
+                                            className={`${inputClass} font-mono`}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Type</label>
+                                        <select value={selected.kind} onChange={(e) => updateSelected({ kind: e.target.value as LayoutAreaKind })} className={inputClass}>
+                                            <option value="rack">Rack</option>
+                                            <option value="area">Area</option>
+                                        </select>
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Zone Name</label>
+                                    <input type="text" value={selected.name || ''} onChange={(e) => updateSelected({ name: e.target.value })} placeholder="e.g. Staging" className={inputClass} />
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    {numberInput('bays', 'Bays', 1)}
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Levels (top first)</label>
+                                        <input type="text" value={selected.levels} onChange={(e) => updateSelected({ levels: e.target.value })} placeholder="3, 2, 1, Floor" className={inputClass} />
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-4 gap-2">
+                                    {numberInput('x', 'X', 0)}
+                                    {numberInput('y', 'Y', 0)}
+                                    {numberInput('width', 'Width', 1)}
+                                    {numberInput('height', 'Depth', 1)}
+                                </div>
+                                <div className="flex items-center justify-between pt-1">
+                                    <span className="text-xs text-slate-500">{selected.bays * fromDraft(selected).levels.length} bins</span>
+                                    <button onClick={removeSelected} className="flex items-center gap-1 text-xs font-bold text-red-400 hover:text-red-300">
+                                        <Trash2 className="w-4 h-4" /> Remove
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <p className="text-sm text-slate-500 italic">Add a rack or area to start.</p>
+                        )}
+                    </div>
+
+                    {/* Pick-walk order */}
+                    <div className="bg-slate-900/60 backdrop-blur-md rounded-xl border border-white/10 p-4 space-y-2">
+                        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Pick-Walk Order</h3>
+                        <div className="max-h-72 overflow-y-auto space-y-1">
+                            {drafts.map((d, idx) => (
+                                <div
+                                    key={d.key}
+                                    onClick={() => setSelectedKey(d.key)}
+                                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border cursor-pointer transition-colors ${d.key === selectedKey ? 'bg-primary/10 border-primary/50' : 'bg-black/20 border-white/5 hover:bg-white/5'}`}
+                                >
+                                    <span className="font-mono font-bold text-slate-200 w-8">{d.code || '?'}</span>
+                                    <span className="flex-1 text-xs text-slate-500 truncate">{d.name || (d.kind === 'rack' ? 'Rack' : 'Area')}</span>
+                                    <button onClick={(e) => { e.stopPropagation(); move(idx, -1); }} disabled={idx === 0} className="p-1 text-slate-500 hover:text-white disabled:opacity-30" title="Move Up">
+                                        <ArrowUp className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={(e) => { e.stopPropagation(); move(idx, 1); }} disabled={idx === drafts.length - 1} className="p-1 text-slate-500 hover:text-white disabled:opacity-30" title="Move Down">
+                                        <ArrowDown className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                onClick={() => addArea('rack')}
+                                className="flex items-center justify-center gap-2 p-2 rounded-lg border border-dashed border-white/10 text-sm font-bold text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+                            >
+                                <Plus className="w-4 h-4" /> Add Rack
+                            </button>
+                            <button
+                                onClick={() => addArea('area')}
+                                className="flex items-center justify-center gap-2 p-2 rounded-lg border border-dashed border-white/10 text-sm font-bold text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+                            >
+                                <Plus className="w-4 h-4" /> Add Area
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Versions */}
+                    <div className="bg-slate-900/60 backdrop-blur-md rounded-xl border border-white/10 p-4 space-y-2">
+                        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2"><History className="w-4 h-4" /> Versions</h3>
+                        <div className="max-h-60 overflow-y-auto divide-y divide-white/5">
+                            {[...history, DEFAULT_WAREHOUSE_LAYOUT].map(v => (
+                                <div key={v.id} className="flex items-center gap-2 py-2 text-sm">
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-bold text-slate-200">
+                                            v{v.version} {v.id === layout.id && <span className="ml-1 text-[10px] px-1.5 rounded bg-green-500/20 text-green-300">Active</span>}
+                                        </div>
+                                        <div className="text-xs text-slate-500 truncate">
+                                            {v.note || 'No note'}{v.createdBy ? ` - ${v.createdBy}` : ''}{v.updatedAt ? `, ${new Date(v.updatedAt).toLocaleDateString()}` : ''}
+                                        </div>
+                                    </div>
+                                    {v.id !== layout.id && (
+                                        <button onClick={() => loadVersion(v)} className="text-xs font-bold text-primary hover:text-primary/80" title="Load into the draft; save to make it active">
+                                            Load
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LayoutDesignerPage;
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { InventoryItem, Transaction } from '../types';
+import { reconcileLedger, formatBinCode, ReconciliationStatus } from '../services/ledger';
+import { BookOpenCheck, CheckCircle2, History, Scale, ToggleLeft, ToggleRight } from 'lucide-react';
+
+interface LedgerPageProps {
+    inventory: InventoryItem[];
+    transactions: Transaction[];
+    ledgerMode: boolean;
+    isHistoryLoaded: boolean; // IndexedDB loads only recent history at start; the ledger needs all of it
+    onLoadHistory: () => void;
+    onSetLedgerMode: (enabled: boolean) => void;
+    onReconcile: (batchIds?: string[]) => void;
+    onRebuildFromLedger: () => void;
+}
+
+const STATUS_META: Record<ReconciliationStatus, { label: string; className: string; hint: string }> = {
+    mismatch: {
+        label: 'Mismatch',
+        className: 'bg-red-500/20 text-red-400 border-red-500/30',
+        hint: 'Stored stock disagrees with the ledger'
+    },
+    untracked: {
+        label: 'No Opening',
+        className: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+        hint: 'Batch predates the ledger - post an opening balance'
+    },
+    missing: {
+        label: 'Missing',
+        className: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+        hint: 'Ledger still holds stock for a batch that is gone'
+    }
+};
+
+const LedgerPage: React.FC<LedgerPageProps> = ({ inventory, transactions, ledgerMode, isHistoryLoaded, onLoadHistory, onSetLedgerMode, onReconcile, onRebuildFromLedger }) => {
+    const [statusFilter, setStatusFilter] = useState<ReconciliationStatus | 'all'>('all');
+
+    useEffect(() => { if (!isHistoryLoaded) onLoadHistory(); }, [isHistoryLoaded]);
+
+    // Replaying part of the history would flag every older batch, so wait for all of it
+    const rows = useMemo(() => isHistoryLoaded ? reconcileLedger(inventory, transactions) : [], [inventory, transactions, isHistoryLoaded]);
+    const counts = useMemo(() => {
+        const result: Record<ReconciliationStatus, number> = { mismatch: 0, untracked: 0, missing: 0 };
+        rows.forEach(r => result[r.status]++);
+        return result;
+    }, [rows]);
+    const visibleRows = statusFilter === 'all' ? rows : rows.filter(r => r.status === statusFilter);
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                            <BookOpenCheck className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Stock Ledger</h2>
+                            <p className="text-sm text-slate-400">Batch balances replayed from the transaction history, compared with stored stock.</p>
+                        </div>
+                    </div>
+
+                    <button
+                        onClick={() => onSetLedgerMode(!ledgerMode)}
+                        className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold border transition-colors ${ledgerMode
+                            ? 'bg-green-500/20 text-green-400 border-green-500/40 hover:bg-green-500/30'
+                            : 'bg-slate-800 text-slate-300 border-white/10 hover:bg-slate-700'
+                            }`}
+                        title={ledgerMode ? 'Stock quantities are rebuilt from the ledger' : 'Stock quantities are stored directly'}
+                    >
+                        {ledgerMode ? <ToggleRight className="w-5 h-5" /> : <ToggleLeft className="w-5 h-5" />}
+                        Ledger Mode {ledgerMode ? 'On' : 'Off'}
+                    </button>
+                </div>
+
+                {!ledgerMode && counts.mismatch > 0 && (
+                    <p className="mt-4 text-xs text-amber-400">
+                        Turning ledger mode on rebuilds the {counts.mismatch} mismatched batch(es) from the ledger. Use "Trust Stock" first to keep the stored quantities instead.
+                    </p>
+                )}
+
+                <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {(['all', 'mismatch', 'untracked', 'missing'] as const).map(status => {
+                        const count = status === 'all' ? rows.length : counts[status];
+                        const label = status === 'all' ? 'All Issues' : STATUS_META[status].label;
+                        return (
+                            <button
+                                key={status}
+                                onClick={() => setStatusFilter(status)}
+                                className={`p-3 rounded-lg border text-left transition-all ${statusFilter === status
+                                    ? 'bg-primary/20 border-primary/50'
+                                    : 'bg-black/20 border-white/10 hover:bg-white/5'
+                                    }`}
+                            >
+                                <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">{label}</p>
+                                <p className="text-2xl font-bold text-white font-mono">{count}</p>
+                            </button>
+                        );
+                    })}
+                </div>
+
+                {rows.length > 0 && (
+                    <div className="mt-4 flex flex-wrap gap-2">
+                        <button
+                            onClick={() => onReconcile(visibleRows.map(r => r.batchId))}
+                            disabled={visibleRows.length === 0}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 transition-colors disabled:opacity-40"
+                            title="Post events so the ledger matches what is on the shelf"
+                        >
+                            <Scale className="w-4 h-4" /> Trust Stock ({visibleRows.length})
+                        </button>
+                        {!ledgerMode && counts.mismatch > 0 && (
+                            <button
+                                onClick={onRebuildFromLedger}
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-slate-800 text-slate-200 border border-white/10 hover:bg-slate-700 transition-colors"
+                                title="Overwrite stored quantities and bins with the ledger"
+                            >
+                                <History className="w-4 h-4" /> Rebuild from Ledger
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm text-slate-400">
+                        <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                            <tr>
+                                <th className="px-6 py-4">Status</th>
+                                <th className="px-6 py-4">Item</th>
+                                <th className="px-6 py-4 text-right">Stored</th>
+                                <th className="px-6 py-4 text-right">Ledger</th>
+                                <th className="px-6 py-4 text-right">Diff</th>
+                                <th className="px-6 py-4 text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {visibleRows.map(row => {
+                                const meta = STATUS_META[row.status];
+                                const diff = row.storedQty !== undefined && row.ledgerQty !== undefined ? row.storedQty - row.ledgerQty : undefined;
+                                return (
+                                    <tr key={`${row.status}-${row.batchId}`} className="hover:bg-white/5 transition-colors">
+                                        <td className="px-6 py-4">
+                                            <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border ${meta.className}`} title={meta.hint}>
+                                                {meta.label}
+                                            </span>
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <div className="font-medium text-slate-200">{row.productName}</div>
+                                            <div className="text-xs text-slate-500 font-mono mt-0.5">{row.productCode}</div>
+                                            {row.lotNumber && <div className="text-[10px] text-slate-500 font-mono">LOT {row.lotNumber}</div>}
+                                        </td>
+                                        <td className="px-6 py-4 text-right font-mono">
+                                            <div className="text-white">{row.storedQty ?? '-'} <span className="text-xs text-slate-500">{row.unit}</span></div>
+                                            <div className="text-xs text-slate-500">{formatBinCode(row.storedLocation)}</div>
+                                        </td>
+                                        <td className="px-6 py-4 text-right font-mono">
+                                            <div className="text-white">{row.ledgerQty ?? '-'} <span className="text-xs text-slate-500">{row.unit}</span></div>
+                                            <div className="text-xs text-slate-500">{formatBinCode(row.ledgerLocation)}</div>
+                                        </td>
+                                        <td className="px-6 py-4 text-right font-mono font-bold">
+                                            {diff === undefined ? '-' : (
+                                                <span className={diff > 0 ? 'text-green-400' : diff < 0 ? 'text-orange-400' : 'text-slate-400'}>
+                                                    {diff > 0 ? '+' : ''}{Math.round(diff * 1000) / 1000}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 text-right">
+                                            <button
+                                                onClick={() => onReconcile([row.batchId])}
+                                                className="px-3 py-1.5 rounded-lg text-xs font-bold bg-primary/20 text-primary border border-primary/40 hover:bg-primary/30 transition-colors"
+                                                title="Post the correcting event for this batch"
+                                            >
+                                                Trust Stock
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {!isHistoryLoaded && (
+                                <tr>
+                                    <td colSpan={6} className="p-10 text-center text-slate-500">
+                                        Loading the full transaction history...
+                                    </td>
+                                </tr>
+                            )}
+                            {isHistoryLoaded && visibleRows.length === 0 && (
+                                <tr>
+                                    <td colSpan={6} className="p-10 text-center text-slate-500">
+                                        <CheckCircle2 className="w-8 h-8 text-green-400 mx-auto mb-2" />
+                                        Stored stock matches the ledger.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LedgerPage;
@@ -1,184 +1,199 @@
 import React, { useState, useMemo } from 'react';
-import { MasterLocation, STANDARD_RACKS, LEVELS, generateId } from '../types';
-import { MapPin, Plus, Search, Edit, Trash2, X, Save, AlertCircle } from 'lucide-react';
-import ConfirmModal, { ModalType } from './ConfirmModal';
+import { InventoryItem, MasterLocation, Product, WarehouseLayout } from '../types';
+import { getAreaName } from '../services/warehouseLayout';
+import { describeBinLoad, getBinLoads } from '../services/binCapacity';
+import { formatBinCode } from '../services/ledger';
+import { smartSearch } from '../utils';
+import { MapPin, Search, Edit, Save, X, Warehouse } from 'lucide-react';
 
 interface LocationPageProps {
   locations: MasterLocation[];
-  onUpdateLocations: (locations: MasterLocation[]) => void;
+  layout: WarehouseLayout;
+  inventory: InventoryItem[];
+  products: Product[];
+  readOnly?: boolean; // Aliases and statuses need the toggleBins permission
+  onRenameBin: (binCode: string, name: string) => void;
+  onToggleBinStatus: (rack: string, bay: number, level: string) => void;
+  onOpenLayout?: () => void; // Only offered to users who may edit the layout
 }
 
-const LocationPage: React.FC<LocationPageProps> = ({ locations, onUpdateLocations }) => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [isModalOpen, setIsModalOpen] = useState(false);
-  const [editingLoc, setEditingLoc] = useState<MasterLocation | null>(null);
-
-  // Form State
-  const [formData, setFormData] = useState<Partial<MasterLocation>>({
-    code: '',
-    rack: 'A',
-    bay: 1,
-    level: '1'
-  });
-
-  // Modal State
-  const [modalConfig, setModalConfig] = useState<{
-    isOpen: boolean;
-    title: string;
-    message: string;
-    type: ModalType;
-    onConfirm?: () => void;
-  }>({ isOpen: false, title: '', message: '', type: 'info' });
-
-  const showAlert = (title: string, message: string) => {
-    setModalConfig({ isOpen: true, title, message, type: 'info' });
-  };
+const PAGE_SIZE = 100; // Limit rendering for performance
 
-  const showConfirm = (title: string, message: string, onConfirm: () => void, type: ModalType = 'confirm') => {
-    setModalConfig({ isOpen: true, title, message, type, onConfirm });
-  };
+/**
+ * Bin Master: every bin generated from the active Warehouse Layout, with its alias, status,
+ * capacity and the batches stored in it. Bins are added and removed on the Warehouse Layout page.
+ */
+const LocationPage: React.FC<LocationPageProps> = ({ locations, layout, inventory, products, readOnly = false, onRenameBin, onToggleBinStatus, onOpenLayout }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [areaFilter, setAreaFilter] = useState('');
+  const [showDisabled, setShowDisabled] = useState(true);
+  const [editingBin, setEditingBin] = useState<string | null>(null);
+  const [aliasDraft, setAliasDraft] = useState('');
+
+  const batchCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    inventory.forEach(item => {
+      if (item.quantity <= 0 || !item.locations[0]) return;
+      const code = formatBinCode(item.locations[0]);
+      counts.set(code, (counts.get(code) || 0) + 1);
+    });
+    return counts;
+  }, [inventory]);
+
+  const loads = useMemo(() => getBinLoads(inventory, products), [inventory, products]);
 
   const filteredLocations = useMemo(() => {
     return locations.filter(l =>
-      l.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      l.rack.toLowerCase().includes(searchTerm.toLowerCase())
-    ).slice(0, 50); // Limit rendering for performance
-  }, [locations, searchTerm]);
+      (!areaFilter || l.rack === areaFilter) &&
+      (showDisabled || l.status !== 'disabled') &&
+      smartSearch(l, ['binCode', 'name', 'rack'], searchTerm)
+    );
+  }, [locations, areaFilter, showDisabled, searchTerm]);
 
-  const handleOpenModal = (loc?: MasterLocation) => {
-    if (loc) {
-      setEditingLoc(loc);
-      setFormData(loc);
-    } else {
-      setEditingLoc(null);
-      setFormData({
-        code: '',
-        rack: 'A',
-        bay: 1,
-        level: '1'
-      });
-    }
-    setIsModalOpen(true);
+  const startEdit = (loc: MasterLocation) => {
+    setEditingBin(loc.binCode);
+    setAliasDraft(loc.name || '');
   };
 
-  const handleDelete = (id: string) => {
-    showConfirm(
-      "Delete Bin",
-      'Are you sure you want to delete this bin?',
-      () => onUpdateLocations(locations.filter(l => l.id !== id)),
-      'danger'
-    );
+  const saveAlias = () => {
+    if (editingBin) onRenameBin(editingBin, aliasDraft);
+    setEditingBin(null);
   };
 
-  const handleSave = (e: React.FormEvent) => {
-    e.preventDefault();
-
-    // Auto-generate code if empty based on standard format
-    const rack = formData.rack || 'A';
-    const bay = formData.bay || 1;
-    const level = formData.level || '1';
-
-    // Default naming convention: R-BB-L (e.g., A-01-1)
-    const generatedCode = `${rack}-${String(bay).padStart(2, '0')}-${level}`;
-    const finalCode = formData.code || generatedCode;
-
-    // Check Uniqueness
-    const isDuplicate = locations.some(l => l.code === finalCode && l.id !== editingLoc?.id);
-    if (isDuplicate) {
-      showAlert("Duplicate Bin", `Bin code '${finalCode}' already exists.`);
-      return;
-    }
-
-    if (editingLoc) {
-      const updated = locations.map(l => l.id === editingLoc.id ? { ...l, ...formData, binCode: finalCode } as MasterLocation : l);
-      onUpdateLocations(updated);
-    } else {
-      const newLoc: MasterLocation = {
-        id: generateId(),
-        rack,
-        bay,
-        level,
-        binCode: finalCode,
-        name: formData.name
-      };
-      onUpdateLocations([newLoc, ...locations]);
-    }
-    setIsModalOpen(false);
-  };
+  const disabledCount = locations.filter(l => l.status === 'disabled').length;
 
   return (
     <div className="space-y-6">
-      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
-        <div className="flex flex-col md:flex-row justify-between items-center gap-4 mb-6">
+      <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
           <div className="flex items-center gap-3">
-            <div className="bg-slate-100 p-2 rounded-lg">
-              <MapPin className="w-6 h-6 text-slate-700" />
+            <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+              <MapPin className="w-6 h-6 text-primary" />
             </div>
             <div>
-              <h2 className="text-xl font-bold text-slate-800">Bin Master</h2>
-              <p className="text-sm text-slate-500">Manage valid storage bins.</p>
+              <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Bin Master</h2>
+              <p className="text-sm text-slate-400">
+                {locations.length} bins from layout v{layout.version}, {disabledCount} disabled. Add or remove bins on the Warehouse Layout page.
+              </p>
             </div>
           </div>
-          <button
-            onClick={() => handleOpenModal()}
-            className="px-4 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-900 flex items-center gap-2 text-sm font-bold shadow-md"
-          >
-            <Plus className="w-4 h-4" /> Add Bin
-          </button>
+          {onOpenLayout && (
+            <button
+              onClick={onOpenLayout}
+              className="px-4 py-2 bg-primary/20 text-primary border border-primary/50 rounded-lg hover:bg-primary/30 flex items-center gap-2 text-sm font-bold transition-all shadow-[0_0_10px_rgba(139,92,246,0.3)]"
+            >
+              <Warehouse className="w-4 h-4" /> Edit Layout
+            </button>
+          )}
         </div>
 
-        <div className="relative max-w-md">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
-          <input
-            type="text"
-            placeholder="Search bins (e.g. A-01)..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none"
-          />
+        <div className="flex flex-col md:flex-row gap-3 mt-6">
+          <div className="relative w-full md:w-96">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-500 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Search bins or aliases (e.g. A-1)..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-9 pr-4 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+            />
+          </div>
+          <select
+            value={areaFilter}
+            onChange={(e) => setAreaFilter(e.target.value)}
+            className="px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 outline-none"
+          >
+            <option value="">All racks & areas</option>
+            {layout.areas.map(a => <option key={a.code} value={a.code}>{getAreaName(layout, a.code)}</option>)}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            <input type="checkbox" checked={showDisabled} onChange={(e) => setShowDisabled(e.target.checked)} className="accent-primary" />
+            Show disabled
+          </label>
         </div>
       </div>
 
-      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 overflow-hidden">
         <div className="max-h-[600px] overflow-y-auto">
-          <table className="w-full text-left text-sm text-slate-600">
-            <thead className="bg-slate-50 text-xs uppercase font-medium text-slate-500 sticky top-0 z-10 shadow-sm">
+          <table className="w-full text-left text-sm text-slate-400">
+            <thead className="bg-black/80 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider sticky top-0 z-10">
               <tr>
                 <th className="px-6 py-3">Bin Code</th>
-                <th className="px-6 py-3">Rack</th>
+                <th className="px-6 py-3">Alias</th>
+                <th className="px-6 py-3">Rack / Area</th>
                 <th className="px-6 py-3">Bay</th>
                 <th className="px-6 py-3">Level</th>
-                <th className="px-6 py-3 text-right">Actions</th>
+                <th className="px-6 py-3">Capacity</th>
+                <th className="px-6 py-3 text-right">Batches</th>
+                <th className="px-6 py-3 text-right">Status</th>
               </tr>
             </thead>
-            <tbody className="divide-y divide-slate-100">
-              {filteredLocations.map(loc => (
-                <tr key={loc.id} className="hover:bg-slate-50 group">
-                  <td className="px-6 py-4 font-bold text-slate-800 font-mono">{loc.code}</td>
-                  <td className="px-6 py-4">{loc.rack}</td>
-                  <td className="px-6 py-4">{loc.bay}</td>
-                  <td className="px-6 py-4">{loc.level}</td>
-                  <td className="px-6 py-4 text-right">
-                    <div className="flex justify-end gap-2 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
-                      <button
-                        onClick={() => handleOpenModal(loc)}
-                        className="p-1.5 text-slate-400 hover:text-primary hover:bg-red-50 rounded"
-                      >
-                        <Edit className="w-4 h-4" />
-                      </button>
+            <tbody className="divide-y divide-white/5">
+              {filteredLocations.slice(0, PAGE_SIZE).map(loc => {
+                const disabled = loc.status === 'disabled';
+                return (
+                  <tr key={loc.id} className={`hover:bg-white/5 group ${disabled ? 'opacity-60' : ''}`}>
+                    <td className="px-6 py-3 font-bold text-slate-200 font-mono">{loc.binCode}</td>
+                    <td className="px-6 py-3">
+                      {editingBin === loc.binCode ? (
+                        <div className="flex gap-1">
+                          <input
+                            type="text"
+                            value={aliasDraft}
+                            onChange={(e) => setAliasDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') saveAlias();
+                              if (e.key === 'Escape') setEditingBin(null);
+                            }}
+                            placeholder="e.g. Returns shelf"
+                            className="w-40 px-2 py-1 text-sm border border-white/10 bg-black/40 rounded text-slate-200 placeholder-slate-600 outline-none"
+                            autoFocus
+                          />
+                          <button onClick={saveAlias} className="p-1 text-emerald-400 hover:bg-emerald-500/10 rounded" title="Save">
+                            <Save className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => setEditingBin(null)} className="p-1 text-slate-400 hover:bg-white/10 rounded" title="Cancel">
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <span className={loc.name ? 'text-slate-200' : 'text-slate-600'}>{loc.name || '-'}</span>
+                          {!readOnly && (
+                            <button
+                              onClick={() => startEdit(loc)}
+                              className="p-1 text-slate-500 hover:text-blue-400 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity"
+                              title="Edit alias"
+                            >
+                              <Edit className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-3">{getAreaName(layout, loc.rack)}</td>
+                    <td className="px-6 py-3 font-mono">{loc.bay}</td>
+                    <td className="px-6 py-3 font-mono">{loc.level}</td>
+                    <td className="px-6 py-3 text-xs">{describeBinLoad(loc, loads.get(loc.binCode)) || <span className="text-slate-600">No limit</span>}</td>
+                    <td className="px-6 py-3 text-right font-mono text-white">{batchCounts.get(loc.binCode) || 0}</td>
+                    <td className="px-6 py-3 text-right">
                       <button
-                        onClick={() => handleDelete(loc.id)}
-                        className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+                        onClick={() => onToggleBinStatus(loc.rack, loc.bay, loc.level)}
+                        disabled={readOnly}
+                        className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border transition-colors disabled:cursor-default ${disabled
+                          ? 'bg-red-500/10 text-red-400 border-red-500/30 hover:bg-red-500/20'
+                          : 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30 hover:bg-emerald-500/20'}`}
+                        title={readOnly ? undefined : disabled ? 'Enable bin' : 'Disable bin'}
                       >
-                        <Trash2 className="w-4 h-4" />
+                        {disabled ? 'Disabled' : 'Active'}
                       </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
+                    </td>
+                  </tr>
+                );
+              })}
               {filteredLocations.length === 0 && (
                 <tr>
-                  <td colSpan={5} className="p-8 text-center text-slate-400">
+                  <td colSpan={8} className="p-8 text-center text-slate-500">
                     No bins found matching your search.
                   </td>
                 </tr>
@@ -186,106 +201,12 @@ const LocationPage: React.FC<LocationPageProps> = ({ locations, onUpdateLocation
             </tbody>
           </table>
         </div>
-        <div className="p-3 border-t bg-slate-50 text-xs text-slate-500 text-center">
-          Showing top {filteredLocations.length} matches of {locations.length} total bins.
+        <div className="p-3 border-t border-white/10 bg-black/40 text-xs text-slate-500 text-center">
+          Showing {Math.min(filteredLocations.length, PAGE_SIZE)} of {filteredLocations.length} matching bins ({locations.length} total).
         </div>
       </div>
-
-      {/* Modal */}
-      {isModalOpen && (
-        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
-          <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 animate-in fade-in zoom-in-95 duration-200">
-            <div className="flex justify-between items-center mb-6">
-              <h3 className="text-lg font-bold text-slate-800">
-                {editingLoc ? 'Edit Bin' : 'Add New Bin'}
-              </h3>
-              <button onClick={() => setIsModalOpen(false)} className="text-slate-400 hover:text-slate-600">
-                <X className="w-5 h-5" />
-              </button>
-            </div>
-
-            <form onSubmit={handleSave} className="space-y-4">
-              <div className="grid grid-cols-3 gap-3">
-                <div>
-                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Rack</label>
-                  <select
-                    value={formData.rack}
-                    onChange={e => setFormData({ ...formData, rack: e.target.value })}
-                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary"
-                  >
-                    <option value="S">Staging (S)</option>
-                    <option value="R">Reserve (R)</option>
-                    <option value="Z">Zone (Z)</option>
-                    {STANDARD_RACKS.map(r => <option key={r} value={r}>{r}</option>)}
-                  </select>
-                </div>
-                <div>
-                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Bay</label>
-                  <input
-                    type="number"
-                    min="1" max="99"
-                    value={formData.bay}
-                    onChange={e => setFormData({ ...formData, bay: parseInt(e.target.value) || 1 })}
-                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Level</label>
-                  <select
-                    value={formData.level}
-                    onChange={e => setFormData({ ...formData, level: e.target.value })}
-                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary"
-                  >
-                    {LEVELS.map(l => <option key={l} value={l}>{l}</option>)}
-                  </select>
-                </div>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Bin Code (Optional)</label>
-                <input
-                  type="text"
-                  value={formData.code}
-                  onChange={e => setFormData({ ...formData, code: e.target.value })}
-                  placeholder="Leave empty to auto-generate (e.g. A-01-1)"
-                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary outline-none"
-                />
-                <p className="text-xs text-slate-400 mt-1">
-                  System will automatically format as Rack-Bay-Level if left blank.
-                </p>
-              </div>
-
-              <div className="flex justify-end gap-3 pt-4">
-                <button
-                  type="button"
-                  onClick={() => setIsModalOpen(false)}
-                  className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg font-medium"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  className="px-6 py-2 bg-primary text-white rounded-lg hover:bg-red-700 font-bold"
-                >
-                  Save
-                </button>
-              </div>
-            </form>
-          </div>
-        </div>
-      )}
-
-      {/* Global Modal */}
-      <ConfirmModal
-        isOpen={modalConfig.isOpen}
-        onClose={() => setModalConfig(prev => ({ ...prev, isOpen: false }))}
-        onConfirm={modalConfig.onConfirm}
-        title={modalConfig.title}
-        message={modalConfig.message}
-        type={modalConfig.type}
-      />
     </div>
   );
 };
 
-export default LocationPage;
\ No newline at end of file
+export default LocationPage;
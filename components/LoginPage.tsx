@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { UserProfile } from '../types';
+import { ROLE_LABELS } from '../services/auth';
+import { Boxes, CloudOff, Delete, Loader2, LogIn, RefreshCw, ShieldCheck, UserCircle2 } from 'lucide-react';
+
+interface LoginPageProps {
+    users: UserProfile[];
+    canCreateFirstAdmin: boolean; // False while a remote backend may still hold users for this device
+    isSyncing: boolean;
+    onLogin: (userId: string, pin: string) => Promise<boolean>;
+    onCreateFirstAdmin: (name: string, pin: string) => Promise<void>;
+    onRetrySync: () => void;
+}
+
+const KEYPAD = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'];
+
+const LoginPage: React.FC<LoginPageProps> = ({ users, canCreateFirstAdmin, isSyncing, onLogin, onCreateFirstAdmin, onRetrySync }) => {
+    const activeUsers = users.filter(u => u.active).sort((a, b) => a.name.localeCompare(b.name));
+    const isFirstRun = users.length === 0 && canCreateFirstAdmin;
+    const isWaitingForUsers = users.length === 0 && !canCreateFirstAdmin;
+
+    const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+    const [pin, setPin] = useState('');
+    const [adminName, setAdminName] = useState('');
+    const [error, setError] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+
+    const selectedUser = activeUsers.find(u => u.id === selectedUserId);
+
+    const pressKey = (key: string) => {
+        setError('');
+        if (key === 'clear') setPin('');
+        else if (key === 'back') setPin(prev => prev.slice(0, -1));
+        else if (pin.length < 8) setPin(prev => prev + key);
+    };
+
+    const handleSubmit = async (e?: React.FormEvent) => {
+        e?.preventDefault();
+        if (isBusy) return;
+        setIsBusy(true);
+        if (isFirstRun) {
+            await onCreateFirstAdmin(adminName, pin);
+        } else if (selectedUserId) {
+            const ok = await onLogin(selectedUserId, pin);
+            if (!ok) {
+                setError('Incorrect PIN');
+                setPin('');
+            }
+        }
+        setIsBusy(false);
+    };
+
+    return (
+        <div className="flex h-screen items-center justify-center bg-[url('https://images.unsplash.com/photo-1586528116311-ad8dd3c8310d?q=80&w=2670&auto=format&fit=crop')] bg-cover bg-center text-slate-100 relative p-4">
+            <div className="absolute inset-0 bg-background/90 backdrop-blur-sm"></div>
+
+            <form onSubmit={handleSubmit} className="relative z-10 w-full max-w-md bg-slate-900/60 backdrop-blur-md p-8 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 space-y-6">
+                <div className="flex items-center gap-4">
+                    <div className="bg-primary/20 p-2.5 rounded-lg border border-primary/50 shadow-[0_0_15px_rgba(139,92,246,0.3)]">
+                        <Boxes className="w-8 h-8 text-primary" />
+                    </div>
+                    <div>
+                        <h1 className="text-2xl font-bold tracking-tight text-white leading-none font-display">NEXUS<span className="text-primary">WMS</span></h1>
+                        <span className="text-[10px] font-bold text-slate-400 tracking-[0.2em] uppercase">
+                            {isFirstRun ? 'First-time Setup' : 'Sign In'}
+                        </span>
+                    </div>
+                </div>
+
+                {isWaitingForUsers ? (
+                    <div className="space-y-3">
+                        <p className="text-sm text-slate-400 flex items-center gap-2">
+                            {isSyncing
+                                ? <><Loader2 className="w-4 h-4 text-primary animate-spin" /> Loading user accounts from the sync backend...</>
+                                : <><CloudOff className="w-4 h-4 text-amber-400" /> User accounts have not been loaded from the sync backend yet.</>}
+                        </p>
+                        <p className="text-xs text-slate-500">Sign-in opens once this device has synced. Connect it to the network, then retry.</p>
+                        <button
+                            type="button"
+                            onClick={onRetrySync}
+                            disabled={isSyncing}
+                            className="w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-bold bg-slate-800 border border-white/10 text-white hover:bg-slate-700 transition-colors disabled:opacity-40"
+                        >
+                            <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} /> Retry Sync
+                        </button>
+                    </div>
+                ) : isFirstRun ? (
+                    <div className="space-y-2">
+                        <p className="text-sm text-slate-400 flex items-center gap-2">
+                            <ShieldCheck className="w-4 h-4 text-primary" /> Create the admin account for this device.
+                        </p>
+                        <input
+                            type="text"
+                            value={adminName}
+                            onChange={(e) => setAdminName(e.target.value)}
+                            placeholder="Your name"
+                            autoFocus
+                            className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                        />
+                    </div>
+                ) : (
+                    <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Who is working?</label>
+                        <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                            {activeUsers.map(user => (
+                                <button
+                                    type="button"
+                                    key={user.id}
+                                    onClick={() => {
+                                        setSelectedUserId(user.id);
+                                        setPin('');
+                                        setError('');
+                                    }}
+                                    className={`flex items-center gap-2 p-3 rounded-lg border text-left transition-all ${selectedUserId === user.id
+                                        ? 'bg-primary/20 border-primary/50 shadow-[0_0_15px_rgba(139,92,246,0.2)]'
+                                        : 'bg-black/20 border-white/10 hover:bg-white/5'
+                                        }`}
+                                >
+                                    <UserCircle2 className="w-5 h-5 text-primary shrink-0" />
+                                    <div className="min-w-0">
+                                        <p className="font-bold text-white truncate">{user.name}</p>
+                                        <p className="text-[10px] text-slate-500 uppercase">{ROLE_LABELS[user.role]}</p>
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {(isFirstRun || selectedUser) && (
+                    <div className="space-y-3">
+                        <div className="flex justify-center gap-2 h-6">
+                            {Array.from({ length: Math.max(4, pin.length) }).map((_, i) => (
+                                <span key={i} className={`w-3 h-3 rounded-full border ${i < pin.length ? 'bg-primary border-primary' : 'border-white/20'}`} />
+                            ))}
+                        </div>
+                        {/* Hidden input so hardware keyboards / scanners can type the PIN */}
+                        <input
+                            type="password"
+                            inputMode="numeric"
+                            value={pin}
+                            onChange={(e) => {
+                                setPin(e.target.value.replace(/\D/g, '').slice(0, 8));
+                                setError('');
+                            }}
+                            className="sr-only"
+                            autoFocus={!isFirstRun}
+                            aria-label="PIN"
+                        />
+                        <div className="grid grid-cols-3 gap-2">
+                            {KEYPAD.map(key => (
+                                <button
+                                    type="button"
+                                    key={key}
+                                    onClick={() => pressKey(key)}
+                                    className="py-3 rounded-lg bg-slate-800 border border-white/10 text-lg font-bold text-white hover:bg-slate-700 transition-colors flex items-center justify-center"
+                                >
+                                    {key === 'back' ? <Delete className="w-5 h-5" /> : key === 'clear' ? <span className="text-xs uppercase text-slate-400">Clear</span> : key}
+                                </button>
+                            ))}
+                        </div>
+                        {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+                        <button
+                            type="submit"
+                            disabled={isBusy || pin.length < 4 || (isFirstRun && !adminName.trim())}
+                            className="w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-bold bg-primary text-black hover:bg-primary/80 transition-colors disabled:opacity-40"
+                        >
+                            <LogIn className="w-4 h-4" /> {isFirstRun ? 'Create Admin & Sign In' : 'Sign In'}
+                        </button>
+                    </div>
+                )}
+            </form>
+        </div>
+    );
+};
+
+export default LoginPage;
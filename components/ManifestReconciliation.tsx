@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryItem, Product, allocateFefo, getBatchExpiry, isBatchExpired } from '../types';
+import { PalletLine } from '../services/palletRules';
+import { convertQty, roundQty } from '../services/unitConversion';
+import { isConfidentMatch, matchProduct } from '../services/productMatcher';
+import { getExpiryColor } from '../utils';
+import { ClipboardCheck, X, AlertTriangle, PackageMinus } from 'lucide-react';
+
+interface ManifestReconciliationProps {
+    manifestDate: string;
+    items: PalletLine[];
+    pickedState: Record<string, boolean>;
+    inventory: InventoryItem[];
+    products: Product[];
+    onPost: (items: { id: string; qty: number; unit?: string }[]) => void;
+    onLearnAliases?: (entries: { productCode: string; text: string }[]) => void;
+    onClose: () => void;
+}
+
+/**
+ * Turns a Smart Pick manifest into stock movements: each line is mapped to a product (editable) and
+ * allocated FEFO in its own UoM like the Outbound page, using the product's unit conversions.
+ * Only ticked lines are included by default. Products picked or confirmed here are remembered as aliases.
+ */
+const ManifestReconciliation: React.FC<ManifestReconciliationProps> = ({ manifestDate, items, pickedState, inventory, products, onPost, onLearnAliases, onClose }) => {
+    const [productOverrides, setProductOverrides] = useState<Record<string, string>>({});
+    const [included, setIncluded] = useState<Record<string, boolean>>(() =>
+        Object.fromEntries(items.map(i => [i.id, !!pickedState[i.id]]))
+    );
+
+    const sortedProducts = useMemo(() => [...products].sort((a, b) => a.name.localeCompare(b.name)), [products]);
+
+    const rows = useMemo(() => {
+        const pickable = inventory.filter(i => i.status !== 'quarantine' && !isBatchExpired(i, products.find(p => p.productCode === i.productCode)));
+        const taken = new Map<string, number>(); // Shared so repeated products do not claim the same units twice
+
+        return items.map(line => {
+            const overrideCode = productOverrides[line.id];
+            const match = overrideCode === undefined ? matchProduct(line.item, products) : undefined;
+            const product = overrideCode !== undefined ? products.find(p => p.productCode === overrideCode) : match?.product;
+            // Blank UoMs mean the default unit; products without a default unit are taken as-is
+            const unit = product?.defaultUnit && line.uom?.trim() ? line.uom.trim() : product?.defaultUnit || '';
+            const converted = product?.defaultUnit ? convertQty(product, line.qty, unit, product.defaultUnit) : line.qty;
+            const unknownUnit = converted === undefined;
+            const units = converted ?? line.qty;
+            const allocation = product && included[line.id] && !unknownUnit ? allocateFefo(pickable, product, line.qty, taken, unit) : undefined;
+            return { line, product, match, units, unknownUnit, allocation, shortage: allocation ? roundQty(allocation.requested - allocation.fulfilled) : 0 };
+        });
+    }, [items, inventory, products, productOverrides, included]);
+
+    const postable = rows.filter(r => r.allocation && r.allocation.fulfilled > 0);
+    const unmapped = rows.filter(r => included[r.line.id] && !r.product);
+    const unconvertible = rows.filter(r => included[r.line.id] && r.product && r.unknownUnit);
+    const short = rows.filter(r => r.shortage > 0);
+    const notPicked = items.filter(i => !pickedState[i.id]).length;
+
+    const handlePost = () => {
+        const flatList: { id: string; qty: number; unit: string }[] = [];
+        postable.forEach(r => r.allocation!.breakdown.forEach(b => {
+            const existing = flatList.find(x => x.id === b.item.id && x.unit === r.allocation!.unit);
+            if (existing) existing.qty += b.takeQty;
+            else flatList.push({ id: b.item.id, qty: b.takeQty, unit: r.allocation!.unit });
+        }));
+        onPost(flatList);
+
+        const confirmed = Object.entries(productOverrides)
+            .filter(([, code]) => code)
+            .map(([lineId, productCode]) => ({ productCode, text: items.find(i => i.id === lineId)?.item || '' }));
+        if (confirmed.length > 0) onLearnAliases?.(confirmed);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-slate-900 border border-white/10 rounded-xl shadow-2xl overflow-hidden">
+                <div className="flex items-center justify-between gap-3 p-4 border-b border-white/10">
+                    <div className="flex items-center gap-3">
+                        <ClipboardCheck className="w-5 h-5 text-primary" />
+                        <div>
+                            <h3 className="text-lg font-bold text-white">Reconcile Manifest</h3>
+                            <p className="text-xs text-slate-500">{manifestDate} • Stock is taken FEFO; quarantined batches are skipped.</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                    {(unmapped.length > 0 || unconvertible.length > 0 || short.length > 0 || notPicked > 0) && (
+                        <div className="bg-amber-500/10 border border-amber-500/30 text-amber-300 rounded-lg p-3 text-xs space-y-1">
+                            {notPicked > 0 && <div className="flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> {notPicked} line(s) are not ticked on the checklist.</div>}
+                            {unmapped.length > 0 && <div className="flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> {unmapped.length} line(s) have no product and will not be posted.</div>}
+                            {unconvertible.map(r => (
+                                <div key={r.line.id} className="flex items-center gap-2">
+                                    <AlertTriangle className="w-4 h-4" /> {r.line.item}: {r.product!.name} has no conversion from {r.line.uom} to {r.product!.defaultUnit} (Product Master) - not posted.
+                                </div>
+                            ))}
+                            {short.map(r => (
+                                <div key={r.line.id} className="flex items-center gap-2">
+                                    <AlertTriangle className="w-4 h-4" /> {r.line.item}: short {r.shortage} {r.allocation?.unit || ''}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <table className="w-full text-left text-sm text-slate-400">
+                        <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                            <tr>
+                                <th className="px-3 py-2 w-8"></th>
+                                <th className="px-3 py-2">Manifest Line</th>
+                                <th className="px-3 py-2">Product</th>
+                                <th className="px-3 py-2 text-right">Units</th>
+                                <th className="px-3 py-2">Batches</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {rows.map(({ line, product, match, units, unknownUnit, allocation, shortage }) => (
+                                <tr key={line.id} className={included[line.id] ? '' : 'opacity-50'}>
+                                    <td className="px-3 py-2 align-top">
+                                        <input
+                                            type="checkbox"
+                                            checked={!!included[line.id]}
+                                            onChange={(e) => setIncluded(prev => ({ ...prev, [line.id]: e.target.checked }))}
+                                            className="w-4 h-4 rounded border-slate-600 bg-slate-800"
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2 align-top">
+                                        <div className="font-medium text-slate-200">{line.item}</div>
+                                        <div className="text-xs text-slate-500">{line.qty} {line.uom}</div>
+                                    </td>
+                                    <td className="px-3 py-2 align-top">
+                                        <select
+                                            value={product?.productCode || ''}
+                                            onChange={(e) => setProductOverrides(prev => ({ ...prev, [line.id]: e.target.value }))}
+                                            className={`w-full px-2 py-1 text-xs border bg-black/40 rounded text-slate-200 outline-none ${product ? 'border-white/10' : 'border-amber-500/50'}`}
+                                        >
+                                            <option value="">-- Not mapped --</option>
+                                            {sortedProducts.map(p => <option key={p.productCode} value={p.productCode}>{p.name} ({p.productCode})</option>)}
+                                        </select>
+                                        {match && !isConfidentMatch(match) && (
+                                            <div className="flex items-center gap-2 mt-1 text-xs text-amber-400">
+                                                Closest name {Math.round(match.score * 100)}%
+                                                <button
+                                                    onClick={() => setProductOverrides(prev => ({ ...prev, [line.id]: match.product.productCode }))}
+                                                    className="font-bold underline hover:text-amber-300"
+                                                >
+                                                    Confirm
+                                                </button>
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-2 align-top text-right font-mono">
+                                        {unknownUnit
+                                            ? <span className="text-xs text-amber-400">No {line.uom} conversion</span>
+                                            : <><span className="text-slate-200 font-bold">{units}</span> <span className="text-xs">{product?.defaultUnit || ''}</span></>}
+                                        {shortage > 0 && <div className="text-xs text-red-400">short {shortage} {allocation?.unit}</div>}
+                                    </td>
+                                    <td className="px-3 py-2 align-top text-xs">
+                                        {allocation?.breakdown.map(b => {
+                                            const expiry = getBatchExpiry(b.item, product);
+                                            return (
+                                                <div key={b.item.id} className="flex justify-between gap-2">
+                                                    <span>{b.item.locations.map(l => `${l.rack}-${l.bay}-${l.level}`).join(', ')}</span>
+                                                    {expiry && <span className={`px-1 rounded ${getExpiryColor(expiry)}`}>{new Date(expiry).toLocaleDateString()}</span>}
+                                                    <span className="font-mono font-bold text-slate-200">{b.takeQty}</span>
+                                                </div>
+                                            );
+                                        })}
+                                        {included[line.id] && product && allocation?.breakdown.length === 0 && <span className="text-red-400">No stock</span>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex items-center justify-between gap-2 p-4 border-t border-white/10">
+                    <span className="text-xs text-slate-500">{postable.length} of {items.length} line(s) will be posted as OUTBOUND.</span>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-bold text-slate-400 hover:text-white transition-colors">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handlePost}
+                            disabled={postable.length === 0}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 disabled:opacity-50 transition-colors"
+                        >
+                            <PackageMinus className="w-4 h-4" /> {short.length > 0 ? 'Post Available Stock' : 'Post Outbound'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ManifestReconciliation;
@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryItem, Product } from '../types';
+import { MASTER_LIST_LABELS, MasterListKind, getMasterValueUsage } from '../services/masterData';
+import { Plus, Trash2, Edit, Save, X, AlertCircle, LucideIcon } from 'lucide-react';
+
+interface MasterListEditorProps {
+    kind: MasterListKind;
+    values: string[];
+    products: Product[];
+    inventory: InventoryItem[];
+    icon: LucideIcon;
+    title: string;
+    description: string;
+    placeholder: string;
+    readOnly?: boolean;
+    onAdd: (value: string) => boolean;
+    onUpdate: (oldValue: string, newValue: string) => boolean;
+    onDelete: (value: string) => void;
+}
+
+/**
+ * Shared editor behind the Categories and Units pages: add, rename and delete values,
+ * with how many products (and batches in stock) use each one.
+ */
+const MasterListEditor: React.FC<MasterListEditorProps> = ({
+    kind, values, products, inventory, icon: Icon, title, description, placeholder, readOnly = false, onAdd, onUpdate, onDelete
+}) => {
+    const [newValue, setNewValue] = useState('');
+    const [editing, setEditing] = useState<string | null>(null);
+    const [editValue, setEditValue] = useState('');
+
+    const label = MASTER_LIST_LABELS[kind];
+
+    const rows = useMemo(() =>
+        [...values]
+            .sort((a, b) => a.localeCompare(b))
+            .map(value => ({ value, usage: getMasterValueUsage(kind, value, products, inventory) })),
+        [kind, values, products, inventory]);
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (onAdd(newValue)) setNewValue('');
+    };
+
+    const startEdit = (value: string) => {
+        setEditing(value);
+        setEditValue(value);
+    };
+
+    const saveEdit = () => {
+        if (editing && onUpdate(editing, editValue)) setEditing(null);
+    };
+
+    const inputClass = 'px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none';
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex items-center gap-3">
+                    <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                        <Icon className="w-6 h-6 text-primary" />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">{title}</h2>
+                        <p className="text-sm text-slate-400">{description}</p>
+                    </div>
+                </div>
+
+                {!readOnly && (
+                    <form onSubmit={handleAdd} className="flex gap-2 mt-6 md:w-[32rem]">
+                        <input
+                            type="text"
+                            value={newValue}
+                            onChange={(e) => setNewValue(e.target.value)}
+                            placeholder={placeholder}
+                            className={`flex-1 ${inputClass}`}
+                        />
+                        <button
+                            type="submit"
+                            disabled={!newValue.trim()}
+                            className="px-4 py-2 bg-primary/20 text-primary border border-primary/50 rounded-lg hover:bg-primary/30 flex items-center gap-2 text-sm font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Plus className="w-4 h-4" /> Add {label}
+                        </button>
+                    </form>
+                )}
+            </div>
+
+            <div className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 overflow-hidden">
+                <table className="w-full text-left text-sm text-slate-400">
+                    <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                        <tr>
+                            <th className="px-6 py-4">{label}</th>
+                            <th className="px-6 py-4 text-right">Products</th>
+                            <th className="px-6 py-4 text-right">Batches in Stock</th>
+                            {!readOnly && <th className="px-6 py-4 text-right">Actions</th>}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5">
+                        {rows.map(({ value, usage }) => (
+                            <tr key={value} className="hover:bg-white/5 transition-colors">
+                                <td className="px-6 py-3">
+                                    {editing === value ? (
+                                        <div className="flex gap-2">
+                                            <input
+                                                type="text"
+                                                value={editValue}
+                                                onChange={(e) => setEditValue(e.target.value)}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') saveEdit();
+                                                    if (e.key === 'Escape') setEditing(null);
+                                                }}
+                                                className={`w-48 ${inputClass} py-1`}
+                                                autoFocus
+                                            />
+                                            <button onClick={saveEdit} className="p-1.5 text-emerald-400 hover:bg-emerald-500/10 rounded" title="Save">
+                                                <Save className="w-4 h-4" />
+                                            </button>
+                                            <button onClick={() => setEditing(null)} className="p-1.5 text-slate-400 hover:bg-white/10 rounded" title="Cancel">
+                                                <X className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ) : (
+                                        <span className="font-bold text-slate-200">{value}</span>
+                                    )}
+                                </td>
+                                <td className="px-6 py-3 text-right font-mono text-white">{usage.products}</td>
+                                <td className="px-6 py-3 text-right font-mono">{usage.batches}</td>
+                                {!readOnly && (
+                                    <td className="px-6 py-3 text-right whitespace-nowrap">
+                                        <button onClick={() => startEdit(value)} className="p-2 text-slate-400 hover:text-blue-400 transition-colors" title="Rename">
+                                            <Edit className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => onDelete(value)}
+                                            disabled={usage.products > 0}
+                                            className="p-2 text-slate-400 hover:text-red-400 transition-colors disabled:opacity-30 disabled:hover:text-slate-400"
+                                            title={usage.products > 0 ? `Used by ${usage.products} product(s)` : 'Delete'}
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </td>
+                                )}
+                            </tr>
+                        ))}
+                        {rows.length === 0 && (
+                            <tr>
+                                <td colSpan={4} className="px-6 py-10 text-center text-slate-500">
+                                    <AlertCircle className="w-10 h-10 mx-auto mb-2 opacity-20" />
+                                    Nothing defined yet.
+                                </td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default MasterListEditor;
@@ -0,0 +1,446 @@
+import React, { useState } from 'react';
+import { Customer, OutboundOrder, Product } from '../types';
+import { getOrderLineRemaining, isOutboundOrderActive, OutboundOrderInput } from '../services/outboundOrders';
+import { smartSearch, toDateInputValue, fromDateInputValue } from '../utils';
+import ShipmentDocuments from './ShipmentDocuments';
+import { Send, Plus, Edit, Trash2, X, Save, Search, PackageMinus, Truck, FileText, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface OrdersPageProps {
+    outboundOrders: OutboundOrder[];
+    customers: Customer[];
+    products: Product[];
+    canManage: boolean;
+    onSave: (order: OutboundOrderInput) => boolean;
+    onDelete: (id: string) => void;
+    onPick: (id: string) => void;
+    onShip: (id: string, shipment: { carrier?: string; trailerRef?: string }) => void;
+}
+
+const STATUS_STYLES: Record<OutboundOrder['status'], string> = {
+    open: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+    picking: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+    picked: 'bg-green-500/20 text-green-400 border-green-500/30',
+    shipped: 'bg-slate-800 text-slate-400 border-white/10'
+};
+
+type Draft = {
+    id?: string;
+    orderNumber: string;
+    customerId: string;
+    requestedDate: string;
+    notes: string;
+    lines: { id?: string; productCode: string; orderedQty: string }[];
+};
+
+const EMPTY_DRAFT: Draft = { orderNumber: '', customerId: '', requestedDate: '', notes: '', lines: [{ productCode: '', orderedQty: '' }] };
+
+const OrdersPage: React.FC<OrdersPageProps> = ({ outboundOrders, customers, products, canManage, onSave, onDelete, onPick, onShip }) => {
+    const [statusFilter, setStatusFilter] = useState<'active' | OutboundOrder['status'] | 'all'>('active');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [shipping, setShipping] = useState<{ id: string; carrier: string; trailerRef: string } | null>(null);
+    const [documentsFor, setDocumentsFor] = useState<OutboundOrder | null>(null);
+
+    const productName = (code: string) => products.find(p => p.productCode === code)?.name || code;
+
+    const visibleOrders = outboundOrders
+        .filter(o => statusFilter === 'all' || (statusFilter === 'active' ? isOutboundOrderActive(o) : o.status === statusFilter))
+        .filter(o => smartSearch(o, ['orderNumber', 'customerName', 'notes'], searchTerm))
+        .sort((a, b) => (a.requestedDate || Infinity) - (b.requestedDate || Infinity) || b.createdAt - a.createdAt);
+
+    const openEditor = (order?: OutboundOrder) => {
+        setDraft(order ? {
+            id: order.id,
+            orderNumber: order.orderNumber,
+            customerId: order.customerId,
+            requestedDate: toDateInputValue(order.requestedDate),
+            notes: order.notes || '',
+            lines: order.lines.map(l => ({ id: l.id, productCode: l.productCode, orderedQty: String(l.orderedQty) }))
+        } : { ...EMPTY_DRAFT, lines: [{ productCode: '', orderedQty: '' }] });
+    };
+
+    const updateLine = (idx: number, patch: Partial<Draft['lines'][number]>) => {
+        if (!draft) return;
+        setDraft({ ...draft, lines: draft.lines.map((l, i) => i === idx ? { ...l, ...patch } : l) });
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+        const ok = onSave({
+            id: draft.id,
+            orderNumber: draft.orderNumber,
+            customerId: draft.customerId,
+            requestedDate: fromDateInputValue(draft.requestedDate),
+            notes: draft.notes,
+            lines: draft.lines.map(l => ({ id: l.id, productCode: l.productCode.trim(), orderedQty: parseFloat(l.orderedQty) || 0 }))
+        });
+        if (ok) setDraft(null);
+    };
+
+    const handleShip = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!shipping) return;
+        onShip(shipping.id, { carrier: shipping.carrier, trailerRef: shipping.trailerRef });
+        setShipping(null);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                            <Send className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Customer Orders</h2>
+                            <p className="text-sm text-slate-400">What we owe customers. Pick from Outbound, then ship and print the paperwork.</p>
+                        </div>
+                    </div>
+                    {canManage && (
+                        <button
+                            onClick={() => openEditor()}
+                            disabled={customers.length === 0}
+                            title={customers.length === 0 ? 'Add a customer first' : undefined}
+                            className="px-4 py-2 bg-primary/20 text-primary border border-primary/50 rounded-lg hover:bg-primary/30 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 text-sm font-bold transition-all shadow-[0_0_10px_rgba(139,92,246,0.3)]"
+                        >
+                            <Plus className="w-4 h-4" /> New Order
+                        </button>
+                    )}
+                </div>
+
+                <div className="mt-6 flex flex-col md:flex-row gap-4 items-center justify-between">
+                    <div className="relative w-full md:w-96">
+                        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-500 w-4 h-4" />
+                        <input
+                            type="text"
+                            placeholder="Search order number, customer..."
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            className="w-full pl-9 pr-4 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                        />
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {(['active', 'open', 'picking', 'picked', 'shipped', 'all'] as const).map(status => (
+                            <button
+                                key={status}
+                                onClick={() => setStatusFilter(status)}
+                                className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wide border transition-colors ${statusFilter === status
+                                    ? 'bg-primary/20 text-primary border-primary/50'
+                                    : 'bg-black/20 text-slate-400 border-white/10 hover:bg-white/5'
+                                    }`}
+                            >
+                                {status === 'active' ? 'Unshipped' : status}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm text-slate-400">
+                        <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                            <tr>
+                                <th className="px-6 py-4">Order</th>
+                                <th className="px-6 py-4">Customer</th>
+                                <th className="px-6 py-4">Requested</th>
+                                <th className="px-6 py-4 text-right">Picked</th>
+                                <th className="px-6 py-4">Status</th>
+                                <th className="px-6 py-4 text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {visibleOrders.map(order => {
+                                const orderedTotal = order.lines.reduce((sum, l) => sum + l.orderedQty, 0);
+                                const pickedTotal = order.lines.reduce((sum, l) => sum + l.pickedQty, 0);
+                                const isExpanded = expandedId === order.id;
+                                return (
+                                    <React.Fragment key={order.id}>
+                                        <tr className="hover:bg-white/5 transition-colors cursor-pointer" onClick={() => setExpandedId(isExpanded ? null : order.id)}>
+                                            <td className="px-6 py-4 font-mono font-bold text-slate-200 whitespace-nowrap">
+                                                {isExpanded ? <ChevronDown className="w-4 h-4 inline mr-1" /> : <ChevronRight className="w-4 h-4 inline mr-1" />}
+                                                {order.orderNumber}
+                                            </td>
+                                            <td className="px-6 py-4 text-slate-300">{order.customerName}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap">{order.requestedDate ? new Date(order.requestedDate).toLocaleDateString() : '-'}</td>
+                                            <td className="px-6 py-4 text-right font-mono">
+                                                <span className="text-white">{pickedTotal}</span> / {orderedTotal}
+                                                <div className="text-xs text-slate-500">{order.lines.length} line(s)</div>
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border ${STATUS_STYLES[order.status]}`}>
+                                                    {order.status}
+                                                </span>
+                                                {order.shippedAt && <div className="text-xs text-slate-500 mt-1">{new Date(order.shippedAt).toLocaleDateString()}</div>}
+                                            </td>
+                                            <td className="px-6 py-4 text-right whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                                                {order.status !== 'shipped' && order.status !== 'picked' && (
+                                                    <button onClick={() => onPick(order.id)} className="p-2 text-slate-400 hover:text-green-400 transition-colors" title="Pick on Outbound">
+                                                        <PackageMinus className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                {order.status !== 'shipped' && pickedTotal > 0 && (
+                                                    <button
+                                                        onClick={() => setShipping({ id: order.id, carrier: order.carrier || '', trailerRef: order.trailerRef || '' })}
+                                                        className="p-2 text-slate-400 hover:text-primary transition-colors"
+                                                        title="Ship"
+                                                    >
+                                                        <Truck className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                {pickedTotal > 0 && (
+                                                    <button onClick={() => setDocumentsFor(order)} className="p-2 text-slate-400 hover:text-white transition-colors" title="Packing slip / bill of lading">
+                                                        <FileText className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                {canManage && order.status !== 'shipped' && (
+                                                    <button onClick={() => openEditor(order)} className="p-2 text-slate-400 hover:text-blue-400 transition-colors" title="Edit">
+                                                        <Edit className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                {canManage && pickedTotal === 0 && (
+                                                    <button onClick={() => onDelete(order.id)} className="p-2 text-slate-400 hover:text-red-400 transition-colors" title="Delete">
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                        {isExpanded && (
+                                            <tr className="bg-black/20">
+                                                <td colSpan={6} className="px-6 py-4">
+                                                    <table className="w-full text-xs">
+                                                        <thead className="text-slate-500 uppercase">
+                                                            <tr>
+                                                                <th className="py-1 text-left">Item</th>
+                                                                <th className="py-1 text-right">Ordered</th>
+                                                                <th className="py-1 text-right">Picked</th>
+                                                                <th className="py-1 text-left pl-6">Lots / Bins</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody>
+                                                            {order.lines.map(line => {
+                                                                const remaining = getOrderLineRemaining(line);
+                                                                return (
+                                                                    <tr key={line.id} className="border-t border-white/5 align-top">
+                                                                        <td className="py-1.5">
+                                                                            <span className="text-slate-200">{productName(line.productCode)}</span>
+                                                                            <span className="ml-2 font-mono text-slate-500">{line.productCode}</span>
+                                                                        </td>
+                                                                        <td className="py-1.5 text-right font-mono">{line.orderedQty}</td>
+                                                                        <td className={`py-1.5 text-right font-mono ${remaining > 0 ? (order.status === 'shipped' ? 'text-red-400' : 'text-amber-400') : 'text-green-400'}`}>{line.pickedQty}</td>
+                                                                        <td className="py-1.5 pl-6 font-mono text-slate-400">
+                                                                            {line.picks.length === 0 ? '-' : line.picks.map((pick, i) => (
+                                                                                <div key={`${pick.transactionId}-${i}`}>
+                                                                                    {pick.location}{pick.lotNumber ? ` • ${pick.lotNumber}` : ''} × {pick.qty}
+                                                                                </div>
+                                                                            ))}
+                                                                        </td>
+                                                                    </tr>
+                                                                );
+                                                            })}
+                                                        </tbody>
+                                                    </table>
+                                                    {order.status === 'shipped' && (
+                                                        <p className="mt-3 text-xs text-slate-500">
+                                                            Shipped{order.shippedBy ? ` by ${order.shippedBy}` : ''}{order.carrier ? ` via ${order.carrier}` : ''}{order.trailerRef ? ` (${order.trailerRef})` : ''}
+                                                        </p>
+                                                    )}
+                                                    {order.notes && <p className="mt-1 text-xs text-slate-400">{order.notes}</p>}
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                            {visibleOrders.length === 0 && (
+                                <tr>
+                                    <td colSpan={6} className="p-10 text-center text-slate-500">No orders found.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {draft && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                    <form onSubmit={handleSave} className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-slate-900 border border-white/10 rounded-xl shadow-2xl p-6 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-bold text-white">{draft.id ? `Edit ${draft.orderNumber}` : 'New Order'}</h3>
+                            <button type="button" onClick={() => setDraft(null)} className="text-slate-500 hover:text-white transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Order Number</label>
+                                <input
+                                    type="text"
+                                    value={draft.orderNumber}
+                                    onChange={(e) => setDraft({ ...draft, orderNumber: e.target.value })}
+                                    autoFocus
+                                    className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-mono"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Customer</label>
+                                <select
+                                    value={draft.customerId}
+                                    onChange={(e) => setDraft({ ...draft, customerId: e.target.value })}
+                                    className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                                >
+                                    <option value="">Select...</option>
+                                    {customers.slice().sort((a, b) => a.name.localeCompare(b.name)).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Requested Date</label>
+                                <input
+                                    type="date"
+                                    value={draft.requestedDate}
+                                    onChange={(e) => setDraft({ ...draft, requestedDate: e.target.value })}
+                                    className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-300 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Lines</label>
+                            <datalist id="order-products">
+                                {products.map(p => <option key={p.productCode} value={p.productCode}>{p.name}</option>)}
+                            </datalist>
+                            <div className="space-y-2">
+                                {draft.lines.map((line, idx) => (
+                                    <div key={line.id || idx} className="flex items-center gap-2">
+                                        <input
+                                            type="text"
+                                            list="order-products"
+                                            value={line.productCode}
+                                            onChange={(e) => updateLine(idx, { productCode: e.target.value })}
+                                            placeholder="Product code"
+                                            className="flex-1 px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary outline-none font-mono"
+                                        />
+                                        <span className="hidden md:block w-48 truncate text-xs text-slate-500">{line.productCode ? productName(line.productCode) : ''}</span>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            inputMode="decimal"
+                                            value={line.orderedQty}
+                                            onChange={(e) => updateLine(idx, { orderedQty: e.target.value })}
+                                            placeholder="Qty"
+                                            className="w-24 px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary outline-none font-mono text-right"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => setDraft({ ...draft, lines: draft.lines.filter((_, i) => i !== idx) })}
+                                            className="p-2 text-slate-500 hover:text-red-400 transition-colors"
+                                            title="Remove line"
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => setDraft({ ...draft, lines: [...draft.lines, { productCode: '', orderedQty: '' }] })}
+                                className="mt-2 flex items-center gap-1 text-xs font-bold text-primary hover:text-primary/80 transition-colors"
+                            >
+                                <Plus className="w-3 h-3" /> Add Line
+                            </button>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Notes</label>
+                            <input
+                                type="text"
+                                value={draft.notes}
+                                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                                className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                            />
+                        </div>
+
+                        <div className="flex justify-end gap-2 pt-2">
+                            <button
+                                type="button"
+                                onClick={() => setDraft(null)}
+                                className="px-4 py-2 rounded-lg text-sm font-bold text-slate-400 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 transition-colors"
+                            >
+                                <Save className="w-4 h-4" /> Save
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+
+            {shipping && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                    <form onSubmit={handleShip} className="w-full max-w-md bg-slate-900 border border-white/10 rounded-xl shadow-2xl p-6 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-bold text-white">Ship Order</h3>
+                            <button type="button" onClick={() => setShipping(null)} className="text-slate-500 hover:text-white transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Carrier</label>
+                            <input
+                                type="text"
+                                value={shipping.carrier}
+                                onChange={(e) => setShipping({ ...shipping, carrier: e.target.value })}
+                                placeholder="Own truck, carrier name..."
+                                autoFocus
+                                className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Trailer / Seal / Tracking</label>
+                            <input
+                                type="text"
+                                value={shipping.trailerRef}
+                                onChange={(e) => setShipping({ ...shipping, trailerRef: e.target.value })}
+                                className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-mono"
+                            />
+                        </div>
+                        <div className="flex justify-end gap-2 pt-2">
+                            <button
+                                type="button"
+                                onClick={() => setShipping(null)}
+                                className="px-4 py-2 rounded-lg text-sm font-bold text-slate-400 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 transition-colors"
+                            >
+                                <Truck className="w-4 h-4" /> Mark Shipped
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+
+            {documentsFor && (
+                <ShipmentDocuments
+                    order={outboundOrders.find(o => o.id === documentsFor.id) || documentsFor}
+                    customer={customers.find(c => c.id === documentsFor.customerId)}
+                    products={products}
+                    onClose={() => setDocumentsFor(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default OrdersPage;
@@ -1,23 +1,31 @@
 import React, { useState, useMemo } from 'react';
-import { Product, InventoryItem, SavedPickList, getBestLocationScore } from '../types';
-import { PackageMinus, CheckCircle, ShoppingCart, Trash2, Plus, AlertCircle, Save, FolderOpen, X, ScanLine, Image as ImageIcon, Sparkles, Loader2 } from 'lucide-react';
+import { Product, InventoryItem, SavedPickList, OutboundOrder, allocateFefo, getBatchExpiry, isBatchExpired } from '../types';
+import { PackageMinus, CheckCircle, ShoppingCart, Trash2, Plus, AlertCircle, Save, FolderOpen, X, ScanLine, Image as ImageIcon, Sparkles, Loader2, Truck } from 'lucide-react';
 import ConfirmModal, { ModalType } from './ConfirmModal';
-import { parsePickList } from '../services/geminiService';
-import { smartSearch, getEmbedLink } from '../utils';
+import { scanPickList } from '../services/pickListScanner';
+import ScanMatchReview, { ScannedLine } from './ScanMatchReview';
+import { smartSearch, getEmbedLink, getExpiryColor } from '../utils';
+import { getOrderLineRemaining, isOutboundOrderActive } from '../services/outboundOrders';
+import { convertQty, formatUnitBreakdown, getUnitFactors, isSameUnit, roundQty } from '../services/unitConversion';
 
 interface OutboundFormProps {
   products: Product[];
   inventory: InventoryItem[];
   savedPickLists: SavedPickList[];
-  onProcess: (itemsToRemove: { id: string, qty: number }[], note?: string) => void;
+  onProcess: (itemsToRemove: { id: string, qty: number, unit?: string }[], note?: string, customDate?: number, orderId?: string) => void;
   onCancel: () => void;
   onSaveList: (name: string, items: { productCode: string, qty: number }[]) => void;
   onDeleteList: (id: string) => void;
+  outboundOrders?: OutboundOrder[];
+  initialOrderId?: string; // Order opened from the Orders page
+  onStartOrder?: (orderId: string) => void;
+  onLearnAliases?: (entries: { productCode: string; text: string }[]) => void;
 }
 
 interface CartItem {
   product: Product;
   requestQty: number;
+  unit: string; // Unit the line is picked in (any unit of the product)
 }
 
 const OutboundForm: React.FC<OutboundFormProps> = ({
@@ -27,11 +35,16 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
   onCancel,
   savedPickLists,
   onSaveList,
-  onDeleteList
+  onDeleteList,
+  outboundOrders = [],
+  initialOrderId,
+  onStartOrder,
+  onLearnAliases
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [requestQty, setRequestQty] = useState<number>(0);
+  const [requestUnit, setRequestUnit] = useState<string>(''); // Picked in any unit of the product
   const [note, setNote] = useState<string>('');
   // Initialize with LOCAL date string to avoid UTC shift
   const [date, setDate] = useState<string>(() => {
@@ -62,6 +75,10 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
 
   // Shopping Cart State
   const [cart, setCart] = useState<CartItem[]>([]);
+  // Customer order the cart is being picked for (stock is tagged with its number)
+  const [orderId, setOrderId] = useState<string>('');
+  const activeOrders = outboundOrders.filter(isOutboundOrderActive);
+  const currentOrder = activeOrders.find(o => o.id === orderId);
 
   // UI State
   const [showLoadModal, setShowLoadModal] = useState(false);
@@ -69,6 +86,8 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
   const [newListName, setNewListName] = useState('');
   const [showScanModal, setShowScanModal] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
+  const [offlineProgress, setOfflineProgress] = useState<number | null>(null); // Set while the on-device reader runs
+  const [scanReview, setScanReview] = useState<{ lines: ScannedLine[]; note?: string } | null>(null);
   const [scanImage, setScanImage] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
@@ -91,15 +110,26 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
     }
   }, [successMessage]);
 
+  // Quarantined (on hold) and expired batches are never offered for picking
+  const pickableInventory = useMemo(() => inventory.filter(i =>
+    i.status !== 'quarantine' && !isBatchExpired(i, products.find(p => p.productCode === i.productCode))
+  ), [inventory, products]);
+
+  // Stock and requests are compared in the product's default unit; batches kept in another unit are converted
+  const toDefaultUnit = (product: Product, qty: number, unit: string) =>
+    product.defaultUnit ? convertQty(product, qty, unit, product.defaultUnit) ?? 0 : qty;
+
+  const getPickableStock = (product: Product) => roundQty(pickableInventory
+    .filter(i => i.productCode === product.productCode)
+    .reduce((acc, i) => acc + toDefaultUnit(product, i.quantity, i.unit), 0));
+
   const cartItemsWithValidation = useMemo(() => {
     return cart.map((c, idx) => {
-      const totalStock = inventory
-        .filter(i => i.productCode === c.product.productCode)
-        .reduce((acc, i) => acc + i.quantity, 0);
+      const totalStock = getPickableStock(c.product);
 
-      const totalRequested = cart
+      const totalRequested = roundQty(cart
         .filter(item => item.product.productCode === c.product.productCode)
-        .reduce((acc, item) => acc + item.requestQty, 0);
+        .reduce((acc, item) => acc + toDefaultUnit(item.product, item.requestQty, item.unit), 0));
 
       return {
         ...c,
@@ -109,64 +139,39 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
         isOverStock: totalRequested > totalStock
       };
     });
-  }, [cart, inventory]);
+  }, [cart, pickableInventory]);
 
   const hasValidationErrors = useMemo(() => cartItemsWithValidation.some(c => c.isOverStock), [cartItemsWithValidation]);
 
   // --- Derived State ---
 
   // 1. Calculate Available Stock (Total - InCart)
-  const getProductAvailability = (productCode: string) => {
-    const totalPhysical = inventory
-      .filter(i => i.productCode === productCode)
-      .reduce((acc, i) => acc + i.quantity, 0);
+  const getProductAvailability = (product: Product) => {
+    const totalPhysical = getPickableStock(product);
 
     const inCart = cart
-      .filter(c => c.product.productCode === productCode)
-      .reduce((acc, c) => acc + c.requestQty, 0);
+      .filter(c => c.product.productCode === product.productCode)
+      .reduce((acc, c) => acc + toDefaultUnit(c.product, c.requestQty, c.unit), 0);
 
-    return Math.max(0, totalPhysical - inCart);
+    return Math.max(0, roundQty(totalPhysical - inCart));
   };
 
-  const currentAvailable = selectedProduct ? getProductAvailability(selectedProduct.productCode) : 0;
+  const currentAvailable = selectedProduct ? getProductAvailability(selectedProduct) : 0;
+  const requestUnits = selectedProduct ? getUnitFactors(selectedProduct) : [];
+  // Products without a default unit are picked as-is
+  const requestBaseQty = selectedProduct?.defaultUnit
+    ? convertQty(selectedProduct, requestQty, requestUnit || selectedProduct.defaultUnit, selectedProduct.defaultUnit)
+    : requestQty;
 
   // 2. Generate the "Pick Plan" (The precise breakdown of WHICH items to remove)
   const pickPlan = useMemo(() => {
-    const plan: {
-      product: Product,
-      breakdown: { item: InventoryItem, takeQty: number }[],
-      fulfilled: number,
-      requested: number
-    }[] = [];
-
-    cart.forEach(cartItem => {
-      // Find matching physical items, sorted by priority (FIFO/Location)
-      const auditItems = inventory
-        .filter(i => i.productCode === cartItem.product.productCode)
-        .sort((a, b) => getBestLocationScore(a.locations) - getBestLocationScore(b.locations));
-
-      let remaining = cartItem.requestQty;
-      const breakdown: { item: InventoryItem, takeQty: number }[] = [];
-
-      for (const item of auditItems) {
-        if (remaining <= 0) break;
-        const take = Math.min(item.quantity, remaining);
-        if (take > 0) {
-          breakdown.push({ item, takeQty: take });
-          remaining -= take;
-        }
-      }
-
-      plan.push({
-        product: cartItem.product,
-        breakdown,
-        fulfilled: cartItem.requestQty - remaining,
-        requested: cartItem.requestQty
-      });
-    });
-
-    return plan;
-  }, [cart, inventory]);
+    // Matching physical items by priority (FEFO first, then Location); repeated products share the batches
+    const taken = new Map<string, number>();
+    return cart.map(cartItem => ({
+      product: cartItem.product,
+      ...allocateFefo(pickableInventory, cartItem.product, cartItem.requestQty, taken, cartItem.unit)
+    }));
+  }, [cart, pickableInventory]);
 
   // 3. Filtered Products (Search LIVE INVENTORY, not just Product Master)
   const filteredProducts = useMemo(() => {
@@ -178,7 +183,7 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
     // We prioritize the "Product Master" info if it exists, otherwise fall back to Inventory data
     const matches = new Map<string, Product>();
 
-    inventory.forEach(item => {
+    pickableInventory.forEach(item => {
       // search match?
       // Use smart search for multi-keyword matching
       // We check against both the inventory item fields AND the potential full product details if available
@@ -215,7 +220,7 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
       })
       .slice(0, 10);
 
-  }, [searchTerm, products, inventory]);
+  }, [searchTerm, products, pickableInventory]);
 
 
   // --- Handlers ---
@@ -224,23 +229,25 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
     setSelectedProduct(product);
     setSearchTerm(`${product.name}`); // Display Name
     setRequestQty(0);
+    setRequestUnit(product.defaultUnit || '');
   };
 
   const handleAddToCart = () => {
-    if (!selectedProduct || requestQty <= 0) return;
+    if (!selectedProduct || !requestBaseQty || requestBaseQty <= 0) return;
 
-    if (requestQty > currentAvailable) {
+    if (requestBaseQty > currentAvailable) {
       setModalConfig({ isOpen: true, title: 'Insufficient Stock', message: `Only ${currentAvailable} available.`, type: 'danger' });
       return;
     }
 
-    // Add to cart (Merge if exists, or add new)
+    // Add to cart (Merge if the product is already listed in the same unit, or add new)
+    const unit = requestUnit || selectedProduct.defaultUnit || '';
+    const isSameLine = (c: CartItem) => c.product.productCode === selectedProduct.productCode && isSameUnit(c.unit, unit);
     setCart(prev => {
-      const existing = prev.find(c => c.product.productCode === selectedProduct.productCode);
-      if (existing) {
-        return prev.map(c => c.product.productCode === selectedProduct.productCode ? { ...c, requestQty: c.requestQty + requestQty } : c);
+      if (prev.some(isSameLine)) {
+        return prev.map(c => isSameLine(c) ? { ...c, requestQty: c.requestQty + requestQty } : c);
       }
-      return [...prev, { product: selectedProduct, requestQty }];
+      return [...prev, { product: selectedProduct, requestQty, unit }];
     });
 
     // Reset Input
@@ -255,29 +262,55 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
 
   const handleProcessOutbound = () => {
     // Flatten the pick plan
-    const flatList: { id: string, qty: number }[] = [];
+    const flatList: { id: string, qty: number, unit: string }[] = [];
     pickPlan.forEach(p => {
       p.breakdown.forEach(b => {
-        const existing = flatList.find(x => x.id === b.item.id);
+        const existing = flatList.find(x => x.id === b.item.id && x.unit === p.unit);
         if (existing) {
           existing.qty += b.takeQty;
         } else {
-          flatList.push({ id: b.item.id, qty: b.takeQty });
+          flatList.push({ id: b.item.id, qty: b.takeQty, unit: p.unit });
         }
       });
     });
-    // @ts-ignore
-    onProcess(flatList, note, getAdjustedTimestamp(date));
+    onProcess(flatList, note, getAdjustedTimestamp(date), currentOrder?.id);
     setNote('');
 
     // Success notification and Reset
-    setSuccessMessage(`Successfully processed ${cart.length} items for shipping.`);
+    setSuccessMessage(currentOrder
+      ? `Picked ${cart.length} items for ${currentOrder.orderNumber}.`
+      : `Successfully processed ${cart.length} items for shipping.`);
     setCart([]);
+    setOrderId('');
+  };
+
+  // Fills the cart with what is still to pick on the order
+  const handleLoadOrder = (id: string) => {
+    setOrderId(id);
+    const order = activeOrders.find(o => o.id === id);
+    if (!order) return;
+    const newCart: CartItem[] = [];
+    order.lines.forEach(line => {
+      const remaining = getOrderLineRemaining(line);
+      const product = products.find(p => p.productCode === line.productCode);
+      if (!product || remaining <= 0) return;
+      const existing = newCart.find(c => c.product.productCode === product.productCode);
+      if (existing) existing.requestQty += remaining;
+      else newCart.push({ product, requestQty: remaining, unit: product.defaultUnit || '' });
+    });
+    setCart(newCart);
+    onStartOrder?.(id);
   };
 
+  // Open straight into the order picked from the Orders page
+  React.useEffect(() => {
+    if (initialOrderId && activeOrders.some(o => o.id === initialOrderId)) handleLoadOrder(initialOrderId);
+  }, [initialOrderId]);
+
   const handleSaveList = () => {
     if (!newListName.trim()) return;
-    const items = cart.map(c => ({ productCode: c.product.productCode, qty: c.requestQty }));
+    // Saved lists are in the default unit
+    const items = cart.map(c => ({ productCode: c.product.productCode, qty: roundQty(toDefaultUnit(c.product, c.requestQty, c.unit)) }));
     onSaveList(newListName, items);
     setShowSaveModal(false);
     setNewListName('');
@@ -288,39 +321,17 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
     setIsScanning(true);
 
     try {
-      const rawScannedItems = await parsePickList(scanImage, products);
-
-      const newScanCart: CartItem[] = [];
-
-      rawScannedItems.forEach((scanned: any) => {
-        // Now we trust the AI to have matched the code if possible
-        const product = products.find(p => p.productCode === scanned.code);
-
-        if (product && scanned.qty > 0) {
-          // Check if product already in newScanCart (duplicate lines in scan)
-          const existingIdx = newScanCart.findIndex(c => c.product.productCode === product.productCode);
-          if (existingIdx > -1) {
-            newScanCart[existingIdx] = {
-              ...newScanCart[existingIdx],
-              requestQty: newScanCart[existingIdx].requestQty + scanned.qty
-            };
-          } else {
-            newScanCart.push({ product, requestQty: scanned.qty });
-          }
-        }
-      });
-
-      // User requested to CLEAR existing cart before adding scan results
-      setCart(newScanCart);
+      const scan = await scanPickList(scanImage, products, setOfflineProgress);
 
       setShowScanModal(false);
       setScanImage(null);
 
-      setModalConfig({
-        isOpen: true,
-        title: 'Smart Scan Result',
-        message: `Successfully processed the image. Items have been identified and added to your list.`,
-        type: 'success'
+      // Every line goes through the match review; codes from the AI or the offline reader are pre-selected
+      setScanReview({
+        lines: scan.items.filter(i => i.qty > 0).map(i => ({ text: i.name, qty: i.qty, code: i.code })),
+        note: scan.source === 'offline'
+          ? `AI service unavailable (${scan.fallbackReason}), so the image was read on this device - please check names and quantities.`
+          : undefined
       });
     } catch (error: any) {
       console.error(error);
@@ -332,9 +343,39 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
       });
     } finally {
       setIsScanning(false);
+      setOfflineProgress(null);
     }
   };
 
+  const handleConfirmScan = (items: { product: Product; qty: number }[], aliases: { productCode: string; text: string }[]) => {
+    const newScanCart: CartItem[] = [];
+
+    items.forEach(({ product, qty }) => {
+      // Check if product already in newScanCart (duplicate lines in scan)
+      const existingIdx = newScanCart.findIndex(c => c.product.productCode === product.productCode);
+      if (existingIdx > -1) {
+        newScanCart[existingIdx] = {
+          ...newScanCart[existingIdx],
+          requestQty: newScanCart[existingIdx].requestQty + qty
+        };
+      } else {
+        newScanCart.push({ product, requestQty: qty, unit: product.defaultUnit || '' });
+      }
+    });
+
+    // User requested to CLEAR existing cart before adding scan results
+    setCart(newScanCart);
+    setScanReview(null);
+    if (aliases.length > 0) onLearnAliases?.(aliases);
+
+    setModalConfig({
+      isOpen: true,
+      title: 'Smart Scan Result',
+      message: `${newScanCart.length} item(s) have been added to your list.${aliases.length > 0 ? ` ${aliases.length} confirmed wording(s) will be matched automatically next time.` : ''}`,
+      type: 'success'
+    });
+  };
+
   const handleLoadList = (list: SavedPickList) => {
     // Convert Saved List items to CartItems
     // We need to look up the Product object for each code
@@ -342,7 +383,7 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
     list.items.forEach(item => {
       const product = products.find(p => p.productCode === item.productCode);
       if (product) {
-        newCart.push({ product, requestQty: item.qty });
+        newCart.push({ product, requestQty: item.qty, unit: product.defaultUnit || '' });
       }
     });
 
@@ -460,6 +501,9 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
                   </p>
                   <span className="text-sm text-slate-400 font-bold">{selectedProduct.defaultUnit}</span>
                 </div>
+                {selectedProduct.defaultUnit && formatUnitBreakdown(selectedProduct, currentAvailable, selectedProduct.defaultUnit) && (
+                  <p className="text-xs text-slate-400 font-bold">{formatUnitBreakdown(selectedProduct, currentAvailable, selectedProduct.defaultUnit)}</p>
+                )}
                 <div className="mt-1 text-xs text-slate-500 font-mono">
                   {selectedProduct.productCode}
                 </div>
@@ -472,20 +516,33 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
                     type="number"
                     inputMode="decimal"
                     min="1"
-                    max={currentAvailable}
                     value={requestQty}
-                    onChange={(e) => setRequestQty(parseInt(e.target.value) || 0)}
+                    onChange={(e) => setRequestQty(parseFloat(e.target.value) || 0)}
                     onKeyDown={(e) => e.key === 'Enter' && handleAddToCart()}
-                    className="flex-1 px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-white font-bold outline-none focus:ring-2 focus:ring-primary focus:border-primary placeholder-slate-600"
+                    className="flex-1 min-w-0 px-3 py-2 bg-black/40 border border-white/10 rounded-lg text-white font-bold outline-none focus:ring-2 focus:ring-primary focus:border-primary placeholder-slate-600"
                   />
+                  {requestUnits.length > 1 && (
+                    <select
+                      value={requestUnit}
+                      onChange={(e) => setRequestUnit(e.target.value)}
+                      className="px-2 py-2 bg-black/40 border border-white/10 rounded-lg text-white font-bold outline-none focus:border-primary"
+                    >
+                      {requestUnits.map(u => <option key={u.unit} value={u.unit}>{u.unit}</option>)}
+                    </select>
+                  )}
                   <button
                     onClick={handleAddToCart}
-                    disabled={requestQty <= 0 || requestQty > currentAvailable}
+                    disabled={!requestBaseQty || requestBaseQty <= 0 || requestBaseQty > currentAvailable}
                     className="bg-primary hover:bg-primary/80 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 rounded-lg font-bold flex items-center gap-2"
                   >
                     <Plus className="w-5 h-5" /> Add
                   </button>
                 </div>
+                {requestQty > 0 && requestUnit && selectedProduct.defaultUnit && requestUnit !== selectedProduct.defaultUnit && (
+                  <p className={`text-xs font-bold mt-1 ${requestBaseQty === undefined ? 'text-red-400' : 'text-slate-400'}`}>
+                    {requestBaseQty === undefined ? `No ${requestUnit} conversion` : `= ${requestBaseQty} ${selectedProduct.defaultUnit}`}
+                  </p>
+                )}
               </div>
             </div>
           )}
@@ -525,13 +582,14 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
             ) : (
               cartItemsWithValidation.map((c, idx) => {
                 const { totalStock, isOverStock } = c;
+                const allocation = pickPlan[c.originalIdx]?.breakdown || [];
 
                 return (
                   <div key={idx} className={`p-3 rounded-lg border flex items-center justify-between group transition-colors relative ${isOverStock ? 'bg-red-500/10 border-red-500/50 hover:bg-red-500/20' : 'bg-slate-800/40 border-white/5 hover:border-primary/30'}`}>
                     {isOverStock && (
                       <div className="absolute -top-2 -right-2 bg-red-500 text-white text-[10px] font-bold px-2 py-0.5 rounded-full shadow-lg flex items-center gap-1 z-10">
                         <AlertCircle className="w-3 h-3" />
-                        Insufficient Stock (Max {totalStock})
+                        Insufficient Stock (Max {totalStock} {c.product.defaultUnit})
                       </div>
                     )}
 
@@ -544,6 +602,22 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
                       <div>
                         <p className={`font-bold ${isOverStock ? 'text-red-300' : 'text-slate-200'}`}>{c.product.name}</p>
                         <p className="text-xs text-slate-500 font-mono">{c.product.productCode}</p>
+                        {/* FEFO Allocation Preview */}
+                        {allocation.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {allocation.map(b => {
+                              const expiry = getBatchExpiry(b.item, c.product); // Same date the FEFO order uses
+                              return (
+                                <span key={b.item.id} className={`px-1.5 py-0.5 rounded text-[10px] font-mono ${getExpiryColor(expiry)}`}>
+                                  {b.item.locations.map(l => `${l.rack}-${l.bay}-${l.level}`).join(', ')}
+                                  {b.item.lotNumber ? ` • ${b.item.lotNumber}` : ''}
+                                  {expiry ? ` • EXP ${new Date(expiry).toLocaleDateString()}` : ''}
+                                  {` × ${b.takeQty}`}
+                                </span>
+                              );
+                            })}
+                          </div>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-4">
@@ -553,12 +627,17 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
                           min="1"
                           value={c.requestQty}
                           onChange={(e) => {
-                            const newQty = parseInt(e.target.value) || 0;
+                            const newQty = parseFloat(e.target.value) || 0;
                             setCart(prev => prev.map((item, i) => i === c.originalIdx ? { ...item, requestQty: newQty } : item));
                           }}
                           className={`w-20 px-2 py-1 bg-black/40 border rounded text-center font-bold outline-none focus:border-primary ${isOverStock ? 'border-red-500/50 text-red-300' : 'border-white/10 text-white'}`}
                         />
-                        <span className="text-xs text-slate-500 font-normal">{c.product.defaultUnit}</span>
+                        <div className="flex flex-col">
+                          <span className="text-xs text-slate-500 font-normal">{c.unit}</span>
+                          {c.unit && formatUnitBreakdown(c.product, c.requestQty, c.unit) && (
+                            <span className="text-[10px] text-slate-500 font-bold">{formatUnitBreakdown(c.product, c.requestQty, c.unit)}</span>
+                          )}
+                        </div>
                       </div>
                       <button onClick={() => handleRemoveFromCart(c.originalIdx)} className="p-2 hover:bg-red-500/20 text-slate-500 hover:text-red-400 rounded transition-colors">
                         <Trash2 className="w-4 h-4" />
@@ -572,6 +651,23 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
 
           {/* Special Note & Date */}
           <div className="px-4 py-2 border-t border-white/5 bg-slate-900/30 flex flex-col gap-2">
+            {activeOrders.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Truck className="w-4 h-4 text-slate-500 flex-none" />
+                <select
+                  value={orderId}
+                  onChange={(e) => e.target.value ? handleLoadOrder(e.target.value) : setOrderId('')}
+                  className="flex-1 px-3 py-2 bg-black/40 text-sm text-slate-300 border border-white/10 rounded-lg outline-none focus:border-primary font-bold"
+                >
+                  <option value="">No customer order (ad-hoc pick)</option>
+                  {activeOrders.map(o => (
+                    <option key={o.id} value={o.id}>
+                      {o.orderNumber} - {o.customerName} ({o.status})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             <div className="flex gap-2">
               <input
                 type="date"
@@ -722,7 +818,9 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
                       {isScanning && (
                         <div className="absolute inset-0 bg-black/60 backdrop-blur-[2px] flex flex-col items-center justify-center gap-3">
                           <Loader2 className="w-10 h-10 text-amber-400 animate-spin" />
-                          <p className="text-amber-400 font-bold animate-pulse">Analyzing Items...</p>
+                          <p className="text-amber-400 font-bold animate-pulse">
+                            {offlineProgress === null ? 'Analyzing Items...' : `Reading offline... ${Math.round(offlineProgress * 100)}%`}
+                          </p>
                           <div className="w-48 h-1 bg-white/10 rounded-full overflow-hidden mt-2">
                             <div className="h-full bg-amber-400 animate-[progress_2s_ease-in-out_infinite]"></div>
                           </div>
@@ -761,6 +859,16 @@ const OutboundForm: React.FC<OutboundFormProps> = ({
         )
       }
 
+      {scanReview && (
+        <ScanMatchReview
+          lines={scanReview.lines}
+          products={products}
+          note={scanReview.note}
+          onConfirm={handleConfirmScan}
+          onCancel={() => setScanReview(null)}
+        />
+      )}
+
       <ConfirmModal
         isOpen={modalConfig.isOpen}
         onClose={() => setModalConfig(prev => ({ ...prev, isOpen: false }))}
@@ -0,0 +1,140 @@
+import React from 'react';
+import { OutboxEntry } from '../outboxDB';
+import { countChanges } from '../services/syncEngine';
+import { Inbox, RefreshCw, RotateCcw, Trash2, AlertTriangle, CheckCircle2, WifiOff } from 'lucide-react';
+
+interface OutboxPageProps {
+    outbox: OutboxEntry[];
+    isSyncing: boolean;
+    syncError?: string;
+    onSyncNow: () => void;
+    onRetry: (id: string) => void;
+    onDiscard: (id: string) => void;
+}
+
+const ACTION_LABELS: Record<OutboxEntry['action'], string> = {
+    SAVE_INVENTORY: 'Inbound / Edit',
+    OUTBOUND: 'Outbound',
+    MOVE_STOCK: 'Move Stock',
+    MAP_CHANGE: 'Map Change'
+};
+
+const OutboxPage: React.FC<OutboxPageProps> = ({ outbox, isSyncing, syncError, onSyncNow, onRetry, onDiscard }) => {
+    const failedCount = outbox.filter(e => e.status === 'failed').length;
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                            <Inbox className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Sync Outbox</h2>
+                            <p className="text-sm text-slate-400">Floor changes waiting to reach Google Sheets. Sent in order when the connection returns.</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={onSyncNow}
+                        disabled={isSyncing}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 transition-colors disabled:opacity-50"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} /> Sync Now
+                    </button>
+                </div>
+
+                {!navigator.onLine && (
+                    <div className="mt-4 flex items-center gap-2 text-sm text-amber-400 bg-amber-500/10 border border-amber-500/30 rounded-lg px-3 py-2">
+                        <WifiOff className="w-4 h-4" /> Device is offline. Changes are saved on this device and will be sent automatically.
+                    </div>
+                )}
+                {syncError && navigator.onLine && (
+                    <div className="mt-4 flex items-center gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/30 rounded-lg px-3 py-2">
+                        <AlertTriangle className="w-4 h-4" /> {syncError}
+                    </div>
+                )}
+                {failedCount > 0 && (
+                    <p className="mt-3 text-xs text-slate-400">
+                        Entries behind a failed one wait until it is retried or discarded. Discarding only drops the queued copy; the change stays on this device and is re-sent by the next sync.
+                    </p>
+                )}
+            </div>
+
+            <div className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm text-slate-400">
+                        <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                            <tr>
+                                <th className="px-6 py-4">#</th>
+                                <th className="px-6 py-4">Queued</th>
+                                <th className="px-6 py-4">Change</th>
+                                <th className="px-6 py-4 text-right">Records</th>
+                                <th className="px-6 py-4">Status</th>
+                                <th className="px-6 py-4 text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {outbox.map((entry, idx) => (
+                                <tr key={entry.id} className="hover:bg-white/5 transition-colors">
+                                    <td className="px-6 py-4 font-mono text-slate-500">{idx + 1}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap">
+                                        <div className="font-medium text-slate-300">{new Date(entry.createdAt).toLocaleDateString()}</div>
+                                        <div className="text-xs text-slate-500">{new Date(entry.createdAt).toLocaleTimeString()}</div>
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border bg-slate-800 text-slate-400 border-white/10">
+                                            {ACTION_LABELS[entry.action]}
+                                        </span>
+                                        <div className="text-slate-200 mt-1">{entry.label}</div>
+                                    </td>
+                                    <td className="px-6 py-4 text-right font-mono text-white">{countChanges(entry.changeSet)}</td>
+                                    <td className="px-6 py-4">
+                                        {entry.status === 'failed' ? (
+                                            <span className="text-red-400 font-bold text-xs uppercase">Failed</span>
+                                        ) : (
+                                            <span className="text-amber-400 font-bold text-xs uppercase">Pending</span>
+                                        )}
+                                        {entry.lastError && (
+                                            <div className="text-xs text-slate-500 mt-1">
+                                                {entry.lastError} ({entry.attempts} attempt{entry.attempts === 1 ? '' : 's'})
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                                        {entry.status === 'failed' && (
+                                            <button
+                                                onClick={() => onRetry(entry.id)}
+                                                className="p-2 text-slate-400 hover:text-primary transition-colors"
+                                                title="Retry"
+                                            >
+                                                <RotateCcw className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => onDiscard(entry.id)}
+                                            className="p-2 text-slate-400 hover:text-red-400 transition-colors"
+                                            title="Discard queued copy"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                            {outbox.length === 0 && (
+                                <tr>
+                                    <td colSpan={6} className="p-10 text-center text-slate-500">
+                                        <CheckCircle2 className="w-8 h-8 text-green-400 mx-auto mb-2" />
+                                        Outbox is empty. Everything has been sent.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default OutboxPage;
@@ -0,0 +1,126 @@
+import React, { useRef } from 'react';
+import { PalletBuildResult } from '../services/palletBuilder';
+import { PALLET_SPEC } from '../config/pickingConfig';
+import { printDocument } from '../utils';
+import { Boxes, Printer, X, AlertTriangle } from 'lucide-react';
+
+interface PalletBuilderProps {
+    plan: PalletBuildResult;
+    manifestDate: string;
+    onClose: () => void;
+}
+
+const formatQty = (qty: number) => Number.isInteger(qty) ? String(qty) : qty.toFixed(2);
+
+const PalletBuilder: React.FC<PalletBuilderProps> = ({ plan, manifestDate, onClose }) => {
+    const labelsRef = useRef<HTMLDivElement>(null);
+    const total = plan.pallets.length;
+
+    const handlePrint = () => {
+        if (labelsRef.current) printDocument(`Pallet Labels - ${manifestDate}`, labelsRef.current.innerHTML);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-slate-900 border border-white/10 rounded-xl shadow-2xl overflow-hidden">
+                <div className="flex items-center justify-between gap-3 p-4 border-b border-white/10">
+                    <div className="flex items-center gap-3">
+                        <Boxes className="w-5 h-5 text-primary" />
+                        <div>
+                            <h3 className="text-lg font-bold text-white">Pallet Builder</h3>
+                            <p className="text-xs text-slate-500">
+                                {manifestDate} • {total} pallet(s) • {PALLET_SPEC.lengthCm}×{PALLET_SPEC.widthCm} cm, max {PALLET_SPEC.maxLoadHeightCm} cm / {PALLET_SPEC.maxWeightKg} kg
+                            </p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={handlePrint}
+                            disabled={total === 0}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 disabled:opacity-50 transition-colors"
+                        >
+                            <Printer className="w-4 h-4" /> Print Labels
+                        </button>
+                        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {plan.warnings.length > 0 && (
+                        <div className="bg-amber-500/10 border border-amber-500/30 text-amber-300 rounded-lg p-3 text-xs space-y-1">
+                            {plan.warnings.map((w, idx) => (
+                                <div key={idx} className="flex items-start gap-2"><AlertTriangle className="w-4 h-4 shrink-0" /> {w}</div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {plan.pallets.map(p => {
+                            const fillPct = Math.round(p.fill * 100);
+                            return (
+                                <div key={p.number} className="bg-slate-800/40 rounded-xl p-4 border border-white/5">
+                                    <div className="flex justify-between items-start gap-3 mb-3">
+                                        <div>
+                                            <div className="text-2xl font-black text-white">#{p.number} <span className="text-sm font-bold text-slate-500">/ {total}</span></div>
+                                            <div className="text-xs font-bold text-slate-400 uppercase tracking-widest">{p.title}</div>
+                                        </div>
+                                        <div className="text-right text-xs text-slate-400">
+                                            <div className={`font-bold ${fillPct > 100 ? 'text-red-400' : 'text-slate-200'}`}>{fillPct}% full</div>
+                                            {p.weightKg > 0 && <div>{Math.round(p.weightKg)} kg</div>}
+                                            {p.unsized && <div className="text-amber-400">Unmeasured items</div>}
+                                        </div>
+                                    </div>
+                                    <div className="h-1.5 rounded-full bg-black/40 overflow-hidden mb-3">
+                                        <div className={`h-full ${fillPct > 100 ? 'bg-red-500' : 'bg-primary'}`} style={{ width: `${Math.min(fillPct, 100)}%` }} />
+                                    </div>
+                                    <div className="space-y-1">
+                                        {p.contents.map(c => (
+                                            <div key={c.lineId} className="flex justify-between gap-3 text-sm">
+                                                <span className="text-slate-300 truncate">{c.item}</span>
+                                                <span className="font-mono font-bold text-slate-100 whitespace-nowrap">{formatQty(c.qty)} {c.uom}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                        {total === 0 && <p className="text-sm text-slate-500">No lines on this manifest.</p>}
+                    </div>
+                </div>
+            </div>
+
+            {/* Paper copy for printing: one label per pallet */}
+            <div ref={labelsRef} className="hidden">
+                {plan.pallets.map(p => (
+                    <div key={p.number} className="label">
+                        <div className="label-number">{p.number} / {total}</div>
+                        <h1>{p.title}</h1>
+                        <div className="muted">Manifest {manifestDate}{p.weightKg > 0 ? ` • ${Math.round(p.weightKg)} kg` : ''}</div>
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>Item</th>
+                                    <th className="num">Qty</th>
+                                    <th className="check">✓</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {p.contents.map(c => (
+                                    <tr key={c.lineId}>
+                                        <td>{c.item}{c.productCode ? <span className="muted"> {c.productCode}</span> : null}</td>
+                                        <td className="num">{formatQty(c.qty)} {c.uom}</td>
+                                        <td></td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default PalletBuilder;
@@ -0,0 +1,310 @@
+import React, { useState } from 'react';
+import { PalletRule, PalletRuleColor, Product, generateId } from '../types';
+import { DEFAULT_PALLET_RULES } from '../config/pickingConfig';
+import { sortPalletRules } from '../services/palletRules';
+import { Layers, Plus, Trash2, X, Save, ArrowUp, ArrowDown, RotateCcw } from 'lucide-react';
+
+interface PalletRulesEditorProps {
+    rules: PalletRule[];
+    products: Product[];
+    readOnly?: boolean;
+    onSave: (rules: PalletRule[]) => boolean;
+    onClose: () => void;
+}
+
+// Full class names so Tailwind picks them up
+export const PALLET_COLOR_CLASSES: Record<PalletRuleColor, { text: string; border: string; dot: string }> = {
+    violet: { text: 'text-violet-400', border: 'border-violet-500', dot: 'bg-violet-500' },
+    blue: { text: 'text-blue-400', border: 'border-blue-500', dot: 'bg-blue-500' },
+    amber: { text: 'text-amber-400', border: 'border-amber-500', dot: 'bg-amber-500' },
+    emerald: { text: 'text-emerald-400', border: 'border-emerald-500', dot: 'bg-emerald-500' },
+    rose: { text: 'text-rose-400', border: 'border-rose-500', dot: 'bg-rose-500' },
+    cyan: { text: 'text-cyan-400', border: 'border-cyan-500', dot: 'bg-cyan-500' }
+};
+
+// Synced rules may carry a color this build does not know
+export const getPalletColorClasses = (color: PalletRuleColor) => PALLET_COLOR_CLASSES[color] || PALLET_COLOR_CLASSES.blue;
+
+const DEPARTMENTS = ['RTE', 'RTC', 'SHARED'];
+
+// Condition lists are edited as comma separated text
+type ListField = 'productCodes' | 'categories' | 'uoms' | 'keywords' | 'sortKeywords';
+
+type Draft = Omit<PalletRule, ListField> & Record<ListField, string>;
+
+const LIST_FIELDS: { field: ListField; label: string; placeholder: string }[] = [
+    { field: 'keywords', label: 'Name Keywords', placeholder: 'e.g. sugar, vinegar' },
+    { field: 'productCodes', label: 'Product Codes', placeholder: 'e.g. BH-20, BX-20' },
+    { field: 'categories', label: 'Categories', placeholder: 'e.g. Sauce' },
+    { field: 'uoms', label: 'Units (UoM)', placeholder: 'e.g. PLT' }
+];
+
+const toDraft = (rule: PalletRule): Draft => ({
+    ...rule,
+    productCodes: rule.productCodes.join(', '),
+    categories: rule.categories.join(', '),
+    uoms: rule.uoms.join(', '),
+    keywords: rule.keywords.join(', '),
+    sortKeywords: rule.sortKeywords.join(', ')
+});
+
+const splitList = (text: string) => text.split(',').map(v => v.trim()).filter(Boolean);
+
+const fromDraft = (draft: Draft): PalletRule => ({
+    ...draft,
+    note: draft.note?.trim() || undefined,
+    productCodes: splitList(draft.productCodes),
+    categories: splitList(draft.categories),
+    uoms: splitList(draft.uoms),
+    keywords: splitList(draft.keywords),
+    sortKeywords: splitList(draft.sortKeywords)
+});
+
+const PalletRulesEditor: React.FC<PalletRulesEditorProps> = ({ rules, products, readOnly = false, onSave, onClose }) => {
+    const [drafts, setDrafts] = useState<Draft[]>(() => sortPalletRules(rules).map(toDraft));
+    const [selectedId, setSelectedId] = useState<string | null>(drafts[0]?.id || null);
+
+    const selected = drafts.find(d => d.id === selectedId);
+    const categories = Array.from(new Set(products.map(p => p.defaultCategory).filter(Boolean) as string[])).sort();
+
+    const updateSelected = (changes: Partial<Draft>) => {
+        setDrafts(prev => prev.map(d => d.id === selectedId ? { ...d, ...changes } : d));
+    };
+
+    const move = (idx: number, delta: number) => {
+        const target = idx + delta;
+        if (target < 0 || target >= drafts.length) return;
+        setDrafts(prev => {
+            const next = [...prev];
+            [next[idx], next[target]] = [next[target], next[idx]];
+            return next;
+        });
+    };
+
+    const addRule = () => {
+        const rule: Draft = toDraft({
+            id: generateId(),
+            title: 'New Pallet',
+            color: 'cyan',
+            priority: drafts.length + 1,
+            productCodes: [],
+            categories: [],
+            departments: [],
+            uoms: [],
+            keywords: [],
+            sortKeywords: [],
+            updatedAt: Date.now()
+        });
+        setDrafts(prev => [...prev, rule]);
+        setSelectedId(rule.id);
+    };
+
+    const removeSelected = () => {
+        if (!selected || selected.isFallback) return;
+        const remaining = drafts.filter(d => d.id !== selected.id);
+        setDrafts(remaining);
+        setSelectedId(remaining[0]?.id || null);
+    };
+
+    const resetToDefaults = () => {
+        const defaults = DEFAULT_PALLET_RULES.map(toDraft);
+        setDrafts(defaults);
+        setSelectedId(defaults[0].id);
+    };
+
+    const handleSave = () => {
+        if (onSave(drafts.map(fromDraft))) onClose();
+    };
+
+    const toggleDepartment = (dept: string) => {
+        if (!selected) return;
+        const departments = selected.departments.includes(dept)
+            ? selected.departments.filter(d => d !== dept)
+            : [...selected.departments, dept];
+        updateSelected({ departments });
+    };
+
+    const inputClass = 'w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none disabled:opacity-60';
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-slate-900 border border-white/10 rounded-xl shadow-2xl overflow-hidden">
+                <div className="flex items-center justify-between gap-3 p-4 border-b border-white/10">
+                    <div className="flex items-center gap-3">
+                        <Layers className="w-5 h-5 text-primary" />
+                        <div>
+                            <h3 className="text-lg font-bold text-white">Pallet Rules</h3>
+                            <p className="text-xs text-slate-500">Lines go to the first pallet (top to bottom) with any matching condition.</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto grid grid-cols-1 md:grid-cols-5 gap-4 p-4">
+                    {/* Rule order */}
+                    <div className="md:col-span-2 space-y-2">
+                        {drafts.map((d, idx) => (
+                            <div
+                                key={d.id}
+                                onClick={() => setSelectedId(d.id)}
+                                className={`flex items-center gap-2 p-3 rounded-lg border cursor-pointer transition-colors ${d.id === selectedId ? 'bg-primary/10 border-primary/50' : 'bg-black/20 border-white/5 hover:bg-white/5'}`}
+                            >
+                                <span className={`w-2.5 h-2.5 rounded-full ${getPalletColorClasses(d.color).dot}`} />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-bold text-slate-200 truncate">{d.title || 'Untitled'}</div>
+                                    {d.isFallback && <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Unmatched lines</div>}
+                                </div>
+                                {!readOnly && (
+                                    <div className="flex gap-1">
+                                        <button onClick={(e) => { e.stopPropagation(); move(idx, -1); }} disabled={idx === 0} className="p-1 text-slate-500 hover:text-white disabled:opacity-30" title="Move Up">
+                                            <ArrowUp className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={(e) => { e.stopPropagation(); move(idx, 1); }} disabled={idx === drafts.length - 1} className="p-1 text-slate-500 hover:text-white disabled:opacity-30" title="Move Down">
+                                            <ArrowDown className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                        {!readOnly && (
+                            <button
+                                onClick={addRule}
+                                className="w-full flex items-center justify-center gap-2 p-2 rounded-lg border border-dashed border-white/10 text-sm font-bold text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+                            >
+                                <Plus className="w-4 h-4" /> Add Pallet
+                            </button>
+                        )}
+                    </div>
+
+                    {/* Selected rule */}
+                    {selected && (
+                        <fieldset disabled={readOnly} className="md:col-span-3 space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Pallet Title</label>
+                                    <input type="text" value={selected.title} onChange={(e) => updateSelected({ title: e.target.value })} className={inputClass} />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Note</label>
+                                    <input type="text" value={selected.note || ''} onChange={(e) => updateSelected({ note: e.target.value })} placeholder="e.g. Dedicated Pallet" className={inputClass} />
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Color</label>
+                                <div className="flex gap-2">
+                                    {(Object.keys(PALLET_COLOR_CLASSES) as PalletRuleColor[]).map(color => (
+                                        <button
+                                            key={color}
+                                            type="button"
+                                            onClick={() => updateSelected({ color })}
+                                            className={`w-7 h-7 rounded-full ${PALLET_COLOR_CLASSES[color].dot} border-2 transition-transform ${selected.color === color ? 'border-white scale-110' : 'border-transparent opacity-60'}`}
+                                            title={color}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+
+                            {selected.isFallback ? (
+                                <p className="text-sm text-slate-400 bg-black/20 border border-white/5 rounded-lg p-3">
+                                    Collects every line no other pallet matches.
+                                </p>
+                            ) : (
+                                <>
+                                    {LIST_FIELDS.map(({ field, label, placeholder }) => (
+                                        <div key={field}>
+                                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">{label}</label>
+                                            <input
+                                                type="text"
+                                                value={selected[field]}
+                                                onChange={(e) => updateSelected({ [field]: e.target.value })}
+                                                placeholder={placeholder}
+                                                list={field === 'categories' ? 'pallet-rule-categories' : undefined}
+                                                className={`${inputClass} font-mono`}
+                                            />
+                                        </div>
+                                    ))}
+                                    <datalist id="pallet-rule-categories">
+                                        {categories.map(c => <option key={c} value={c} />)}
+                                    </datalist>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Departments</label>
+                                        <div className="flex gap-2">
+                                            {DEPARTMENTS.map(dept => (
+                                                <button
+                                                    key={dept}
+                                                    type="button"
+                                                    onClick={() => toggleDepartment(dept)}
+                                                    className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${selected.departments.includes(dept)
+                                                        ? 'bg-primary/20 text-primary border-primary/50'
+                                                        : 'bg-black/20 text-slate-400 border-white/10 hover:bg-white/5'
+                                                        }`}
+                                                >
+                                                    {dept}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </>
+                            )}
+
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Line Order (Keywords)</label>
+                                <input
+                                    type="text"
+                                    value={selected.sortKeywords}
+                                    onChange={(e) => updateSelected({ sortKeywords: e.target.value })}
+                                    placeholder="e.g. ginger, soy sauce, wasabi"
+                                    className={`${inputClass} font-mono`}
+                                />
+                            </div>
+
+                            {!readOnly && !selected.isFallback && (
+                                <button
+                                    type="button"
+                                    onClick={removeSelected}
+                                    className="flex items-center gap-2 text-sm font-bold text-red-400 hover:text-red-300 transition-colors"
+                                >
+                                    <Trash2 className="w-4 h-4" /> Remove Pallet
+                                </button>
+                            )}
+                        </fieldset>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between gap-2 p-4 border-t border-white/10">
+                    {!readOnly ? (
+                        <button
+                            onClick={resetToDefaults}
+                            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold text-slate-400 hover:text-white transition-colors"
+                        >
+                            <RotateCcw className="w-4 h-4" /> Defaults
+                        </button>
+                    ) : (
+                        <span className="text-xs text-slate-500">Read only - ask a supervisor to change pallet rules.</span>
+                    )}
+                    <div className="flex gap-2">
+                        <button
+                            onClick={onClose}
+                            className="px-4 py-2 rounded-lg text-sm font-bold text-slate-400 hover:text-white transition-colors"
+                        >
+                            {readOnly ? 'Close' : 'Cancel'}
+                        </button>
+                        {!readOnly && (
+                            <button
+                                onClick={handleSave}
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 transition-colors"
+                            >
+                                <Save className="w-4 h-4" /> Save
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PalletRulesEditor;
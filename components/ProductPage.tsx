@@ -1,20 +1,26 @@
-import React, { useState, useRef, useMemo } from 'react';
-import { Product, generateId } from '../types';
-import { Plus, Upload, Trash2, Edit, Save, X, Search, Boxes, AlertTriangle } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { Product, Supplier, UnitConversion, generateId } from '../types';
+import { Plus, Upload, Trash2, Edit, Save, X, Search, Boxes, AlertTriangle, CalendarClock, CircleDollarSign, Truck, Ruler, Tags, MapPin, ArrowRightLeft } from 'lucide-react';
 import ConfirmModal, { ModalType } from './ConfirmModal';
 import { smartSearch, getCategoryColor, getEmbedLink, parseCSV, normalizeProduct, generateCSV } from '../utils';
 import { GASService } from '../services/gasApi';
 import ImageThumbnail from './ImageThumbnail';
+import { getMasterOptions } from '../services/masterData';
+import { validateUnitConversions } from '../services/unitConversion';
 // @ts-ignore
 // const API_URL = window.API_URL || '';
 
 interface ProductPageProps {
   products: Product[];
+  suppliers?: Supplier[];
+  categories: string[]; // Managed on the Categories page
+  units: string[]; // Managed on the Units page
   onUpdateProducts: (products: Product[]) => void;
   gasUrl?: string;
+  readOnly?: boolean; // Operators can browse but not change the catalog
 }
 
-const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, gasUrl }) => {
+const ProductPage: React.FC<ProductPageProps> = ({ products, suppliers = [], categories, units, onUpdateProducts, gasUrl, readOnly = false }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
@@ -31,9 +37,13 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
     image: '',
     department: 'SHARED',
     countPerPallet: 0,
+    shelfLifeDays: 0,
+    unitCost: 0,
     updatedAt: Date.now()
   });
 
+  const [aliasText, setAliasText] = useState(''); // Comma separated, split on save
+
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Modal State
@@ -53,19 +63,6 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
     setModalConfig({ isOpen: true, title, message, type, onConfirm });
   };
 
-  // Derive unique lists for autocomplete suggestions
-  // Derive unique lists for autocomplete suggestions
-  const existingCategories = useMemo(() => {
-    const cats = new Set(products.map(p => p.defaultCategory).filter(Boolean));
-    // Add default categories to suggestions
-    ['Box', 'Film', 'Tray', 'Sushi', 'Tape', 'Wrap', 'Pallet'].forEach(c => cats.add(c));
-    return Array.from(cats).sort();
-  }, [products]);
-
-  const existingUnits = useMemo(() =>
-    Array.from(new Set(products.map(p => p.defaultUnit).filter(Boolean))) as string[],
-    [products]);
-
   const handleProductUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -87,7 +84,8 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
 
             const code = row[0];
             const name = row[1];
-            // Format: Code, Name, Category, Department, Unit, MinStock, ImageUrl
+            // Format: Code, Name, Category, Department, Unit, MinStock, ImageUrl, Count/Pallet, ShelfLifeDays, UnitCost,
+            //         CaseLengthCm, CaseWidthCm, CaseHeightCm, CaseWeightKg
 
             if (code && name) {
               // Check if exists
@@ -102,6 +100,12 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
                 minStockLevel: parseInt(row[5]) || 0,
                 image: row[6] || '',
                 countPerPallet: parseInt(row[7]) || 0,
+                shelfLifeDays: parseInt(row[8]) || 0,
+                unitCost: parseFloat(row[9]) || 0,
+                caseLengthCm: parseFloat(row[10]) || 0,
+                caseWidthCm: parseFloat(row[11]) || 0,
+                caseHeightCm: parseFloat(row[12]) || 0,
+                caseWeightKg: parseFloat(row[13]) || 0,
                 updatedAt: Date.now()
               };
 
@@ -154,6 +158,7 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
     if (product) {
       setEditingProduct(product);
       setFormData(product);
+      setAliasText((product.aliases || []).join(', '));
     } else {
       setEditingProduct(null);
       setFormData({
@@ -165,14 +170,17 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
         image: '',
         department: 'SHARED',
         countPerPallet: 0,
+        shelfLifeDays: 0,
+        unitCost: 0,
         updatedAt: Date.now()
       });
+      setAliasText('');
     }
     setIsModalOpen(true);
   };
 
   const handleExportCSV = () => {
-    const headers = ['Code', 'Name', 'Category', 'Department', 'Unit', 'MinStock', 'ImageUrl', 'Count/Pallet'];
+    const headers = ['Code', 'Name', 'Category', 'Department', 'Unit', 'MinStock', 'ImageUrl', 'Count/Pallet', 'ShelfLifeDays', 'UnitCost', 'CaseLengthCm', 'CaseWidthCm', 'CaseHeightCm', 'CaseWeightKg'];
     const data = products.map(p => [
       p.productCode,
       p.name,
@@ -181,7 +189,13 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
       p.defaultUnit || '',
       p.minStockLevel || 0,
       p.image || '',
-      p.countPerPallet || 0
+      p.countPerPallet || 0,
+      p.shelfLifeDays || 0,
+      p.unitCost || 0,
+      p.caseLengthCm || 0,
+      p.caseWidthCm || 0,
+      p.caseHeightCm || 0,
+      p.caseWeightKg || 0
     ]);
 
     const csvContent = generateCSV(headers, data);
@@ -220,6 +234,21 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
       return;
     }
 
+    const conversions = (formData.unitConversions || []).map(r => ({ ...r, unit: r.unit.trim(), toUnit: r.toUnit.trim() }));
+    const conversionError = validateUnitConversions(formData.defaultUnit, conversions);
+    if (conversionError) {
+      showAlert("Invalid Unit Conversion", conversionError);
+      return;
+    }
+
+    const aliasList = aliasText.split(',').map(a => a.trim()).filter(Boolean);
+    const product = {
+      ...formData,
+      aliases: aliasList.length > 0 ? aliasList : undefined,
+      unitConversions: conversions.length > 0 ? conversions : undefined,
+      updatedAt: Date.now()
+    } as Product;
+
     if (editingProduct) {
       // Check if image has changed or was removed
       if (editingProduct.image && editingProduct.image !== formData.image) {
@@ -233,12 +262,11 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
 
       // Update
       // normalizeProduct removed to respect manual edits
-      const updatedList = products.map(p => p.productCode === editingProduct.productCode ? { ...formData, updatedAt: Date.now() } as Product : p);
+      const updatedList = products.map(p => p.productCode === editingProduct.productCode ? product : p);
       onUpdateProducts(updatedList);
     } else {
       // Create - Keep normalize logic for new manual creations as a helper
-      const newProduct = { ...formData, updatedAt: Date.now() } as Product;
-      onUpdateProducts([...products, newProduct]);
+      onUpdateProducts([...products, product]);
     }
     setIsModalOpen(false);
   };
@@ -264,7 +292,7 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
               <Boxes className="w-6 h-6 text-primary" />
               Product Master List
             </h2>
-            <p className="text-sm text-slate-400">Manage your product catalog. Set Categories and Units here.</p>
+            <p className="text-sm text-slate-400">Manage your product catalog. Categories and units come from their own master pages.</p>
           </div>
           <div className="flex gap-2">
             <button
@@ -274,20 +302,24 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
             >
               <Upload className="w-4 h-4 rotate-180" /> Export CSV
             </button>
-            <button
-              onClick={() => fileInputRef.current?.click()}
-              className="px-4 py-2 border border-white/10 rounded-lg text-slate-400 hover:bg-white/5 hover:text-white flex items-center gap-2 text-sm font-bold transition-colors"
-            >
-              <Upload className="w-4 h-4" /> Import CSV
-            </button>
-            <input type="file" ref={fileInputRef} accept=".csv" onChange={handleProductUpload} className="hidden" />
+            {!readOnly && (
+              <>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="px-4 py-2 border border-white/10 rounded-lg text-slate-400 hover:bg-white/5 hover:text-white flex items-center gap-2 text-sm font-bold transition-colors"
+                >
+                  <Upload className="w-4 h-4" /> Import CSV
+                </button>
+                <input type="file" ref={fileInputRef} accept=".csv" onChange={handleProductUpload} className="hidden" />
 
-            <button
-              onClick={() => handleOpenModal()}
-              className="px-4 py-2 bg-primary/20 text-primary border border-primary/50 rounded-lg hover:bg-primary/30 flex items-center gap-2 text-sm font-bold transition-all shadow-[0_0_10px_rgba(139,92,246,0.3)] hover:shadow-[0_0_15px_rgba(139,92,246,0.5)]"
-            >
-              <Plus className="w-4 h-4" /> Add Product
-            </button>
+                <button
+                  onClick={() => handleOpenModal()}
+                  className="px-4 py-2 bg-primary/20 text-primary border border-primary/50 rounded-lg hover:bg-primary/30 flex items-center gap-2 text-sm font-bold transition-all shadow-[0_0_10px_rgba(139,92,246,0.3)] hover:shadow-[0_0_15px_rgba(139,92,246,0.5)]"
+                >
+                  <Plus className="w-4 h-4" /> Add Product
+                </button>
+              </>
+            )}
           </div>
         </div>
 
@@ -318,6 +350,7 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
                 <th className="px-6 py-4 font-bold text-slate-400 uppercase tracking-wider text-xs">Unit</th>
                 <th className="px-6 py-4 font-bold text-slate-400 uppercase tracking-wider text-xs">Min Stock</th>
                 <th className="px-6 py-4 font-bold text-slate-400 uppercase tracking-wider text-xs">Count/PLT</th>
+                <th className="px-6 py-4 font-bold text-slate-400 uppercase tracking-wider text-xs">Shelf Life</th>
                 <th className="px-6 py-4 font-bold text-slate-400 uppercase tracking-wider text-xs">Updated</th>
                 <th className="px-6 py-4 font-bold text-slate-400 uppercase tracking-wider text-xs text-right">Actions</th>
               </tr>
@@ -357,11 +390,14 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
                       {p.countPerPallet || 0}
                     </span>
                   </td>
+                  <td className="px-6 py-3 text-slate-400 text-xs font-mono">
+                    {p.shelfLifeDays ? `${p.shelfLifeDays}d` : '-'}
+                  </td>
                   <td className="px-6 py-3 text-slate-500 text-xs font-mono">
                     {p.updatedAt ? new Date(p.updatedAt).toLocaleDateString() : '-'}
                   </td>
                   <td className="px-6 py-3 text-right">
-                    <div className="flex justify-end gap-2 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
+                    <div className={`flex justify-end gap-2 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity ${readOnly ? 'hidden' : ''}`}>
                       <button
                         type="button"
                         onClick={() => handleOpenModal(p)}
@@ -473,34 +509,28 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
                 </div>
                 <div>
                   <label className="block text-sm font-bold text-slate-400 mb-1 uppercase tracking-wider">Category</label>
-                  <input
-                    list="category-options"
-                    type="text"
-                    value={formData.defaultCategory}
+                  <select
+                    value={formData.defaultCategory || ''}
                     onChange={e => setFormData({ ...formData, defaultCategory: e.target.value })}
-                    placeholder="e.g. RAW"
-                    className="w-full px-3 py-2 border border-white/10 bg-black/40 rounded-lg text-white focus:ring-2 focus:ring-primary focus:border-primary outline-none placeholder-slate-600 font-bold"
-                  />
-                  <datalist id="category-options">
-                    {existingCategories.map(c => <option key={c} value={c} />)}
-                  </datalist>
+                    className="w-full px-3 py-2 border border-white/10 bg-black/40 rounded-lg text-white focus:ring-2 focus:ring-primary focus:border-primary outline-none font-bold"
+                  >
+                    <option value="">-- None --</option>
+                    {getMasterOptions(categories, formData.defaultCategory).map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
                 </div>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-bold text-slate-400 mb-1 uppercase tracking-wider">Unit</label>
-                  <input
-                    list="unit-options"
-                    type="text"
-                    value={formData.defaultUnit}
+                  <select
+                    value={formData.defaultUnit || ''}
                     onChange={e => setFormData({ ...formData, defaultUnit: e.target.value })}
-                    placeholder="e.g. kg, pcs"
-                    className="w-full px-3 py-2 border border-white/10 bg-black/40 rounded-lg text-white focus:ring-2 focus:ring-primary focus:border-primary outline-none placeholder-slate-600 font-bold"
-                  />
-                  <datalist id="unit-options">
-                    {existingUnits.map(u => <option key={u} value={u} />)}
-                  </datalist>
+                    className="w-full px-3 py-2 border border-white/10 bg-black/40 rounded-lg text-white focus:ring-2 focus:ring-primary focus:border-primary outline-none font-bold"
+                  >
+                    <option value="">-- None --</option>
+                    {getMasterOptions(units, formData.defaultUnit).map(u => <option key={u} value={u}>{u}</option>)}
+                  </select>
                 </div>
               </div>
 
@@ -551,7 +581,7 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
                   onChange={e => setFormData({ ...formData, minStockLevel: parseInt(e.target.value) || 0 })}
                   className="w-full px-3 py-2 border border-orange-500/30 bg-black/40 rounded-lg text-orange-200 focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none font-bold placeholder-orange-500/50"
                 />
-                <p className="text-xs text-orange-500/70 mt-1">Dashboard will alert if stock falls below this amount.</p>
+                <p className="text-xs text-orange-500/70 mt-1">Safety stock. Reorder suggestions add lead-time demand on top.</p>
               </div>
 
               <div className="bg-slate-800/30 p-4 rounded-lg border border-white/10">
@@ -568,6 +598,169 @@ const ProductPage: React.FC<ProductPageProps> = ({ products, onUpdateProducts, g
                 <p className="text-xs text-slate-500/70 mt-1">Reference for pallet calculations.</p>
               </div>
 
+              <div className="bg-slate-800/30 p-4 rounded-lg border border-white/10">
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-bold text-slate-400 flex items-center gap-2 uppercase tracking-wide">
+                    <ArrowRightLeft className="w-4 h-4" /> Unit Conversions
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setFormData({ ...formData, unitConversions: [...(formData.unitConversions || []), { unit: '', qty: 1, toUnit: formData.defaultUnit || '' }] })}
+                    className="flex items-center gap-1 text-xs font-bold text-primary hover:text-primary/80"
+                  >
+                    <Plus className="w-3 h-3" /> Add
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {(formData.unitConversions || []).map((row, idx) => {
+                    const updateRow = (changes: Partial<UnitConversion>) => setFormData({
+                      ...formData,
+                      unitConversions: formData.unitConversions!.map((r, i) => i === idx ? { ...r, ...changes } : r)
+                    });
+                    return (
+                      <div key={idx} className="flex items-center gap-2 text-sm">
+                        <span className="text-slate-500 font-bold">1</span>
+                        <select
+                          value={row.unit}
+                          onChange={e => updateRow({ unit: e.target.value })}
+                          className="flex-1 px-2 py-1.5 border border-white/10 bg-black/40 rounded-lg text-slate-200 outline-none font-bold"
+                        >
+                          <option value="">Unit...</option>
+                          {getMasterOptions(units, row.unit).map(u => <option key={u} value={u}>{u}</option>)}
+                        </select>
+                        <span className="text-slate-500 font-bold">=</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={row.qty}
+                          onChange={e => updateRow({ qty: parseFloat(e.target.value) || 0 })}
+                          className="w-20 px-2 py-1.5 border border-white/10 bg-black/40 rounded-lg text-slate-200 outline-none font-bold text-right"
+                        />
+                        <select
+                          value={row.toUnit}
+                          onChange={e => updateRow({ toUnit: e.target.value })}
+                          className="flex-1 px-2 py-1.5 border border-white/10 bg-black/40 rounded-lg text-slate-200 outline-none font-bold"
+                        >
+                          <option value="">Unit...</option>
+                          {getMasterOptions(units, row.toUnit).map(u => <option key={u} value={u}>{u}</option>)}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => setFormData({ ...formData, unitConversions: formData.unitConversions!.filter((_, i) => i !== idx) })}
+                          className="p-1 text-slate-500 hover:text-red-400"
+                          title="Remove"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-slate-500/70 mt-1">
+                  e.g. 1 PLT = 40 CS, 1 CS = 12 EA. Stock stays in the default unit; receiving, picking and counting accept any unit listed here.
+                </p>
+              </div>
+
+              <div className="bg-slate-800/30 p-4 rounded-lg border border-white/10">
+                <label className="block text-sm font-bold text-slate-400 mb-1 flex items-center gap-2 uppercase tracking-wide">
+                  <Ruler className="w-4 h-4" /> Case Size & Weight
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {([
+                    ['caseLengthCm', 'L (cm)'],
+                    ['caseWidthCm', 'W (cm)'],
+                    ['caseHeightCm', 'H (cm)'],
+                    ['caseWeightKg', 'Kg']
+                  ] as const).map(([field, label]) => (
+                    <div key={field}>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={formData[field] || 0}
+                        onChange={e => setFormData({ ...formData, [field]: parseFloat(e.target.value) || 0 })}
+                        className="w-full px-3 py-2 border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-bold"
+                      />
+                      <span className="text-[10px] text-slate-500 uppercase">{label}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500/70 mt-1">One {formData.defaultUnit || 'unit'} as shipped. Smart Pick splits pallets by cube and weight.</p>
+              </div>
+
+              <div className="bg-slate-800/30 p-4 rounded-lg border border-white/10">
+                <label className="block text-sm font-bold text-slate-400 mb-1 flex items-center gap-2 uppercase tracking-wide">
+                  <CalendarClock className="w-4 h-4" /> Shelf Life (Days)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.shelfLifeDays || 0}
+                  onChange={e => setFormData({ ...formData, shelfLifeDays: parseInt(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-bold"
+                />
+                <p className="text-xs text-slate-500/70 mt-1">Auto-fills batch expiry from production date. 0 = not tracked.</p>
+              </div>
+
+              <div className="bg-slate-800/30 p-4 rounded-lg border border-white/10">
+                <label className="block text-sm font-bold text-slate-400 mb-1 flex items-center gap-2 uppercase tracking-wide">
+                  <CircleDollarSign className="w-4 h-4" /> Unit Cost
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.unitCost || 0}
+                  onChange={e => setFormData({ ...formData, unitCost: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-bold"
+                />
+                <p className="text-xs text-slate-500/70 mt-1">Value per {formData.defaultUnit || 'unit'}. Used for the adjustment approval threshold.</p>
+              </div>
+
+              <div className="bg-slate-800/30 p-4 rounded-lg border border-white/10">
+                <label className="block text-sm font-bold text-slate-400 mb-1 flex items-center gap-2 uppercase tracking-wide">
+                  <Truck className="w-4 h-4" /> Supplier
+                </label>
+                <select
+                  value={formData.supplierId || ''}
+                  onChange={e => setFormData({ ...formData, supplierId: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-bold"
+                >
+                  <option value="">No supplier</option>
+                  {suppliers.map(sp => <option key={sp.id} value={sp.id}>{sp.name} ({sp.leadTimeDays}d lead time)</option>)}
+                </select>
+                <p className="text-xs text-slate-500/70 mt-1">Lead time, MOQ and pack sizes come from the supplier.</p>
+              </div>
+
+              <div className="bg-slate-800/30 p-4 rounded-lg border border-white/10">
+                <label className="block text-sm font-bold text-slate-400 mb-1 flex items-center gap-2 uppercase tracking-wide">
+                  <MapPin className="w-4 h-4" /> Home Bin
+                </label>
+                <input
+                  type="text"
+                  value={formData.homeBin || ''}
+                  onChange={e => setFormData({ ...formData, homeBin: e.target.value.trim().toUpperCase() || undefined })}
+                  placeholder="e.g. A-1-1"
+                  className="w-full px-3 py-2 border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-bold font-mono"
+                />
+                <p className="text-xs text-slate-500/70 mt-1">Fixed bin suggested first when this product is put away.</p>
+              </div>
+
+              <div className="bg-slate-800/30 p-4 rounded-lg border border-white/10">
+                <label className="block text-sm font-bold text-slate-400 mb-1 flex items-center gap-2 uppercase tracking-wide">
+                  <Tags className="w-4 h-4" /> Aliases
+                </label>
+                <input
+                  type="text"
+                  value={aliasText}
+                  onChange={e => setAliasText(e.target.value)}
+                  placeholder="e.g. Fine Sugar 1kg, 白糖"
+                  className="w-full px-3 py-2 border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                />
+                <p className="text-xs text-slate-500/70 mt-1">Supplier or pick list wording for this product, comma separated. Matches confirmed while scanning are added here.</p>
+              </div>
+
               <div className="flex justify-end gap-3 pt-4 border-t border-white/10">
                 <button
                   type="button"
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Product, MasterLocation, PurchaseOrder } from '../types';
+import { getLineDelivered, getLineOutstanding, isPurchaseOrderOpen, ReceiptLineInput } from '../services/purchaseOrders';
+import { toDateInputValue, fromDateInputValue } from '../utils';
+import { PackageCheck, ChevronDown, AlertTriangle } from 'lucide-react';
+
+interface PurchaseOrderReceivingProps {
+    purchaseOrders: PurchaseOrder[];
+    products: Product[];
+    masterLocations: MasterLocation[];
+    initialPoId?: string;
+    onReceive: (poId: string, lines: ReceiptLineInput[], options: { date?: number; note?: string; closeShort?: boolean }) => boolean;
+}
+
+type LineDraft = { qty: string; damagedQty: string; lotNumber: string; expiryDate: string; binCode: string };
+
+const EMPTY_LINE: LineDraft = { qty: '', damagedQty: '', lotNumber: '', expiryDate: '', binCode: '' };
+
+const PurchaseOrderReceiving: React.FC<PurchaseOrderReceivingProps> = ({ purchaseOrders, products, masterLocations, initialPoId, onReceive }) => {
+    const openOrders = purchaseOrders.filter(isPurchaseOrderOpen);
+    const [poId, setPoId] = useState<string>(() => openOrders.some(po => po.id === initialPoId) ? initialPoId! : '');
+    const [lineDrafts, setLineDrafts] = useState<Record<string, LineDraft>>({});
+    const [date, setDate] = useState(() => toDateInputValue(Date.now()));
+    const [note, setNote] = useState('');
+    const [closeShort, setCloseShort] = useState(false);
+    const [error, setError] = useState('');
+
+    const po = openOrders.find(p => p.id === poId);
+
+    // Start every PO with its outstanding quantities pre-filled as "good"
+    useEffect(() => {
+        if (!po) return;
+        const drafts: Record<string, LineDraft> = {};
+        po.lines.forEach(l => {
+            const outstanding = getLineOutstanding(l);
+            drafts[l.id] = { ...EMPTY_LINE, qty: outstanding > 0 ? String(outstanding) : '' };
+        });
+        setLineDrafts(drafts);
+        setCloseShort(false);
+        setError('');
+    }, [poId]);
+
+    const updateLine = (lineId: string, patch: Partial<LineDraft>) => {
+        setLineDrafts(prev => ({ ...prev, [lineId]: { ...(prev[lineId] || EMPTY_LINE), ...patch } }));
+        setError('');
+    };
+
+    const findBin = (binCode: string) => masterLocations.find(l => l.binCode.toLowerCase() === binCode.trim().toLowerCase());
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!po) return;
+
+        const badBin = po.lines.find(l => lineDrafts[l.id]?.binCode.trim() && !findBin(lineDrafts[l.id].binCode));
+        if (badBin) {
+            setError(`Unknown bin "${lineDrafts[badBin.id].binCode}" on ${badBin.productCode}.`);
+            return;
+        }
+
+        const lines: ReceiptLineInput[] = po.lines.map(l => {
+            const d = lineDrafts[l.id] || EMPTY_LINE;
+            const bin = d.binCode.trim() ? findBin(d.binCode) : undefined;
+            return {
+                lineId: l.id,
+                qty: parseFloat(d.qty) || 0,
+                damagedQty: parseFloat(d.damagedQty) || 0,
+                lotNumber: d.lotNumber,
+                expiryDate: fromDateInputValue(d.expiryDate),
+                location: bin ? { rack: bin.rack, bay: bin.bay, level: bin.level } : undefined
+            };
+        });
+
+        // Keep the business date, but stamp the current time so entries stay in sequence
+        const [y, m, dd] = date.split('-').map(Number);
+        const now = new Date();
+        const timestamp = new Date(y, m - 1, dd, now.getHours(), now.getMinutes(), now.getSeconds()).getTime();
+
+        if (onReceive(po.id, lines, { date: timestamp, note, closeShort })) {
+            setPoId('');
+            setNote('');
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                    <label className="block text-sm font-bold text-slate-400 mb-1 uppercase tracking-wider">Purchase Order</label>
+                    <div className="relative">
+                        <select
+                            value={poId}
+                            onChange={(e) => setPoId(e.target.value)}
+                            className="w-full pl-4 pr-10 py-2 border border-white/10 bg-black/40 text-slate-100 rounded-lg focus:ring-2 focus:ring-primary outline-none appearance-none cursor-pointer font-bold"
+                        >
+                            <option value="">{openOrders.length ? 'Select an open PO...' : 'No open purchase orders'}</option>
+                            {openOrders.map(p => (
+                                <option key={p.id} value={p.id}>
+                                    {p.poNumber} - {p.supplier}{p.expectedDate ? ` (due ${new Date(p.expectedDate).toLocaleDateString()})` : ''}
+                                </option>
+                            ))}
+                        </select>
+                        <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-sm font-bold text-slate-400 mb-1 uppercase tracking-wider">Date</label>
+                    <input
+                        type="date"
+                        value={date}
+                        onChange={(e) => setDate(e.target.value)}
+                        className="w-full px-3 py-2 bg-transparent text-sm text-slate-300 border border-white/10 rounded-lg outline-none focus:border-primary"
+                    />
+                </div>
+            </div>
+
+            {po && (
+                <>
+                    <datalist id="receiving-bins">
+                        {masterLocations.filter(l => l.status !== 'disabled').map(l => <option key={l.id} value={l.binCode} />)}
+                    </datalist>
+                    <div className="border border-white/10 rounded-lg bg-black/20 overflow-x-auto">
+                        <table className="w-full text-left text-sm text-slate-400">
+                            <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                                <tr>
+                                    <th className="px-3 py-3">Item</th>
+                                    <th className="px-3 py-3 text-right">Due</th>
+                                    <th className="px-3 py-3">Good</th>
+                                    <th className="px-3 py-3">Damaged</th>
+                                    <th className="px-3 py-3">Lot / Expiry</th>
+                                    <th className="px-3 py-3">Bin</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-white/5">
+                                {po.lines.map(line => {
+                                    const product = products.find(p => p.productCode === line.productCode);
+                                    const d = lineDrafts[line.id] || EMPTY_LINE;
+                                    const outstanding = getLineOutstanding(line);
+                                    const after = getLineDelivered(line) + (parseFloat(d.qty) || 0) + (parseFloat(d.damagedQty) || 0);
+                                    const over = after - line.expectedQty;
+                                    const inputClass = 'w-full px-2 py-1.5 text-sm border border-white/10 bg-black/40 rounded text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary outline-none';
+                                    return (
+                                        <tr key={line.id} className="align-top">
+                                            <td className="px-3 py-3">
+                                                <div className="font-medium text-slate-200">{product?.name || line.productCode}</div>
+                                                <div className="text-xs text-slate-500 font-mono">{line.productCode}</div>
+                                                {over > 0 && <div className="text-[10px] font-bold uppercase text-purple-400 mt-1">Over by {over}</div>}
+                                                {over < 0 && (after > getLineDelivered(line) || closeShort) && <div className="text-[10px] font-bold uppercase text-amber-400 mt-1">Short {-over}</div>}
+                                                {(parseFloat(d.damagedQty) || 0) > 0 && <div className="text-[10px] font-bold uppercase text-red-400 mt-1">Damaged → quarantine</div>}
+                                            </td>
+                                            <td className="px-3 py-3 text-right font-mono whitespace-nowrap">
+                                                <span className="text-white">{outstanding}</span>
+                                                <div className="text-xs text-slate-500">of {line.expectedQty} {product?.defaultUnit || ''}</div>
+                                            </td>
+                                            <td className="px-3 py-3 w-24">
+                                                <input type="number" min="0" inputMode="decimal" value={d.qty} onChange={(e) => updateLine(line.id, { qty: e.target.value })} className={`${inputClass} font-bold font-mono`} />
+                                            </td>
+                                            <td className="px-3 py-3 w-24">
+                                                <input type="number" min="0" inputMode="decimal" value={d.damagedQty} onChange={(e) => updateLine(line.id, { damagedQty: e.target.value })} className={`${inputClass} font-mono`} />
+                                            </td>
+                                            <td className="px-3 py-3 min-w-[10rem] space-y-1">
+                                                <input type="text" value={d.lotNumber} onChange={(e) => updateLine(line.id, { lotNumber: e.target.value })} placeholder="Lot" className={`${inputClass} font-mono`} />
+                                                <input type="date" value={d.expiryDate} onChange={(e) => updateLine(line.id, { expiryDate: e.target.value })} className={inputClass} />
+                                            </td>
+                                            <td className="px-3 py-3 w-32">
+                                                <input type="text" list="receiving-bins" value={d.binCode} onChange={(e) => updateLine(line.id, { binCode: e.target.value })} placeholder="Transit" className={`${inputClass} font-mono`} />
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-bold text-slate-400 mb-1 uppercase tracking-wider">Note / Reference</label>
+                        <input
+                            type="text"
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            placeholder="Delivery note, carrier..."
+                            className="w-full px-4 py-2 border border-white/10 bg-black/40 text-slate-100 rounded-lg focus:ring-2 focus:ring-primary outline-none placeholder-slate-600 font-bold"
+                        />
+                    </div>
+
+                    <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={closeShort} onChange={(e) => setCloseShort(e.target.checked)} className="mt-1 accent-primary" />
+                        <span>
+                            Final delivery - close the PO
+                            <span className="block text-xs text-slate-500">Anything still outstanding is recorded as short. Leave unchecked to expect a back-order.</span>
+                        </span>
+                    </label>
+
+                    {error && (
+                        <p className="text-sm text-red-400 flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> {error}</p>
+                    )}
+
+                    <div className="flex justify-end pt-4 border-t border-white/5">
+                        <button
+                            type="submit"
+                            className="px-6 py-2 rounded-lg bg-primary text-white hover:bg-violet-600 font-medium flex items-center gap-2 shadow-[0_0_15px_rgba(139,92,246,0.5)] border border-primary/50 hover:border-primary transition-all"
+                        >
+                            <PackageCheck className="w-5 h-5" /> Receive Delivery
+                        </button>
+                    </div>
+                </>
+            )}
+        </form>
+    );
+};
+
+export default PurchaseOrderReceiving;
@@ -0,0 +1,377 @@
+import React, { useState } from 'react';
+import { Product, PurchaseOrder, Supplier } from '../types';
+import { getLineDelivered, getLineStatus, isPurchaseOrderOpen, LineStatus, PurchaseOrderInput } from '../services/purchaseOrders';
+import { smartSearch, toDateInputValue, fromDateInputValue } from '../utils';
+import { ClipboardList, Plus, Edit, Trash2, X, Save, Search, PackageCheck, Ban, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface PurchaseOrdersPageProps {
+    purchaseOrders: PurchaseOrder[];
+    products: Product[];
+    suppliers: Supplier[];
+    canManage: boolean;
+    onSave: (po: PurchaseOrderInput) => boolean;
+    onClose: (id: string) => void;
+    onDelete: (id: string) => void;
+    onReceive: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<PurchaseOrder['status'], string> = {
+    open: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+    partial: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+    received: 'bg-green-500/20 text-green-400 border-green-500/30',
+    closed: 'bg-slate-800 text-slate-400 border-white/10'
+};
+
+const LINE_STYLES: Record<LineStatus, string> = {
+    pending: 'text-slate-500',
+    partial: 'text-amber-400',
+    complete: 'text-green-400',
+    over: 'text-purple-400',
+    short: 'text-red-400'
+};
+
+type Draft = {
+    id?: string;
+    poNumber: string;
+    supplier: string;
+    expectedDate: string;
+    notes: string;
+    lines: { id?: string; productCode: string; expectedQty: string }[];
+};
+
+const EMPTY_DRAFT: Draft = { poNumber: '', supplier: '', expectedDate: '', notes: '', lines: [{ productCode: '', expectedQty: '' }] };
+
+const PurchaseOrdersPage: React.FC<PurchaseOrdersPageProps> = ({ purchaseOrders, products, suppliers, canManage, onSave, onClose, onDelete, onReceive }) => {
+    const [statusFilter, setStatusFilter] = useState<'active' | PurchaseOrder['status'] | 'all'>('active');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<Draft | null>(null);
+
+    const productName = (code: string) => products.find(p => p.productCode === code)?.name || code;
+
+    const visibleOrders = purchaseOrders
+        .filter(po => statusFilter === 'all' || (statusFilter === 'active' ? isPurchaseOrderOpen(po) : po.status === statusFilter))
+        .filter(po => smartSearch(po, ['poNumber', 'supplier', 'notes'], searchTerm))
+        .sort((a, b) => (a.expectedDate || Infinity) - (b.expectedDate || Infinity) || b.createdAt - a.createdAt);
+
+    const openEditor = (po?: PurchaseOrder) => {
+        setDraft(po ? {
+            id: po.id,
+            poNumber: po.poNumber,
+            supplier: po.supplier,
+            expectedDate: toDateInputValue(po.expectedDate),
+            notes: po.notes || '',
+            lines: po.lines.map(l => ({ id: l.id, productCode: l.productCode, expectedQty: String(l.expectedQty) }))
+        } : { ...EMPTY_DRAFT, lines: [{ productCode: '', expectedQty: '' }] });
+    };
+
+    const updateLine = (idx: number, patch: Partial<Draft['lines'][number]>) => {
+        if (!draft) return;
+        setDraft({ ...draft, lines: draft.lines.map((l, i) => i === idx ? { ...l, ...patch } : l) });
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+        const ok = onSave({
+            id: draft.id,
+            poNumber: draft.poNumber,
+            supplier: draft.supplier,
+            expectedDate: fromDateInputValue(draft.expectedDate),
+            notes: draft.notes,
+            lines: draft.lines.map(l => ({ id: l.id, productCode: l.productCode.trim(), expectedQty: parseFloat(l.expectedQty) || 0 }))
+        });
+        if (ok) setDraft(null);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                            <ClipboardList className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Purchase Orders</h2>
+                            <p className="text-sm text-slate-400">What suppliers owe us. Receive deliveries against a PO from Inbound.</p>
+                        </div>
+                    </div>
+                    {canManage && (
+                        <button
+                            onClick={() => openEditor()}
+                            className="px-4 py-2 bg-primary/20 text-primary border border-primary/50 rounded-lg hover:bg-primary/30 flex items-center gap-2 text-sm font-bold transition-all shadow-[0_0_10px_rgba(139,92,246,0.3)]"
+                        >
+                            <Plus className="w-4 h-4" /> New PO
+                        </button>
+                    )}
+                </div>
+
+                <div className="mt-6 flex flex-col md:flex-row gap-4 items-center justify-between">
+                    <div className="relative w-full md:w-96">
+                        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-500 w-4 h-4" />
+                        <input
+                            type="text"
+                            placeholder="Search PO number, supplier..."
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            className="w-full pl-9 pr-4 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                        />
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {(['active', 'received', 'closed', 'all'] as const).map(status => (
+                            <button
+                                key={status}
+                                onClick={() => setStatusFilter(status)}
+                                className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wide border transition-colors ${statusFilter === status
+                                    ? 'bg-primary/20 text-primary border-primary/50'
+                                    : 'bg-black/20 text-slate-400 border-white/10 hover:bg-white/5'
+                                    }`}
+                            >
+                                {status === 'active' ? 'Open' : status}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm text-slate-400">
+                        <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                            <tr>
+                                <th className="px-6 py-4">PO</th>
+                                <th className="px-6 py-4">Supplier</th>
+                                <th className="px-6 py-4">Expected</th>
+                                <th className="px-6 py-4 text-right">Received</th>
+                                <th className="px-6 py-4">Status</th>
+                                <th className="px-6 py-4 text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {visibleOrders.map(po => {
+                                const expectedTotal = po.lines.reduce((sum, l) => sum + l.expectedQty, 0);
+                                const deliveredTotal = po.lines.reduce((sum, l) => sum + getLineDelivered(l), 0);
+                                const isExpanded = expandedId === po.id;
+                                return (
+                                    <React.Fragment key={po.id}>
+                                        <tr className="hover:bg-white/5 transition-colors cursor-pointer" onClick={() => setExpandedId(isExpanded ? null : po.id)}>
+                                            <td className="px-6 py-4 font-mono font-bold text-slate-200 whitespace-nowrap">
+                                                {isExpanded ? <ChevronDown className="w-4 h-4 inline mr-1" /> : <ChevronRight className="w-4 h-4 inline mr-1" />}
+                                                {po.poNumber}
+                                            </td>
+                                            <td className="px-6 py-4 text-slate-300">{po.supplier}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap">{po.expectedDate ? new Date(po.expectedDate).toLocaleDateString() : '-'}</td>
+                                            <td className="px-6 py-4 text-right font-mono">
+                                                <span className="text-white">{deliveredTotal}</span> / {expectedTotal}
+                                                <div className="text-xs text-slate-500">{po.lines.length} line(s)</div>
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border ${STATUS_STYLES[po.status]}`}>
+                                                    {po.status}
+                                                </span>
+                                            </td>
+                                            <td className="px-6 py-4 text-right whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                                                {isPurchaseOrderOpen(po) && (
+                                                    <button
+                                                        onClick={() => onReceive(po.id)}
+                                                        className="p-2 text-slate-400 hover:text-green-400 transition-colors"
+                                                        title="Receive delivery"
+                                                    >
+                                                        <PackageCheck className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                {canManage && po.status !== 'closed' && (
+                                                    <button onClick={() => openEditor(po)} className="p-2 text-slate-400 hover:text-blue-400 transition-colors" title="Edit">
+                                                        <Edit className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                {canManage && isPurchaseOrderOpen(po) && (
+                                                    <button onClick={() => onClose(po.id)} className="p-2 text-slate-400 hover:text-amber-400 transition-colors" title="Close (remaining short)">
+                                                        <Ban className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                {canManage && po.receipts.length === 0 && (
+                                                    <button onClick={() => onDelete(po.id)} className="p-2 text-slate-400 hover:text-red-400 transition-colors" title="Delete">
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                        {isExpanded && (
+                                            <tr className="bg-black/20">
+                                                <td colSpan={6} className="px-6 py-4">
+                                                    <table className="w-full text-xs">
+                                                        <thead className="text-slate-500 uppercase">
+                                                            <tr>
+                                                                <th className="py-1 text-left">Item</th>
+                                                                <th className="py-1 text-right">Expected</th>
+                                                                <th className="py-1 text-right">Good</th>
+                                                                <th className="py-1 text-right">Damaged</th>
+                                                                <th className="py-1 text-right">Status</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody>
+                                                            {po.lines.map(line => {
+                                                                const status = getLineStatus(line, po.status);
+                                                                return (
+                                                                    <tr key={line.id} className="border-t border-white/5">
+                                                                        <td className="py-1.5">
+                                                                            <span className="text-slate-200">{productName(line.productCode)}</span>
+                                                                            <span className="ml-2 font-mono text-slate-500">{line.productCode}</span>
+                                                                        </td>
+                                                                        <td className="py-1.5 text-right font-mono">{line.expectedQty}</td>
+                                                                        <td className="py-1.5 text-right font-mono text-white">{line.receivedQty}</td>
+                                                                        <td className={`py-1.5 text-right font-mono ${line.damagedQty > 0 ? 'text-red-400' : ''}`}>{line.damagedQty}</td>
+                                                                        <td className={`py-1.5 text-right font-bold uppercase ${LINE_STYLES[status]}`}>{status}</td>
+                                                                    </tr>
+                                                                );
+                                                            })}
+                                                        </tbody>
+                                                    </table>
+                                                    {po.receipts.length > 0 && (
+                                                        <p className="mt-3 text-xs text-slate-500">
+                                                            Receipts: {po.receipts.map(r => `${new Date(r.date).toLocaleDateString()}${r.user ? ` (${r.user})` : ''}`).join(', ')}
+                                                        </p>
+                                                    )}
+                                                    {po.notes && <p className="mt-1 text-xs text-slate-400">{po.notes}</p>}
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                            {visibleOrders.length === 0 && (
+                                <tr>
+                                    <td colSpan={6} className="p-10 text-center text-slate-500">No purchase orders found.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {draft && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                    <form onSubmit={handleSave} className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-slate-900 border border-white/10 rounded-xl shadow-2xl p-6 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-bold text-white">{draft.id ? `Edit ${draft.poNumber}` : 'New Purchase Order'}</h3>
+                            <button type="button" onClick={() => setDraft(null)} className="text-slate-500 hover:text-white transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">PO Number</label>
+                                <input
+                                    type="text"
+                                    value={draft.poNumber}
+                                    onChange={(e) => setDraft({ ...draft, poNumber: e.target.value })}
+                                    autoFocus
+                                    className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-mono"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Supplier</label>
+                                <datalist id="po-suppliers">
+                                    {suppliers.map(sp => <option key={sp.id} value={sp.name} />)}
+                                </datalist>
+                                <input
+                                    type="text"
+                                    list="po-suppliers"
+                                    value={draft.supplier}
+                                    onChange={(e) => setDraft({ ...draft, supplier: e.target.value })}
+                                    className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Expected Date</label>
+                                <input
+                                    type="date"
+                                    value={draft.expectedDate}
+                                    onChange={(e) => setDraft({ ...draft, expectedDate: e.target.value })}
+                                    className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-300 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Lines</label>
+                            <datalist id="po-products">
+                                {products.map(p => <option key={p.productCode} value={p.productCode}>{p.name}</option>)}
+                            </datalist>
+                            <div className="space-y-2">
+                                {draft.lines.map((line, idx) => (
+                                    <div key={line.id || idx} className="flex items-center gap-2">
+                                        <input
+                                            type="text"
+                                            list="po-products"
+                                            value={line.productCode}
+                                            onChange={(e) => updateLine(idx, { productCode: e.target.value })}
+                                            placeholder="Product code"
+                                            className="flex-1 px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary outline-none font-mono"
+                                        />
+                                        <span className="hidden md:block w-48 truncate text-xs text-slate-500">{line.productCode ? productName(line.productCode) : ''}</span>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            inputMode="decimal"
+                                            value={line.expectedQty}
+                                            onChange={(e) => updateLine(idx, { expectedQty: e.target.value })}
+                                            placeholder="Qty"
+                                            className="w-24 px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary outline-none font-mono text-right"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => setDraft({ ...draft, lines: draft.lines.filter((_, i) => i !== idx) })}
+                                            className="p-2 text-slate-500 hover:text-red-400 transition-colors"
+                                            title="Remove line"
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => setDraft({ ...draft, lines: [...draft.lines, { productCode: '', expectedQty: '' }] })}
+                                className="mt-2 flex items-center gap-1 text-xs font-bold text-primary hover:text-primary/80 transition-colors"
+                            >
+                                <Plus className="w-3 h-3" /> Add Line
+                            </button>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Notes</label>
+                            <input
+                                type="text"
+                                value={draft.notes}
+                                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                                className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                            />
+                        </div>
+
+                        <div className="flex justify-end gap-2 pt-2">
+                            <button
+                                type="button"
+                                onClick={() => setDraft(null)}
+                                className="px-4 py-2 rounded-lg text-sm font-bold text-slate-400 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 transition-colors"
+                            >
+                                <Save className="w-4 h-4" /> Save
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PurchaseOrdersPage;
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { InventoryItem, InventoryLocation, MasterLocation, Product, PutawaySettings } from '../types';
+import { PUTAWAY_REASON_LABELS, PutawaySuggestion, TRANSIT_RACK, isInTransit, normalizeBinCode, suggestPutaway } from '../services/putaway';
+import { formatBinCode } from '../services/ledger';
+import { findOverfilledBins } from '../services/binCapacity';
+import { getExpiryColor } from '../utils';
+import { PackageCheck, ArrowRight, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface PutawayPageProps {
+    inventory: InventoryItem[];
+    products: Product[];
+    masterLocations: MasterLocation[];
+    putawaySettings: PutawaySettings;
+    onMove: (sourceId: string, destLoc: InventoryLocation, qty: number) => void;
+}
+
+interface PutawayTask {
+    item: InventoryItem;
+    suggestions: PutawaySuggestion[];
+}
+
+/**
+ * Putaway task list: every batch sitting in Transit with its suggested destination bins.
+ * Suggestions are worked out task by task, so two tasks never get the same empty bin.
+ * Moves that would overfill a bin are left out of "Put Away All" and need an override reason.
+ */
+const PutawayPage: React.FC<PutawayPageProps> = ({ inventory, products, masterLocations, putawaySettings, onMove }) => {
+    const [destinations, setDestinations] = useState<Record<string, string>>({});
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+    const tasks: PutawayTask[] = useMemo(() => {
+        const reserved: InventoryLocation[] = [];
+        return inventory
+            .filter(isInTransit)
+            .sort((a, b) => formatBinCode(a.locations[0]).localeCompare(formatBinCode(b.locations[0]), undefined, { numeric: true }))
+            .map(item => {
+                const suggestions = suggestPutaway(item.productCode, item.unit, { products, inventory, masterLocations, settings: putawaySettings, reserved });
+                if (suggestions[0]) reserved.push(suggestions[0].location);
+                return { item, suggestions };
+            });
+    }, [inventory, products, masterLocations, putawaySettings]);
+
+    const activeBins = useMemo(() => masterLocations.filter(l => l.status !== 'disabled' && l.rack !== TRANSIT_RACK), [masterLocations]);
+
+    const getDestinationCode = (task: PutawayTask) => destinations[task.item.id] ?? task.suggestions[0]?.binCode ?? '';
+    const resolveBin = (code: string) => activeBins.find(l => normalizeBinCode(l.binCode) === normalizeBinCode(code));
+    const getQty = (task: PutawayTask) => Math.min(quantities[task.item.id] ?? task.item.quantity, task.item.quantity);
+
+    const getOverfill = (task: PutawayTask) => {
+        const bin = resolveBin(getDestinationCode(task));
+        if (!bin || getQty(task) <= 0) return undefined;
+        return findOverfilledBins([{ ...task.item, quantity: getQty(task), bin }], { inventory, products, masterLocations })[0];
+    };
+
+    const ready = tasks.filter(t => resolveBin(getDestinationCode(t)) && getQty(t) > 0 && !getOverfill(t));
+
+    const moveTask = (task: PutawayTask) => {
+        const bin = resolveBin(getDestinationCode(task));
+        const qty = getQty(task);
+        if (!bin || qty <= 0) return;
+        onMove(task.item.id, { rack: bin.rack, bay: bin.bay, level: bin.level }, qty);
+        setDestinations(prev => { const { [task.item.id]: _, ...rest } = prev; return rest; });
+        setQuantities(prev => { const { [task.item.id]: _, ...rest } = prev; return rest; });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                            <PackageCheck className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Putaway</h2>
+                            <p className="text-sm text-slate-400">Move received stock out of Transit. Bins follow the putaway strategies in Settings.</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => ready.forEach(moveTask)}
+                        disabled={ready.length === 0}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 disabled:opacity-50 transition-colors"
+                    >
+                        <CheckCircle className="w-4 h-4" /> Put Away All ({ready.length})
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-slate-900/60 backdrop-blur-md rounded-xl border border-white/10 overflow-hidden">
+                <table className="w-full text-left text-sm text-slate-400">
+                    <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                        <tr>
+                            <th className="px-4 py-3">Product</th>
+                            <th className="px-4 py-3">From</th>
+                            <th className="px-4 py-3 text-right">Qty</th>
+                            <th className="px-4 py-3">To</th>
+                            <th className="px-4 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/5">
+                        {tasks.map(task => {
+                            const { item, suggestions } = task;
+                            const destCode = getDestinationCode(task);
+                            const bin = resolveBin(destCode);
+                            const suggestion = suggestions.find(sg => sg.binCode === (bin && formatBinCode(bin)));
+                            const overfill = getOverfill(task);
+                            return (
+                                <tr key={item.id} className="hover:bg-white/5">
+                                    <td className="px-4 py-3 align-top">
+                                        <div className="font-bold text-slate-200">{item.productName}</div>
+                                        <div className="text-xs text-slate-500 font-mono">
+                                            {item.productCode}{item.lotNumber ? ` • Lot ${item.lotNumber}` : ''}
+                                        </div>
+                                        {item.expiryDate ? <span className={`text-[10px] px-1.5 rounded ${getExpiryColor(item.expiryDate)}`}>Exp {new Date(item.expiryDate).toLocaleDateString()}</span> : null}
+                                        {item.status === 'quarantine' && <span className="ml-1 text-[10px] px-1.5 rounded bg-red-500/20 text-red-300">Quarantine</span>}
+                                    </td>
+                                    <td className="px-4 py-3 align-top font-mono text-slate-300">{item.locations.map(formatBinCode).join(', ')}</td>
+                                    <td className="px-4 py-3 align-top text-right">
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            max={item.quantity}
+                                            value={getQty(task)}
+                                            onChange={(e) => setQuantities(prev => ({ ...prev, [item.id]: parseFloat(e.target.value) || 0 }))}
+                                            className="w-20 px-2 py-1 text-sm text-right border border-white/10 bg-black/40 rounded text-slate-200 outline-none font-mono"
+                                        />
+                                        <div className="text-xs text-slate-500 mt-1">of {item.quantity} {item.unit}</div>
+                                    </td>
+                                    <td className="px-4 py-3 align-top">
+                                        <input
+                                            list={`putaway-bins-${item.id}`}
+                                            value={destCode}
+                                            onChange={(e) => setDestinations(prev => ({ ...prev, [item.id]: e.target.value }))}
+                                            placeholder="Bin, e.g. A-1-1"
+                                            className={`w-32 px-2 py-1 text-sm border bg-black/40 rounded text-slate-200 outline-none font-mono ${bin ? 'border-white/10' : 'border-amber-500/50'}`}
+                                        />
+                                        <datalist id={`putaway-bins-${item.id}`}>
+                                            {suggestions.map(sg => <option key={sg.binCode} value={sg.binCode}>{PUTAWAY_REASON_LABELS[sg.reason]}</option>)}
+                                        </datalist>
+                                        <div className="text-xs mt-1">
+                                            {suggestion && <span className="text-primary">{PUTAWAY_REASON_LABELS[suggestion.reason]}</span>}
+                                            {!bin && (
+                                                <span className="text-amber-400 flex items-center gap-1">
+                                                    <AlertTriangle className="w-3 h-3" /> {suggestions.length === 0 && !destCode ? 'No bin fits - choose one' : 'Unknown or disabled bin'}
+                                                </span>
+                                            )}
+                                            {overfill && (
+                                                <span className="text-amber-400 flex items-center gap-1">
+                                                    <AlertTriangle className="w-3 h-3" /> Over capacity ({overfill.after}%)
+                                                </span>
+                                            )}
+                                        </div>
+                                    </td>
+                                    <td className="px-4 py-3 align-top text-right">
+                                        <button
+                                            onClick={() => moveTask(task)}
+                                            disabled={!bin || getQty(task) <= 0}
+                                            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-slate-200 border border-white/10 hover:bg-slate-700 disabled:opacity-40 transition-colors ml-auto"
+                                        >
+                                            Move <ArrowRight className="w-3 h-3" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                        {tasks.length === 0 && (
+                            <tr>
+                                <td colSpan={5} className="px-4 py-8 text-center text-slate-500 italic">Transit is empty - nothing to put away.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default PutawayPage;
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { Supplier } from '../types';
+import { ReorderSuggestion } from '../services/reorder';
+import { ShoppingCart, ClipboardList, Clock } from 'lucide-react';
+
+interface ReorderPageProps {
+    suggestions: ReorderSuggestion[];
+    suppliers: Supplier[];
+    canOrder: boolean;
+    onDraftPurchaseOrder: (supplierId: string | undefined, lines: { productCode: string; expectedQty: number }[]) => boolean;
+}
+
+const NO_SUPPLIER = '__none__';
+
+const URGENCY_STYLES: Record<ReorderSuggestion['urgency'], string> = {
+    critical: 'bg-red-500/20 text-red-400 border-red-500/30',
+    reorder: 'bg-amber-500/20 text-amber-400 border-amber-500/30'
+};
+
+const ReorderPage: React.FC<ReorderPageProps> = ({ suggestions, suppliers, canOrder, onDraftPurchaseOrder }) => {
+    const [supplierFilter, setSupplierFilter] = useState<string>('all');
+    // Quantities the user changed before drafting, keyed by product code
+    const [overrides, setOverrides] = useState<Record<string, string>>({});
+
+    // One group per supplier so each becomes its own PO
+    const groups = useMemo(() => {
+        const map = new Map<string, { supplier?: Supplier; items: ReorderSuggestion[] }>();
+        suggestions.forEach(s => {
+            const key = s.supplier?.id || NO_SUPPLIER;
+            if (supplierFilter !== 'all' && supplierFilter !== key) return;
+            if (!map.has(key)) map.set(key, { supplier: s.supplier, items: [] });
+            map.get(key)!.items.push(s);
+        });
+        return Array.from(map.entries()).sort(([a, ga], [b, gb]) =>
+            (a === NO_SUPPLIER ? 1 : 0) - (b === NO_SUPPLIER ? 1 : 0) || (ga.supplier?.name || '').localeCompare(gb.supplier?.name || '')
+        );
+    }, [suggestions, supplierFilter]);
+
+    const qtyFor = (s: ReorderSuggestion) => overrides[s.productCode] ?? String(s.suggestedQty);
+
+    const handleDraft = (supplier: Supplier | undefined, items: ReorderSuggestion[]) => {
+        const lines = items
+            .map(s => ({ productCode: s.productCode, expectedQty: parseFloat(qtyFor(s)) || 0 }))
+            .filter(l => l.expectedQty > 0);
+        if (lines.length === 0) return;
+        if (onDraftPurchaseOrder(supplier?.id, lines)) {
+            setOverrides(prev => {
+                const next = { ...prev };
+                items.forEach(s => delete next[s.productCode]);
+                return next;
+            });
+        }
+    };
+
+    const criticalCount = suggestions.filter(s => s.urgency === 'critical').length;
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                            <ShoppingCart className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Reorder Suggestions</h2>
+                            <p className="text-sm text-slate-400">
+                                Minimum level plus 30-day average outbound over the supplier lead time, net of stock on order.
+                            </p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs font-bold uppercase">
+                        <span className={`px-2 py-1 rounded border ${URGENCY_STYLES.critical}`}>{criticalCount} critical</span>
+                        <span className={`px-2 py-1 rounded border ${URGENCY_STYLES.reorder}`}>{suggestions.length - criticalCount} reorder</span>
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-6">
+                    {[{ id: 'all', name: 'All' }, ...suppliers.slice().sort((a, b) => a.name.localeCompare(b.name)), { id: NO_SUPPLIER, name: 'No supplier' }].map(sp => (
+                        <button
+                            key={sp.id}
+                            onClick={() => setSupplierFilter(sp.id)}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase border transition-colors ${supplierFilter === sp.id
+                                ? 'bg-primary text-black border-primary'
+                                : 'bg-slate-800 text-slate-400 border-white/5 hover:text-white'
+                                }`}
+                        >
+                            {sp.name}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {groups.length === 0 && (
+                <div className="bg-slate-900/60 backdrop-blur-md rounded-xl border border-white/10 p-10 text-center text-slate-500">
+                    Nothing to reorder. Every product is above its reorder point.
+                </div>
+            )}
+
+            {groups.map(([key, { supplier, items }]) => (
+                <div key={key} className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 overflow-hidden">
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 px-6 py-4 border-b border-white/10 bg-black/20">
+                        <div>
+                            <h3 className="font-bold text-white">{supplier?.name || 'No supplier linked'}</h3>
+                            <p className="text-xs text-slate-500 flex items-center gap-1">
+                                <Clock className="w-3 h-3" />
+                                {supplier
+                                    ? `${supplier.leadTimeDays}d lead time${supplier.moq ? ` • MOQ ${supplier.moq}` : ''}${supplier.packSizes?.length ? ` • packs of ${supplier.packSizes.join(' / ')}` : ''}`
+                                    : 'Lead time assumed 0 days. Link a supplier in the Product Master.'}
+                            </p>
+                        </div>
+                        {canOrder && (
+                            <button
+                                onClick={() => handleDraft(supplier, items)}
+                                className="px-4 py-2 bg-primary/20 text-primary border border-primary/50 rounded-lg hover:bg-primary/30 flex items-center gap-2 text-sm font-bold transition-all"
+                            >
+                                <ClipboardList className="w-4 h-4" /> Draft PO
+                            </button>
+                        )}
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm text-slate-400">
+                            <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                                <tr>
+                                    <th className="px-6 py-3">Item</th>
+                                    <th className="px-6 py-3 text-right">On Hand</th>
+                                    <th className="px-6 py-3 text-right">On Order</th>
+                                    <th className="px-6 py-3 text-right">Min</th>
+                                    <th className="px-6 py-3 text-right">Demand / Day</th>
+                                    <th className="px-6 py-3 text-right">Reorder Point</th>
+                                    <th className="px-6 py-3 text-right">Cover</th>
+                                    <th className="px-6 py-3 text-right">Order Qty</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-white/5">
+                                {items.map(s => (
+                                    <tr key={s.productCode} className="hover:bg-white/5 transition-colors">
+                                        <td className="px-6 py-3">
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-medium text-slate-200">{s.name}</span>
+                                                <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase ${URGENCY_STYLES[s.urgency]}`}>{s.urgency}</span>
+                                            </div>
+                                            <div className="text-xs text-slate-500 font-mono">{s.productCode}</div>
+                                        </td>
+                                        <td className={`px-6 py-3 text-right font-mono ${s.urgency === 'critical' ? 'text-red-400 font-bold' : 'text-white'}`}>{s.onHand}</td>
+                                        <td className="px-6 py-3 text-right font-mono">{s.onOrder || '-'}</td>
+                                        <td className="px-6 py-3 text-right font-mono">{s.minStockLevel}</td>
+                                        <td className="px-6 py-3 text-right font-mono">{s.avgDailyDemand || '-'}</td>
+                                        <td className="px-6 py-3 text-right font-mono">{s.reorderPoint}</td>
+                                        <td className="px-6 py-3 text-right font-mono">{s.daysOfCover !== undefined ? `${s.daysOfCover}d` : '-'}</td>
+                                        <td className="px-6 py-3 text-right whitespace-nowrap">
+                                            {canOrder ? (
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step={s.packSize || 'any'}
+                                                    value={qtyFor(s)}
+                                                    onChange={(e) => setOverrides(prev => ({ ...prev, [s.productCode]: e.target.value }))}
+                                                    className="w-24 px-2 py-1 text-sm text-right font-mono font-bold border border-white/10 bg-black/40 rounded text-slate-200 focus:ring-2 focus:ring-primary outline-none"
+                                                />
+                                            ) : (
+                                                <span className="font-mono font-bold text-white">{s.suggestedQty}</span>
+                                            )}
+                                            <span className="text-xs text-slate-500 ml-1">{s.unit}</span>
+                                            {s.packSize && <div className="text-[10px] text-slate-500">packs of {s.packSize}</div>}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default ReorderPage;
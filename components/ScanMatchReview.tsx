@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { Product } from '../types';
+import { ProductMatch, isConfidentMatch, rankProducts } from '../services/productMatcher';
+import { ListChecks, X, AlertTriangle, Check } from 'lucide-react';
+
+export interface ScannedLine {
+    text: string; // As read from the pick list
+    qty: number;
+    code?: string | null; // Product code the reader already matched, if any
+}
+
+interface ScanMatchReviewProps {
+    lines: ScannedLine[];
+    products: Product[];
+    note?: string;
+    onConfirm: (items: { product: Product; qty: number }[], aliases: { productCode: string; text: string }[]) => void;
+    onCancel: () => void;
+}
+
+interface ReviewRow {
+    id: number;
+    line: ScannedLine;
+    candidates: ProductMatch[];
+    productCode: string; // '' = skip the line
+    confident: boolean;
+    remember: boolean;
+}
+
+const REASON_LABELS: Record<ProductMatch['reason'], string> = { code: 'Code', alias: 'Alias', name: 'Name' };
+
+/**
+ * Shows how each scanned line was matched to the Product Master. Confident matches are pre-ticked;
+ * weaker ones are suggested for the user to confirm or change, and confirmed wording is remembered
+ * as a product alias.
+ */
+const ScanMatchReview: React.FC<ScanMatchReviewProps> = ({ lines, products, note, onConfirm, onCancel }) => {
+    const sortedProducts = useMemo(() => [...products].sort((a, b) => a.name.localeCompare(b.name)), [products]);
+
+    const [rows, setRows] = useState<ReviewRow[]>(() => lines.map((line, id) => {
+        const byCode = line.code ? products.find(p => p.productCode === line.code) : undefined;
+        const candidates = rankProducts(line.text, products);
+        if (byCode && !candidates.some(c => c.product.productCode === byCode.productCode)) {
+            candidates.unshift({ product: byCode, score: 1, reason: 'code' });
+        }
+        const best = byCode ? candidates.find(c => c.product.productCode === byCode.productCode) : candidates[0];
+        const confident = !!byCode || isConfidentMatch(best);
+        return { id, line, candidates, productCode: best?.product.productCode || '', confident, remember: !confident };
+    }));
+
+    const updateRow = (id: number, patch: Partial<ReviewRow>) => setRows(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+
+    const toCheck = rows.filter(r => !r.confident && r.productCode).length;
+    const skipped = rows.filter(r => !r.productCode).length;
+
+    const handleConfirm = () => {
+        const items: { product: Product; qty: number }[] = [];
+        const aliases: { productCode: string; text: string }[] = [];
+        rows.forEach(r => {
+            const product = products.find(p => p.productCode === r.productCode);
+            if (!product || r.line.qty <= 0) return;
+            items.push({ product, qty: r.line.qty });
+            if (r.remember) aliases.push({ productCode: product.productCode, text: r.line.text });
+        });
+        onConfirm(items, aliases);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-slate-900 border border-white/10 rounded-xl shadow-2xl overflow-hidden">
+                <div className="flex items-center justify-between gap-3 p-4 border-b border-white/10">
+                    <div className="flex items-center gap-3">
+                        <ListChecks className="w-5 h-5 text-primary" />
+                        <div>
+                            <h3 className="text-lg font-bold text-white">Review Matches</h3>
+                            <p className="text-xs text-slate-500">{lines.length} line(s) read • {toCheck} to check • {skipped} not matched</p>
+                        </div>
+                    </div>
+                    <button onClick={onCancel} className="text-slate-500 hover:text-white transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                    {note && (
+                        <div className="bg-amber-500/10 border border-amber-500/30 text-amber-300 rounded-lg p-3 text-xs flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 shrink-0" /> {note}
+                        </div>
+                    )}
+
+                    <table className="w-full text-left text-sm text-slate-400">
+                        <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                            <tr>
+                                <th className="px-3 py-2">As Read</th>
+                                <th className="px-3 py-2 text-right">Qty</th>
+                                <th className="px-3 py-2">Product</th>
+                                <th className="px-3 py-2 text-center">Remember</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {rows.map(r => {
+                                const selected = r.candidates.find(c => c.product.productCode === r.productCode);
+                                return (
+                                    <tr key={r.id} className={r.productCode ? '' : 'opacity-60'}>
+                                        <td className="px-3 py-2 align-top">
+                                            <div className="font-medium text-slate-200">{r.line.text}</div>
+                                            {selected && (
+                                                <div className={`text-xs ${r.confident ? 'text-emerald-400' : 'text-amber-400'}`}>
+                                                    {REASON_LABELS[selected.reason]} match {Math.round(selected.score * 100)}%{r.confident ? '' : ' - please check'}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="px-3 py-2 align-top text-right font-mono font-bold text-slate-200">{r.line.qty}</td>
+                                        <td className="px-3 py-2 align-top">
+                                            <select
+                                                value={r.productCode}
+                                                onChange={(e) => updateRow(r.id, { productCode: e.target.value, confident: !!e.target.value, remember: !!e.target.value })}
+                                                className={`w-full px-2 py-1 text-xs border bg-black/40 rounded text-slate-200 outline-none ${r.productCode ? 'border-white/10' : 'border-amber-500/50'}`}
+                                            >
+                                                <option value="">-- Skip line --</option>
+                                                {r.candidates.length > 0 && (
+                                                    <optgroup label="Suggested">
+                                                        {r.candidates.map(c => (
+                                                            <option key={c.product.productCode} value={c.product.productCode}>
+                                                                {c.product.name} ({c.product.productCode}) - {Math.round(c.score * 100)}%
+                                                            </option>
+                                                        ))}
+                                                    </optgroup>
+                                                )}
+                                                <optgroup label="All Products">
+                                                    {sortedProducts.map(p => <option key={p.productCode} value={p.productCode}>{p.name} ({p.productCode})</option>)}
+                                                </optgroup>
+                                            </select>
+                                        </td>
+                                        <td className="px-3 py-2 align-top text-center">
+                                            <input
+                                                type="checkbox"
+                                                checked={r.remember}
+                                                disabled={!r.productCode}
+                                                onChange={(e) => updateRow(r.id, { remember: e.target.checked })}
+                                                title="Match this wording to the product automatically next time"
+                                                className="w-4 h-4 rounded border-slate-600 bg-slate-800"
+                                            />
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex items-center justify-end gap-2 p-4 border-t border-white/10">
+                    <button onClick={onCancel} className="px-4 py-2 rounded-lg text-sm font-bold text-slate-400 hover:text-white transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={rows.every(r => !r.productCode)}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 disabled:opacity-50 transition-colors"
+                    >
+                        <Check className="w-4 h-4" /> Add to List
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ScanMatchReview;
@@ -0,0 +1,321 @@
+import React, { useState } from 'react';
+import { StorageConfig, LocalBackend, RemoteBackend, createRemoteAdapter } from '../services/storageAdapters';
+import { ApprovalThresholds, PutawaySettings, PutawayStrategy } from '../types';
+import { Settings, HardDrive, Database, Cloud, Server, PowerOff, CheckCircle2, XCircle, Loader2, Save, ShieldCheck, PackageCheck } from 'lucide-react';
+
+interface SettingsPageProps {
+    storageConfig: StorageConfig;
+    gasUrl: string;
+    onSaveStorageConfig: (config: StorageConfig, seedRemote: boolean, gasUrl: string) => Promise<void>;
+    approvalThresholds: ApprovalThresholds;
+    onSaveApprovalThresholds: (thresholds: ApprovalThresholds) => void;
+    putawaySettings: PutawaySettings;
+    onSavePutawaySettings: (settings: PutawaySettings) => void;
+}
+
+const LOCAL_OPTIONS: { id: LocalBackend; label: string; description: string; icon: React.ElementType }[] = [
+    { id: 'localStorage', label: 'Browser Storage', description: 'Simple and fast. Limited to ~5 MB, keeps the last 1000 history entries.', icon: HardDrive },
+    { id: 'indexedDB', label: 'IndexedDB', description: 'Large capacity, keeps the full history with indexed search. Default and recommended.', icon: Database }
+];
+
+const REMOTE_OPTIONS: { id: RemoteBackend; label: string; description: string; icon: React.ElementType }[] = [
+    { id: 'gas', label: 'Google Sheets', description: 'Apps Script web app (see GAS_IMAGE_HANDLER.md).', icon: Cloud },
+    { id: 'rest', label: 'REST Server', description: 'Any JSON server implementing /data, /sync and /health.', icon: Server },
+    { id: 'none', label: 'Off', description: 'Data stays on this device only.', icon: PowerOff }
+];
+
+const PUTAWAY_STRATEGIES: { id: PutawayStrategy; label: string; description: string }[] = [
+    { id: 'homeBin', label: 'Home Bins', description: "Suggest the product's fixed home bin first (Product Master)." },
+    { id: 'consolidate', label: 'Consolidate', description: 'Prefer bins already holding only the same product.' },
+    { id: 'zoning', label: 'Department Zones', description: 'RTE / RTC / Shared products only go to their zone racks.' },
+    { id: 'heavyLevels', label: 'Heavy Unit Levels', description: 'Heavy units only go on the heavy levels.' }
+];
+
+// Putaway lists are edited as comma separated text
+type PutawayListField = 'RTE' | 'RTC' | 'SHARED' | 'heavyUoms' | 'heavyLevels' | 'excludedRacks';
+
+const toPutawayText = (settings: PutawaySettings): Record<PutawayListField, string> => ({
+    RTE: settings.zones.RTE.join(', '),
+    RTC: settings.zones.RTC.join(', '),
+    SHARED: settings.zones.SHARED.join(', '),
+    heavyUoms: settings.heavyUoms.join(', '),
+    heavyLevels: settings.heavyLevels.join(', '),
+    excludedRacks: settings.excludedRacks.join(', ')
+});
+
+const splitList = (text: string) => text.split(',').map(v => v.trim()).filter(Boolean);
+
+const SettingsPage: React.FC<SettingsPageProps> = ({ storageConfig, gasUrl, onSaveStorageConfig, approvalThresholds, onSaveApprovalThresholds, putawaySettings, onSavePutawaySettings }) => {
+    const [draft, setDraft] = useState<StorageConfig>(storageConfig);
+    const [draftThresholds, setDraftThresholds] = useState<ApprovalThresholds>(approvalThresholds);
+    const thresholdsChanged = draftThresholds.quantity !== approvalThresholds.quantity || draftThresholds.value !== approvalThresholds.value;
+    const [draftStrategies, setDraftStrategies] = useState(putawaySettings.strategies);
+    const [putawayText, setPutawayText] = useState(() => toPutawayText(putawaySettings));
+    const draftPutaway: PutawaySettings = {
+        strategies: draftStrategies,
+        zones: { RTE: splitList(putawayText.RTE), RTC: splitList(putawayText.RTC), SHARED: splitList(putawayText.SHARED) },
+        heavyUoms: splitList(putawayText.heavyUoms),
+        heavyLevels: splitList(putawayText.heavyLevels),
+        excludedRacks: splitList(putawayText.excludedRacks)
+    };
+    const putawayChanged = JSON.stringify(draftPutaway) !== JSON.stringify(putawaySettings);
+    const [draftGasUrl, setDraftGasUrl] = useState(gasUrl);
+    const [seedRemote, setSeedRemote] = useState(false);
+    const [testResult, setTestResult] = useState<'idle' | 'testing' | 'ok' | 'fail'>('idle');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const remoteChanged = draft.remote !== storageConfig.remote || draft.restUrl !== storageConfig.restUrl || draftGasUrl !== gasUrl;
+    const isDirty = remoteChanged || draft.local !== storageConfig.local;
+
+    const handleTest = async () => {
+        const adapter = createRemoteAdapter(draft, draftGasUrl);
+        if (!adapter) return;
+        setTestResult('testing');
+        setTestResult(await adapter.testConnection() ? 'ok' : 'fail');
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        await onSaveStorageConfig(draft, remoteChanged && draft.remote !== 'none' && seedRemote, draftGasUrl.trim());
+        setIsSaving(false);
+        setSeedRemote(false);
+    };
+
+    const optionClass = (active: boolean) => `w-full flex items-start gap-3 p-4 rounded-xl border text-left transition-all ${active
+        ? 'bg-primary/20 border-primary/50 shadow-[0_0_15px_rgba(139,92,246,0.2)]'
+        : 'bg-black/20 border-white/10 hover:bg-white/5'
+        }`;
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex items-center gap-3">
+                    <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                        <Settings className="w-6 h-6 text-primary" />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Settings</h2>
+                        <p className="text-sm text-slate-400">Where NexusWMS keeps its data on this device and which server it syncs with.</p>
+                    </div>
+                </div>
+            </div>
+
+            {/* Local Storage */}
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 space-y-4">
+                <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider">Device Storage</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {LOCAL_OPTIONS.map(opt => (
+                        <button key={opt.id} onClick={() => setDraft(prev => ({ ...prev, local: opt.id }))} className={optionClass(draft.local === opt.id)}>
+                            <opt.icon className="w-5 h-5 text-primary mt-0.5" />
+                            <div>
+                                <p className="font-bold text-white">{opt.label}</p>
+                                <p className="text-xs text-slate-400">{opt.description}</p>
+                            </div>
+                        </button>
+                    ))}
+                </div>
+                {draft.local !== storageConfig.local && (
+                    <p className="text-xs text-amber-400">Current data will be copied to {draft.local === 'indexedDB' ? 'IndexedDB' : 'Browser Storage'} and removed from the old store.</p>
+                )}
+            </div>
+
+            {/* Remote Backend */}
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 space-y-4">
+                <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider">Sync Backend</h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {REMOTE_OPTIONS.map(opt => (
+                        <button
+                            key={opt.id}
+                            onClick={() => {
+                                setDraft(prev => ({ ...prev, remote: opt.id }));
+                                setTestResult('idle');
+                            }}
+                            className={optionClass(draft.remote === opt.id)}
+                        >
+                            <opt.icon className="w-5 h-5 text-primary mt-0.5" />
+                            <div>
+                                <p className="font-bold text-white">{opt.label}</p>
+                                <p className="text-xs text-slate-400">{opt.description}</p>
+                            </div>
+                        </button>
+                    ))}
+                </div>
+
+                {draft.remote === 'gas' && (
+                    <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Web App URL</label>
+                        <input
+                            type="text"
+                            value={draftGasUrl}
+                            onChange={(e) => {
+                                setDraftGasUrl(e.target.value);
+                                setTestResult('idle');
+                            }}
+                            placeholder="https://script.google.com/macros/s/.../exec"
+                            className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-mono"
+                        />
+                    </div>
+                )}
+
+                {draft.remote === 'rest' && (
+                    <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Base URL</label>
+                        <input
+                            type="text"
+                            value={draft.restUrl}
+                            onChange={(e) => {
+                                setDraft(prev => ({ ...prev, restUrl: e.target.value }));
+                                setTestResult('idle');
+                            }}
+                            placeholder="http://localhost:8787/api"
+                            className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-mono"
+                        />
+                    </div>
+                )}
+
+                {draft.remote !== 'none' && (
+                    <div className="flex flex-wrap items-center gap-4">
+                        <button
+                            onClick={handleTest}
+                            disabled={testResult === 'testing'}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-slate-800 text-slate-200 border border-white/10 hover:bg-slate-700 transition-colors"
+                        >
+                            {testResult === 'testing' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Server className="w-4 h-4" />} Test Connection
+                        </button>
+                        {testResult === 'ok' && <span className="flex items-center gap-1 text-sm text-green-400"><CheckCircle2 className="w-4 h-4" /> Connected</span>}
+                        {testResult === 'fail' && <span className="flex items-center gap-1 text-sm text-red-400"><XCircle className="w-4 h-4" /> Not reachable</span>}
+                    </div>
+                )}
+
+                {remoteChanged && draft.remote !== 'none' && (
+                    <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={seedRemote}
+                            onChange={(e) => setSeedRemote(e.target.checked)}
+                            className="mt-1 accent-primary"
+                        />
+                        <span>
+                            Upload this device's data to the new backend (overwrites it).
+                            <span className="block text-xs text-slate-500">Leave unchecked to load the backend's data onto this device instead.</span>
+                        </span>
+                    </label>
+                )}
+            </div>
+
+            <div className="flex justify-end">
+                <button
+                    onClick={handleSave}
+                    disabled={!isDirty || isSaving}
+                    className="flex items-center gap-2 px-6 py-3 rounded-lg font-bold bg-primary text-black hover:bg-primary/80 transition-colors disabled:opacity-40"
+                >
+                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Save Settings
+                </button>
+            </div>
+
+            {/* Approvals */}
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 space-y-4">
+                <div>
+                    <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+                        <ShieldCheck className="w-4 h-4 text-primary" /> Approval Thresholds
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">
+                        Operators' adjustments above either limit, and all deletions, wait for a supervisor under Special Notes. 0 turns a limit off.
+                    </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Quantity (units)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            value={draftThresholds.quantity}
+                            onChange={(e) => setDraftThresholds(prev => ({ ...prev, quantity: parseFloat(e.target.value) || 0 }))}
+                            className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-mono"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Value (qty x unit cost)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            value={draftThresholds.value}
+                            onChange={(e) => setDraftThresholds(prev => ({ ...prev, value: parseFloat(e.target.value) || 0 }))}
+                            className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-mono"
+                        />
+                        <p className="text-xs text-slate-500 mt-1">Uses each product's Unit Cost from the Product Master.</p>
+                    </div>
+                </div>
+                <div className="flex justify-end">
+                    <button
+                        onClick={() => onSaveApprovalThresholds(draftThresholds)}
+                        disabled={!thresholdsChanged}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-slate-800 text-slate-200 border border-white/10 hover:bg-slate-700 transition-colors disabled:opacity-40"
+                    >
+                        <Save className="w-4 h-4" /> Save Thresholds
+                    </button>
+                </div>
+            </div>
+
+            {/* Putaway */}
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 space-y-4">
+                <div>
+                    <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider flex items-center gap-2">
+                        <PackageCheck className="w-4 h-4 text-primary" /> Putaway Strategies
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">
+                        How destination bins are suggested on receiving and on the Putaway page. Disabled bins are never suggested. Lists are comma separated.
+                    </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {PUTAWAY_STRATEGIES.map(st => (
+                        <label key={st.id} className="flex items-start gap-3 p-3 rounded-lg border border-white/10 bg-black/20 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={draftStrategies[st.id]}
+                                onChange={(e) => setDraftStrategies(prev => ({ ...prev, [st.id]: e.target.checked }))}
+                                className="mt-1 accent-primary"
+                            />
+                            <div>
+                                <div className="text-sm font-bold text-slate-200">{st.label}</div>
+                                <div className="text-xs text-slate-500">{st.description}</div>
+                            </div>
+                        </label>
+                    ))}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {([
+                        ['RTE', 'RTE Racks', 'Empty = any rack'],
+                        ['RTC', 'RTC Racks', 'Empty = any rack'],
+                        ['SHARED', 'Shared Racks', 'Empty = any rack'],
+                        ['heavyUoms', 'Heavy Units', 'e.g. PLT, BG'],
+                        ['heavyLevels', 'Heavy Levels', 'e.g. Floor, 1'],
+                        ['excludedRacks', 'Never Suggest', 'e.g. T, S']
+                    ] as [PutawayListField, string, string][]).map(([field, label, hint]) => (
+                        <div key={field}>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">{label}</label>
+                            <input
+                                type="text"
+                                value={putawayText[field]}
+                                onChange={(e) => setPutawayText(prev => ({ ...prev, [field]: e.target.value }))}
+                                placeholder={hint}
+                                className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-mono"
+                            />
+                        </div>
+                    ))}
+                </div>
+                <div className="flex justify-end">
+                    <button
+                        onClick={() => onSavePutawaySettings(draftPutaway)}
+                        disabled={!putawayChanged}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-slate-800 text-slate-200 border border-white/10 hover:bg-slate-700 transition-colors disabled:opacity-40"
+                    >
+                        <Save className="w-4 h-4" /> Save Putaway
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsPage;
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { Customer, OutboundOrder, Product } from '../types';
+import { buildShipmentLines } from '../services/outboundOrders';
+import { printDocument } from '../utils';
+import { Printer, X } from 'lucide-react';
+
+interface ShipmentDocumentsProps {
+    order: OutboundOrder;
+    customer?: Customer;
+    products: Product[];
+    onClose: () => void;
+}
+
+type DocumentKind = 'packing' | 'bol';
+
+const DOCUMENT_TITLES: Record<DocumentKind, string> = {
+    packing: 'Packing Slip',
+    bol: 'Bill of Lading'
+};
+
+const ShipmentDocuments: React.FC<ShipmentDocumentsProps> = ({ order, customer, products, onClose }) => {
+    const [kind, setKind] = useState<DocumentKind>('packing');
+    const paperRef = useRef<HTMLDivElement>(null);
+
+    const lines = buildShipmentLines(order, products);
+    const totalQty = lines.reduce((acc, l) => acc + l.qty, 0);
+    const totalPallets = lines.reduce((acc, l) => acc + (l.pallets || 0), 0);
+    const shipDate = new Date(order.shippedAt || Date.now()).toLocaleDateString();
+
+    const handlePrint = () => {
+        if (paperRef.current) printDocument(`${DOCUMENT_TITLES[kind]} ${order.orderNumber}`, paperRef.current.innerHTML);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-slate-900 border border-white/10 rounded-xl shadow-2xl overflow-hidden">
+                <div className="flex items-center justify-between gap-3 p-4 border-b border-white/10">
+                    <div className="flex gap-2">
+                        {(Object.keys(DOCUMENT_TITLES) as DocumentKind[]).map(k => (
+                            <button
+                                key={k}
+                                onClick={() => setKind(k)}
+                                className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wide border transition-colors ${kind === k
+                                    ? 'bg-primary/20 text-primary border-primary/50'
+                                    : 'bg-black/20 text-slate-400 border-white/10 hover:bg-white/5'
+                                    }`}
+                            >
+                                {DOCUMENT_TITLES[k]}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={handlePrint}
+                            disabled={lines.length === 0}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 disabled:opacity-50 transition-colors"
+                        >
+                            <Printer className="w-4 h-4" /> Print
+                        </button>
+                        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="overflow-y-auto p-6 bg-slate-200">
+                    <div ref={paperRef} className="bg-white text-black p-6 rounded shadow text-sm">
+                        <h1 className="text-xl font-bold">{DOCUMENT_TITLES[kind]}</h1>
+                        <div className="muted text-slate-600">Order {order.orderNumber} • {shipDate}</div>
+
+                        <div className="meta flex justify-between gap-6 mt-3 text-xs">
+                            <div>
+                                <strong>Ship To</strong>
+                                <div>{order.customerName}</div>
+                                {customer?.address && <div className="whitespace-pre-line">{customer.address}</div>}
+                                {customer?.contactName && <div>Attn: {customer.contactName}{customer.phone ? ` (${customer.phone})` : ''}</div>}
+                            </div>
+                            {kind === 'bol' && (
+                                <div>
+                                    <strong>Carrier</strong>
+                                    <div>{order.carrier || '________________'}</div>
+                                    <div>Trailer / Seal: {order.trailerRef || '________________'}</div>
+                                </div>
+                            )}
+                            <div className="text-right">
+                                {order.requestedDate && <div>Requested: {new Date(order.requestedDate).toLocaleDateString()}</div>}
+                                {order.shippedBy && <div>Shipped by: {order.shippedBy}</div>}
+                            </div>
+                        </div>
+
+                        <table className="w-full mt-4 text-xs border-collapse">
+                            <thead>
+                                <tr className="border-b-2 border-black">
+                                    <th className="py-1 text-left">Item</th>
+                                    <th className="py-1 text-left">Lot</th>
+                                    <th className="py-1 text-left">Expiry</th>
+                                    {kind === 'packing' && <th className="py-1 num text-right">Ordered</th>}
+                                    <th className="py-1 num text-right">Qty</th>
+                                    <th className="py-1 num text-right">Pallets</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {lines.map(l => {
+                                    const ordered = order.lines.filter(x => x.productCode === l.productCode).reduce((acc, x) => acc + x.orderedQty, 0);
+                                    return (
+                                        <tr key={`${l.productCode}-${l.lotNumber}-${l.expiryDate}`} className="border-b border-slate-300">
+                                            <td className="py-1">{l.name} <span className="muted text-slate-500">{l.productCode}</span></td>
+                                            <td className="py-1">{l.lotNumber || '-'}</td>
+                                            <td className="py-1">{l.expiryDate ? new Date(l.expiryDate).toLocaleDateString() : '-'}</td>
+                                            {kind === 'packing' && <td className="py-1 num text-right">{ordered}</td>}
+                                            <td className="py-1 num text-right">{l.qty} {l.unit}</td>
+                                            <td className="py-1 num text-right">{l.pallets ?? '-'}</td>
+                                        </tr>
+                                    );
+                                })}
+                                {lines.length === 0 && (
+                                    <tr><td colSpan={6} className="py-4 text-center muted text-slate-500">Nothing picked yet.</td></tr>
+                                )}
+                            </tbody>
+                            <tfoot>
+                                <tr className="border-t-2 border-black font-bold">
+                                    <td className="py-1" colSpan={kind === 'packing' ? 4 : 3}>Total</td>
+                                    <td className="py-1 num text-right">{totalQty}</td>
+                                    <td className="py-1 num text-right">{totalPallets || '-'}</td>
+                                </tr>
+                            </tfoot>
+                        </table>
+
+                        {order.notes && <p className="mt-3 text-xs">Notes: {order.notes}</p>}
+
+                        {kind === 'bol' && (
+                            <div className="sign flex gap-12 mt-12 text-xs">
+                                <div className="flex-1 border-t border-black pt-1">Shipper signature / date</div>
+                                <div className="flex-1 border-t border-black pt-1">Carrier signature / date</div>
+                                <div className="flex-1 border-t border-black pt-1">Received by / date</div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShipmentDocuments;
@@ -1,8 +1,15 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Upload, Trash2, Calendar, FileText, Check, Settings, Loader2, Image as ImageIcon, Search, AlertCircle, X, PackageMinus, Plus } from 'lucide-react';
-import { InventoryItem, Product } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Upload, Trash2, Calendar, FileText, Check, Settings, Loader2, Image as ImageIcon, Search, AlertCircle, X, PackageMinus, Plus, Boxes, WifiOff } from 'lucide-react';
+import { InventoryItem, PalletRule, Product } from '../types';
 import { smartSearch, getEmbedLink } from '../utils'; // Add getEmbedLink import
-import { PICKING_RULES } from '../config/pickingConfig';
+import { buildPalletGroups, resolvePickProduct } from '../services/palletRules';
+import { convertQty, isSameUnit } from '../services/unitConversion';
+import { buildPallets } from '../services/palletBuilder';
+import { matchProduct, rankProducts } from '../services/productMatcher';
+import PalletRulesEditor, { getPalletColorClasses } from './PalletRulesEditor';
+import PalletBuilder from './PalletBuilder';
+import ManifestReconciliation from './ManifestReconciliation';
+import { scanPickList } from '../services/pickListScanner';
 import { getImageFromDB, deleteImageFromDB } from '../imageDB'; // Keep get/delete for legacy support, remove save usage
 
 // --- Interfaces ---
@@ -13,42 +20,52 @@ interface PickItem {
     uom: string;
 }
 
+// Lines are stored flat and grouped onto pallets at render time, so rule changes apply to saved manifests too
 interface ManifestData {
     dateId: string;
     formattedDate: string;
-    processedResults: {
-        Pallet1Items: PickItem[];
-        Pallet2Items: PickItem[];
-        Pallet3Items: PickItem[];
-        MiscellaneousItems: PickItem[];
-        totalValidItems: number;
-    };
+    items: PickItem[];
     pickedState: Record<string, boolean>;
     originalImage?: string;
+    postedAt?: number; // Stock deducted (see ManifestReconciliation)
+    readOffline?: boolean; // Read by the on-device OCR, not the AI service
 }
 
+// Manifests saved before pallet rules kept one list per hard-coded pallet
+const LEGACY_PALLET_KEYS = ['Pallet1Items', 'Pallet2Items', 'Pallet3Items', 'MiscellaneousItems'];
+
+const migrateManifest = (m: any): ManifestData => {
+    if (Array.isArray(m.items)) return m;
+    const { processedResults, ...rest } = m;
+    return { ...rest, items: LEGACY_PALLET_KEYS.flatMap(key => processedResults?.[key] || []) };
+};
+
 interface SmartPickPageProps {
     inventory: InventoryItem[];
     products: Product[];
-    onProcessOutbound: (items: any[], note?: string) => void;
+    palletRules: PalletRule[];
+    canEditRules: boolean;
+    onSavePalletRules: (rules: PalletRule[]) => boolean;
+    onProcessOutbound: (items: { id: string; qty: number; unit?: string }[], note: string, manifestId: string) => void;
+    onLearnAliases: (entries: { productCode: string; text: string }[]) => void;
 }
 
-const CONFIG = {
-    API_URL_PREFIX: 'https://generativelanguage.googleapis.com/v1beta/models/',
-    API_MODEL: 'gemini-2.5-flash'
-};
-
-export default function SmartPickPage({ inventory, products, onProcessOutbound }: SmartPickPageProps) {
+export default function SmartPickPage({ inventory, products, palletRules, canEditRules, onSavePalletRules, onProcessOutbound, onLearnAliases }: SmartPickPageProps) {
     // --- State ---
     const [manifests, setManifests] = useState<Record<string, ManifestData>>(() => {
         try {
             const saved = localStorage.getItem('nexuswms_smartpick_manifests');
-            return saved ? JSON.parse(saved) : {};
+            const parsed: Record<string, any> = saved ? JSON.parse(saved) : {};
+            return Object.fromEntries(Object.entries(parsed).map(([key, m]) => [key, migrateManifest(m)]));
         } catch (e) { return {}; }
     });
+    const [showRulesEditor, setShowRulesEditor] = useState(false);
+    const [showPalletBuilder, setShowPalletBuilder] = useState(false);
+    const [showReconciliation, setShowReconciliation] = useState(false);
     const [currentDateId, setCurrentDateId] = useState<string | null>(null);
     const [previewImg, setPreviewImg] = useState<string | null>(null);
     const [loading, setLoading] = useState(false);
+    const [offlineProgress, setOfflineProgress] = useState<number | null>(null); // Set while the on-device reader runs
     const [error, setError] = useState<string | null>(null);
     const [displayImage, setDisplayImage] = useState<string | null>(null);
     const [expandedImage, setExpandedImage] = useState<string | null>(null);
@@ -118,40 +135,10 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
         }
     };
 
-    const processResults = (items: PickItem[]) => {
-        const p1: PickItem[] = [];
-        const p2: PickItem[] = [];
-        const p3: PickItem[] = [];
-        const misc: PickItem[] = [];
-
-        items.forEach(i => {
-            const name = i.item.toLowerCase();
-            // Simple keyword matching based on config
-            if (PICKING_RULES.P1_KEYWORDS.some(k => name.includes(k))) p1.push(i);
-            else if (PICKING_RULES.P3_UOMS.includes(i.uom as any) || PICKING_RULES.P3_KEYWORDS.some(k => name.includes(k))) p3.push(i);
-            else if (PICKING_RULES.P2_KEYWORDS.some(k => name.includes(k))) p2.push(i);
-            else misc.push(i);
-        });
-
-        return {
-            Pallet1Items: p1,
-            Pallet2Items: p2,
-            Pallet3Items: p3,
-            MiscellaneousItems: misc,
-            totalValidItems: items.length
-        };
-    };
-
     const processImage = async () => {
         const file = fileInputRef.current?.files?.[0];
         if (!file) return;
 
-        const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-        if (!apiKey) {
-            setError("API Key not found (VITE_GEMINI_API_KEY). Check .env file.");
-            return;
-        }
-
         setLoading(true);
         setError(null);
 
@@ -189,55 +176,30 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
             };
 
             const resizedBase64Url = await resizeImage(previewImg);
-            const base64 = resizedBase64Url.split(',')[1];
-
-            if (!base64) throw new Error("Image processing failed");
-
-            // 1. Start Gemini Analysis
-            const prompt = "Extract Date (YYYY-MM-DD), Item, UoM, Qty where Qty > 0. Response JSON format: {date: string, items: Array<{item: string, uom: string, qty: number}>}";
-            const schema = { type: "OBJECT", properties: { date: { type: "STRING" }, items: { type: "ARRAY", items: { type: "OBJECT", properties: { item: { type: "STRING" }, uom: { type: "STRING" }, qty: { type: "NUMBER" } }, required: ["item", "uom", "qty"] } } }, required: ["date", "items"] };
-            const url = `${CONFIG.API_URL_PREFIX}${CONFIG.API_MODEL}:generateContent?key=${apiKey}`;
-
-            const geminiReq = fetch(url, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    contents: [{ parts: [{ text: prompt }, { inlineData: { mimeType: file.type, data: base64 } }] }],
-                    generationConfig: { responseMimeType: "application/json", responseSchema: schema }
-                })
-            });
-
-            // 2. Wait for Gemini Analysis First (to get the date)
-            const response = await geminiReq;
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                console.error("Gemini API Error Details:", errorText);
-                throw new Error(`API Error: ${response.status} ${response.statusText} - ${errorText}`);
-            }
+            if (!resizedBase64Url.split(',')[1]) throw new Error("Image processing failed");
 
-            const res = await response.json();
-            const data = JSON.parse(res.candidates[0].content.parts[0].text);
+            // Read date and rows through the AI proxy (names are kept as written on the manifest),
+            // or on the device when the proxy is unavailable (names are matched to the Product Master)
+            const data = await scanPickList(resizedBase64Url, products, setOfflineProgress);
 
-            const items: PickItem[] = data.items.map((it: any, idx: number) => ({
-                ...it,
+            const items: PickItem[] = data.items.map((it, idx) => ({
                 id: `item-${Date.now()}-${idx}`,
+                item: it.name,
+                qty: it.qty,
                 uom: it.uom === '板' ? 'PLT' : it.uom
             }));
 
-            const results = processResults(items);
-
             // Robust Date Parsing
-            let dateObj = new Date(data.date);
+            let dateObj = new Date(data.date || '');
             if (isNaN(dateObj.getTime())) {
-                console.warn("Invalid date from Gemini:", data.date, "Falling back to today.");
+                console.warn("Invalid date from AI service:", data.date, "Falling back to today.");
                 dateObj = new Date();
             }
 
             // Fix timezone offset issues by treating the YYYY-MM-DD as local 
-            // If Gemini returns YYYY-MM-DD, new Date() might treat it as UTC.
+            // If the AI service returns YYYY-MM-DD, new Date() might treat it as UTC.
             // Let's ensure we just use the components if it matches the pattern
-            if (/^\d{4}-\d{2}-\d{2}$/.test(data.date)) {
+            if (data.date && /^\d{4}-\d{2}-\d{2}$/.test(data.date)) {
                 const [y, m, d] = data.date.split('-').map(Number);
                 dateObj = new Date(y, m - 1, d);
             }
@@ -279,9 +241,10 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
             const newManifest: ManifestData = {
                 dateId: safeDateId,
                 formattedDate,
-                processedResults: results,
+                items,
                 pickedState: {},
-                originalImage: undefined // Do not store image
+                originalImage: undefined, // Do not store image
+                readOffline: data.source === 'offline' || undefined
             };
 
             setManifests(prev => ({ ...prev, [safeDateId]: newManifest }));
@@ -293,6 +256,7 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
             setError(e.message || "Failed to process image");
         } finally {
             setLoading(false);
+            setOfflineProgress(null);
         }
     };
 
@@ -347,16 +311,7 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
 
         setManifests(prev => {
             const m = prev[currentDateId];
-            const allItems = [
-                ...m.processedResults.Pallet1Items,
-                ...m.processedResults.Pallet2Items,
-                ...m.processedResults.Pallet3Items,
-                ...m.processedResults.MiscellaneousItems,
-                newItem
-            ];
-
-            const newResults = processResults(allItems);
-            return { ...prev, [currentDateId]: { ...m, processedResults: newResults } };
+            return { ...prev, [currentDateId]: { ...m, items: [...m.items, newItem] } };
         });
     };
 
@@ -365,20 +320,7 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
 
         setManifests(prev => {
             const m = prev[currentDateId];
-            const newResults = { ...m.processedResults };
-
-            (['Pallet1Items', 'Pallet2Items', 'Pallet3Items', 'MiscellaneousItems'] as const).forEach(key => {
-                newResults[key] = newResults[key].filter(i => i.id !== itemId);
-            });
-
-            let allItemsCount = 0;
-            (['Pallet1Items', 'Pallet2Items', 'Pallet3Items', 'MiscellaneousItems'] as const).forEach(key => {
-                allItemsCount += newResults[key].length;
-            });
-
-            newResults.totalValidItems = allItemsCount;
-
-            return { ...prev, [currentDateId]: { ...m, processedResults: newResults } };
+            return { ...prev, [currentDateId]: { ...m, items: m.items.filter(i => i.id !== itemId) } };
         });
     };
 
@@ -387,13 +329,7 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
 
         setManifests(prev => {
             const m = prev[currentDateId];
-            const newResults = { ...m.processedResults };
-
-            (['Pallet1Items', 'Pallet2Items', 'Pallet3Items', 'MiscellaneousItems'] as const).forEach(key => {
-                newResults[key] = newResults[key].map(i => i.id === itemId ? { ...i, qty: newQty } : i);
-            });
-
-            return { ...prev, [currentDateId]: { ...m, processedResults: newResults } };
+            return { ...prev, [currentDateId]: { ...m, items: m.items.map(i => i.id === itemId ? { ...i, qty: newQty } : i) } };
         });
     };
 
@@ -424,10 +360,38 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
 
     const currentManifest = currentDateId ? manifests[currentDateId] : null;
 
-    const manualFilteredProducts = products.filter(p =>
+    const handlePostManifest = (items: { id: string; qty: number; unit?: string }[]) => {
+        if (!currentDateId || !currentManifest) return;
+        onProcessOutbound(items, `Smart Pick ${currentManifest.formattedDate}`, currentDateId);
+        setManifests(prev => ({ ...prev, [currentDateId]: { ...prev[currentDateId], postedAt: Date.now() } }));
+        setShowReconciliation(false);
+    };
+    // Fuzzy matching every line is not free: only regroup when the manifest lines, rules or products change
+    const manifestItems = currentManifest?.items;
+    const palletGroups = useMemo(() => manifestItems ? buildPalletGroups(manifestItems, palletRules, products) : [], [manifestItems, palletRules, products]);
+    const palletPlan = useMemo(() => buildPallets(palletGroups, products), [palletGroups, products]);
+    const getPalletCount = (ruleId: string) => palletPlan.pallets.filter(p => p.ruleId === ruleId).length;
+
+    // Lines picked in another unit than the product's stock unit, converted for the checklist ('' = no conversion)
+    const convertedQtys = useMemo(() => {
+        const converted = new Map<string, string>();
+        (manifestItems || []).forEach(line => {
+            const product = resolvePickProduct(line, products);
+            if (!product?.defaultUnit || !line.uom?.trim() || isSameUnit(line.uom, product.defaultUnit)) return;
+            const qty = convertQty(product, line.qty, line.uom, product.defaultUnit);
+            converted.set(line.id, qty === undefined ? '' : `${qty} ${product.defaultUnit}`);
+        });
+        return converted;
+    }, [manifestItems, products]);
+
+    const manualSubstringMatches = products.filter(p =>
         (p.productCode || '').toLowerCase().includes(manualItemName.toLowerCase()) ||
         (p.name || '').toLowerCase().includes(manualItemName.toLowerCase())
     ).slice(0, 8);
+    // Nothing contains the typed text: suggest the closest names / aliases instead
+    const manualFilteredProducts = manualSubstringMatches.length > 0 || !manualItemName.trim()
+        ? manualSubstringMatches
+        : rankProducts(manualItemName, products, 8).map(m => m.product);
 
     // --- Render Helpers ---
 
@@ -477,6 +441,11 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
                                     <p className={`text-sm font-medium transition-colors ${isChecked ? 'text-slate-500 line-through' : 'text-slate-200'}`}>
                                         {item.item}
                                     </p>
+                                    {convertedQtys.has(item.id) && (
+                                        <p className={`text-[10px] font-bold ${convertedQtys.get(item.id) ? 'text-slate-500' : 'text-amber-400'}`}>
+                                            {convertedQtys.get(item.id) ? `= ${convertedQtys.get(item.id)}` : `No ${item.uom} conversion on the product`}
+                                        </p>
+                                    )}
                                 </div>
                                 <div className="flex items-center gap-3">
                                     <div className="text-right mr-2 flex items-center bg-black/20 rounded px-2 border border-white/5">
@@ -517,11 +486,36 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
                 </div>
                 <div className="flex gap-2 items-center">
                     {/* Simplified Header - No Outbound Button */}
+                    <button
+                        onClick={() => setShowRulesEditor(true)}
+                        className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-slate-800/60 text-slate-300 border border-white/10 hover:bg-slate-700/60 transition-colors"
+                        title={canEditRules ? 'Edit pallet rules' : 'View pallet rules'}
+                    >
+                        <Settings className="w-4 h-4" /> Pallet Rules
+                    </button>
+                    {currentManifest && (
+                        <button
+                            onClick={() => setShowPalletBuilder(true)}
+                            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-violet-600 text-white hover:bg-violet-500 transition-colors"
+                        >
+                            <Boxes className="w-4 h-4" /> Build Pallets
+                        </button>
+                    )}
+                    {currentManifest && (
+                        <button
+                            onClick={() => setShowReconciliation(true)}
+                            disabled={!!currentManifest.postedAt}
+                            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-emerald-600 text-white hover:bg-emerald-500 disabled:bg-slate-800/60 disabled:text-emerald-400 disabled:cursor-default transition-colors"
+                            title={currentManifest.postedAt ? `Posted ${new Date(currentManifest.postedAt).toLocaleString()}` : 'Deduct the picked stock'}
+                        >
+                            {currentManifest.postedAt ? <><Check className="w-4 h-4" /> Posted</> : <><PackageMinus className="w-4 h-4" /> Reconcile & Post</>}
+                        </button>
+                    )}
                     {currentManifest && (
                         <div className="text-right hidden md:block pl-4 border-l border-white/10 ml-4">
                             <div className="text-xs font-bold text-slate-500 uppercase tracking-widest">Summary</div>
                             <div className="text-lg font-bold text-violet-400">
-                                {currentManifest.processedResults.totalValidItems} Items
+                                {currentManifest.items.length} Items • {palletPlan.pallets.length} Pallets
                             </div>
                         </div>
                     )}
@@ -622,7 +616,9 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
                             disabled={!previewImg || loading}
                             className={`w-full py-3 bg-violet-600 hover:bg-violet-500 text-white font-bold rounded-xl shadow-lg shadow-violet-900/20 transition-all flex justify-center items-center gap-2 relative z-10 ${loading ? 'opacity-70 cursor-wait' : 'active:scale-95'}`}
                         >
-                            {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Analyze with AI'}
+                            {loading ? (
+                                <><Loader2 className="w-5 h-5 animate-spin" />{offlineProgress !== null && `Reading offline ${Math.round(offlineProgress * 100)}%`}</>
+                            ) : 'Analyze with AI'}
                         </button>
                     </div>
 
@@ -680,7 +676,7 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
                                     <button
                                         onClick={() => {
                                             if (manualItemName.trim()) {
-                                                const match = products.find(p => p.name.toLowerCase() === manualItemName.toLowerCase());
+                                                const match = matchProduct(manualItemName, products)?.product;
                                                 const uom = match ? match.defaultUnit : 'ea';
 
                                                 handleAddItem(manualItemName, manualItemQty, uom);
@@ -703,51 +699,26 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
                 {/* Main Content */}
                 <main className="lg:col-span-9">
 
+                    {currentManifest?.readOffline && (
+                        <div className="bg-amber-500/10 border border-amber-500/30 text-amber-300 p-4 rounded-xl flex items-center gap-3 mb-6">
+                            <WifiOff className="w-5 h-5 shrink-0" />
+                            <span className="text-sm">Read offline without the AI service - check items and quantities against the original pick list.</span>
+                        </div>
+                    )}
+
                     {currentManifest && (
                         <div className="space-y-6">
-                            {/* Sort Misc items to match requested order */}
-                            {(() => {
-                                const sortedMisc = [...(currentManifest.processedResults.MiscellaneousItems || [])].sort((a, b) => {
-                                    const getRank = (item: PickItem) => {
-                                        const name = item.item.toLowerCase();
-                                        const idx = PICKING_RULES.MISC_ORDER.findIndex(k => name.includes(k));
-                                        return idx === -1 ? 999 : idx;
-                                    };
-                                    return getRank(a) - getRank(b);
-                                });
-
-                                return (
-                                    <>
-                                        <PalletCard
-                                            title="Kitchen (Sugar / Vinegar / Peach)"
-                                            items={currentManifest.processedResults.Pallet1Items}
-                                            colorClass="text-violet-400"
-                                            borderClass="border-violet-500"
-                                            note="Standalone Pallet"
-                                        />
-                                        <PalletCard
-                                            title="Miscellaneous"
-                                            items={sortedMisc}
-                                            colorClass="text-blue-400"
-                                            borderClass="border-blue-500"
-                                            note="Ordered by Priority"
-                                        />
-                                        <PalletCard
-                                            title="Product Pallets"
-                                            items={currentManifest.processedResults.Pallet2Items}
-                                            colorClass="text-amber-400"
-                                            borderClass="border-amber-500"
-                                        />
-                                        <PalletCard
-                                            title="Full Pallet Items (BH-20 / BX-20)"
-                                            items={currentManifest.processedResults.Pallet3Items}
-                                            colorClass="text-emerald-400"
-                                            borderClass="border-emerald-500"
-                                            note="Dedicated Pallet"
-                                        />
-                                    </>
-                                );
-                            })()}
+                            {palletGroups.map(({ rule, items }) => (
+                                <React.Fragment key={rule.id}>
+                                    <PalletCard
+                                        title={rule.title}
+                                        items={items}
+                                        colorClass={getPalletColorClasses(rule.color).text}
+                                        borderClass={getPalletColorClasses(rule.color).border}
+                                        note={[rule.note, `${getPalletCount(rule.id)} pallet(s)`].filter(Boolean).join(' • ')}
+                                    />
+                                </React.Fragment>
+                            ))}
                         </div>
                     )}
 
@@ -773,6 +744,37 @@ export default function SmartPickPage({ inventory, products, onProcessOutbound }
                 </main>
             </div>
 
+            {showPalletBuilder && currentManifest && (
+                <PalletBuilder
+                    plan={palletPlan}
+                    manifestDate={currentManifest.formattedDate}
+                    onClose={() => setShowPalletBuilder(false)}
+                />
+            )}
+
+            {showReconciliation && currentManifest && (
+                <ManifestReconciliation
+                    manifestDate={currentManifest.formattedDate}
+                    items={currentManifest.items}
+                    pickedState={currentManifest.pickedState}
+                    inventory={inventory}
+                    products={products}
+                    onPost={handlePostManifest}
+                    onLearnAliases={onLearnAliases}
+                    onClose={() => setShowReconciliation(false)}
+                />
+            )}
+
+            {showRulesEditor && (
+                <PalletRulesEditor
+                    rules={palletRules}
+                    products={products}
+                    readOnly={!canEditRules}
+                    onSave={onSavePalletRules}
+                    onClose={() => setShowRulesEditor(false)}
+                />
+            )}
+
             {/* Image Modal */}
             {expandedImage && (
                 <div className="fixed inset-0 z-50 bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200" onClick={() => setExpandedImage(null)}>
@@ -1,16 +1,31 @@
 import React, { useState } from 'react';
-import { Transaction } from '../types';
+import { Transaction, ApprovalRequest } from '../types';
 import { smartSearch } from '../utils';
-import { MessageSquare, ArrowDownLeft, ArrowUpRight, Search, RefreshCw, ArrowRightLeft, Trash2, ClipboardCheck, X } from 'lucide-react';
+import { formatBinCode } from '../services/ledger';
+import { MessageSquare, ArrowDownLeft, ArrowUpRight, Search, RefreshCw, ArrowRightLeft, Trash2, ClipboardCheck, X, ShieldCheck, Check } from 'lucide-react';
 
 interface SpecialNotesPageProps {
     transactions: Transaction[];
+    approvals: ApprovalRequest[];
+    canApprove: boolean;
+    onApprove: (id: string) => void;
+    onReject: (id: string, reason?: string) => void;
 }
 
-const SpecialNotesPage: React.FC<SpecialNotesPageProps> = ({ transactions }) => {
+const KIND_LABELS: Record<ApprovalRequest['kind'], string> = {
+    ADJUSTMENT: 'Adjustment',
+    COUNT: 'Count Variance',
+    DELETE: 'Removal'
+};
+
+const SpecialNotesPage: React.FC<SpecialNotesPageProps> = ({ transactions, approvals, canApprove, onApprove, onReject }) => {
     const [searchTerm, setSearchTerm] = useState('');
     const [startDate, setStartDate] = useState('');
     const [endDate, setEndDate] = useState('');
+    const [rejectingId, setRejectingId] = useState<string | null>(null);
+    const [rejectReason, setRejectReason] = useState('');
+
+    const pendingApprovals = approvals.filter(r => r.status === 'pending').sort((a, b) => a.requestedAt - b.requestedAt);
 
     // Filter for transactions with "Special" notes
     // We exclude the standard auto-generated system notes
@@ -77,7 +92,7 @@ const SpecialNotesPage: React.FC<SpecialNotesPageProps> = ({ transactions }) =>
                         </div>
                         <div>
                             <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Special Notes Log</h2>
-                            <p className="text-sm text-slate-400">Viewing flagged transactions with remarks (Vendor POs, Special Instructions, etc.)</p>
+                            <p className="text-sm text-slate-400">Viewing flagged transactions with remarks (Vendor POs, Special Instructions, approval decisions, etc.)</p>
                         </div>
                     </div>
                 </div>
@@ -128,6 +143,107 @@ const SpecialNotesPage: React.FC<SpecialNotesPageProps> = ({ transactions }) =>
                 </div>
             </div>
 
+            {pendingApprovals.length > 0 && (
+                <div className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-amber-500/30 overflow-hidden">
+                    <div className="p-4 border-b border-white/10 flex items-center gap-2">
+                        <ShieldCheck className="w-5 h-5 text-amber-400" />
+                        <h3 className="text-sm font-bold text-amber-400 uppercase tracking-wider">Awaiting Approval ({pendingApprovals.length})</h3>
+                        {!canApprove && <span className="text-xs text-slate-500 ml-auto">A supervisor must approve these.</span>}
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm text-slate-400">
+                            <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                                <tr>
+                                    <th className="px-6 py-3">Requested</th>
+                                    <th className="px-6 py-3">Change</th>
+                                    <th className="px-6 py-3">Item</th>
+                                    <th className="px-6 py-3 text-right">Qty</th>
+                                    <th className="px-6 py-3 text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-white/5">
+                                {pendingApprovals.map(r => (
+                                    <tr key={r.id} className="hover:bg-white/5 transition-colors">
+                                        <td className="px-6 py-4 whitespace-nowrap">
+                                            <div className="font-medium text-slate-300">{new Date(r.requestedAt).toLocaleString()}</div>
+                                            <div className="text-xs text-slate-500">{r.requestedBy ? `by ${r.requestedBy}` : ''}</div>
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border ${getTypeStyle(r.kind)}`}>
+                                                {getTypeIcon(r.kind)}
+                                                {KIND_LABELS[r.kind]}
+                                            </span>
+                                            <div className="text-xs text-slate-500 mt-1">{r.note}</div>
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <div className="font-medium text-slate-200">{r.item.productName}</div>
+                                            <div className="text-xs text-slate-500 font-mono mt-0.5">
+                                                {r.item.productCode} · {formatBinCode(r.item.locations[0])}{r.item.lotNumber ? ` · LOT ${r.item.lotNumber}` : ''}
+                                            </div>
+                                        </td>
+                                        <td className="px-6 py-4 text-right font-mono whitespace-nowrap">
+                                            <span className={r.qtyDiff > 0 ? 'text-green-400 font-bold' : 'text-orange-400 font-bold'}>
+                                                {r.qtyDiff > 0 ? '+' : ''}{r.qtyDiff}
+                                            </span>
+                                            <span className="text-xs text-slate-500 ml-1">{r.item.unit}</span>
+                                            <div className="text-xs text-slate-500">
+                                                {r.item.quantity} → {r.kind === 'DELETE' ? 0 : r.item.quantity + r.qtyDiff}
+                                                {!!r.value && ` · value ${r.value.toFixed(2)}`}
+                                            </div>
+                                        </td>
+                                        <td className="px-6 py-4 text-right">
+                                            {canApprove && (rejectingId === r.id ? (
+                                                <div className="flex items-center justify-end gap-2">
+                                                    <input
+                                                        type="text"
+                                                        value={rejectReason}
+                                                        onChange={(e) => setRejectReason(e.target.value)}
+                                                        placeholder="Reason (optional)"
+                                                        autoFocus
+                                                        className="w-40 px-2 py-1.5 text-xs border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary outline-none"
+                                                    />
+                                                    <button
+                                                        onClick={() => {
+                                                            onReject(r.id, rejectReason);
+                                                            setRejectingId(null);
+                                                            setRejectReason('');
+                                                        }}
+                                                        className="px-3 py-1.5 rounded-lg text-xs font-bold bg-red-500/20 text-red-400 border border-red-500/40 hover:bg-red-500/30 transition-colors"
+                                                    >
+                                                        Reject
+                                                    </button>
+                                                    <button onClick={() => setRejectingId(null)} className="p-1.5 text-slate-500 hover:text-white transition-colors" title="Cancel">
+                                                        <X className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            ) : (
+                                                <div className="flex items-center justify-end gap-2">
+                                                    <button
+                                                        onClick={() => onApprove(r.id)}
+                                                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold bg-green-500/20 text-green-400 border border-green-500/40 hover:bg-green-500/30 transition-colors"
+                                                    >
+                                                        <Check className="w-3 h-3" /> Approve
+                                                    </button>
+                                                    <button
+                                                        onClick={() => {
+                                                            setRejectingId(r.id);
+                                                            setRejectReason('');
+                                                        }}
+                                                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-slate-300 border border-white/10 hover:bg-slate-700 transition-colors"
+                                                    >
+                                                        <X className="w-3 h-3" /> Reject
+                                                    </button>
+                                                </div>
+                                            ))}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
             <div className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 overflow-hidden">
                 <div className="overflow-x-auto">
                     <table className="w-full text-left text-sm text-slate-400">
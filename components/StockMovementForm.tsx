@@ -1,8 +1,9 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { InventoryItem, InventoryLocation, Product, MasterLocation, generateId } from '../types';
-import { AREA_CONFIG, LEVELS, BAYS_PER_RACK } from '../consts/warehouse';
-import { ArrowRightLeft, Search, MapPin, Box, ArrowRight, CheckCircle, Check } from 'lucide-react';
+import { ArrowRightLeft, Search, MapPin, Box, ArrowRight, CheckCircle, Check, AlertTriangle } from 'lucide-react';
 import { smartSearch, filterBinCodes, getEmbedLink } from '../utils';
+import { findOverfilledBins } from '../services/binCapacity';
+import { formatBinCode } from '../services/ledger';
 
 interface StockMovementFormProps {
     products: Product[];
@@ -53,6 +54,13 @@ const StockMovementForm: React.FC<StockMovementFormProps> = ({
         return filterBinCodes(masterLocations, destinationSearch).slice(0, 10);
     }, [destinationSearch, masterLocations]);
 
+    // Warn before the move if it would overfill the destination (the move then asks for a reason)
+    const overfill = useMemo(() => {
+        if (!selectedSourceItem || !customDest || moveQty <= 0) return undefined;
+        if (formatBinCode(selectedSourceItem.locations[0]) === formatBinCode(customDest)) return undefined;
+        return findOverfilledBins([{ ...selectedSourceItem, quantity: moveQty, bin: customDest }], { inventory, products, masterLocations })[0];
+    }, [selectedSourceItem, customDest, moveQty, inventory, products, masterLocations]);
+
     // Auto-dismiss success message
     useEffect(() => {
         if (successMessage) {
@@ -95,8 +103,8 @@ const StockMovementForm: React.FC<StockMovementFormProps> = ({
         // Execute Move
         onMove(selectedSourceItem.id, customDest, moveQty);
 
-        // Show Success
-        setSuccessMessage(`Moved ${moveQty} ${selectedSourceItem.unit} to ${destinationSearch} `);
+        // Show Success (an overfill waits for its override reason instead)
+        if (!overfill) setSuccessMessage(`Moved ${moveQty} ${selectedSourceItem.unit} to ${destinationSearch} `);
 
         // Reset Form
         setSelectedSourceItem(null);
@@ -268,6 +276,13 @@ const StockMovementForm: React.FC<StockMovementFormProps> = ({
                         />
                     </div>
 
+                    {overfill && (
+                        <div className="bg-amber-500/10 border border-amber-500/30 text-amber-300 rounded-lg p-3 text-xs flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 shrink-0" />
+                            <span>{overfill.message} Moving it needs an override reason.</span>
+                        </div>
+                    )}
+
                 </div>
 
             </div>
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { Product, Supplier } from '../types';
+import { smartSearch } from '../utils';
+import { Truck, Plus, Edit, Trash2, X, Save, Search, Phone, Mail } from 'lucide-react';
+
+interface SuppliersPageProps {
+    suppliers: Supplier[];
+    products: Product[];
+    readOnly?: boolean;
+    onSaveSupplier: (supplier: Omit<Supplier, 'id' | 'updatedAt'> & { id?: string }) => boolean;
+    onDeleteSupplier: (id: string) => void;
+}
+
+type Draft = {
+    id?: string;
+    name: string;
+    contactName: string;
+    email: string;
+    phone: string;
+    leadTimeDays: string;
+    moq: string;
+    packSizes: string; // Comma separated
+    notes: string;
+};
+
+const EMPTY_DRAFT: Draft = { name: '', contactName: '', email: '', phone: '', leadTimeDays: '7', moq: '', packSizes: '', notes: '' };
+
+const SuppliersPage: React.FC<SuppliersPageProps> = ({ suppliers, products, readOnly = false, onSaveSupplier, onDeleteSupplier }) => {
+    const [searchTerm, setSearchTerm] = useState('');
+    const [draft, setDraft] = useState<Draft | null>(null);
+
+    const visibleSuppliers = suppliers
+        .filter(sp => smartSearch(sp, ['name', 'contactName', 'email', 'phone'], searchTerm))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    const openEditor = (sp?: Supplier) => {
+        setDraft(sp ? {
+            id: sp.id,
+            name: sp.name,
+            contactName: sp.contactName || '',
+            email: sp.email || '',
+            phone: sp.phone || '',
+            leadTimeDays: String(sp.leadTimeDays),
+            moq: sp.moq ? String(sp.moq) : '',
+            packSizes: (sp.packSizes || []).join(', '),
+            notes: sp.notes || ''
+        } : { ...EMPTY_DRAFT });
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+        const packSizes = draft.packSizes.split(',').map(p => parseFloat(p.trim())).filter(p => !isNaN(p));
+        const ok = onSaveSupplier({
+            id: draft.id,
+            name: draft.name,
+            contactName: draft.contactName.trim() || undefined,
+            email: draft.email.trim() || undefined,
+            phone: draft.phone.trim() || undefined,
+            leadTimeDays: parseFloat(draft.leadTimeDays) || 0,
+            moq: parseFloat(draft.moq) || undefined,
+            packSizes: packSizes.length ? packSizes : undefined,
+            notes: draft.notes.trim() || undefined
+        });
+        if (ok) setDraft(null);
+    };
+
+    const inputClass = 'w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none';
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                            <Truck className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Suppliers</h2>
+                            <p className="text-sm text-slate-400">Lead times, MOQs and pack sizes drive the reorder suggestions.</p>
+                        </div>
+                    </div>
+                    {!readOnly && (
+                        <button
+                            onClick={() => openEditor()}
+                            className="px-4 py-2 bg-primary/20 text-primary border border-primary/50 rounded-lg hover:bg-primary/30 flex items-center gap-2 text-sm font-bold transition-all shadow-[0_0_10px_rgba(139,92,246,0.3)]"
+                        >
+                            <Plus className="w-4 h-4" /> Add Supplier
+                        </button>
+                    )}
+                </div>
+                <div className="relative w-full md:w-96 mt-6">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-500 w-4 h-4" />
+                    <input
+                        type="text"
+                        placeholder="Search suppliers..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="w-full pl-9 pr-4 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                    />
+                </div>
+            </div>
+
+            <div className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm text-slate-400">
+                        <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                            <tr>
+                                <th className="px-6 py-4">Supplier</th>
+                                <th className="px-6 py-4">Contact</th>
+                                <th className="px-6 py-4 text-right">Lead Time</th>
+                                <th className="px-6 py-4 text-right">MOQ</th>
+                                <th className="px-6 py-4">Pack Sizes</th>
+                                <th className="px-6 py-4 text-right">Products</th>
+                                {!readOnly && <th className="px-6 py-4 text-right">Actions</th>}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {visibleSuppliers.map(sp => (
+                                <tr key={sp.id} className="hover:bg-white/5 transition-colors">
+                                    <td className="px-6 py-4">
+                                        <div className="font-medium text-slate-200">{sp.name}</div>
+                                        {sp.notes && <div className="text-xs text-slate-500">{sp.notes}</div>}
+                                    </td>
+                                    <td className="px-6 py-4 text-xs space-y-0.5">
+                                        {sp.contactName && <div className="text-slate-300">{sp.contactName}</div>}
+                                        {sp.email && <div className="flex items-center gap-1"><Mail className="w-3 h-3" /> {sp.email}</div>}
+                                        {sp.phone && <div className="flex items-center gap-1"><Phone className="w-3 h-3" /> {sp.phone}</div>}
+                                    </td>
+                                    <td className="px-6 py-4 text-right font-mono text-white">{sp.leadTimeDays}d</td>
+                                    <td className="px-6 py-4 text-right font-mono">{sp.moq || '-'}</td>
+                                    <td className="px-6 py-4 font-mono">{sp.packSizes?.length ? sp.packSizes.join(' / ') : '-'}</td>
+                                    <td className="px-6 py-4 text-right font-mono">{products.filter(p => p.supplierId === sp.id).length}</td>
+                                    {!readOnly && (
+                                        <td className="px-6 py-4 text-right whitespace-nowrap">
+                                            <button onClick={() => openEditor(sp)} className="p-2 text-slate-400 hover:text-blue-400 transition-colors" title="Edit">
+                                                <Edit className="w-4 h-4" />
+                                            </button>
+                                            <button onClick={() => onDeleteSupplier(sp.id)} className="p-2 text-slate-400 hover:text-red-400 transition-colors" title="Remove">
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                            {visibleSuppliers.length === 0 && (
+                                <tr>
+                                    <td colSpan={7} className="p-10 text-center text-slate-500">No suppliers yet. Link products to a supplier in the Product Master.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {draft && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                    <form onSubmit={handleSave} className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-slate-900 border border-white/10 rounded-xl shadow-2xl p-6 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-bold text-white">{draft.id ? 'Edit Supplier' : 'New Supplier'}</h3>
+                            <button type="button" onClick={() => setDraft(null)} className="text-slate-500 hover:text-white transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Name</label>
+                            <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} autoFocus className={inputClass} />
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Contact</label>
+                                <input type="text" value={draft.contactName} onChange={(e) => setDraft({ ...draft, contactName: e.target.value })} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Email</label>
+                                <input type="email" value={draft.email} onChange={(e) => setDraft({ ...draft, email: e.target.value })} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Phone</label>
+                                <input type="tel" value={draft.phone} onChange={(e) => setDraft({ ...draft, phone: e.target.value })} className={inputClass} />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Lead Time (Days)</label>
+                                <input type="number" min="0" value={draft.leadTimeDays} onChange={(e) => setDraft({ ...draft, leadTimeDays: e.target.value })} className={`${inputClass} font-mono`} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">MOQ (Units)</label>
+                                <input type="number" min="0" value={draft.moq} onChange={(e) => setDraft({ ...draft, moq: e.target.value })} placeholder="None" className={`${inputClass} font-mono`} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Pack Sizes</label>
+                                <input type="text" value={draft.packSizes} onChange={(e) => setDraft({ ...draft, packSizes: e.target.value })} placeholder="e.g. 12, 48" className={`${inputClass} font-mono`} />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Notes</label>
+                            <input type="text" value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} className={inputClass} />
+                        </div>
+
+                        <div className="flex justify-end gap-2 pt-2">
+                            <button
+                                type="button"
+                                onClick={() => setDraft(null)}
+                                className="px-4 py-2 rounded-lg text-sm font-bold text-slate-400 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 transition-colors"
+                            >
+                                <Save className="w-4 h-4" /> Save
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SuppliersPage;
@@ -0,0 +1,123 @@
+import React from 'react';
+import { SyncConflict, ConflictResolution } from '../services/syncEngine';
+import { GitMerge, Smartphone, Cloud, Combine, CheckCircle2 } from 'lucide-react';
+
+interface SyncConflictsPageProps {
+    conflicts: SyncConflict[];
+    onResolve: (conflictId: string, resolution: ConflictResolution) => void;
+}
+
+const DATE_FIELDS = ['updatedAt', 'lastCountedAt', 'productionDate', 'expiryDate'];
+
+// Human readable cell value for the comparison table
+const formatValue = (field: string, value: any) => {
+    if (value === undefined || value === null || value === '') return '-';
+    if (field === 'locations' && Array.isArray(value)) {
+        return value.map((l: any) => `${l.rack}-${l.bay}-${l.level}`).join(', ') || '-';
+    }
+    if (DATE_FIELDS.includes(field)) {
+        const num = Number(value);
+        return num ? new Date(num).toLocaleString() : '-';
+    }
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+const SyncConflictsPage: React.FC<SyncConflictsPageProps> = ({ conflicts, onResolve }) => {
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex items-center gap-3">
+                    <div className="bg-amber-500/20 p-2 rounded-lg border border-amber-500/50 shadow-[0_0_10px_rgba(245,158,11,0.3)]">
+                        <GitMerge className="w-6 h-6 text-amber-400" />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Sync Conflicts</h2>
+                        <p className="text-sm text-slate-400">Records edited on this device and another device since the last sync. Pick which version to keep.</p>
+                    </div>
+                </div>
+            </div>
+
+            {conflicts.length === 0 && (
+                <div className="bg-slate-900/60 backdrop-blur-md p-10 rounded-xl border border-white/10 text-center">
+                    <CheckCircle2 className="w-10 h-10 text-green-400 mx-auto mb-3" />
+                    <p className="text-slate-300 font-bold">No conflicts</p>
+                    <p className="text-sm text-slate-500">All records are in sync.</p>
+                </div>
+            )}
+
+            {conflicts.map(conflict => {
+                const { local, cloud, base } = conflict;
+                const fields = Array.from(new Set([...Object.keys(local), ...Object.keys(cloud)]))
+                    .filter(f => formatValue(f, local[f]) !== formatValue(f, cloud[f]));
+                const canMerge = conflict.collection === 'inventory' && !!base;
+                const title = conflict.collection === 'inventory' ? local.productName : local.name;
+
+                return (
+                    <div key={conflict.id} className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-amber-500/20 overflow-hidden">
+                        <div className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-4 border-b border-white/10">
+                            <div>
+                                <div className="flex items-center gap-2">
+                                    <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border bg-slate-800 text-slate-400 border-white/10">
+                                        {conflict.collection === 'inventory' ? 'Stock Batch' : 'Product'}
+                                    </span>
+                                    <span className="font-bold text-white">{title}</span>
+                                </div>
+                                <p className="text-xs text-slate-500 font-mono mt-1">
+                                    {local.productCode} · Detected {new Date(conflict.detectedAt).toLocaleString()}
+                                </p>
+                            </div>
+
+                            <div className="flex flex-wrap gap-2">
+                                <button
+                                    onClick={() => onResolve(conflict.id, 'mine')}
+                                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold bg-primary/20 text-primary border border-primary/40 hover:bg-primary/30 transition-colors"
+                                >
+                                    <Smartphone className="w-4 h-4" /> Keep Mine
+                                </button>
+                                <button
+                                    onClick={() => onResolve(conflict.id, 'theirs')}
+                                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold bg-blue-500/20 text-blue-400 border border-blue-500/40 hover:bg-blue-500/30 transition-colors"
+                                >
+                                    <Cloud className="w-4 h-4" /> Keep Theirs
+                                </button>
+                                {canMerge && (
+                                    <button
+                                        onClick={() => onResolve(conflict.id, 'merge')}
+                                        className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold bg-green-500/20 text-green-400 border border-green-500/40 hover:bg-green-500/30 transition-colors"
+                                        title={`Base ${base.quantity} → Mine ${local.quantity}, Theirs ${cloud.quantity}`}
+                                    >
+                                        <Combine className="w-4 h-4" /> Merge Qty ({Math.max(0, Number(cloud.quantity) + Number(local.quantity) - Number(base.quantity))})
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+
+                        <table className="w-full text-left text-sm text-slate-400">
+                            <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 tracking-wider">
+                                <tr>
+                                    <th className="px-4 py-2">Field</th>
+                                    {base && <th className="px-4 py-2">Last Synced</th>}
+                                    <th className="px-4 py-2">Mine (This Device)</th>
+                                    <th className="px-4 py-2">Theirs (Cloud)</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-white/5">
+                                {fields.map(field => (
+                                    <tr key={field}>
+                                        <td className="px-4 py-2 font-mono text-xs text-slate-500">{field}</td>
+                                        {base && <td className="px-4 py-2 text-slate-500">{formatValue(field, base[field])}</td>}
+                                        <td className="px-4 py-2 text-primary font-medium">{formatValue(field, local[field])}</td>
+                                        <td className="px-4 py-2 text-blue-400 font-medium">{formatValue(field, cloud[field])}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default SyncConflictsPage;
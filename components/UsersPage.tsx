@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { UserProfile, UserRole } from '../types';
+import { ROLE_LABELS } from '../services/auth';
+import { Users, UserPlus, Edit, Trash2, X, Save, KeyRound } from 'lucide-react';
+
+interface UsersPageProps {
+    users: UserProfile[];
+    currentUserId?: string;
+    onSaveUser: (user: Pick<UserProfile, 'name' | 'role' | 'active'> & { id?: string }, pin?: string) => Promise<boolean>;
+    onDeleteUser: (id: string) => void;
+}
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+    operator: 'Inbound, outbound, moves, counts, picking and shipping orders.',
+    supervisor: 'Also approves deletions and large adjustments, toggles bins, manages purchase orders, customers and orders, Smart Pick pallet rules, edits Product Master, suppliers and the ledger.',
+    admin: 'Also manages users and storage settings.'
+};
+
+const ROLE_STYLES: Record<UserRole, string> = {
+    operator: 'bg-slate-800 text-slate-400 border-white/10',
+    supervisor: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+    admin: 'bg-primary/20 text-primary border-primary/40'
+};
+
+type Draft = { id?: string; name: string; role: UserRole; active: boolean; pin: string };
+
+const EMPTY_DRAFT: Draft = { name: '', role: 'operator', active: true, pin: '' };
+
+const UsersPage: React.FC<UsersPageProps> = ({ users, currentUserId, onSaveUser, onDeleteUser }) => {
+    const [draft, setDraft] = useState<Draft | null>(null);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft) return;
+        const ok = await onSaveUser({ id: draft.id, name: draft.name, role: draft.role, active: draft.active }, draft.pin || undefined);
+        if (ok) setDraft(null);
+    };
+
+    const sortedUsers = [...users].sort((a, b) => Number(b.active) - Number(a.active) || a.name.localeCompare(b.name));
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                            <Users className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Users</h2>
+                            <p className="text-sm text-slate-400">Who can sign in on this device, and what each role may do.</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => setDraft({ ...EMPTY_DRAFT })}
+                        className="px-4 py-2 bg-primary/20 text-primary border border-primary/50 rounded-lg hover:bg-primary/30 flex items-center gap-2 text-sm font-bold transition-all shadow-[0_0_10px_rgba(139,92,246,0.3)]"
+                    >
+                        <UserPlus className="w-4 h-4" /> Add User
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-slate-900/60 backdrop-blur-md rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm text-slate-400">
+                        <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                            <tr>
+                                <th className="px-6 py-4">Name</th>
+                                <th className="px-6 py-4">Role</th>
+                                <th className="px-6 py-4">Status</th>
+                                <th className="px-6 py-4">Created</th>
+                                <th className="px-6 py-4 text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {sortedUsers.map(user => (
+                                <tr key={user.id} className="hover:bg-white/5 transition-colors">
+                                    <td className="px-6 py-4 font-medium text-slate-200">
+                                        {user.name}
+                                        {user.id === currentUserId && <span className="ml-2 text-[10px] text-primary uppercase font-bold">You</span>}
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide border ${ROLE_STYLES[user.role]}`}>
+                                            {ROLE_LABELS[user.role]}
+                                        </span>
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        {user.active
+                                            ? <span className="text-green-400 text-xs font-bold uppercase">Active</span>
+                                            : <span className="text-slate-500 text-xs font-bold uppercase">Inactive</span>}
+                                    </td>
+                                    <td className="px-6 py-4 text-xs font-mono text-slate-500">{new Date(user.createdAt).toLocaleDateString()}</td>
+                                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                                        <button
+                                            onClick={() => setDraft({ id: user.id, name: user.name, role: user.role, active: user.active, pin: '' })}
+                                            className="p-2 text-slate-400 hover:text-blue-400 transition-colors"
+                                            title="Edit"
+                                        >
+                                            <Edit className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => onDeleteUser(user.id)}
+                                            className="p-2 text-slate-400 hover:text-red-400 transition-colors"
+                                            title="Remove"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {draft && (
+                <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                    <form onSubmit={handleSave} className="w-full max-w-md bg-slate-900 border border-white/10 rounded-xl shadow-2xl p-6 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-bold text-white">{draft.id ? 'Edit User' : 'New User'}</h3>
+                            <button type="button" onClick={() => setDraft(null)} className="text-slate-500 hover:text-white transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Name</label>
+                            <input
+                                type="text"
+                                value={draft.name}
+                                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                autoFocus
+                                className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Role</label>
+                            <div className="space-y-2">
+                                {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                                    <label key={role} className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all ${draft.role === role ? 'bg-primary/20 border-primary/50' : 'bg-black/20 border-white/10 hover:bg-white/5'}`}>
+                                        <input
+                                            type="radio"
+                                            name="role"
+                                            checked={draft.role === role}
+                                            onChange={() => setDraft({ ...draft, role })}
+                                            className="mt-1 accent-primary"
+                                        />
+                                        <div>
+                                            <p className="font-bold text-white text-sm">{ROLE_LABELS[role]}</p>
+                                            <p className="text-xs text-slate-400">{ROLE_DESCRIPTIONS[role]}</p>
+                                        </div>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-1 flex items-center gap-1">
+                                <KeyRound className="w-3 h-3" /> {draft.id ? 'New PIN (leave blank to keep)' : 'PIN (4-8 digits)'}
+                            </label>
+                            <input
+                                type="password"
+                                inputMode="numeric"
+                                value={draft.pin}
+                                onChange={(e) => setDraft({ ...draft, pin: e.target.value.replace(/\D/g, '').slice(0, 8) })}
+                                className="w-full px-3 py-2 text-sm border border-white/10 bg-black/40 rounded-lg text-slate-200 placeholder-slate-600 focus:ring-2 focus:ring-primary focus:border-primary outline-none font-mono"
+                            />
+                        </div>
+
+                        {draft.id && (
+                            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={draft.active}
+                                    onChange={(e) => setDraft({ ...draft, active: e.target.checked })}
+                                    className="accent-primary"
+                                />
+                                Active (can sign in)
+                            </label>
+                        )}
+
+                        <div className="flex justify-end gap-2 pt-2">
+                            <button
+                                type="button"
+                                onClick={() => setDraft(null)}
+                                className="px-4 py-2 rounded-lg text-sm font-bold text-slate-400 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-primary text-black hover:bg-primary/80 transition-colors"
+                            >
+                                <Save className="w-4 h-4" /> Save
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UsersPage;
@@ -1,8 +1,10 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { InventoryItem, Product, MasterLocation, InventoryLocation, ViewState, generateId } from '../types';
-import { AREA_CONFIG, LEVELS, BAYS_PER_RACK, ALL_AREAS, STANDARD_RACKS } from '../consts/warehouse';
-import { getCategoryColor, smartSearch, getEmbedLink, getAreaName } from '../utils';
-import { Package, Search, MapPin, Plus, Save, Trash2, X, Lock, ArrowRightLeft, Layers, ChevronRight, Copy, Move, AlertTriangle, Check, Clipboard as ClipboardIcon } from 'lucide-react';
+import { InventoryItem, Product, MasterLocation, InventoryLocation, ViewState, WarehouseLayout, MapChangeContext, generateId, isSameBatch } from '../types';
+import { getCategoryColor, smartSearch, getEmbedLink, getExpiryColor, getOccupancyColor } from '../utils';
+import { findArea, getAreaName, getRackAreas } from '../services/warehouseLayout';
+import { convertQty, getUnitFactors } from '../services/unitConversion';
+import { BIN_CAPACITY_UNIT_LABELS, IncomingStock, describeBinLoad, findOverfilledBins, getBinLoads, getFillPercent, getCapacityUnit } from '../services/binCapacity';
+import { Package, Search, MapPin, Plus, Save, Trash2, X, Lock, ArrowRightLeft, Layers, ChevronRight, Copy, Move, AlertTriangle, Check, Flame, Gauge, Clipboard as ClipboardIcon } from 'lucide-react';
 import ConfirmModal, { ModalType } from './ConfirmModal';
 import SearchDropdown from './SearchDropdown';
 import SidebarItem from './SidebarItem';
@@ -11,11 +13,23 @@ interface WarehouseMapProps {
     inventory: InventoryItem[];
     products: Product[];
     masterLocations?: MasterLocation[];
-    onInventoryChange: (action: 'ADD' | 'UPDATE' | 'DELETE' | 'MOVE' | 'COUNT', item: InventoryItem, qtyDiff?: number, moveContext?: any, date?: number) => void;
+    layout: WarehouseLayout;
+    onInventoryChange: (action: 'ADD' | 'UPDATE' | 'DELETE' | 'MOVE' | 'COUNT', item: InventoryItem, qtyDiff?: number, moveContext?: MapChangeContext, date?: number) => void;
     onToggleBinStatus?: (rack: string, bay: number, level: string) => void;
+    onUpdateBinCapacity?: (binCodes: string[], capacity: Pick<MasterLocation, 'capacity' | 'capacityUnit' | 'maxWeightKg'>) => void;
 }
 
-const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, masterLocations = [], onInventoryChange, onToggleBinStatus }) => {
+// Marks the UPDATE / DELETE legs of a move so they bypass the approval queue (stock only changes bin).
+// The hook checks each leg against the source batch and quantity, so only legs that net to zero pass.
+const transferContext = (source: InventoryItem, qty: number): MapChangeContext => ({ transfer: { sourceId: source.id, qty } });
+
+// The leg that fills the destination bin carries any capacity override reason to the ledger
+const withOverride = (context: MapChangeContext | undefined, overrideReason?: string): MapChangeContext | undefined => overrideReason ? { ...context, overrideReason } : context;
+
+// Which bins a capacity change applies to
+type CapacityScope = 'bin' | 'level' | 'rack';
+
+const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, masterLocations = [], layout, onInventoryChange, onToggleBinStatus, onUpdateBinCapacity }) => {
 
     // Default to RACKS (ALL)
     const [selectedRack, setSelectedRack] = useState<string>('ALL');
@@ -70,6 +84,10 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
     const [moveQty, setMoveQty] = useState<number>(0);
 
     // Floating Tooltip State
+    // Heat layer: bins colored by occupancy
+    const [showHeat, setShowHeat] = useState(false);
+    const [capacityDraft, setCapacityDraft] = useState<{ capacity: string; unit: 'pallets' | 'cases'; maxWeightKg: string; scope: CapacityScope }>({ capacity: '', unit: 'pallets', maxWeightKg: '', scope: 'bin' });
+
     const [tooltipData, setTooltipData] = useState<{ x: number, y: number, items: InventoryItem[], title: string, isDisabled?: boolean } | null>(null);
 
     // Auto-focus Input Ref & Dropdown State
@@ -80,6 +98,7 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
     const [isCountModalOpen, setIsCountModalOpen] = useState(false);
     const [countItem, setCountItem] = useState<InventoryItem | null>(null);
     const [countQty, setCountQty] = useState('');
+    const [countUnit, setCountUnit] = useState(''); // Counted in any unit of the product; stored in the batch unit
 
     // Filter products for dropdown
     const filteredProducts = useMemo(() => {
@@ -118,7 +137,8 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
         title: string;
         message: string;
         type: ModalType;
-        onConfirm?: () => void;
+        onConfirm?: (reason?: string) => void;
+        reasonLabel?: string;
     }>({ isOpen: false, title: '', message: '', type: 'info' });
 
     const showAlert = (title: string, message: string) => {
@@ -129,6 +149,24 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
         setModalConfig({ isOpen: true, title, message, type, onConfirm });
     };
 
+    // Runs the change, first asking for an override reason if it takes a bin past its capacity.
+    // Stock in excludeIds is being replaced (e.g. an edited quantity), so it does not count.
+    const withCapacityCheck = (incoming: IncomingStock[], proceed: (overrideReason?: string) => void, excludeIds: string[] = []) => {
+        const checks = findOverfilledBins(incoming, { inventory, products, masterLocations }, excludeIds);
+        if (checks.length === 0) {
+            proceed();
+            return;
+        }
+        setModalConfig({
+            isOpen: true,
+            title: 'Bin Over Capacity',
+            message: `${checks.map(c => c.message).join('\n')}\n\nGive a reason to store it anyway.`,
+            type: 'warning',
+            reasonLabel: 'Override reason',
+            onConfirm: (reason) => proceed(reason)
+        });
+    };
+
     // Reset edit/move state when selection changes
     React.useEffect(() => {
         setIsAddingItem(false);
@@ -146,11 +184,24 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
     const canEdit = true;
 
     // Current Dimensions based on selected rack
-    // Safe lookup, default to S if missing
-    const currentConfig = AREA_CONFIG[selectedRack] || AREA_CONFIG['S'];
+    // Safe lookup, default to the first area if missing
+    const currentConfig = findArea(layout, selectedRack) || layout.areas[0];
     const currentBays = currentConfig?.bays || 12;
     const currentLevels = currentConfig?.levels || ['Floor'];
 
+    // Racks shown side by side in the overview, in floor plan order; the other areas get their own tab
+    const rackAreas = useMemo(() => getRackAreas(layout), [layout]);
+    const blockAreas = layout.areas.filter(a => a.kind !== 'rack');
+    // Every rack level, ground level first
+    const overviewLevels = useMemo(() => Array.from(new Set(rackAreas.flatMap(a => [...a.levels].reverse()))), [rackAreas]);
+    // Fall back when a layout change removes the selected area or level
+    useEffect(() => {
+        if (selectedRack !== 'ALL' && !findArea(layout, selectedRack)) setSelectedRack('ALL');
+        if (overviewLevels.length > 0 && !overviewLevels.includes(levelView)) setLevelView(overviewLevels[0]);
+    }, [layout, overviewLevels]);
+    const rackCodes = rackAreas.map(a => a.code).sort();
+    const rackRange = rackCodes.length > 1 ? `${rackCodes[0]}-${rackCodes[rackCodes.length - 1]}` : rackCodes[0];
+
     // Optimization: Create a lookup map for O(1) access
     const locationLookup = useMemo(() => {
         const map = new Map<string, InventoryItem[]>();
@@ -185,6 +236,23 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
         return set;
     }, [masterLocations]);
 
+    // Bin code -> fill % (only bins with a capacity)
+    const binFill = useMemo(() => {
+        const loads = getBinLoads(inventory, products);
+        const map = new Map<string, number>();
+        masterLocations.forEach(l => {
+            const percent = getFillPercent(l, loads.get(l.binCode));
+            if (percent !== undefined) map.set(l.binCode, percent);
+        });
+        return map;
+    }, [masterLocations, inventory, products]);
+
+    // Cell colors: occupancy heat when the heat layer is on, otherwise occupied / empty
+    const getCellFillClass = (key: string, hasItems: boolean) => {
+        if (showHeat) return `${getOccupancyColor(binFill.get(key))} hover:brightness-125`;
+        return hasItems ? 'bg-primary/20 hover:bg-primary/30 border-primary/30 text-primary-200' : 'bg-white/5 hover:bg-white/10 text-slate-600';
+    };
+
     // Helper to find items in a specific cell
     const getItemsInCell = (rack: string, bay: number, level: string) => {
         const key = `${rack}-${String(bay)}-${String(level)}`;
@@ -229,19 +297,27 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
 
     // -- Handlers --
 
+    const countProduct = countItem ? products.find(p => p.productCode === countItem.productCode) : undefined;
+
     const handleStartCount = (item: InventoryItem) => {
         setCountItem(item);
         setCountQty(''); // Blank for blind count
+        setCountUnit(item.unit);
         setIsCountModalOpen(true);
     };
 
     const handleSubmitCount = () => {
         if (!countItem) return;
-        const actualQty = parseFloat(countQty);
-        if (isNaN(actualQty)) {
+        const counted = parseFloat(countQty);
+        if (isNaN(counted)) {
             showAlert("Invalid Quantity", "Please enter a valid number for the actual quantity.");
             return;
         }
+        const actualQty = convertQty(countProduct, counted, countUnit, countItem.unit);
+        if (actualQty === undefined) {
+            showAlert("Invalid Quantity", `There is no conversion from ${countUnit} to ${countItem.unit} for this product.`);
+            return;
+        }
 
         const diff = actualQty - countItem.quantity;
 
@@ -269,45 +345,76 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
             return;
         }
 
-        // Check if item already exists in this specific bin (location)
-        const existingItem = selectedCellItems.find(item => item.productCode === product.productCode);
-
-        if (existingItem) {
-            // Merge logic
-            const newTotal = existingItem.quantity + newItemQty;
-            const updatedItem = { ...existingItem, quantity: newTotal, updatedAt: Date.now() };
-            onInventoryChange('UPDATE', updatedItem, newItemQty, undefined, getAdjustedTimestamp(selectedDate));
-        } else {
-            // Create new logic
-            const newItem: InventoryItem = {
-                id: generateId(),
-                productCode: product.productCode,
-                productName: product.name,
-                category: product.defaultCategory || 'OTH',
-                unit: product.defaultUnit || 'pcs',
-                quantity: newItemQty,
-                locations: [selectedLocation],
-                updatedAt: Date.now()
-            };
-            onInventoryChange('ADD', newItem, newItemQty, undefined, getAdjustedTimestamp(selectedDate));
-        }
+        // Check if an undated batch of this product already exists in this specific bin (location)
+        const existingItem = selectedCellItems.find(item => isSameBatch(item, { productCode: product.productCode }));
+        const unit = existingItem?.unit || product.defaultUnit || 'pcs';
+        const bin = selectedLocation;
+
+        withCapacityCheck([{ productCode: product.productCode, unit, quantity: newItemQty, bin }], (overrideReason) => {
+            if (existingItem) {
+                // Merge logic
+                const newTotal = existingItem.quantity + newItemQty;
+                const updatedItem = { ...existingItem, quantity: newTotal, updatedAt: Date.now() };
+                onInventoryChange('UPDATE', updatedItem, newItemQty, withOverride(undefined, overrideReason), getAdjustedTimestamp(selectedDate));
+            } else {
+                // Create new logic
+                const newItem: InventoryItem = {
+                    id: generateId(),
+                    productCode: product.productCode,
+                    productName: product.name,
+                    category: product.defaultCategory || 'OTH',
+                    unit,
+                    quantity: newItemQty,
+                    locations: [bin],
+                    updatedAt: Date.now()
+                };
+                onInventoryChange('ADD', newItem, newItemQty, withOverride(undefined, overrideReason), getAdjustedTimestamp(selectedDate));
+            }
+        });
 
         setIsAddingItem(false);
         setNewItemCode('');
         setNewItemQty(0);
     };
 
-    // Helper to check if current selected bin is disabled
-    const isSelectedBinDisabled = useMemo(() => {
-        if (!selectedLocation) return false;
-        const loc = masterLocations.find(l =>
+    const selectedMasterLoc = useMemo(() => {
+        if (!selectedLocation) return undefined;
+        return masterLocations.find(l =>
             l.rack === selectedLocation.rack &&
             l.bay === selectedLocation.bay &&
             l.level === selectedLocation.level
         );
-        return loc?.status === 'disabled';
     }, [selectedLocation, masterLocations]);
 
+    // Helper to check if current selected bin is disabled
+    const isSelectedBinDisabled = selectedMasterLoc?.status === 'disabled';
+
+    // Capacity form follows the selected bin
+    useEffect(() => {
+        setCapacityDraft(prev => ({
+            capacity: selectedMasterLoc?.capacity ? String(selectedMasterLoc.capacity) : '',
+            unit: selectedMasterLoc ? getCapacityUnit(selectedMasterLoc) : 'pallets',
+            maxWeightKg: selectedMasterLoc?.maxWeightKg ? String(selectedMasterLoc.maxWeightKg) : '',
+            scope: prev.scope
+        }));
+    }, [selectedMasterLoc]);
+
+    const handleSaveCapacity = () => {
+        if (!selectedMasterLoc || !onUpdateBinCapacity) return;
+        const capacity = parseFloat(capacityDraft.capacity) || 0;
+        const maxWeightKg = parseFloat(capacityDraft.maxWeightKg) || 0;
+        if (capacity < 0 || maxWeightKg < 0) {
+            showAlert("Invalid Capacity", "Capacity and weight limit must be zero (no limit) or more.");
+            return;
+        }
+        const targets = masterLocations.filter(l => {
+            if (capacityDraft.scope === 'bin') return l.id === selectedMasterLoc.id;
+            if (capacityDraft.scope === 'level') return l.rack === selectedMasterLoc.rack && l.level === selectedMasterLoc.level;
+            return l.rack === selectedMasterLoc.rack;
+        });
+        onUpdateBinCapacity(targets.map(l => l.binCode), { capacity, capacityUnit: capacityDraft.unit, maxWeightKg });
+    };
+
     const handleUpdateQty = (item: InventoryItem) => {
         if (!canEdit) return;
         if (editQty < 0) return;
@@ -324,7 +431,11 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
             if (diff === 0) { setEditingItemId(null); return; }
 
             const updatedItem = { ...item, quantity: editQty, updatedAt: Date.now() };
-            onInventoryChange('UPDATE', updatedItem, diff, undefined, getAdjustedTimestamp(selectedDate));
+            withCapacityCheck(
+                [{ ...updatedItem, bin: item.locations[0] }],
+                (overrideReason) => onInventoryChange('UPDATE', updatedItem, diff, withOverride(undefined, overrideReason), getAdjustedTimestamp(selectedDate)),
+                [item.id]
+            );
         }
         setEditingItemId(null);
     };
@@ -373,28 +484,29 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
             return;
         }
 
-        // Check if dest already has this product
+        // Check if dest already has this batch (same product + lot + expiry + hold status)
         const destItems = getItemsInCell(dest.rack, dest.bay, dest.level);
-        const existingDestItem = destItems.find(i => i.productCode === item.productCode);
+        const existingDestItem = destItems.find(i => isSameBatch(i, item));
 
-        const performMove = () => {
+        const transfer = isCopy ? undefined : transferContext(item, qtyToMove);
+        const performMove = (overrideReason?: string) => {
             // SCENARIO 1: Merge with existing item at destination (or Copy into existing)
             if (existingDestItem) {
                 // 1. Update Destination
                 const newTotal = existingDestItem.quantity + qtyToMove;
                 const updatedDestItem = { ...existingDestItem, quantity: newTotal, updatedAt: Date.now() };
-                onInventoryChange('UPDATE', updatedDestItem, qtyToMove, undefined, new Date(selectedDate).getTime());
+                onInventoryChange('UPDATE', updatedDestItem, qtyToMove, withOverride(transfer, overrideReason), new Date(selectedDate).getTime());
 
                 // 2. Handle Source (Only if NOT copying)
                 if (!isCopy) {
                     if (isFullMove) {
                         // Delete Source
-                        onInventoryChange('DELETE', item, -item.quantity, undefined, getAdjustedTimestamp(selectedDate));
+                        onInventoryChange('DELETE', item, -item.quantity, transfer, getAdjustedTimestamp(selectedDate));
                     } else {
                         // Update Source
                         const remainingQty = item.quantity - qtyToMove;
                         const updatedSourceItem = { ...item, quantity: remainingQty, updatedAt: Date.now() };
-                        onInventoryChange('UPDATE', updatedSourceItem, -qtyToMove, undefined, getAdjustedTimestamp(selectedDate));
+                        onInventoryChange('UPDATE', updatedSourceItem, -qtyToMove, transfer, getAdjustedTimestamp(selectedDate));
                     }
                 }
             }
@@ -403,7 +515,7 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                 if (isFullMove && !isCopy) {
                     // Standard Full Move
                     const updatedItem = { ...item, locations: [dest], updatedAt: Date.now() };
-                    onInventoryChange('MOVE', updatedItem, 0, { previousLocation: item.locations[0] }, getAdjustedTimestamp(selectedDate));
+                    onInventoryChange('MOVE', updatedItem, 0, withOverride({ previousLocation: item.locations[0] }, overrideReason), getAdjustedTimestamp(selectedDate));
                 } else {
                     // Partial Move or Copy to Empty Slot
                     // 1. Create New Item at Dest
@@ -414,29 +526,30 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                         locations: [dest],
                         updatedAt: Date.now()
                     };
-                    onInventoryChange('ADD', newItem, qtyToMove, undefined, getAdjustedTimestamp(selectedDate));
+                    onInventoryChange('ADD', newItem, qtyToMove, withOverride(undefined, overrideReason), getAdjustedTimestamp(selectedDate));
 
                     // 2. Update Source (Only if NOT copying)
                     if (!isCopy) {
                         const remainingQty = item.quantity - qtyToMove;
                         const updatedSourceItem = { ...item, quantity: remainingQty, updatedAt: Date.now() };
-                        onInventoryChange('UPDATE', updatedSourceItem, -qtyToMove, undefined, getAdjustedTimestamp(selectedDate));
+                        onInventoryChange('UPDATE', updatedSourceItem, -qtyToMove, transfer, getAdjustedTimestamp(selectedDate));
                     }
                 }
             }
             setMovingItemId(null);
             setCopyingItemId(null);
         };
+        const run = () => withCapacityCheck([{ ...item, quantity: qtyToMove, bin: dest }], performMove);
 
         if (existingDestItem) {
             showConfirm(
                 isCopy ? "Merge Copy?" : "Merge with Existing Item?",
                 `Destination bin already contains ${item.productName}. ${isCopy ? 'Add' : 'Merge'} ${qtyToMove} units into it?`,
-                performMove,
+                run,
                 'confirm'
             );
         } else {
-            performMove();
+            run();
         }
     };
 
@@ -499,22 +612,23 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
         const itemsToMove: InventoryItem[] = [];
 
         items.forEach(srcItem => {
-            const match = destItems.find(d => d.productCode === srcItem.productCode);
+            const match = destItems.find(d => isSameBatch(d, srcItem));
             if (match) itemsToMerge.push(srcItem);
             else itemsToMove.push(srcItem);
         });
 
-        const executeMove = () => {
+        const executeMove = (overrideReason?: string) => {
             // Processing merges
             itemsToMerge.forEach(srcItem => {
-                const destItem = destItems.find(d => d.productCode === srcItem.productCode)!;
+                const destItem = destItems.find(d => isSameBatch(d, srcItem))!;
+                const transfer = isCopy ? undefined : transferContext(srcItem, srcItem.quantity);
                 // Update Dest
                 const newTotal = destItem.quantity + srcItem.quantity;
                 const updatedDest = { ...destItem, quantity: newTotal, updatedAt: Date.now() };
-                onInventoryChange('UPDATE', updatedDest, srcItem.quantity, undefined, getAdjustedTimestamp(selectedDate));
+                onInventoryChange('UPDATE', updatedDest, srcItem.quantity, withOverride(transfer, overrideReason), getAdjustedTimestamp(selectedDate));
                 // Delete Source (only if not copying)
                 if (!isCopy) {
-                    onInventoryChange('DELETE', srcItem, -srcItem.quantity, undefined, getAdjustedTimestamp(selectedDate));
+                    onInventoryChange('DELETE', srcItem, -srcItem.quantity, transfer, getAdjustedTimestamp(selectedDate));
                 }
             });
 
@@ -528,24 +642,25 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                         locations: [dest],
                         updatedAt: Date.now()
                     };
-                    onInventoryChange('ADD', newItem, srcItem.quantity, undefined, getAdjustedTimestamp(selectedDate));
+                    onInventoryChange('ADD', newItem, srcItem.quantity, withOverride(undefined, overrideReason), getAdjustedTimestamp(selectedDate));
                 } else {
                     // MOVE: Update location
                     const updatedItem = { ...srcItem, locations: [dest], updatedAt: Date.now() };
-                    onInventoryChange('MOVE', updatedItem, 0, { previousLocation: srcItem.locations[0] }, getAdjustedTimestamp(selectedDate));
+                    onInventoryChange('MOVE', updatedItem, 0, withOverride({ previousLocation: srcItem.locations[0] }, overrideReason), getAdjustedTimestamp(selectedDate));
                 }
             });
         };
+        const run = () => withCapacityCheck(items.map(i => ({ ...i, bin: dest })), executeMove);
 
         if (itemsToMerge.length > 0) {
             showConfirm(
                 isCopy ? "Merge & Copy Items?" : "Merge Items?",
                 `Merging ${itemsToMerge.length} overlapping items into destination. ${itemsToMove.length} unique items will be ${isCopy ? 'copied' : 'moved'}.`,
-                executeMove,
+                run,
                 'confirm'
             );
         } else {
-            executeMove();
+            run();
         }
     };
 
@@ -554,21 +669,22 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
 
         const qtyToMove = item.quantity; // Default to full move for D&D
 
-        // Check if dest already has this product
+        // Check if dest already has this batch (same product + lot + expiry + hold status)
         const destItems = getItemsInCell(dest.rack, dest.bay, dest.level);
-        const existingDestItem = destItems.find(i => i.productCode === item.productCode);
+        const existingDestItem = destItems.find(i => isSameBatch(i, item));
 
-        const performMove = () => {
+        const transfer = isCopy ? undefined : transferContext(item, qtyToMove);
+        const performMove = (overrideReason?: string) => {
             // SCENARIO 1: Merge with existing item at destination
             if (existingDestItem) {
                 // 1. Update Destination
                 const newTotal = existingDestItem.quantity + qtyToMove;
                 const updatedDestItem = { ...existingDestItem, quantity: newTotal, updatedAt: Date.now() };
-                onInventoryChange('UPDATE', updatedDestItem, qtyToMove, undefined, new Date(selectedDate).getTime());
+                onInventoryChange('UPDATE', updatedDestItem, qtyToMove, withOverride(transfer, overrideReason), new Date(selectedDate).getTime());
 
                 // 2. Handle Source (only delete if not copying)
                 if (!isCopy) {
-                    onInventoryChange('DELETE', item, -item.quantity, undefined, getAdjustedTimestamp(selectedDate));
+                    onInventoryChange('DELETE', item, -item.quantity, transfer, getAdjustedTimestamp(selectedDate));
                 }
             }
             // SCENARIO 2: Move/Copy to empty slot
@@ -581,24 +697,25 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                         locations: [dest],
                         updatedAt: Date.now()
                     };
-                    onInventoryChange('ADD', newItem, item.quantity, undefined, getAdjustedTimestamp(selectedDate));
+                    onInventoryChange('ADD', newItem, item.quantity, withOverride(undefined, overrideReason), getAdjustedTimestamp(selectedDate));
                 } else {
                     // MOVE: Update location
                     const updatedItem = { ...item, locations: [dest], updatedAt: Date.now() };
-                    onInventoryChange('MOVE', updatedItem, 0, { previousLocation: item.locations[0] }, new Date(selectedDate).getTime());
+                    onInventoryChange('MOVE', updatedItem, 0, withOverride({ previousLocation: item.locations[0] }, overrideReason), new Date(selectedDate).getTime());
                 }
             }
         };
+        const run = () => withCapacityCheck([{ ...item, quantity: qtyToMove, bin: dest }], performMove);
 
         if (existingDestItem) {
             showConfirm(
                 isCopy ? "Merge & Copy?" : "Merge with Existing Item?",
                 `Destination bin already contains ${item.productName}. ${isCopy ? 'Copy' : 'Merge'} ${qtyToMove} units into it?`,
-                performMove,
+                run,
                 'confirm'
             );
         } else {
-            performMove();
+            run();
         }
     };
 
@@ -622,50 +739,42 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                         {/* Date Picker */}
 
 
-                        <button
-                            key="RACKS"
-                            onClick={() => { setSelectedRack('ALL'); setSelectedLocation(null); }}
-                            className={`px-4 py-1 text-sm font-bold rounded transition-colors whitespace-nowrap ${selectedRack === 'ALL'
-                                ? 'bg-amber-500 text-black'
-                                : 'bg-slate-800 text-slate-400 hover:text-amber-400'
-                                }`}
-                        >
-                            RACKS (A-J)
-                        </button>
-                        <button
-                            key="Zone"
-                            onClick={() => { setSelectedRack('Z'); setSelectedLocation(null); }}
-                            className={`px-4 py-1 text-sm font-bold rounded transition-colors whitespace-nowrap ${selectedRack === 'Z'
-                                ? 'bg-amber-500 text-black'
-                                : 'bg-slate-800 text-slate-400 hover:text-amber-400'
-                                }`}
-                        >
-                            Zone (Z)
-                        </button>
-                        <button
-                            key="Transit"
-                            onClick={() => { setSelectedRack('T'); setSelectedLocation(null); }}
-                            className={`px-4 py-1 text-sm font-bold rounded transition-colors whitespace-nowrap ${selectedRack === 'T'
-                                ? 'bg-amber-500 text-black'
-                                : 'bg-slate-800 text-slate-400 hover:text-amber-400'
-                                }`}
-                        >
-                            Transit (T)
-                        </button>
+                        {rackAreas.length > 0 && (
+                            <button
+                                key="RACKS"
+                                onClick={() => { setSelectedRack('ALL'); setSelectedLocation(null); }}
+                                className={`px-4 py-1 text-sm font-bold rounded transition-colors whitespace-nowrap ${selectedRack === 'ALL'
+                                    ? 'bg-amber-500 text-black'
+                                    : 'bg-slate-800 text-slate-400 hover:text-amber-400'
+                                    }`}
+                            >
+                                RACKS ({rackRange})
+                            </button>
+                        )}
 
-                        {['S', 'R'].map(zone => (
+                        {blockAreas.map(area => (
                             <button
-                                key={zone}
-                                onClick={() => { setSelectedRack(zone); setSelectedLocation(null); }}
-                                className={`px-4 py-1 text-sm font-bold rounded transition-colors whitespace-nowrap ${selectedRack === zone
+                                key={area.code}
+                                onClick={() => { setSelectedRack(area.code); setSelectedLocation(null); }}
+                                className={`px-4 py-1 text-sm font-bold rounded transition-colors whitespace-nowrap ${selectedRack === area.code
                                     ? 'bg-amber-500 text-black'
                                     : 'bg-slate-800 text-slate-400 hover:text-amber-400'
                                     }`}
                             >
-                                {getAreaName(zone)}
+                                {getAreaName(layout, area.code)}
                             </button>
                         ))}
                         <div className="w-px h-6 bg-white/10 mx-1 ml-auto"></div>
+                        <button
+                            onClick={() => setShowHeat(v => !v)}
+                            title="Color bins by occupancy"
+                            className={`flex items-center gap-1 px-3 py-1 text-sm font-bold rounded transition-colors whitespace-nowrap ${showHeat
+                                ? 'bg-orange-500 text-black'
+                                : 'bg-slate-800 text-slate-400 hover:text-orange-400'
+                                }`}
+                        >
+                            <Flame className="w-4 h-4" /> Heat
+                        </button>
                         <input
                             type="date"
                             value={selectedDate}
@@ -722,7 +831,7 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                             <div className="flex flex-col h-full">
                                 {/* Level Selector */}
                                 <div className="flex justify-center mb-6 gap-2">
-                                    {['Floor', '1', '2', '3'].map(lvl => (
+                                    {overviewLevels.map(lvl => (
                                         <button
                                             key={lvl}
                                             onClick={() => setLevelView(lvl)}
@@ -738,13 +847,11 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
 
                                 {/* Multi-Rack Grid */}
                                 <div className="flex overflow-x-auto pb-4 pt-2 px-2">
-                                    {[...STANDARD_RACKS].reverse().map((rack, index) => {
-                                        // Layout Logic:
-                                        // Floor: J (gap) H,G (gap) F,E (gap) D,C (gap) B,A (gap at 0, 2, 4, 6)
-                                        // Levels: J,H (gap) G,F (gap) E,D (gap) C,B (gap) A (gap at 1, 3, 5, 7)
-                                        const isGap = levelView === 'Floor'
-                                            ? index % 2 === 0  // Gap at 0, 2, 4, 6...
-                                            : index % 2 !== 0; // Gap at 1, 3, 5, 7...
+                                    {rackAreas.map((area, index) => {
+                                        // Layout Logic: an aisle gap wherever the floor plan leaves space before the next rack
+                                        const rack = area.code;
+                                        const next = rackAreas[index + 1];
+                                        const isGap = !!next && next.x > area.x + area.width;
 
                                         return (
                                             <div
@@ -754,7 +861,10 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
 
 
                                                 <div className="flex flex-col gap-1">
-                                                    {Array.from({ length: 12 }, (_, i) => 12 - i).map(bay => {
+                                                    {!area.levels.includes(levelView) && (
+                                                        <div className="h-8 flex items-center justify-center text-[10px] text-slate-600 border border-dashed border-white/10 rounded-sm">No level</div>
+                                                    )}
+                                                    {area.levels.includes(levelView) && Array.from({ length: area.bays }, (_, i) => area.bays - i).map(bay => {
                                                         const items = getItemsInCell(rack, bay, levelView);
                                                         const hasItems = items.length > 0;
                                                         const isSelected = selectedLocation?.rack === rack && selectedLocation?.bay === bay && selectedLocation?.level === levelView;
@@ -789,9 +899,7 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                                                             : (!isDisabled ? 'border-white/5' : '')}
                                                                     ${!isDisabled && isMatch ? 'ring-2 ring-yellow-400 bg-yellow-400/20 z-20 shadow-[0_0_10px_rgba(250,204,21,0.5)]' : ''}
                                                                     ${!isDisabled && isDimmed ? 'opacity-20 grayscale' : ''}
-                                                                    ${!isDisabled && !isMatch && hasItems
-                                                                            ? 'bg-primary/20 hover:bg-primary/30 border-primary/30 text-primary-200'
-                                                                            : !isDisabled && !isMatch ? 'bg-white/5 hover:bg-white/10 text-slate-600' : ''}
+                                                                    ${!isDisabled && !isMatch ? getCellFillClass(key, hasItems) : ''}
                                                                     ${isDisabled ? 'opacity-100 cursor-not-allowed' : ''}
                                                                 `}
                                                                 >
@@ -800,7 +908,9 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                                                     )}
                                                                     <span className="text-[10px] font-bold absolute left-1 top-1/2 -translate-y-1/2 opacity-30 pointer-events-none">{bay}</span>
 
-                                                                    {hasItems ? (
+                                                                    {showHeat && binFill.has(key) ? (
+                                                                        <span className="relative z-10 ml-2 text-[10px] font-bold leading-none">{binFill.get(key)}%</span>
+                                                                    ) : hasItems ? (
                                                                         <div className="flex flex-col items-center ml-2 transition-transform duration-200 group-hover:scale-125">
                                                                             <Package className="w-3 h-3 text-primary" />
                                                                             <span className="text-[10px] font-bold leading-none text-white">{items.length}</span>
@@ -823,22 +933,22 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                     })}
                                 </div>
                             </div>
-                        ) : STANDARD_RACKS.includes(selectedRack) ? (
-                            // SPECIAL LAYOUT FOR Racks A-J: Rows=Bays(12-1), Cols=Levels(Floor-3)
+                        ) : currentConfig?.kind === 'rack' ? (
+                            // SPECIAL LAYOUT FOR Racks: Rows=Bays (top bay first), Cols=Levels (ground level first)
                             // NOTE: Keeping this view read-only or unsupported for D&D for now or I should update it too.
                             // The user said "Visual Map", and they use the other views. Let's update this one too for consistency.
                             <>
                                 {/* Header Row - Levels */}
                                 <div className="flex mb-2 pl-12">
-                                    {['Floor', '1', '2', '3'].map(levelDisplay => (
+                                    {[...currentLevels].reverse().map(levelDisplay => (
                                         <div key={levelDisplay} className={`w-10 mx-2 text-center text-[10px] font-bold text-slate-500 uppercase flex-none ${levelDisplay === 'Floor' ? 'mr-8' : ''}`}>
                                             {levelDisplay === 'Floor' ? 'FLR' : `L${levelDisplay}`}
                                         </div>
                                     ))}
                                 </div>
 
-                                {/* Body - Rows are Bays (12 down to 1) */}
-                                {Array.from({ length: 12 }, (_, i) => 12 - i).map(bay => (
+                                {/* Body - Rows are Bays (top bay down to 1) */}
+                                {Array.from({ length: currentBays }, (_, i) => currentBays - i).map(bay => (
                                     <div key={bay} className="flex mb-1">
                                         {/* Row Label - Bay */}
                                         <div className="w-12 flex-none flex items-center justify-center text-[10px] font-bold text-slate-500 text-center px-1">
@@ -846,7 +956,7 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                         </div>
 
                                         {/* Cells - Columns are Levels */}
-                                        {['Floor', '1', '2', '3'].map(level => {
+                                        {[...currentLevels].reverse().map(level => {
                                             const items = getItemsInCell(selectedRack, bay, level);
                                             const hasItems = items.length > 0;
                                             const isSelected = selectedLocation?.rack === selectedRack && selectedLocation?.bay === bay && selectedLocation?.level === level;
@@ -881,16 +991,16 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                                             : (!isDisabled ? 'border-white/5' : '')}
                                                          ${!isDisabled && isMatch ? 'ring-2 ring-yellow-400 bg-yellow-400/20 z-20 shadow-[0_0_10px_rgba(250,204,21,0.5)]' : ''}
                                                          ${!isDisabled && isDimmed ? 'opacity-20 grayscale' : ''}
-                                                         ${!isDisabled && !isMatch && hasItems
-                                                            ? 'bg-primary/20 hover:bg-primary/30 border-primary/30 text-primary-200'
-                                                            : !isDisabled && !isMatch ? 'bg-white/5 hover:bg-white/10 text-slate-600' : ''}
+                                                         ${!isDisabled && !isMatch ? getCellFillClass(key, hasItems) : ''}
                                                          ${isDisabled ? 'opacity-100 cursor-not-allowed' : ''}
                                                      `}
                                                 >
                                                     {isDisabled && (
                                                         <div className="absolute inset-0 bg-[linear-gradient(45deg,rgba(239,68,68,0.2)_25%,transparent_25%,transparent_50%,rgba(239,68,68,0.2)_50%,rgba(239,68,68,0.2)_75%,transparent_75%,transparent_100%)] bg-[length:8px_8px] z-0"></div>
                                                     )}
-                                                    {hasItems ? (
+                                                    {showHeat && binFill.has(key) ? (
+                                                        <span className="relative z-10 text-[10px] font-bold leading-none">{binFill.get(key)}%</span>
+                                                    ) : hasItems ? (
                                                         <div className="flex flex-col items-center transition-transform duration-200 group-hover:scale-125">
                                                             <Package className={`w-3 h-3 ${isSelected ? 'text-white' : 'text-primary'}`} />
                                                             <span className={`text-[10px] font-bold leading-none ${isSelected ? 'text-white' : 'text-primary-100'}`}>{items.length}</span>
@@ -946,9 +1056,7 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                                                     : (!isDisabled ? 'border-white/5' : '')}
                                                                 ${!isDisabled && isMatch ? 'ring-2 ring-yellow-400 bg-yellow-400/20 z-20 shadow-[0_0_10px_rgba(250,204,21,0.5)]' : ''}
                                                                 ${!isDisabled && isDimmed ? 'opacity-20 grayscale' : ''}
-                                                                ${!isDisabled && !isMatch && hasItems
-                                                                    ? 'bg-primary/20 hover:bg-primary/30 border-primary/30 text-primary-200'
-                                                                    : !isDisabled && !isMatch ? 'bg-white/5 hover:bg-white/10 text-slate-600' : ''}
+                                                                ${!isDisabled && !isMatch ? getCellFillClass(key, hasItems) : ''}
                                                                 ${isDisabled ? 'opacity-100 cursor-not-allowed' : ''}
                                                             `}
                                                         >
@@ -961,7 +1069,9 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                                             </span>
 
                                                             {/* Content */}
-                                                            {hasItems ? (
+                                                            {showHeat && binFill.has(key) ? (
+                                                                <span className="relative z-10 ml-2 text-[10px] font-bold leading-none">{binFill.get(key)}%</span>
+                                                            ) : hasItems ? (
                                                                 <div className="flex flex-col items-center ml-2 transition-transform duration-200 group-hover:scale-125">
                                                                     <Package className={`w-3 h-3 ${isSelected ? 'text-white' : 'text-primary'}`} />
                                                                     <span className={`text-[10px] font-bold leading-none ${isSelected ? 'text-white' : 'text-primary-100'}`}>{items.length}</span>
@@ -987,14 +1097,26 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                 </div>
 
                 <div className="mt-4 flex gap-4 text-sm text-slate-500">
-                    <div className="flex items-center gap-2"><div className="w-4 h-4 bg-primary/20 border border-primary/30 rounded"></div> Occupied</div>
-                    <div className="flex items-center gap-2"><div className="w-4 h-4 bg-white/5 border border-white/10 rounded"></div> Empty</div>
+                    {showHeat ? (
+                        <>
+                            <div className="flex items-center gap-2"><div className={`w-4 h-4 border rounded ${getOccupancyColor(50)}`}></div> &lt;60%</div>
+                            <div className="flex items-center gap-2"><div className={`w-4 h-4 border rounded ${getOccupancyColor(75)}`}></div> 60-89%</div>
+                            <div className="flex items-center gap-2"><div className={`w-4 h-4 border rounded ${getOccupancyColor(95)}`}></div> 90-100%</div>
+                            <div className="flex items-center gap-2"><div className={`w-4 h-4 border rounded ${getOccupancyColor(120)}`}></div> Over</div>
+                            <div className="flex items-center gap-2"><div className={`w-4 h-4 border rounded ${getOccupancyColor()}`}></div> No limit</div>
+                        </>
+                    ) : (
+                        <>
+                            <div className="flex items-center gap-2"><div className="w-4 h-4 bg-primary/20 border border-primary/30 rounded"></div> Occupied</div>
+                            <div className="flex items-center gap-2"><div className="w-4 h-4 bg-white/5 border border-white/10 rounded"></div> Empty</div>
+                        </>
+                    )}
                     <div className="flex items-center gap-2"><div className="w-4 h-4 border-2 border-primary rounded"></div> Selected</div>
                     <div className="flex items-center gap-2"><div className="w-4 h-4 bg-red-500/20 border border-red-500/50 rounded bg-[linear-gradient(45deg,rgba(239,68,68,0.2)_25%,transparent_25%,transparent_50%,rgba(239,68,68,0.2)_50%,rgba(239,68,68,0.2)_75%,transparent_75%,transparent_100%)] bg-[length:4px_4px]"></div> Disabled</div>
                     <div className="flex items-center gap-2 text-slate-400 text-xs ml-auto">
                         {selectedRack === 'ALL'
                             ? `Overview Mode - Showing Level: ${levelView === 'Floor' ? 'Floor' : levelView}`
-                            : `Area: ${getAreaName(selectedRack)} (${currentBays} Bays x ${currentLevels.length} Levels)`
+                            : `Area: ${getAreaName(layout, selectedRack)} (${currentBays} Bays x ${currentLevels.length} Levels)`
                         }
                     </div>
                 </div>
@@ -1036,6 +1158,77 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                             </div>
                         )}
 
+                        {/* Capacity & Occupancy */}
+                        {selectedMasterLoc && (
+                            <div className="mb-4 p-3 bg-black/20 border border-white/10 rounded-lg text-xs">
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="font-bold text-slate-300 uppercase tracking-wider flex items-center gap-1"><Gauge className="w-3 h-3" /> Capacity</span>
+                                    {binFill.has(selectedMasterLoc.binCode) ? (
+                                        <span className={`px-1.5 py-0.5 rounded border font-bold ${getOccupancyColor(binFill.get(selectedMasterLoc.binCode))}`}>
+                                            {binFill.get(selectedMasterLoc.binCode)}% full
+                                        </span>
+                                    ) : (
+                                        <span className="text-slate-500">No limit</span>
+                                    )}
+                                </div>
+                                {binFill.has(selectedMasterLoc.binCode) && (
+                                    <div className="text-slate-400 font-mono mb-2">
+                                        {describeBinLoad(selectedMasterLoc, getBinLoads(selectedCellItems, products).get(selectedMasterLoc.binCode))}
+                                    </div>
+                                )}
+                                {onUpdateBinCapacity && (
+                                    <div className="space-y-2">
+                                        <div className="flex gap-2">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                placeholder="No limit"
+                                                value={capacityDraft.capacity}
+                                                onChange={(e) => setCapacityDraft(prev => ({ ...prev, capacity: e.target.value }))}
+                                                className="w-20 px-2 py-1 bg-black/40 border border-white/10 rounded text-white outline-none focus:border-primary"
+                                            />
+                                            <select
+                                                value={capacityDraft.unit}
+                                                onChange={(e) => setCapacityDraft(prev => ({ ...prev, unit: e.target.value as 'pallets' | 'cases' }))}
+                                                className="flex-1 px-2 py-1 bg-black/40 border border-white/10 rounded text-white outline-none"
+                                            >
+                                                {Object.entries(BIN_CAPACITY_UNIT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                            </select>
+                                        </div>
+                                        <div className="flex gap-2 items-center">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                placeholder="No limit"
+                                                value={capacityDraft.maxWeightKg}
+                                                onChange={(e) => setCapacityDraft(prev => ({ ...prev, maxWeightKg: e.target.value }))}
+                                                className="w-20 px-2 py-1 bg-black/40 border border-white/10 rounded text-white outline-none focus:border-primary"
+                                            />
+                                            <span className="text-slate-500">kg max</span>
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <select
+                                                value={capacityDraft.scope}
+                                                onChange={(e) => setCapacityDraft(prev => ({ ...prev, scope: e.target.value as CapacityScope }))}
+                                                className="flex-1 px-2 py-1 bg-black/40 border border-white/10 rounded text-white outline-none"
+                                            >
+                                                <option value="bin">This bin</option>
+                                                <option value="level">Level {selectedMasterLoc.level} of {selectedMasterLoc.rack}</option>
+                                                <option value="rack">All of {getAreaName(layout, selectedMasterLoc.rack)}</option>
+                                            </select>
+                                            <button
+                                                type="button"
+                                                onClick={handleSaveCapacity}
+                                                className="px-3 py-1 rounded bg-primary text-white font-bold hover:bg-violet-600"
+                                            >
+                                                Set
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
                         <div className="p-3">
                             {/* Persistent Add Item Form (Outside Scroll) */}
                             {canEdit && !isSelectedBinDisabled && (
@@ -1158,6 +1351,26 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                                         </div>
                                                     </div>
 
+                                                    {(item.lotNumber || item.expiryDate || item.status === 'quarantine') && (
+                                                        <div className="flex flex-wrap gap-1 mt-2">
+                                                            {item.status === 'quarantine' && (
+                                                                <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-red-500/20 text-red-400 border border-red-500/30 uppercase">
+                                                                    Hold
+                                                                </span>
+                                                            )}
+                                                            {item.lotNumber && (
+                                                                <span className="px-1.5 py-0.5 rounded text-[10px] font-mono bg-white/5 text-slate-300 border border-white/10">
+                                                                    LOT {item.lotNumber}
+                                                                </span>
+                                                            )}
+                                                            {item.expiryDate && (
+                                                                <span className={`px-1.5 py-0.5 rounded text-[10px] font-mono ${getExpiryColor(item.expiryDate)}`}>
+                                                                    EXP {new Date(item.expiryDate).toLocaleDateString()}
+                                                                </span>
+                                                            )}
+                                                        </div>
+                                                    )}
+
                                                     {item.lastCountedAt && (
                                                         <div className="flex items-center gap-1.5 mt-3 pt-3 border-t border-white/5 text-[10px] text-cyan-400 font-mono">
                                                             <ClipboardIcon className="w-3 h-3" />
@@ -1241,14 +1454,14 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                                             onChange={(e) => setMoveDest({ ...moveDest, rack: e.target.value })}
                                                             className="w-12 px-1 py-1.5 text-xs border border-white/10 rounded bg-slate-950 text-white focus:border-purple-500 outline-none"
                                                         >
-                                                            {Object.keys(AREA_CONFIG).map(r => <option key={r} value={r}>{r}</option>)}
+                                                            {layout.areas.map(a => <option key={a.code} value={a.code}>{a.code}</option>)}
                                                         </select>
                                                         <select
                                                             value={moveDest.bay}
                                                             onChange={(e) => setMoveDest({ ...moveDest, bay: parseInt(e.target.value) || 1 })}
                                                             className="flex-1 px-1 py-1.5 text-xs border border-white/10 rounded bg-slate-950 text-white focus:border-purple-500 outline-none"
                                                         >
-                                                            {Array.from({ length: AREA_CONFIG[moveDest.rack]?.bays || 12 }, (_, i) => i + 1).map(b => (
+                                                            {Array.from({ length: findArea(layout, moveDest.rack)?.bays || 12 }, (_, i) => i + 1).map(b => (
                                                                 <option key={b} value={b}>{b}</option>
                                                             ))}
                                                         </select>
@@ -1257,7 +1470,7 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                                             onChange={(e) => setMoveDest({ ...moveDest, level: e.target.value })}
                                                             className="w-16 px-1 py-1.5 text-xs border border-white/10 rounded bg-slate-950 text-white focus:border-purple-500 outline-none"
                                                         >
-                                                            {AREA_CONFIG[moveDest.rack]?.levels.map(l => <option key={l} value={l}>{l === 'Floor' ? 'Flr' : l}</option>)}
+                                                            {findArea(layout, moveDest.rack)?.levels.map(l => <option key={l} value={l}>{l === 'Floor' ? 'Flr' : l}</option>)}
                                                         </select>
                                                     </div>
                                                     <div className="flex gap-2">
@@ -1298,14 +1511,28 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                         </div>
                         <div className="mb-6">
                             <label className="block text-xs uppercase text-slate-400 font-bold mb-1">Actual Quantity</label>
-                            <input
-                                type="number"
-                                autoFocus
-                                value={countQty}
-                                onChange={(e) => setCountQty(e.target.value)}
-                                className="w-full bg-black/40 border border-white/10 rounded px-3 py-2 text-white focus:ring-2 focus:ring-primary outline-none font-mono text-lg"
-                                placeholder="Enter qty..."
-                            />
+                            <div className="flex gap-2">
+                                <input
+                                    type="number"
+                                    autoFocus
+                                    value={countQty}
+                                    onChange={(e) => setCountQty(e.target.value)}
+                                    className="w-full bg-black/40 border border-white/10 rounded px-3 py-2 text-white focus:ring-2 focus:ring-primary outline-none font-mono text-lg"
+                                    placeholder="Enter qty..."
+                                />
+                                <select
+                                    value={countUnit}
+                                    onChange={(e) => setCountUnit(e.target.value)}
+                                    className="bg-black/40 border border-white/10 rounded px-2 text-white outline-none font-bold"
+                                >
+                                    {getUnitFactors(countProduct, countItem.unit).map(u => <option key={u.unit} value={u.unit}>{u.unit}</option>)}
+                                </select>
+                            </div>
+                            {countQty && countUnit !== countItem.unit && (
+                                <p className="text-xs text-slate-500 mt-1">
+                                    = {convertQty(countProduct, parseFloat(countQty) || 0, countUnit, countItem.unit) ?? '?'} {countItem.unit}
+                                </p>
+                            )}
                         </div>
                         <div className="flex justify-end gap-3">
                             <button
@@ -1343,6 +1570,11 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                 DISABLED
                             </span>
                         )}
+                        {!tooltipData.isDisabled && binFill.has(tooltipData.title) && (
+                            <span className={`text-[10px] px-1.5 py-0.5 rounded border font-bold ${getOccupancyColor(binFill.get(tooltipData.title))}`}>
+                                {binFill.get(tooltipData.title)}% FULL
+                            </span>
+                        )}
                     </div>
                     {tooltipData.items.length > 0 ? (
                         tooltipData.items.map((item, idx) => {
@@ -1354,7 +1586,13 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                                             <div className="font-medium text-white text-sm mb-0.5 whitespace-normal leading-tight" title={item.productName}>{item.productName}</div>
                                             <div className="text-slate-400 flex justify-between items-center text-xs font-mono">
                                                 <span>Qty: <span className="text-primary-300">{item.quantity}</span> {item.unit}</span>
+                                                {item.expiryDate && (
+                                                    <span className={`px-1 rounded text-[10px] ${getExpiryColor(item.expiryDate)}`}>
+                                                        EXP {new Date(item.expiryDate).toLocaleDateString()}
+                                                    </span>
+                                                )}
                                             </div>
+                                            {item.lotNumber && <div className="text-[10px] text-slate-500 font-mono">LOT {item.lotNumber}</div>}
                                         </div>
                                         {product?.image && (
                                             <div className="w-10 h-10 rounded bg-black/40 border border-white/10 overflow-hidden flex-shrink-0 flex items-center justify-center">
@@ -1379,6 +1617,7 @@ const WarehouseMap: React.FC<WarehouseMapProps> = ({ inventory, products, master
                 title={modalConfig.title}
                 message={modalConfig.message}
                 type={modalConfig.type}
+                reasonLabel={modalConfig.reasonLabel}
             />
         </div>
     );
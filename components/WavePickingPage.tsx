@@ -0,0 +1,246 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { InventoryItem, OutboundOrder, Product, WarehouseLayout } from '../types';
+import { buildWavePlan } from '../services/wavePicking';
+import { getOrderLineRemaining } from '../services/outboundOrders';
+import { getExpiryColor, printDocument } from '../utils';
+import { Route, Printer, CheckCircle, AlertTriangle, Square, ListChecks } from 'lucide-react';
+
+interface WavePickingPageProps {
+    outboundOrders: OutboundOrder[];
+    inventory: InventoryItem[];
+    products: Product[];
+    layout: WarehouseLayout;
+    onStartPicking: (orderId: string) => boolean;
+    onProcessWave: (itemsToRemove: { id: string, qty: number, unit?: string, orderId?: string }[], note?: string) => void;
+}
+
+const formatBin = (loc: { rack: string; bay: number; level: string }) => `${loc.rack}-${loc.bay}-${loc.level}`;
+
+const WavePickingPage: React.FC<WavePickingPageProps> = ({ outboundOrders, inventory, products, layout, onStartPicking, onProcessWave }) => {
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [pickedStops, setPickedStops] = useState<Set<string>>(new Set());
+    const sheetRef = useRef<HTMLDivElement>(null);
+
+    // Only orders with something left to pick can join a wave
+    const candidates = outboundOrders
+        .filter(o => o.status !== 'shipped' && o.lines.some(l => getOrderLineRemaining(l) > 0))
+        .sort((a, b) => (a.requestedDate || Infinity) - (b.requestedDate || Infinity) || a.createdAt - b.createdAt);
+    const waveOrders = candidates.filter(o => selectedIds.includes(o.id));
+
+    const plan = useMemo(() => buildWavePlan(waveOrders, inventory, products, layout), [selectedIds, outboundOrders, inventory, products, layout]);
+    const totalUnits = plan.stops.reduce((acc, s) => acc + s.qty, 0);
+    const waveLabel = waveOrders.map(o => o.orderNumber).join(', ');
+
+    const toggleOrder = (id: string) => {
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+        setPickedStops(new Set());
+    };
+
+    const toggleStop = (batchId: string) => {
+        setPickedStops(prev => {
+            const next = new Set(prev);
+            if (next.has(batchId)) next.delete(batchId);
+            else next.add(batchId);
+            return next;
+        });
+    };
+
+    const handlePrint = () => {
+        waveOrders.forEach(o => onStartPicking(o.id));
+        if (sheetRef.current) printDocument(`Pick Sheet - ${waveLabel}`, sheetRef.current.innerHTML);
+    };
+
+    const handleConfirm = () => {
+        const items = plan.stops.flatMap(stop => stop.orders.map(o => ({ id: stop.batchId, qty: o.qty, unit: stop.unit, orderId: o.orderId })));
+        onProcessWave(items, `Wave ${waveLabel}`);
+        setSelectedIds([]);
+        setPickedStops(new Set());
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-slate-900/60 backdrop-blur-md p-6 rounded-xl shadow-[0_0_15px_rgba(0,0,0,0.5)] border border-white/10">
+                <div className="flex items-center gap-3">
+                    <div className="bg-primary/20 p-2 rounded-lg border border-primary/50 shadow-[0_0_10px_rgba(139,92,246,0.3)]">
+                        <Route className="w-6 h-6 text-primary" />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-bold text-white font-display uppercase tracking-wider">Wave Picking</h2>
+                        <p className="text-sm text-slate-400">Pick several orders in one walk: A → J up and down the aisles, then S, R, Z, T.</p>
+                    </div>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Order selection */}
+                <div className="bg-slate-900/60 backdrop-blur-md rounded-xl border border-white/10 p-4 space-y-2 h-fit">
+                    <div className="flex items-center justify-between mb-2">
+                        <h3 className="font-bold text-slate-300 uppercase tracking-wider text-sm">Orders</h3>
+                        {candidates.length > 0 && (
+                            <button
+                                onClick={() => setSelectedIds(selectedIds.length === candidates.length ? [] : candidates.map(o => o.id))}
+                                className="text-xs font-bold text-primary hover:text-primary/80"
+                            >
+                                {selectedIds.length === candidates.length ? 'Clear' : 'Select all'}
+                            </button>
+                        )}
+                    </div>
+                    {candidates.length === 0 && <p className="text-sm text-slate-500 italic">No orders waiting to be picked.</p>}
+                    {candidates.map(order => {
+                        const remaining = order.lines.reduce((acc, l) => acc + getOrderLineRemaining(l), 0);
+                        const isSelected = selectedIds.includes(order.id);
+                        return (
+                            <label
+                                key={order.id}
+                                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${isSelected ? 'bg-primary/10 border-primary/50' : 'bg-black/20 border-white/5 hover:border-white/20'}`}
+                            >
+                                <input type="checkbox" checked={isSelected} onChange={() => toggleOrder(order.id)} className="mt-1 accent-primary" />
+                                <div className="min-w-0 flex-1">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-mono font-bold text-slate-200">{order.orderNumber}</span>
+                                        <span className="text-[10px] font-bold uppercase text-slate-500">{order.status}</span>
+                                    </div>
+                                    <div className="text-xs text-slate-400 truncate">{order.customerName}</div>
+                                    <div className="text-xs text-slate-500">
+                                        {remaining} units to pick{order.requestedDate ? ` • due ${new Date(order.requestedDate).toLocaleDateString()}` : ''}
+                                    </div>
+                                </div>
+                            </label>
+                        );
+                    })}
+                </div>
+
+                {/* Pick sheet */}
+                <div className="lg:col-span-2 bg-slate-900/60 backdrop-blur-md rounded-xl border border-white/10 overflow-hidden flex flex-col">
+                    <div className="p-4 border-b border-white/10 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                        <div className="flex items-center gap-4 text-sm">
+                            <span className="text-slate-400"><span className="text-white font-bold font-mono">{waveOrders.length}</span> orders</span>
+                            <span className="text-slate-400"><span className="text-white font-bold font-mono">{plan.stops.length}</span> stops</span>
+                            <span className="text-slate-400"><span className="text-white font-bold font-mono">{totalUnits}</span> units</span>
+                        </div>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handlePrint}
+                                disabled={plan.stops.length === 0}
+                                className="px-4 py-2 bg-slate-800 text-slate-200 border border-white/10 rounded-lg hover:bg-slate-700 disabled:opacity-50 flex items-center gap-2 text-sm font-bold transition-colors"
+                            >
+                                <Printer className="w-4 h-4" /> Print Pick Sheet
+                            </button>
+                            <button
+                                onClick={handleConfirm}
+                                disabled={plan.stops.length === 0}
+                                className="px-4 py-2 bg-green-500 hover:bg-green-600 disabled:opacity-50 disabled:grayscale text-white rounded-lg flex items-center gap-2 text-sm font-bold transition-colors"
+                            >
+                                <CheckCircle className="w-4 h-4" /> Confirm Picked
+                            </button>
+                        </div>
+                    </div>
+
+                    {plan.shortLines.length > 0 && (
+                        <div className="m-4 mb-0 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-xs text-amber-300 space-y-0.5">
+                            <p className="font-bold uppercase flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> Not enough pickable stock</p>
+                            {plan.shortLines.map((l, i) => <p key={i} className="font-mono">{l.orderNumber}: {l.productCode} short {l.qty}</p>)}
+                        </div>
+                    )}
+
+                    {plan.stops.length === 0 ? (
+                        <div className="p-10 text-center text-slate-500 flex flex-col items-center gap-2">
+                            <ListChecks className="w-10 h-10 opacity-50" />
+                            Select orders to build a wave.
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-left text-sm text-slate-400">
+                                <thead className="bg-black/40 text-xs uppercase font-bold text-slate-400 border-b border-white/10 tracking-wider">
+                                    <tr>
+                                        <th className="px-4 py-3 w-10">#</th>
+                                        <th className="px-4 py-3">Bin</th>
+                                        <th className="px-4 py-3">Item</th>
+                                        <th className="px-4 py-3 text-right">Take</th>
+                                        <th className="px-4 py-3">Split</th>
+                                        <th className="px-4 py-3 w-10"></th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-white/5">
+                                    {plan.stops.map(stop => {
+                                        const done = pickedStops.has(stop.batchId);
+                                        return (
+                                            <tr key={stop.batchId} className={`transition-colors ${done ? 'opacity-40' : 'hover:bg-white/5'}`}>
+                                                <td className="px-4 py-3 font-mono text-slate-500">{stop.sequence}</td>
+                                                <td className="px-4 py-3 font-mono font-bold text-white text-base">{formatBin(stop.location)}</td>
+                                                <td className="px-4 py-3">
+                                                    <div className="font-medium text-slate-200">{stop.name}</div>
+                                                    <div className="text-xs text-slate-500 font-mono flex flex-wrap gap-1 items-center">
+                                                        {stop.productCode}
+                                                        {stop.lotNumber && <span>• {stop.lotNumber}</span>}
+                                                        {stop.expiryDate && <span className={`px-1 rounded ${getExpiryColor(stop.expiryDate)}`}>EXP {new Date(stop.expiryDate).toLocaleDateString()}</span>}
+                                                    </div>
+                                                </td>
+                                                <td className="px-4 py-3 text-right font-mono font-bold text-white">{stop.qty} <span className="text-xs text-slate-500 font-normal">{stop.unit}</span></td>
+                                                <td className="px-4 py-3 text-xs font-mono">
+                                                    {stop.orders.map(o => <div key={o.orderId}>{o.orderNumber} × {o.qty}</div>)}
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <button onClick={() => toggleStop(stop.batchId)} className="text-slate-400 hover:text-green-400" title="Mark picked">
+                                                        {done ? <CheckCircle className="w-5 h-5 text-green-400" /> : <Square className="w-5 h-5" />}
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {plan.demand.length > 0 && (
+                        <div className="p-4 border-t border-white/10">
+                            <p className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">Consolidated Demand</p>
+                            <div className="flex flex-wrap gap-2">
+                                {plan.demand.map(d => (
+                                    <span key={d.productCode} className={`px-2 py-1 rounded text-xs font-mono border ${d.allocated < d.requested ? 'bg-amber-500/10 text-amber-300 border-amber-500/30' : 'bg-black/20 text-slate-300 border-white/10'}`}>
+                                        {d.productCode} {d.allocated}/{d.requested} {d.unit}
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Paper copy for printing */}
+            <div ref={sheetRef} className="hidden">
+                <h1>Pick Sheet</h1>
+                <div className="muted">{waveLabel} • {new Date().toLocaleString()} • {plan.stops.length} stops, {totalUnits} units</div>
+                <table>
+                    <thead>
+                        <tr>
+                            <th>#</th>
+                            <th>Bin</th>
+                            <th>Item</th>
+                            <th>Lot / Expiry</th>
+                            <th className="num">Take</th>
+                            <th>Split</th>
+                            <th className="check">✓</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {plan.stops.map(stop => (
+                            <tr key={stop.batchId}>
+                                <td>{stop.sequence}</td>
+                                <td><strong>{formatBin(stop.location)}</strong></td>
+                                <td>{stop.name} <span className="muted">{stop.productCode}</span></td>
+                                <td>{stop.lotNumber || '-'}{stop.expiryDate ? ` / ${new Date(stop.expiryDate).toLocaleDateString()}` : ''}</td>
+                                <td className="num">{stop.qty} {stop.unit}</td>
+                                <td>{stop.orders.map(o => `${o.orderNumber} × ${o.qty}`).join(', ')}</td>
+                                <td></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default WavePickingPage;
@@ -0,0 +1,40 @@
+import { LayoutArea, WarehouseLayout } from '../types';
+
+const BAYS_PER_RACK = 12;
+const RACK_LEVELS = ['3', '2', '1', 'Floor'];
+
+// Aisles in walking order, with their floor plan column: J | H G | F E | D C | B A
+const STANDARD_RACKS: { code: string; x: number }[] = [
+    { code: 'A', x: 12 }, { code: 'B', x: 11 }, { code: 'C', x: 9 }, { code: 'D', x: 8 }, { code: 'E', x: 6 },
+    { code: 'F', x: 5 }, { code: 'G', x: 3 }, { code: 'H', x: 2 }, { code: 'J', x: 0 }
+];
+
+const countDown = (from: number) => Array.from({ length: from }, (_, i) => String(from - i));
+
+// Factory layout: used until an admin saves one (Warehouse Layout). Version 0 is never stored.
+export const DEFAULT_LAYOUT_AREAS: LayoutArea[] = [
+    // Standard Racks (A-J)
+    ...STANDARD_RACKS.map(({ code, x }): LayoutArea => ({
+        code, kind: 'rack', bays: BAYS_PER_RACK, levels: RACK_LEVELS, x, y: 0, width: 1, height: BAYS_PER_RACK
+    })),
+
+    // Staging Area (S), 11 Bays, Levels 12 down to 1
+    { code: 'S', name: 'Staging', kind: 'area', bays: 11, levels: countDown(12), x: 15, y: 0, width: 6, height: 4 },
+
+    // Reserve (formerly Adjustment) (R), 7 Rows (Bays), 4 Bays (Levels)
+    { code: 'R', name: 'Reserve', kind: 'area', bays: 7, levels: countDown(4), x: 15, y: 5, width: 4, height: 3 },
+
+    // Zone (formerly Reserve) (Z), 4 Rows (Bays), 8 Bays (Levels)
+    { code: 'Z', name: 'Zone', kind: 'area', bays: 4, levels: countDown(8), x: 15, y: 9, width: 4, height: 3 },
+
+    // Transit Area (T), 5 Bays, 5 Levels
+    { code: 'T', name: 'Transit', kind: 'area', bays: 5, levels: countDown(5), x: 0, y: 14, width: 5, height: 2 }
+];
+
+export const DEFAULT_WAREHOUSE_LAYOUT: WarehouseLayout = {
+    id: 'factory',
+    version: 0,
+    areas: DEFAULT_LAYOUT_AREAS,
+    note: 'Factory layout',
+    updatedAt: 0
+};
@@ -0,0 +1,8 @@
+// Factory categories & units: used until someone edits them (Categories / Units pages).
+// Values already used by products are added on top, so an imported catalog never loses its picks.
+export const DEFAULT_CATEGORIES = [
+    'RTE', 'RAW', 'FG', 'WIP', 'PKG', 'OTH',
+    'Box', 'Film', 'Tray', 'Sushi', 'Tape', 'Wrap', 'Pallet'
+];
+
+export const DEFAULT_UNITS = ['CS', 'PLT', 'BG', 'ROL', 'BX', 'pcs', 'kg'];
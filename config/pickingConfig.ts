@@ -1,15 +1,70 @@
-export const PICKING_RULES = {
-    P1_KEYWORDS: ["sugar", "vinegar", "peach", "糖", "醋", "桃"],
-    P2_KEYWORDS: ["sushi tray", "sushi"],
-    P3_KEYWORDS: ["bh-20", "bx-20", "bx -20"],
-    P3_UOMS: ["PLT"],
-    MISC_ORDER: [
-        "ginger",
-        "soy sauce",
-        "wasabi",
-        "nori",
-        "label",
-        "sflm-2",
-        "sbm-24c"
-    ]
-} as const;
+import { PalletRule } from '../types';
+
+// Physical pallet used by the Smart Pick pallet builder
+export const PALLET_SPEC = {
+    lengthCm: 120,
+    widthCm: 100,
+    maxLoadHeightCm: 150, // Load height above the deck
+    maxWeightKg: 1000,
+    fillFactor: 0.85 // Share of the cube usable once cases are stacked
+};
+
+// Factory pallet rules: used until a supervisor edits them (Smart Pick > Pallet Rules)
+export const DEFAULT_PALLET_RULES: PalletRule[] = [
+    {
+        id: 'kitchen',
+        title: 'Kitchen (Sugar / Vinegar / Peach)',
+        note: 'Standalone Pallet',
+        color: 'violet',
+        priority: 1,
+        productCodes: [],
+        categories: [],
+        departments: [],
+        uoms: [],
+        keywords: ['sugar', 'vinegar', 'peach', '糖', '醋', '桃'],
+        sortKeywords: [],
+        updatedAt: 0
+    },
+    {
+        id: 'misc',
+        title: 'Miscellaneous',
+        note: 'Ordered by Priority',
+        color: 'blue',
+        priority: 2,
+        productCodes: [],
+        categories: [],
+        departments: [],
+        uoms: [],
+        keywords: [],
+        sortKeywords: ['ginger', 'soy sauce', 'wasabi', 'nori', 'label', 'sflm-2', 'sbm-24c'],
+        isFallback: true,
+        updatedAt: 0
+    },
+    {
+        id: 'full-pallet',
+        title: 'Full Pallet Items (BH-20 / BX-20)',
+        note: 'Dedicated Pallet',
+        color: 'emerald',
+        priority: 3,
+        productCodes: [],
+        categories: [],
+        departments: [],
+        uoms: ['PLT'],
+        keywords: ['bh-20', 'bx-20', 'bx -20'],
+        sortKeywords: [],
+        updatedAt: 0
+    },
+    {
+        id: 'product-pallets',
+        title: 'Product Pallets',
+        color: 'amber',
+        priority: 4,
+        productCodes: [],
+        categories: [],
+        departments: [],
+        uoms: [],
+        keywords: ['sushi tray', 'sushi'],
+        sortKeywords: [],
+        updatedAt: 0
+    }
+];
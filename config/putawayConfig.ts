@@ -0,0 +1,16 @@
+import { PutawaySettings } from '../types';
+
+// Factory putaway settings: used until an admin edits them (Settings > Putaway)
+export const DEFAULT_PUTAWAY_SETTINGS: PutawaySettings = {
+    strategies: {
+        homeBin: true,
+        consolidate: true,
+        zoning: true,
+        heavyLevels: true
+    },
+    // No zones until the warehouse layout is mapped to departments
+    zones: { RTE: [], RTC: [], SHARED: [] },
+    heavyUoms: ['PLT', 'BG'],
+    heavyLevels: ['Floor', '1'],
+    excludedRacks: ['T', 'S'] // Transit is where putaway starts; Staging is for outbound
+};
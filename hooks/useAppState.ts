@@ -1,13 +1,32 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Product, InventoryItem, ViewState, Transaction, MasterLocation, generateId, SavedPickList } from '../types';
-import { AREA_CONFIG } from '../consts/warehouse';
-import { GASService } from '../services/gasApi';
+import { Product, InventoryItem, InventoryLocation, ViewState, Transaction, MasterLocation, generateId, SavedPickList, PalletRule, UserProfile, ApprovalRequest, ApprovalThresholds, PutawaySettings, PurchaseOrder, Supplier, Customer, OutboundOrder, OutboundOrderLine, LayoutArea, WarehouseLayout, MapChangeContext, isSameBatch, getBatchExpiry } from '../types';
+import { createLocalAdapter, createRemoteAdapter, loadStorageConfig, migrateLocalStorageToIndexedDB, queryTransactionsInMemory, LOCAL_STORAGE_TRANSACTION_LIMIT, StorageConfig, TransactionQuery, TransactionPage } from '../services/storageAdapters';
+import { OutboxEntry, OutboxAction, addOutboxEntry, getOutboxEntries, updateOutboxEntry, deleteOutboxEntry } from '../outboxDB';
+import { buildBaseline, buildChangeSet, applyAck, countChanges, createEmptyBaseline, getClientId, getRecordSignature, getChangeSetKeys, countRejected, mergeCollection, fromStoredBaseline, toStoredBaseline, SyncData, SyncBaseline, SyncConflict, ConflictResolution } from '../services/syncEngine';
+import { applyLedgerProjection, formatBinCode, reconcileLedger } from '../services/ledger';
+import { can, getPermissionRole, hashPin, isValidPin, needsPinRehash, verifyPin, Permission, ROLE_LABELS } from '../services/auth';
+import { derivePurchaseOrderStatus, getLineDelivered, PurchaseOrderInput, ReceiptLineInput } from '../services/purchaseOrders';
+import { buildReorderSuggestions } from '../services/reorder';
+import { deriveOutboundOrderStatus, getOrderLineRemaining, OutboundOrderInput } from '../services/outboundOrders';
+import { convertQty, isSameUnit, roundQty } from '../services/unitConversion';
+import { validatePalletRules } from '../services/palletRules';
+import { learnProductAliases } from '../services/productMatcher';
+import { DEFAULT_PALLET_RULES } from '../config/pickingConfig';
+import { DEFAULT_PUTAWAY_SETTINGS } from '../config/putawayConfig';
+import { DEFAULT_CATEGORIES, DEFAULT_UNITS } from '../config/masterDataConfig';
+import { MASTER_LIST_LABELS, MasterListKind, addToMasterList, findMasterValue, getMasterValueUsage, isSameMasterValue, renameProductValue } from '../services/masterData';
+import { findReceivingBin } from '../services/putaway';
+import { CapacityCheck, IncomingStock, findOverfilledBins, getBinCapacity } from '../services/binCapacity';
+import { buildMasterLocations, findStockedRemovedBins, getActiveLayout, getLayoutBinCodes, validateLayoutAreas } from '../services/warehouseLayout';
+import { toDateInputValue } from '../utils';
 import { ModalType } from '../components/ConfirmModal';
 
 // Updated initial data based on user request - USING NEW SCHEMA (productCode only)
 import { INITIAL_PRODUCTS } from '../consts/initialData';
 
 const DEFAULT_GAS_URL = import.meta.env.VITE_GOOGLE_SCRIPT_URL || '';
+// IndexedDB keeps the full history on disk; only this window is loaded at start (ledger mode loads all of it)
+const RECENT_HISTORY_DAYS = 90;
 
 export function useAppState() {
 
@@ -17,7 +36,8 @@ export function useAppState() {
         title: string;
         message: string;
         type: ModalType;
-        onConfirm?: () => void;
+        onConfirm?: (reason?: string) => void;
+        reasonLabel?: string;
     }>({ isOpen: false, title: '', message: '', type: 'info' });
 
     const showAlert = (title: string, message: string, type: ModalType = 'info') => {
@@ -28,6 +48,10 @@ export function useAppState() {
         setModalConfig({ isOpen: true, title, message, type: 'confirm', onConfirm });
     };
 
+    const showReasonPrompt = (title: string, message: string, reasonLabel: string, onConfirm: (reason: string) => void) => {
+        setModalConfig({ isOpen: true, title, message, type: 'warning', reasonLabel, onConfirm: (reason) => onConfirm(reason || '') });
+    };
+
     const closeModal = () => setModalConfig(prev => ({ ...prev, isOpen: false }));
 
     // Helper to sanitize/migrate inventory data
@@ -59,7 +83,11 @@ export function useAppState() {
         }));
     };
 
+    // -- Storage Backends --
+    const [storageConfig, setStorageConfig] = useState<StorageConfig>(loadStorageConfig);
+
     // -- State Initialization --
+    // localStorage is read synchronously here; IndexedDB is loaded asynchronously below
     const [inventory, setInventory] = useState<InventoryItem[]>(() => {
         const saved = localStorage.getItem('nexuswms_inventory');
         return saved ? sanitizeInventory(JSON.parse(saved)) : [];
@@ -80,34 +108,22 @@ export function useAppState() {
         return saved ? JSON.parse(saved) : [];
     });
 
-    // Re-generate master locations if they are stale or missing to ensure new areas exist
+    const [palletRules, setPalletRules] = useState<PalletRule[]>(() => {
+        const saved = localStorage.getItem('nexuswms_pallet_rules');
+        return saved ? JSON.parse(saved) : DEFAULT_PALLET_RULES;
+    });
+
+    // Every saved layout version; the highest is active (no versions = factory layout)
+    const [layouts, setLayouts] = useState<WarehouseLayout[]>(() => {
+        const saved = localStorage.getItem('nexuswms_layouts');
+        return saved ? JSON.parse(saved) : [];
+    });
+    const activeLayout = useMemo(() => getActiveLayout(layouts), [layouts]);
+
+    // Re-generate master locations from the active layout to ensure new areas exist
     const [masterLocations, setMasterLocations] = useState<MasterLocation[]>(() => {
         const saved = localStorage.getItem('nexuswms_locations_v3');
-        const savedLocs: MasterLocation[] = saved ? JSON.parse(saved) : [];
-        const savedMap = new Map(savedLocs.map(l => [`${l.rack}-${l.bay}-${l.level}`, l]));
-
-        const locs: MasterLocation[] = [];
-
-        // Iterate over all configured areas to generate locations
-        Object.entries(AREA_CONFIG).forEach(([rackName, config]) => {
-            for (let b = 1; b <= config.bays; b++) {
-                config.levels.forEach(l => {
-                    const key = `${rackName}-${b}-${l}`;
-                    const existing = savedMap.get(key);
-
-                    locs.push({
-                        id: existing?.id || generateId(),
-                        binCode: key,
-                        rack: rackName,
-                        bay: b,
-                        level: l,
-                        status: existing?.status || 'active' // Persist status
-                    });
-                });
-            }
-        });
-
-        return locs;
+        return buildMasterLocations(activeLayout, saved ? JSON.parse(saved) : []);
     });
 
     // -- Google Sheets State --
@@ -120,6 +136,83 @@ export function useAppState() {
         };
     });
     const [isSyncing, setIsSyncing] = useState(false);
+    const [syncStatus, setSyncStatus] = useState<{ lastSyncedAt?: number; pending: number; rejected: number; error?: string }>({ pending: 0, rejected: 0 });
+    const [syncRetryTick, setSyncRetryTick] = useState(0); // Bumped to re-run the auto-save effect (retry / queued push)
+    const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>(() => {
+        const saved = localStorage.getItem('nexuswms_sync_conflicts');
+        return saved ? JSON.parse(saved) : [];
+    });
+
+    // -- Ledger Mode: stock quantities are projected from the transaction ledger --
+    const [ledgerMode, setLedgerMode] = useState<boolean>(() => {
+        const saved = localStorage.getItem('nexuswms_ledger_mode');
+        return saved ? JSON.parse(saved) : false;
+    });
+
+    // -- Users & Session --
+    const [users, setUsers] = useState<UserProfile[]>(() => {
+        const saved = localStorage.getItem('nexuswms_users');
+        return saved ? JSON.parse(saved) : [];
+    });
+    // Session lasts for this tab only: closing it signs the operator out (shared devices)
+    const [currentUserId, setCurrentUserId] = useState<string | null>(() => sessionStorage.getItem('nexuswms_session'));
+    const currentUser = users.find(u => u.id === currentUserId && u.active) || null;
+    // With a remote backend, first-run setup waits until a pull confirms the backend has no users either
+    const [remoteHasNoUsers, setRemoteHasNoUsers] = useState(false);
+
+    // -- Approval Queue (large adjustments & deletions wait for a supervisor) --
+    const [approvals, setApprovals] = useState<ApprovalRequest[]>(() => {
+        const saved = localStorage.getItem('nexuswms_approvals');
+        return saved ? JSON.parse(saved) : [];
+    });
+    const [approvalThresholds, setApprovalThresholds] = useState<ApprovalThresholds>(() => {
+        const saved = localStorage.getItem('nexuswms_approval_thresholds');
+        return saved ? JSON.parse(saved) : { quantity: 100, value: 0 };
+    });
+
+    // -- Putaway strategies (device setting, like the approval thresholds) --
+    const [putawaySettings, setPutawaySettings] = useState<PutawaySettings>(() => {
+        const saved = localStorage.getItem('nexuswms_putaway_settings');
+        return saved ? { ...DEFAULT_PUTAWAY_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PUTAWAY_SETTINGS;
+    });
+
+    // -- Purchase Orders --
+    const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>(() => {
+        const saved = localStorage.getItem('nexuswms_purchase_orders');
+        return saved ? JSON.parse(saved) : [];
+    });
+
+    // -- Suppliers --
+    const [suppliers, setSuppliers] = useState<Supplier[]>(() => {
+        const saved = localStorage.getItem('nexuswms_suppliers');
+        return saved ? JSON.parse(saved) : [];
+    });
+
+    // -- Categories & Units (device lists, like suppliers) --
+    const [itemCategories, setItemCategories] = useState<string[]>(() => {
+        const saved = localStorage.getItem('nexuswms_categories');
+        return saved ? JSON.parse(saved) : DEFAULT_CATEGORIES;
+    });
+    const [units, setUnits] = useState<string[]>(() => {
+        const saved = localStorage.getItem('nexuswms_units');
+        return saved ? JSON.parse(saved) : DEFAULT_UNITS;
+    });
+
+    // -- Customers & Customer Orders --
+    const [customers, setCustomers] = useState<Customer[]>(() => {
+        const saved = localStorage.getItem('nexuswms_customers');
+        return saved ? JSON.parse(saved) : [];
+    });
+    const [outboundOrders, setOutboundOrders] = useState<OutboundOrder[]>(() => {
+        const saved = localStorage.getItem('nexuswms_outbound_orders');
+        return saved ? JSON.parse(saved) : [];
+    });
+
+    // -- Expiry Alert Window (Days) --
+    const [expiryWarningDays, setExpiryWarningDays] = useState<number>(() => {
+        const saved = localStorage.getItem('nexuswms_expiry_warn_days');
+        return saved ? JSON.parse(saved) : 14;
+    });
 
     // Force update URL from Env Var if changed (Fixes stale local storage)
     useEffect(() => {
@@ -147,35 +240,324 @@ export function useAppState() {
         }
     };
 
-    useEffect(() => { safeSave('nexuswms_inventory', inventory); }, [inventory]);
-    useEffect(() => { safeSave('nexuswms_products', products); }, [products]);
-    // OPTIMIZATION: Only save the last 1000 transactions locally to prevent LocalStorage Quota Exceeded crash.
-    // Full history is preserved in Google Sheets (Cloud).
+    // Data collections go through the selected local adapter
+    const localAdapter = useMemo(() => createLocalAdapter(storageConfig.local), [storageConfig.local]);
+    const remoteAdapter = useMemo(() => createRemoteAdapter(storageConfig, gasConfig.url), [storageConfig, gasConfig.url]);
+    const [isLocalLoaded, setIsLocalLoaded] = useState(storageConfig.local === 'localStorage');
+    // Browser Storage only holds a capped history, so everything it has is already in memory
+    const [isFullHistoryLoaded, setIsFullHistoryLoaded] = useState(storageConfig.local !== 'indexedDB' || ledgerMode);
+    const [isFullHistoryRequested, setIsFullHistoryRequested] = useState(false);
+
+    const persistLocal = (data: Partial<SyncData>): Promise<void> => {
+        if (!isLocalLoaded) return Promise.resolve(); // Never overwrite IndexedDB with the pre-load defaults
+        return localAdapter.saveAll(data).catch((e: any) => {
+            console.error(`NexusWMS: Failed to save ${Object.keys(data).join(', ')} to ${localAdapter.backend}`, e);
+            if (e.name === 'QuotaExceededError') {
+                console.warn('CRITICAL: Local storage is full. Data is not persisting locally.');
+            }
+        });
+    };
+
+    // Inventory & history are the big collections: on IndexedDB only the records that changed
+    // since the last write are put, instead of rewriting the whole store on every scan.
+    const persistedRef = useRef<{ inventory: InventoryItem[]; transactions: Transaction[] }>({ inventory, transactions });
+    const [historyVersion, setHistoryVersion] = useState(0); // Bumped once a history write has landed (re-run page queries)
+
+    const persistLocalDelta = (collection: 'inventory' | 'transactions'): Promise<void> => {
+        if (!isLocalLoaded) return Promise.resolve();
+        const previous = { ...persistedRef.current };
+        const current = { inventory, transactions };
+        persistedRef.current = { ...persistedRef.current, [collection]: current[collection] };
+        if (localAdapter.backend !== 'indexedDB') return persistLocal({ [collection]: current[collection] });
+        if (previous[collection] === current[collection]) return Promise.resolve();
+
+        const knownTxIds = new Set(previous.transactions.map(t => t.id));
+        const baseline = buildBaseline(collection === 'inventory' ? { inventory: previous.inventory } : {});
+        const changeSet = buildChangeSet(baseline, {
+            inventory: collection === 'inventory' ? inventory : [],
+            products: [],
+            transactions: collection === 'transactions' ? transactions.filter(t => !knownTxIds.has(t.id)) : [],
+            locations: [],
+            pickLists: [],
+            palletRules: [],
+            layouts: [],
+            users: [],
+            approvals: []
+        }, getClientId());
+        if (countChanges(changeSet) === 0) return Promise.resolve();
+
+        return localAdapter.applyChanges(changeSet)
+            .then(() => undefined)
+            .catch((e: any) => console.error(`NexusWMS: Failed to save ${collection} to ${localAdapter.backend}`, e));
+    };
+
+    // IndexedDB: migrate old localStorage data (once), load on mount, then hand over to the persistence effects
+    useEffect(() => {
+        if (isLocalLoaded) return;
+        migrateLocalStorageToIndexedDB()
+            .catch(e => console.error('NexusWMS: localStorage -> IndexedDB migration failed', e))
+            .then(() => localAdapter.load(isFullHistoryLoaded ? {} : { transactionsSince: Date.now() - RECENT_HISTORY_DAYS * 24 * 60 * 60 * 1000 }))
+            .then(data => {
+                const loadedInventory = data.inventory ? sanitizeInventory(data.inventory) : persistedRef.current.inventory;
+                const loadedTransactions = data.transactions ? [...data.transactions].sort((a, b) => b.date - a.date) : persistedRef.current.transactions;
+                persistedRef.current = { inventory: loadedInventory, transactions: loadedTransactions }; // Already stored
+
+                setInventory(loadedInventory);
+                setTransactions(loadedTransactions);
+                if (data.products) setProducts(data.products);
+                if (data.pickLists) setSavedPickLists(data.pickLists);
+                if (data.palletRules) setPalletRules(data.palletRules);
+                if (data.layouts) setLayouts(data.layouts);
+                if (data.locations) setMasterLocations(buildMasterLocations(getActiveLayout(data.layouts || layouts), data.locations));
+            })
+            .catch(e => console.error('NexusWMS: Failed to load local data', e))
+            .finally(() => setIsLocalLoaded(true));
+    }, []);
+
+    // In-memory history plus everything older still on disk (newest first)
+    const mergeStoredHistory = (current: Transaction[], stored: Transaction[]) => {
+        const known = new Set(current.map(t => t.id));
+        return [...current, ...stored.filter(t => !known.has(t.id))].sort((a, b) => b.date - a.date);
+    };
+    const readFullHistory = async (): Promise<Transaction[]> => {
+        if (isFullHistoryLoaded || !localAdapter.queryTransactions) return transactions;
+        const { items } = await localAdapter.queryTransactions({ offset: 0, limit: Number.MAX_SAFE_INTEGER });
+        return mergeStoredHistory(transactions, items);
+    };
+
+    // Ledger views need every event: pull the older history into memory once they ask for it
     useEffect(() => {
-        const RECENT_LIMIT = 1000;
-        const recentTransactions = transactions.slice(0, RECENT_LIMIT);
-        safeSave('nexuswms_transactions', recentTransactions);
-    }, [transactions]);
-    useEffect(() => { safeSave('nexuswms_picklists', savedPickLists); }, [savedPickLists]);
-    useEffect(() => { safeSave('nexuswms_locations_v3', masterLocations); }, [masterLocations]);
+        if (!isFullHistoryRequested || isFullHistoryLoaded || !isLocalLoaded || !localAdapter.queryTransactions) return;
+        localAdapter.queryTransactions({ offset: 0, limit: Number.MAX_SAFE_INTEGER })
+            .then(({ items }) => {
+                setTransactions(prev => {
+                    const merged = mergeStoredHistory(prev, items);
+                    persistedRef.current = { ...persistedRef.current, transactions: merged }; // Already stored
+                    return merged;
+                });
+                setIsFullHistoryLoaded(true);
+            })
+            .catch(e => console.error('NexusWMS: Failed to load the full history', e));
+    }, [isFullHistoryRequested, isFullHistoryLoaded, isLocalLoaded]);
+
+    useEffect(() => { persistLocalDelta('inventory'); }, [inventory, isLocalLoaded]);
+    useEffect(() => { persistLocal({ products }); }, [products, isLocalLoaded]);
+    useEffect(() => {
+        persistLocalDelta('transactions').then(() => setHistoryVersion(v => v + 1));
+    }, [transactions, isLocalLoaded]);
+    useEffect(() => { persistLocal({ pickLists: savedPickLists }); }, [savedPickLists, isLocalLoaded]);
+    useEffect(() => { persistLocal({ palletRules }); }, [palletRules, isLocalLoaded]);
+    useEffect(() => { persistLocal({ layouts }); }, [layouts, isLocalLoaded]);
+    useEffect(() => { persistLocal({ locations: masterLocations }); }, [masterLocations, isLocalLoaded]);
+    useEffect(() => { safeSave('nexuswms_storage_config', storageConfig); }, [storageConfig]);
     useEffect(() => { safeSave('nexuswms_gas_config', gasConfig); }, [gasConfig]);
+    useEffect(() => { safeSave('nexuswms_expiry_warn_days', expiryWarningDays); }, [expiryWarningDays]);
+    useEffect(() => { safeSave('nexuswms_ledger_mode', ledgerMode); }, [ledgerMode]);
+    useEffect(() => { safeSave('nexuswms_users', users); }, [users]);
+    useEffect(() => { safeSave('nexuswms_approvals', approvals); }, [approvals]);
+    useEffect(() => { safeSave('nexuswms_approval_thresholds', approvalThresholds); }, [approvalThresholds]);
+    useEffect(() => { safeSave('nexuswms_putaway_settings', putawaySettings); }, [putawaySettings]);
+    useEffect(() => { safeSave('nexuswms_purchase_orders', purchaseOrders); }, [purchaseOrders]);
+    useEffect(() => { safeSave('nexuswms_suppliers', suppliers); }, [suppliers]);
+    useEffect(() => { safeSave('nexuswms_customers', customers); }, [customers]);
+    useEffect(() => { safeSave('nexuswms_categories', itemCategories); }, [itemCategories]);
+    useEffect(() => { safeSave('nexuswms_units', units); }, [units]);
+
+    // Imported or synced products may bring values the lists do not know yet
+    useEffect(() => {
+        setItemCategories(prev => addToMasterList(prev, products.map(p => p.defaultCategory)));
+        setUnits(prev => addToMasterList(prev, products.flatMap(p => [p.defaultUnit, ...(p.unitConversions || []).flatMap(r => [r.unit, r.toUnit])])));
+    }, [products]);
+    useEffect(() => { safeSave('nexuswms_outbound_orders', outboundOrders); }, [outboundOrders]);
+    useEffect(() => {
+        if (currentUserId) sessionStorage.setItem('nexuswms_session', currentUserId);
+        else sessionStorage.removeItem('nexuswms_session');
+    }, [currentUserId]);
+
+    // Bins follow the active layout, whether saved here or pulled from another device
+    const layoutIdRef = useRef(activeLayout.id);
+    useEffect(() => {
+        if (layoutIdRef.current === activeLayout.id) return;
+        layoutIdRef.current = activeLayout.id;
+        setMasterLocations(prev => buildMasterLocations(activeLayout, prev));
+    }, [activeLayout]);
+
+    // Ledger mode: whenever events or stock change, tracked batches are rebuilt from the ledger
+    useEffect(() => {
+        if (!ledgerMode || !isLocalLoaded) return;
+        const projected = applyLedgerProjection(inventory, transactions);
+        if (projected !== inventory) setInventory(projected);
+    }, [inventory, transactions, ledgerMode, isLocalLoaded]);
+    useEffect(() => { safeSave('nexuswms_sync_conflicts', syncConflicts); }, [syncConflicts]);
 
     // -- Auto-Sync Effect --
     const isInitialSyncDone = useRef(false);
     const hasLoadedRef = useRef(false);
-
-    // Load from GAS on mount if enabled - Force Pull
+    // Last server-acknowledged version of each record.
+    // Merged collections survive reloads so edits and remote deletes made before a restart are still told apart.
+    const syncBaselineRef = useRef<SyncBaseline>(fromStoredBaseline(localStorage.getItem('nexuswms_sync_baseline')));
+    const isPushingRef = useRef(false);
+    const pushQueuedRef = useRef(false);
+    const SYNC_RETRY_DELAY = 30000; // Re-attempt failed pushes after 30s
+
+    // Load from the remote backend once local data is ready - Force Pull
     useEffect(() => {
-        if (gasConfig.enabled && gasConfig.url) {
+        if (isLocalLoaded && remoteAdapter) {
             if (hasLoadedRef.current) return;
             hasLoadedRef.current = true;
 
             handleSyncGas(false);
         }
-    }, []); // Run once on mount
+    }, [isLocalLoaded, remoteAdapter]); // Run once local data is available (and again after switching backend)
+
+    const commitBaseline = (next: SyncBaseline) => {
+        syncBaselineRef.current = next;
+        safeSave('nexuswms_sync_baseline', toStoredBaseline(next));
+    };
+
+    // -- Offline Outbox --
+    // Floor mutations (inbound, outbound, moves, map edits) are captured as change sets in IndexedDB
+    // and replayed in order before the regular diff push, so nothing is lost on flaky Wi-Fi.
+    const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+    const outboxRef = useRef<OutboxEntry[]>([]);
+    const outboxWriteRef = useRef<Promise<void>>(Promise.resolve()); // Serializes IndexedDB writes
+    const pendingMutationsRef = useRef<{ action: OutboxAction; label: string }[]>([]);
+    const mutationSnapshotRef = useRef<{ inventory: InventoryItem[]; transactions: Transaction[] }>({ inventory, transactions });
+    const OUTBOX_MAX_AUTO_ATTEMPTS = 5; // After this, an entry waits for manual Retry / Discard
+
+    const setOutboxEntries = (entries: OutboxEntry[]) => {
+        outboxRef.current = entries;
+        setOutbox(entries);
+    };
+
+    useEffect(() => {
+        getOutboxEntries()
+            .then(saved => {
+                const savedIds = new Set(saved.map(e => e.id));
+                setOutboxEntries([...saved, ...outboxRef.current.filter(e => !savedIds.has(e.id))]);
+            })
+            .catch(e => console.error('NexusWMS: Failed to load outbox', e));
+
+        const handleOnline = () => setSyncRetryTick(t => t + 1);
+        window.addEventListener('online', handleOnline);
+        return () => window.removeEventListener('online', handleOnline);
+    }, []);
+
+    // Called by mutation handlers; the effect below turns the resulting state diff into an outbox entry
+    const trackMutation = (action: OutboxAction, label: string) => {
+        pendingMutationsRef.current.push({ action, label });
+    };
+
+    useEffect(() => {
+        const snapshot = mutationSnapshotRef.current;
+        mutationSnapshotRef.current = { inventory, transactions };
+
+        const mutations = pendingMutationsRef.current;
+        if (mutations.length === 0) return;
+        pendingMutationsRef.current = [];
+        if (!remoteAdapter) return;
+
+        const knownTxIds = new Set(snapshot.transactions.map(t => t.id));
+        const changeSet = buildChangeSet(buildBaseline({ inventory: snapshot.inventory }), {
+            inventory,
+            products: [],
+            transactions: transactions.filter(t => !knownTxIds.has(t.id)),
+            locations: [],
+            pickLists: [],
+            palletRules: [],
+            layouts: [],
+            users: [],
+            approvals: []
+        }, getClientId());
+        if (countChanges(changeSet) === 0) return;
+
+        const entry: OutboxEntry = {
+            id: generateId(),
+            action: mutations[0].action,
+            label: mutations.map(m => m.label).join(' + '),
+            createdAt: Date.now(),
+            changeSet,
+            attempts: 0,
+            status: 'pending'
+        };
+        setOutboxEntries([...outboxRef.current, entry]);
+
+        outboxWriteRef.current = outboxWriteRef.current
+            .then(() => addOutboxEntry(entry))
+            .then(seq => {
+                setOutboxEntries(outboxRef.current.map(e => e.id === entry.id ? { ...e, seq } : e));
+            })
+            .catch(e => console.error('NexusWMS: Failed to persist outbox entry', e));
+    }, [inventory, transactions]);
+
+    const removeOutboxEntry = async (entry: OutboxEntry) => {
+        if (entry.seq !== undefined) await deleteOutboxEntry(entry.seq);
+        setOutboxEntries(outboxRef.current.filter(e => e.id !== entry.id));
+    };
+
+    /**
+     * Sends queued entries oldest-first, stopping at the first one that fails (order matters:
+     * a move must not land before the inbound that created the batch).
+     */
+    const replayOutbox = async (): Promise<{ drained: boolean; rejected: number; serverTime?: number; error?: string }> => {
+        await outboxWriteRef.current; // Make sure every entry has its sequence number
+
+        let rejected = 0;
+        let serverTime: number | undefined;
+        for (const entry of [...outboxRef.current]) {
+            if (entry.status === 'failed') {
+                return { drained: false, rejected, serverTime, error: `Outbox blocked: ${entry.label}` };
+            }
+
+            try {
+                const ack = await remoteAdapter!.applyChanges(entry.changeSet);
+                commitBaseline(applyAck(syncBaselineRef.current, entry.changeSet, ack));
+                rejected += countRejected(ack);
+                serverTime = ack.serverTime;
+                await removeOutboxEntry(entry);
+            } catch (error: any) {
+                if ((error.message || '').includes('Unknown action')) {
+                    // Legacy script: the full snapshot push covers everything queued
+                    await Promise.all(outboxRef.current.map(removeOutboxEntry));
+                    return { drained: true, rejected, serverTime };
+                }
+
+                const attempts = entry.attempts + 1;
+                const offline = !navigator.onLine;
+                const updated: OutboxEntry = {
+                    ...entry,
+                    attempts,
+                    lastError: offline ? 'Offline' : (error.message || 'Sync failed'),
+                    status: !offline && attempts >= OUTBOX_MAX_AUTO_ATTEMPTS ? 'failed' : 'pending'
+                };
+                await updateOutboxEntry(updated).catch(e => console.error('NexusWMS: Failed to update outbox entry', e));
+                setOutboxEntries(outboxRef.current.map(e => e.id === entry.id ? updated : e));
+                return { drained: false, rejected, serverTime, error: `${entry.label}: ${updated.lastError}` };
+            }
+        }
+        return { drained: true, rejected, serverTime };
+    };
+
+    const handleRetryOutboxEntry = async (id: string) => {
+        const entry = outboxRef.current.find(e => e.id === id);
+        if (!entry) return;
+        const updated: OutboxEntry = { ...entry, status: 'pending', attempts: 0 };
+        await updateOutboxEntry(updated);
+        setOutboxEntries(outboxRef.current.map(e => e.id === id ? updated : e));
+        setSyncRetryTick(t => t + 1);
+    };
+
+    // Drops the queued copy only; the records stay in local state and are sent by the next diff push
+    const handleDiscardOutboxEntry = async (id: string) => {
+        const entry = outboxRef.current.find(e => e.id === id);
+        if (!entry) return;
+        await removeOutboxEntry(entry);
+        setSyncRetryTick(t => t + 1);
+    };
 
     const handleSyncGas = async (pushLocalToCloud = true, silent = false, forceOverride = false) => {
-        if (!gasConfig.url || !gasConfig.enabled) return;
+        const remote = remoteAdapter;
+        if (!remote) return;
 
         // Safety: If we haven't successfully pulled yet, do NOT auto-save (push).
         // This protects against overwriting the cloud with empty local data on fresh boot.
@@ -187,24 +569,95 @@ export function useAppState() {
         if (!silent) setIsSyncing(true);
         try {
             if (pushLocalToCloud) {
-                // Push Mode: Save all local data to Cloud
-                // Ensure all products have the new fields to force GAS to create headers
-                const sanitizedProducts = products.map(p => ({
-                    ...p,
-                    countPerPallet: p.countPerPallet || 0
-                }));
-
-                await GASService.saveData(gasConfig.url, 'saveAll', {
-                    inventory,
-                    products: sanitizedProducts,
-                    transactions,
-                    locations: masterLocations,
-                    pickLists: savedPickLists
-                });
-                if (!silent) console.log('NexusWMS: Auto-saved to Google Sheets.');
+                // Offline: mutations are already queued in the outbox, nothing to do until 'online'
+                if (!navigator.onLine) {
+                    setSyncStatus(prev => ({ ...prev, error: 'Offline - changes are queued' }));
+                    return;
+                }
+
+                // One push at a time; re-run once the current one settles
+                if (isPushingRef.current) {
+                    pushQueuedRef.current = true;
+                    return;
+                }
+
+                isPushingRef.current = true;
+                let rejected = 0;
+                try {
+                    // 1. Replay queued floor mutations in order
+                    const replay = await replayOutbox();
+                    rejected += replay.rejected;
+                    if (!replay.drained) {
+                        setSyncStatus(prev => ({ ...prev, error: replay.error }));
+                        setTimeout(() => setSyncRetryTick(t => t + 1), SYNC_RETRY_DELAY);
+                        return;
+                    }
+
+                    // 2. Send any other records changed since the last acknowledged sync
+                    const localData: SyncData = {
+                        inventory,
+                        products,
+                        transactions,
+                        locations: masterLocations,
+                        pickLists: savedPickLists,
+                        palletRules,
+                        layouts,
+                        users,
+                        approvals
+                    };
+                    const held = new Set<string>([
+                        ...syncConflicts.map(c => c.id),
+                        ...outboxRef.current.flatMap(e => getChangeSetKeys(e.changeSet)) // Queued during replay
+                    ]);
+                    const changeSet = buildChangeSet(syncBaselineRef.current, localData, getClientId(), held);
+                    const pending = countChanges(changeSet);
+                    let serverTime = replay.serverTime;
+
+                    if (pending > 0) {
+                        try {
+                            const ack = await remote.applyChanges(changeSet);
+                            commitBaseline(applyAck(syncBaselineRef.current, changeSet, ack));
+                            rejected += countRejected(ack);
+                            serverTime = ack.serverTime;
+                            if (!silent) console.log(`NexusWMS: Synced ${pending} change(s) to ${remote.backend}.`);
+                        } catch (error: any) {
+                            if ((error.message || '').includes('Unknown action')) {
+                                // Legacy script without syncChanges: fall back to a full overwrite (with the history still on disk)
+                                const fullData = { ...localData, transactions: await readFullHistory() };
+                                await remote.saveAll(fullData);
+                                commitBaseline(buildBaseline(fullData));
+                                serverTime = Date.now();
+                            } else {
+                                // Changes stay dirty (baseline untouched) and are retried later
+                                setSyncStatus(prev => ({ ...prev, pending, error: error.message || 'Sync failed' }));
+                                setTimeout(() => setSyncRetryTick(t => t + 1), SYNC_RETRY_DELAY);
+                                throw error;
+                            }
+                        }
+                    }
+
+                    if (rejected > 0) {
+                        console.warn(`NexusWMS: ${rejected} record(s) rejected - newer version on server.`);
+                    }
+                    setSyncStatus(prev => ({
+                        lastSyncedAt: serverTime || prev.lastSyncedAt,
+                        pending: countChanges(buildChangeSet(syncBaselineRef.current, localData, changeSet.clientId, held)),
+                        rejected,
+                        error: rejected > 0 ? `${rejected} record(s) were changed on another device.` : undefined
+                    }));
+                } finally {
+                    isPushingRef.current = false;
+                    if (pushQueuedRef.current) {
+                        pushQueuedRef.current = false;
+                        setSyncRetryTick(t => t + 1);
+                    }
+                }
+
+                // Another device won: pull so the clash shows up in the conflict review
+                if (rejected > 0) await handleSyncGas(false, true);
             } else {
                 // Pull Mode: Load from Cloud (Priority Source)
-                const data = await GASService.fetchData(gasConfig.url);
+                const data = await remote.load();
 
                 // SAFETY CHECK: Prevent overwriting with suspiciously empty data
                 const cloudInventoryCount = data.inventory?.length || 0;
@@ -229,52 +682,173 @@ export function useAppState() {
                     return;
                 }
 
-                // Overwrite local state with Cloud Data
-                // We trust the cloud as the source of truth on startup
-                if (data.inventory) {
-                    // MIGRATION / SANITIZATION: Fix legacy STG-01/ADJ-01 formats
-                    const cleanInventory = sanitizeInventory(data.inventory);
-                    setInventory(cleanInventory);
-                }
-
-                if (data.products) setProducts(data.products);
-                if (data.transactions) setTransactions(data.transactions);
-
-
-
-                // MERGE cloud locations to sync 'disabled' status, while preserving local AREA_CONFIG schema
+                // Merge Cloud Data into local state
+                // Cloud is the source of truth, except for local edits it hasn't seen yet (kept & pushed)
+                // and records edited on both sides (flagged as conflicts for review)
+                const baseline = syncBaselineRef.current;
+
+                // MIGRATION / SANITIZATION: Fix legacy STG-01/ADJ-01 formats
+                const inventoryMerge = mergeCollection('inventory', inventory, data.inventory ? sanitizeInventory(data.inventory) : [], baseline.inventory);
+                const productMerge = mergeCollection('products', products, data.products || [], baseline.products);
+                // Users removed or deactivated on another device can no longer sign in here
+                const userMerge = mergeCollection('users', users, data.users || [], baseline.users);
+                // A cloud without an active admin (e.g. a cleared sheet) never locks this device out; local users get pushed back
+                const mergedUsers = userMerge.merged.some(u => u.role === 'admin' && u.active) ? userMerge.merged : users;
+                // Requests raised on a scanner reach supervisors on other devices, and their decisions come back
+                const approvalMerge = mergeCollection('approvals', approvals, data.approvals || [], baseline.approvals);
+
+                // Transactions are append-only: keep local entries the cloud hasn't received yet
+                const cloudTransactions: Transaction[] = data.transactions || [];
+                const cloudTxIds = new Set(cloudTransactions.map(t => t.id));
+                const mergedTransactions = [...cloudTransactions, ...transactions.filter(t => !cloudTxIds.has(t.id))];
+
+                const cloudPickLists = data.pickLists || savedPickLists;
+                // An empty / missing sheet keeps this device's rules (then pushes them)
+                const hasCloudPalletRules = !!data.palletRules?.length;
+                const cloudPalletRules: PalletRule[] = hasCloudPalletRules ? data.palletRules : palletRules;
+
+                // Layout versions are append-only: keep local versions the cloud hasn't received yet
+                const cloudLayouts: WarehouseLayout[] = data.layouts || [];
+                const cloudLayoutIds = new Set(cloudLayouts.map(l => l.id));
+                const mergedLayouts = [...cloudLayouts, ...layouts.filter(l => !cloudLayoutIds.has(l.id))];
+
+                // MERGE cloud locations to sync 'disabled' status, capacities and aliases onto the bins of the active layout
+                let mergedLocations = buildMasterLocations(getActiveLayout(mergedLayouts), masterLocations);
                 if (data.locations) {
-                    setMasterLocations(prev => {
-                        const cloudMap = new Map(data.locations.map((l: any) => [`${l.rack}-${l.bay}-${l.level}`, l]));
-                        return prev.map(loc => {
-                            const key = `${loc.rack}-${loc.bay}-${loc.level}`;
-                            const cloudLoc = cloudMap.get(key) as any;
-                            // Only update status if cloud has it, preserving the rest of the local config (ids, etc if needed)
-                            if (cloudLoc && cloudLoc.status) {
-                                return { ...loc, status: cloudLoc.status };
-                            }
-                            return loc;
-                        });
+                    const cloudMap = new Map(data.locations.map((l: any) => [`${l.rack}-${l.bay}-${l.level}`, l]));
+                    mergedLocations = mergedLocations.map(loc => {
+                        const key = `${loc.rack}-${loc.bay}-${loc.level}`;
+                        const cloudLoc = cloudMap.get(key) as any;
+                        // Only update status if cloud has it, preserving the rest of the local config (ids, etc if needed)
+                        if (cloudLoc && cloudLoc.status) {
+                            const { capacity, capacityUnit, maxWeightKg, ...rest } = loc;
+                            // Sheets without the name column leave local aliases alone
+                            const alias = 'name' in cloudLoc ? { name: String(cloudLoc.name || '').trim() || undefined } : {};
+                            return { ...rest, ...alias, status: cloudLoc.status, ...getBinCapacity(cloudLoc) };
+                        }
+                        return loc;
                     });
                 }
 
-                if (data.pickLists) setSavedPickLists(data.pickLists);
+                setInventory(inventoryMerge.merged);
+                setProducts(productMerge.merged);
+                setTransactions(mergedTransactions);
+                setMasterLocations(mergedLocations);
+                setSavedPickLists(cloudPickLists);
+                setPalletRules(cloudPalletRules);
+                setLayouts(mergedLayouts);
+                setUsers(mergedUsers);
+                setApprovals(approvalMerge.merged);
+
+                // Replace conflicts for the same record with the latest cloud version
+                const newConflicts = [...inventoryMerge.conflicts, ...productMerge.conflicts];
+                if (newConflicts.length > 0) {
+                    const newIds = new Set(newConflicts.map(c => c.id));
+                    setSyncConflicts(prev => [...prev.filter(c => !newIds.has(c.id)), ...newConflicts]);
+                    showAlert('Sync Conflicts', `${newConflicts.length} record(s) were changed both here and on another device. Review them under Sync Conflicts.`);
+                }
+
+                // Pulled records count as acknowledged; local-only edits stay dirty and get pushed
+                // (locations and pallet rules are only baselined if the cloud already has them)
+                commitBaseline({
+                    ...buildBaseline({
+                        transactions: cloudTransactions,
+                        locations: data.locations ? mergedLocations : [],
+                        pickLists: cloudPickLists,
+                        palletRules: hasCloudPalletRules ? cloudPalletRules : [],
+                        layouts: cloudLayouts
+                    }),
+                    inventory: inventoryMerge.baseline,
+                    products: productMerge.baseline,
+                    users: userMerge.baseline,
+                    approvals: approvalMerge.baseline
+                });
+                setSyncStatus({ lastSyncedAt: Date.now(), pending: 0, rejected: 0 });
+                setRemoteHasNoUsers(!data.users?.length);
 
                 isInitialSyncDone.current = true;
-                if (!silent) console.log('NexusWMS: Initial data loaded from Google Sheets (Sanitized).');
+                if (!silent) console.log(`NexusWMS: Initial data loaded from ${remote.backend} (Sanitized).`);
             }
 
         } catch (error: any) {
             console.error(error);
-            if (!silent) showAlert('Sync Error', error.message || 'Failed to sync with Google Sheets');
+            if (!silent) showAlert('Sync Error', error.message || 'Failed to sync with the remote backend');
         } finally {
             if (!silent) setIsSyncing(false);
         }
     };
 
+    // -- Storage Settings --
+    // Switching the local backend copies the current data across first.
+    // Switching the remote backend either seeds it with this device's data or pulls from it.
+    const handleChangeStorageConfig = async (next: StorageConfig, seedRemote = false, nextGasUrl = gasConfig.url) => {
+        if (!requirePermission('changeSettings', 'Changing storage settings')) return;
+        const allData: SyncData = {
+            inventory,
+            products,
+            transactions,
+            locations: masterLocations,
+            pickLists: savedPickLists,
+            palletRules,
+            layouts,
+            users,
+            approvals
+        };
+
+        try {
+            if (next.local !== storageConfig.local) {
+                await createLocalAdapter(next.local).saveAll(allData);
+                if (localAdapter.clear) await localAdapter.clear(); // Free the old store (localStorage quota)
+            }
+
+            const remoteChanged = next.remote !== storageConfig.remote ||
+                (next.remote === 'rest' && next.restUrl !== storageConfig.restUrl) ||
+                (next.remote === 'gas' && nextGasUrl !== gasConfig.url);
+            if (remoteChanged) {
+                // Acknowledged versions belong to the old backend
+                commitBaseline(createEmptyBaseline());
+                setSyncConflicts([]);
+                setRemoteHasNoUsers(false);
+                isInitialSyncDone.current = false;
+                hasLoadedRef.current = false;
+
+                const nextRemote = createRemoteAdapter(next, nextGasUrl);
+                if (nextRemote && seedRemote) {
+                    const seedData = { ...allData, transactions: await readFullHistory() };
+                    await nextRemote.saveAll(seedData);
+                    commitBaseline(buildBaseline(seedData));
+                    setRemoteHasNoUsers(users.length === 0);
+                    isInitialSyncDone.current = true;
+                    hasLoadedRef.current = true; // Already in sync, skip the pull
+                }
+            }
+
+            setStorageConfig(next);
+            setGasConfig({ url: nextGasUrl, enabled: next.remote === 'gas' });
+            showAlert('Storage Updated', `Local: ${next.local}. Remote: ${next.remote === 'none' ? 'off' : next.remote}.`);
+        } catch (error: any) {
+            console.error(error);
+            showAlert('Storage Error', error.message || 'Failed to switch storage backend', 'danger');
+        }
+    };
+
+    // -- History Queries --
+    // IndexedDB answers from its indexes; Browser Storage keeps a capped copy, so it is served from memory
+    const queryTransactions = (query: TransactionQuery): Promise<TransactionPage> => {
+        if (isLocalLoaded && localAdapter.queryTransactions && localAdapter.backend === 'indexedDB') {
+            return localAdapter.queryTransactions(query);
+        }
+        return Promise.resolve(queryTransactionsInMemory(transactions, query));
+    };
+
+    const handleLoadFullHistory = () => setIsFullHistoryRequested(true);
+
+    // Without IndexedDB or a remote backend, only the newest entries survive a reload
+    const historyLimit = storageConfig.local === 'localStorage' && storageConfig.remote === 'none' ? LOCAL_STORAGE_TRANSACTION_LIMIT : undefined;
+
     // Trigger Auto-Save on Data Change
     useEffect(() => {
-        if (!gasConfig.enabled || !gasConfig.url) return;
+        if (!remoteAdapter) return;
         if (!isInitialSyncDone.current) return;
 
         // Debounce to prevent flooding API
@@ -283,16 +857,42 @@ export function useAppState() {
         }, 1000); // 1 second debounce (User requested faster than 2s)
 
         return () => clearTimeout(timer);
-    }, [inventory, products, transactions, masterLocations, savedPickLists, gasConfig.enabled, gasConfig.url]);
+    }, [inventory, products, transactions, masterLocations, savedPickLists, palletRules, layouts, users, approvals, remoteAdapter, syncRetryTick]);
 
     // -- Helpers --
+    // Role gate for handlers. The UI hides what a role cannot do; this is the authoritative check.
+    const requirePermission = (permission: Permission, action: string) => {
+        if (can(currentUser, permission)) return true;
+        showAlert('Permission Denied', `${action} requires ${ROLE_LABELS[getPermissionRole(permission)]} access.`, 'warning');
+        return false;
+    };
+
+    // Ledger checks compare stock with every event, so they wait until the older history is in memory
+    const requireFullHistory = () => {
+        if (isFullHistoryLoaded) return true;
+        showAlert('History Loading', 'The full history is still loading. Try again in a moment.', 'warning');
+        return false;
+    };
+
+    // Ledger event fields: which batch, and the bin the stock left (out) or sits in (in / adjust)
+    const getLedgerFields = (type: Transaction['type'], item: InventoryItem): Partial<Transaction> => {
+        const bin = item.locations[0];
+        return {
+            recordedAt: Date.now(),
+            batchId: item.id || undefined,
+            fromLocation: type === 'OUTBOUND' || type === 'DELETE' ? bin : undefined,
+            toLocation: type === 'INBOUND' || type === 'ADJUSTMENT' || type === 'COUNT' ? bin : undefined
+        };
+    };
+
     const logTransaction = (
         type: 'INBOUND' | 'OUTBOUND' | 'ADJUSTMENT' | 'MOVE' | 'DELETE' | 'COUNT',
         item: InventoryItem,
         qty: number,
         locationOverride?: string,
         customNote?: string,
-        customDate?: number
+        customDate?: number,
+        extra?: Partial<Pick<Transaction, 'batchId' | 'fromLocation' | 'toLocation' | 'toBatchId' | 'movedQuantity' | 'openingQuantity' | 'poNumber' | 'orderNumber'>>
     ) => {
         // Resolve the latest data from Product Master to ensure history matches current catalog
         const masterProduct = products.find(p => p.productCode === item.productCode);
@@ -310,29 +910,104 @@ export function useAppState() {
             quantity: qty,
             unit: resolvedUnit,
             locationInfo: locationOverride || item.locations.map(l => `${l.rack}-${l.bay}-${l.level}`).join(', '),
-            notes: customNote || (locationOverride ? 'Manual Adjustment via Map' : 'System Entry')
+            notes: customNote || (locationOverride ? 'Manual Adjustment via Map' : 'System Entry'),
+            lotNumber: item.lotNumber,
+            user: currentUser?.name,
+            ...getLedgerFields(type, item),
+            ...extra
         };
         setTransactions(prev => [newTx, ...prev]);
     };
 
+    // Deletions always, and adjustments over either threshold, wait for a supervisor.
+    // Supervisors' own changes apply directly - they would be the approver anyway.
+    const needsApproval = (kind: ApprovalRequest['kind'], item: InventoryItem, qtyDiff: number) => {
+        if (kind === 'DELETE') return !can(currentUser, 'deleteStock');
+        if (can(currentUser, 'approveChanges')) return false;
+        const unitCost = products.find(p => p.productCode === item.productCode)?.unitCost || 0;
+        if (approvalThresholds.quantity > 0 && Math.abs(qtyDiff) > approvalThresholds.quantity) return true;
+        if (approvalThresholds.value > 0 && Math.abs(qtyDiff) * unitCost > approvalThresholds.value) return true;
+        return false;
+    };
+
+    const requestApproval = (kind: ApprovalRequest['kind'], item: InventoryItem, qtyDiff: number, note: string, date?: number) => {
+        const unitCost = products.find(p => p.productCode === item.productCode)?.unitCost;
+        const request: ApprovalRequest = {
+            id: generateId(),
+            kind,
+            item,
+            qtyDiff,
+            value: unitCost ? Math.abs(qtyDiff) * unitCost : undefined,
+            note,
+            date,
+            requestedBy: currentUser?.name,
+            requestedAt: Date.now(),
+            status: 'pending',
+            updatedAt: Date.now()
+        };
+        setApprovals(prev => [request, ...prev]);
+        const what = kind === 'DELETE' ? `Removing ${item.productName}` : `${qtyDiff > 0 ? '+' : ''}${qtyDiff} ${item.unit} on ${item.productName}`;
+        showAlert('Sent for Approval', `${what} needs a supervisor's approval. It is listed under Special Notes until decided.`, 'info');
+    };
+
+    // Stock that takes a bin past its capacity needs a reason. Without one, ask for it and run the action again.
+    const confirmOverfill = (checks: CapacityCheck[], overrideReason: string | undefined, retry: (reason: string) => void) => {
+        if (checks.length === 0 || overrideReason?.trim()) return true;
+        showReasonPrompt('Bin Over Capacity', `${checks.map(c => c.message).join('\n')}\n\nGive a reason to store it anyway.`, 'Override reason', retry);
+        return false;
+    };
+
+    // The override reason goes into the ledger note
+    const withOverfillNote = (note: string | undefined, checks: CapacityCheck[], overrideReason?: string) =>
+        checks.length > 0 && overrideReason?.trim() ? `${note?.trim() ? `${note.trim()} ` : ''}[Over capacity: ${overrideReason.trim()}]` : note;
+
     // -- Handlers --
 
-    const handleSaveInventory = (item: Omit<InventoryItem, 'id' | 'updatedAt'>) => {
+    const handleSaveInventory = (item: Omit<InventoryItem, 'id' | 'updatedAt'>, overrideReason?: string) => {
         // @ts-ignore - 'date' passed from form but not in type
         const customDate = item.date as number | undefined;
 
+        // Same rules the ledger relies on: a batch always has a bin and a non-negative balance
+        if (!Number.isFinite(item.quantity) || item.quantity < 0) {
+            showAlert('Invalid Entry', 'Quantity must be zero or more.', 'danger');
+            return;
+        }
+        if (item.locations.length === 0) {
+            showAlert('Invalid Entry', 'Please select a location for this batch.', 'danger');
+            return;
+        }
+
+        const checks = findOverfilledBins([{ ...item, bin: item.locations[0] }], { inventory, products, masterLocations }, editingItem ? [editingItem.id] : []);
+        if (!confirmOverfill(checks, overrideReason, reason => handleSaveInventory(item, reason))) return;
+
         if (editingItem) {
             // Update existing (Inbound Edit)
+            const edited: InventoryItem = { ...item, id: editingItem.id, updatedAt: Date.now() };
+            const fromBin = editingItem.locations[0];
+            const toBin = item.locations[0];
+            if (formatBinCode(fromBin) !== formatBinCode(toBin)) {
+                logTransaction('MOVE', edited, 0, `Moved: ${formatBinCode(fromBin)} -> ${formatBinCode(toBin)}`, withOverfillNote('Edit Entry Form', checks, overrideReason), customDate, {
+                    fromLocation: fromBin,
+                    toLocation: toBin,
+                    toBatchId: editingItem.id,
+                    movedQuantity: editingItem.quantity
+                });
+            }
             const qtyDiff = item.quantity - editingItem.quantity;
-            if (qtyDiff !== 0) {
-                logTransaction('ADJUSTMENT', { ...item, id: editingItem.id, updatedAt: Date.now() }, qtyDiff, 'Edit Entry Form', item.notes, customDate);
+            // Other edits still apply; a held quantity change keeps the current balance until approved
+            const isHeld = qtyDiff !== 0 && needsApproval('ADJUSTMENT', edited, qtyDiff);
+            if (isHeld) {
+                requestApproval('ADJUSTMENT', { ...edited, quantity: editingItem.quantity }, qtyDiff, withOverfillNote(item.notes || 'Edit Entry Form', checks, overrideReason)!, customDate);
+            } else if (qtyDiff !== 0) {
+                logTransaction('ADJUSTMENT', edited, qtyDiff, 'Edit Entry Form', withOverfillNote(item.notes, checks, overrideReason), customDate);
             }
 
             setInventory(prev => prev.map(i =>
                 i.id === editingItem.id
-                    ? { ...item, id: editingItem.id, updatedAt: Date.now() } // keep system time for updatedAt
+                    ? { ...item, id: editingItem.id, quantity: isHeld ? editingItem.quantity : item.quantity, updatedAt: Date.now() } // keep system time for updatedAt
                     : i
             ));
+            trackMutation('SAVE_INVENTORY', `Edit: ${item.productName}`);
             setEditingItem(null);
         } else {
             // Create new (Inbound)
@@ -342,7 +1017,8 @@ export function useAppState() {
                 updatedAt: Date.now()
             };
             setInventory(prev => [newItem, ...prev]);
-            logTransaction('INBOUND', newItem, newItem.quantity, undefined, item.notes, customDate);
+            logTransaction('INBOUND', newItem, newItem.quantity, undefined, withOverfillNote(item.notes, checks, overrideReason), customDate);
+            trackMutation('SAVE_INVENTORY', `Inbound: ${newItem.quantity} ${newItem.unit} ${newItem.productName}`);
         }
     };
 
@@ -354,17 +1030,34 @@ export function useAppState() {
     const handleDeleteInventory = (id: string) => {
         // Find item first to log it
         const item = inventory.find(i => i.id === id);
+        if (!item) return;
 
-        if (item) {
-            // Update state first to feel responsive
-            setInventory(prev => prev.filter(i => i.id !== id));
-            // Then log
-            logTransaction('DELETE', item, -item.quantity, 'Deleted Record');
+        // Without the deleteStock permission the deletion is queued for approval
+        if (needsApproval('DELETE', item, -item.quantity)) {
+            requestApproval('DELETE', item, -item.quantity, 'Deleted Record');
+            return;
         }
+        // Update state first to feel responsive
+        setInventory(prev => prev.filter(i => i.id !== id));
+        // Then log
+        logTransaction('DELETE', item, -item.quantity, 'Deleted Record');
+        trackMutation('MAP_CHANGE', `Delete: ${item.productName}`);
     };
 
-    const handleOutboundProcess = (itemsToRemove: { id: string, qty: number }[], note?: string, customDate?: number) => {
+    // Picks stock by batch. With an order, every OUTBOUND carries its number and the picks are recorded on its lines.
+    // A request's own orderId (wave picks) overrides the one for the whole call.
+    // Quantities are in the request's unit (default: the batch's unit) and converted to the batch's unit. Picking a
+    // smaller unit than the batch is kept in opens it: the rest of the batch is kept in the picked unit, never as a fraction.
+    const handleOutboundProcess = (itemsToRemove: { id: string, qty: number, unit?: string, orderId?: string }[], note?: string, customDate?: number, orderId?: string, tags: Pick<Transaction, 'manifestId'> = {}) => {
+        const orderIds = new Set(itemsToRemove.map(r => r.orderId || orderId).filter((id): id is string => !!id));
+        const orders = new Map<string, OutboundOrder>(outboundOrders.filter(o => orderIds.has(o.id)).map(o => [o.id, o]));
+        if (Array.from(orderIds).some(id => !orders.has(id) || orders.get(id)!.status === 'shipped')) {
+            showAlert('Order Unavailable', 'An order has already shipped or was removed. Nothing was picked.', 'warning');
+            return;
+        }
+
         const newTransactions: Transaction[] = [];
+        const picked: { item: InventoryItem; qty: number; tx: Transaction; orderId?: string }[] = [];
         const currentInventory = [...inventory];
         const updatedInventory = [...inventory];
 
@@ -372,16 +1065,46 @@ export function useAppState() {
             const idx = updatedInventory.findIndex(x => x.id === request.id);
             if (idx === -1) return;
 
-            const item = updatedInventory[idx];
-            const qtyToRemove = request.qty;
-            if (qtyToRemove <= 0) return;
+            let item = updatedInventory[idx];
+            if (request.qty <= 0) return;
+            // Safety: Quarantined batches are on hold and must never ship
+            if (item.status === 'quarantine') return;
+            const order = orders.get(request.orderId || orderId || '');
 
             // Prepare Transaction Data
             const masterProduct = products.find(p => p.productCode === item.productCode);
             const resolvedName = masterProduct ? masterProduct.name : item.productName;
-            const resolvedUnit = masterProduct?.defaultUnit || item.unit;
             const resolvedCategory = masterProduct?.defaultCategory || item.category;
 
+            let qtyToRemove = request.qty;
+            let opening: Transaction | undefined;
+            if (request.unit && !isSameUnit(request.unit, item.unit)) {
+                const inBatchUnit = convertQty(masterProduct, request.qty, request.unit, item.unit);
+                const opened = convertQty(masterProduct, item.quantity, item.unit, request.unit);
+                if (inBatchUnit === undefined || opened === undefined) return;
+                if (Number.isInteger(roundQty(item.quantity - inBatchUnit)) || !Number.isInteger(item.quantity)) {
+                    qtyToRemove = inBatchUnit;
+                } else {
+                    // Re-open the batch in the picked unit so the ledger follows it (see services/ledger.ts)
+                    opening = {
+                        id: generateId(),
+                        date: customDate || Date.now(),
+                        type: 'COUNT',
+                        productCode: item.productCode,
+                        productName: resolvedName,
+                        category: resolvedCategory,
+                        quantity: 0,
+                        unit: request.unit,
+                        locationInfo: item.locations.map(l => `${l.rack}-${l.bay}-${l.level}`).join(', '),
+                        notes: `Opened for picking: ${item.quantity} ${item.unit} = ${opened} ${request.unit}`,
+                        user: currentUser?.name,
+                        ...getLedgerFields('COUNT', item),
+                        openingQuantity: opened
+                    };
+                    item = { ...item, quantity: opened, unit: request.unit };
+                }
+            }
+
             const tx: Transaction = {
                 id: generateId(),
                 date: customDate || Date.now(),
@@ -390,11 +1113,20 @@ export function useAppState() {
                 productName: resolvedName,
                 category: resolvedCategory,
                 quantity: -qtyToRemove,
-                unit: resolvedUnit,
+                unit: item.unit,
                 locationInfo: item.locations.map(l => `${l.rack}-${l.bay}-${l.level}`).join(', '),
-                notes: note || 'System Entry'
+                notes: note || (order ? `Order ${order.orderNumber} - ${order.customerName}` : 'System Entry'),
+                lotNumber: item.lotNumber,
+                user: currentUser?.name,
+                ...getLedgerFields('OUTBOUND', item),
+                orderNumber: order?.orderNumber,
+                ...tags
             };
             newTransactions.push(tx);
+            if (opening) newTransactions.push(opening); // History is newest-first: the opening goes before the pick
+            // Order lines count in the product's default unit
+            const orderQty = masterProduct?.defaultUnit ? convertQty(masterProduct, qtyToRemove, item.unit, masterProduct.defaultUnit) ?? qtyToRemove : qtyToRemove;
+            picked.push({ item, qty: orderQty, tx, orderId: order?.id });
 
             // Update Inventory
             if (item.quantity <= qtyToRemove) {
@@ -402,7 +1134,7 @@ export function useAppState() {
             } else {
                 updatedInventory[idx] = {
                     ...item,
-                    quantity: item.quantity - qtyToRemove,
+                    quantity: roundQty(item.quantity - qtyToRemove),
                     updatedAt: Date.now()
                 };
             }
@@ -411,16 +1143,93 @@ export function useAppState() {
         // Apply both updates at once
         setInventory(updatedInventory);
         setTransactions(prev => [...newTransactions, ...prev]);
+        if (newTransactions.length > 0) trackMutation('OUTBOUND', `Outbound: ${newTransactions.length} line(s)`);
+
+        const updatedOrders = new Map<string, OutboundOrder>();
+        picked.forEach(({ item, qty, tx, orderId: pickOrderId }) => {
+            if (!pickOrderId) return;
+            const order = updatedOrders.get(pickOrderId) || orders.get(pickOrderId)!;
+            const lines: OutboundOrderLine[] = order.lines.map(l => ({ ...l, picks: [...l.picks] }));
+            let remaining = qty;
+            const matching = lines.filter(l => l.productCode === item.productCode);
+            if (matching.length === 0) {
+                // Picked but not ordered (added on the floor) - still listed on the shipping documents
+                const extra: OutboundOrderLine = { id: generateId(), productCode: item.productCode, orderedQty: 0, pickedQty: 0, picks: [] };
+                lines.push(extra);
+                matching.push(extra);
+            }
+            matching.forEach((line, idx) => {
+                // Fill lines in order; any over-pick lands on the last one
+                const take = idx === matching.length - 1 ? remaining : Math.min(remaining, getOrderLineRemaining(line));
+                if (take <= 0) return;
+                line.pickedQty += take;
+                line.picks.push({
+                    batchId: item.id,
+                    transactionId: tx.id,
+                    qty: take,
+                    lotNumber: item.lotNumber,
+                    expiryDate: getBatchExpiry(item, products.find(p => p.productCode === item.productCode)),
+                    location: tx.locationInfo,
+                    date: tx.date
+                });
+                remaining -= take;
+            });
+            const updated: OutboundOrder = { ...order, lines };
+            updated.status = deriveOutboundOrderStatus(updated);
+            updatedOrders.set(order.id, updated);
+        });
+        if (updatedOrders.size > 0) {
+            setOutboundOrders(prev => prev.map(o => updatedOrders.get(o.id) || o));
+        }
     };
 
-    const handleMapInventoryChange = (action: 'ADD' | 'UPDATE' | 'DELETE' | 'MOVE' | 'COUNT', item: InventoryItem, qtyDiff?: number, moveContext?: any, date?: number) => {
+    // A move leg only skips approval when it matches its transfer exactly: the source gives up the moved
+    // quantity (UPDATE) or all of it (DELETE), and the same batch at the destination receives that quantity
+    const isTransferLeg = (action: 'UPDATE' | 'DELETE', item: InventoryItem, qtyDiff: number | undefined, transfer: MapChangeContext['transfer']) => {
+        if (!transfer || !(transfer.qty > 0)) return false;
+        const source = inventory.find(i => i.id === transfer.sourceId);
+        if (!source || transfer.qty > source.quantity) return false;
+
+        if (item.id === source.id) {
+            if (action === 'DELETE') return transfer.qty === source.quantity;
+            return qtyDiff === -transfer.qty && item.quantity === source.quantity - transfer.qty;
+        }
+        const dest = inventory.find(i => i.id === item.id);
+        return action === 'UPDATE' && !!dest && isSameBatch(dest, source) &&
+            qtyDiff === transfer.qty && item.quantity === dest.quantity + transfer.qty;
+    };
+
+    const handleMapInventoryChange = (action: 'ADD' | 'UPDATE' | 'DELETE' | 'MOVE' | 'COUNT', item: InventoryItem, qtyDiff?: number, moveContext?: MapChangeContext, date?: number) => {
+        // The map checks bin capacity itself (a move is several legs); an override reason rides on the leg that fills the bin
+        const overfillNote = moveContext?.overrideReason ? `[Over capacity: ${moveContext.overrideReason}]` : undefined;
+        // Move legs only shift stock between bins, so they never wait for approval
+        const isMoveLeg = (action === 'UPDATE' || action === 'DELETE') && isTransferLeg(action, item, qtyDiff, moveContext?.transfer);
+        if (!isMoveLeg) {
+            if (action === 'DELETE' && needsApproval('DELETE', item, -item.quantity)) {
+                requestApproval('DELETE', item, -item.quantity, 'Map Direct Removal', date);
+                return;
+            }
+            if ((action === 'UPDATE' || action === 'COUNT') && qtyDiff && needsApproval(action === 'COUNT' ? 'COUNT' : 'ADJUSTMENT', item, qtyDiff)) {
+                const before = { ...item, quantity: item.quantity - qtyDiff };
+                if (action === 'COUNT') {
+                    requestApproval('COUNT', before, qtyDiff, 'Cycle Count Variance', date);
+                } else {
+                    // Non-quantity edits (lot, notes...) apply now; the quantity waits
+                    setInventory(prev => prev.map(i => i.id === item.id ? { ...item, quantity: i.quantity } : i));
+                    trackMutation('MAP_CHANGE', `Map UPDATE: ${item.productName}`);
+                    requestApproval('ADJUSTMENT', before, qtyDiff, overfillNote ? `Map Direct Adjustment ${overfillNote}` : 'Map Direct Adjustment', date);
+                }
+                return;
+            }
+        }
+        trackMutation('MAP_CHANGE', `Map ${action}: ${item.productName}`);
         if (action === 'ADD') {
             setInventory(prev => [item, ...prev]);
-            logTransaction('INBOUND', item, item.quantity, 'Map Direct Add', undefined, date);
+            logTransaction('INBOUND', item, item.quantity, 'Map Direct Add', overfillNote, date);
         } else if (action === 'UPDATE') {
             setInventory(prev => prev.map(i => i.id === item.id ? item : i));
             if (qtyDiff) {
-                logTransaction('ADJUSTMENT', item, qtyDiff, 'Map Direct Adjustment', undefined, date);
+                logTransaction('ADJUSTMENT', item, qtyDiff, 'Map Direct Adjustment', overfillNote, date);
             } else if (qtyDiff === 0 && !moveContext) {
                 // Fallback if no specific logic
             }
@@ -434,7 +1243,12 @@ export function useAppState() {
             // Log move
             const fromLoc = moveContext?.previousLocation ? `${moveContext.previousLocation.rack}-${moveContext.previousLocation.bay}-${moveContext.previousLocation.level}` : 'Unknown';
             const toLoc = item.locations[0] ? `${item.locations[0].rack}-${item.locations[0].bay}-${item.locations[0].level}` : 'Unknown';
-            logTransaction('MOVE', item, 0, `Moved: ${fromLoc} -> ${toLoc}`, undefined, date);
+            logTransaction('MOVE', item, 0, `Moved: ${fromLoc} -> ${toLoc}`, overfillNote, date, {
+                fromLocation: moveContext?.previousLocation,
+                toLocation: item.locations[0],
+                toBatchId: item.id,
+                movedQuantity: item.quantity
+            });
         } else if (action === 'COUNT') {
             // Update lastCountedAt
             setInventory(prev => prev.map(i => i.id === item.id ? { ...item, lastCountedAt: Date.now() } : i));
@@ -449,7 +1263,7 @@ export function useAppState() {
         }
     };
 
-    const handleMoveStock = (sourceId: string, destLoc: { rack: string, bay: number, level: string }, qty: number) => {
+    const handleMoveStock = (sourceId: string, destLoc: { rack: string, bay: number, level: string }, qty: number, overrideReason?: string) => {
         const sourceItem = inventory.find(i => i.id === sourceId);
         if (!sourceItem) return;
 
@@ -459,6 +1273,20 @@ export function useAppState() {
             return;
         }
 
+        const checks = formatBinCode(sourceItem.locations[0]) === formatBinCode(destLoc)
+            ? []
+            : findOverfilledBins([{ ...sourceItem, quantity: qty, bin: destLoc }], { inventory, products, masterLocations });
+        if (!confirmOverfill(checks, overrideReason, reason => handleMoveStock(sourceId, destLoc, qty, reason))) return;
+
+        // Resolve the receiving batch up front so the ledger event can name it
+        const isAtDest = (i: InventoryItem) =>
+            i.locations[0].rack === destLoc.rack &&
+            i.locations[0].bay === destLoc.bay &&
+            i.locations[0].level === destLoc.level;
+        const mergeTarget = inventory.find(i => isSameBatch(i, sourceItem) && isAtDest(i) && i.id !== sourceId);
+        const splitId = generateId();
+        const toBatchId = mergeTarget ? mergeTarget.id : qty === sourceItem.quantity ? sourceId : splitId;
+
         setInventory(prev => {
             const newInv = [...prev];
             const sourceIdx = newInv.findIndex(i => i.id === sourceId);
@@ -468,14 +1296,8 @@ export function useAppState() {
             // Defensive check in case state changed
             if (qty > src.quantity) return prev;
 
-            // Check if item exists at destination to merge
-            const destIdx = newInv.findIndex(i =>
-                i.productCode === src.productCode &&
-                i.locations[0].rack === destLoc.rack &&
-                i.locations[0].bay === destLoc.bay &&
-                i.locations[0].level === destLoc.level &&
-                i.id !== sourceId
-            );
+            // Check if the same batch exists at destination to merge (different lots or hold status stay separate)
+            const destIdx = newInv.findIndex(i => isSameBatch(i, src) && isAtDest(i) && i.id !== sourceId);
 
             if (destIdx !== -1) {
                 // MERGE: Update Dest
@@ -517,7 +1339,7 @@ export function useAppState() {
                     // 2. Add New
                     newInv.push({
                         ...src,
-                        id: generateId(),
+                        id: splitId,
                         quantity: qty,
                         locations: [destLoc],
                         updatedAt: Date.now()
@@ -529,7 +1351,13 @@ export function useAppState() {
 
         const sourceLocString = `${sourceItem.locations[0].rack}-${sourceItem.locations[0].bay}-${sourceItem.locations[0].level}`;
         const destLocString = `${destLoc.rack}-${destLoc.bay}-${destLoc.level}`;
-        logTransaction('MOVE', sourceItem, 0, `Moved ${qty} ${sourceItem.unit} from ${sourceLocString} to ${destLocString}`);
+        logTransaction('MOVE', sourceItem, 0, `Moved ${qty} ${sourceItem.unit} from ${sourceLocString} to ${destLocString}`, withOverfillNote(undefined, checks, overrideReason), undefined, {
+            fromLocation: sourceItem.locations[0],
+            toLocation: destLoc,
+            toBatchId,
+            movedQuantity: qty
+        });
+        trackMutation('MOVE_STOCK', `Move: ${qty} ${sourceItem.unit} ${sourceItem.productName} -> ${destLocString}`);
     };
 
     // Aggregation Logic for Dashboard
@@ -558,13 +1386,14 @@ export function useAppState() {
         });
     }, [inventory, products]);
 
-    const lowStockItems = useMemo(() => {
-        return inventorySummary.filter(item => item.minStockLevel > 0 && item.qty < item.minStockLevel);
-    }, [inventorySummary]);
+    // Reorder: min level + demand over the supplier lead time, net of stock already on order
+    const reorderSuggestions = useMemo(() => {
+        return buildReorderSuggestions(products, inventory, transactions, suppliers, purchaseOrders);
+    }, [products, inventory, transactions, suppliers, purchaseOrders]);
 
     // -- Dashboard Calculations --
 
-    // Top Movers: Most outbound quantity in persistent history
+    // Top Movers: Most outbound quantity in the loaded history (the recent window on IndexedDB)
     const topMovers = useMemo(() => {
         const counts: Record<string, number> = {};
         transactions
@@ -591,13 +1420,872 @@ export function useAppState() {
             .slice(0, 5);
     }, [inventory]);
 
+    // Expiry Alerts: Batches past expiry, and batches expiring within the warning window
+    // Uses recorded expiry, or production date + product shelf life when no expiry was captured
+    const { expiredBatches, expiringBatches } = useMemo(() => {
+        const DAY = 24 * 60 * 60 * 1000;
+        const now = new Date();
+        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+        const horizon = today + expiryWarningDays * DAY;
+
+        const expired: { item: InventoryItem, expiryDate: number, daysLeft: number }[] = [];
+        const expiring: { item: InventoryItem, expiryDate: number, daysLeft: number }[] = [];
+
+        inventory.forEach(item => {
+            const product = products.find(p => p.productCode === item.productCode);
+            const expiryDate = getBatchExpiry(item, product);
+            if (!expiryDate) return;
+
+            const daysLeft = Math.floor((expiryDate - today) / DAY);
+            if (expiryDate < today) expired.push({ item, expiryDate, daysLeft });
+            else if (expiryDate <= horizon) expiring.push({ item, expiryDate, daysLeft });
+        });
+
+        // Soonest first
+        expired.sort((a, b) => a.expiryDate - b.expiryDate);
+        expiring.sort((a, b) => a.expiryDate - b.expiryDate);
+
+        return { expiredBatches: expired, expiringBatches: expiring };
+    }, [inventory, products, expiryWarningDays]);
+
+    // -- Sync Conflict Resolution --
+    // mine: local edit wins (re-stamped so the server accepts it)
+    // theirs: cloud version replaces the local one
+    // merge: inventory only - apply both sides' quantity changes on top of the common base
+    const handleResolveConflict = (conflictId: string, resolution: ConflictResolution) => {
+        const conflict = syncConflicts.find(c => c.id === conflictId);
+        if (!conflict) return;
+
+        const { collection, key, local, cloud, base } = conflict;
+        let resolved: any;
+        if (resolution === 'mine') {
+            resolved = { ...local, updatedAt: Date.now() };
+        } else if (resolution === 'theirs') {
+            resolved = cloud;
+        } else {
+            if (collection !== 'inventory' || !base) return;
+            const mergedQty = Number(cloud.quantity) + Number(local.quantity) - Number(base.quantity);
+            resolved = { ...cloud, quantity: Math.max(0, mergedQty), updatedAt: Date.now() };
+        }
+
+        const label = resolution === 'mine' ? 'Kept Local' : resolution === 'theirs' ? 'Kept Cloud' : 'Merged Quantities';
+
+        if (collection === 'inventory') {
+            setInventory(prev => prev.some(i => i.id === key)
+                ? prev.map(i => i.id === key ? resolved : i)
+                : [...prev, resolved]);
+            // Log the stock change relative to what this device had.
+            // Not a ledger event: both devices' own events are already in the merged history.
+            logTransaction('ADJUSTMENT', resolved, Number(resolved.quantity) - Number(local.quantity), undefined, `Sync Conflict: ${label}`, undefined, { batchId: undefined });
+        } else {
+            setProducts(prev => prev.some(p => p.productCode === key)
+                ? prev.map(p => p.productCode === key ? resolved : p)
+                : [...prev, resolved]);
+            logTransaction('ADJUSTMENT', {
+                id: '',
+                productCode: resolved.productCode,
+                productName: resolved.name,
+                quantity: 0,
+                unit: resolved.defaultUnit || '',
+                category: resolved.defaultCategory || '',
+                locations: [],
+                updatedAt: Date.now()
+            }, 0, 'Product Master', `Sync Conflict: ${label}`);
+        }
+
+        // The cloud version is now the acknowledged base; anything different gets pushed
+        commitBaseline({
+            ...syncBaselineRef.current,
+            [collection]: { ...syncBaselineRef.current[collection], [key]: getRecordSignature(cloud) }
+        });
+        setSyncConflicts(prev => prev.filter(c => c.id !== conflictId));
+    };
+
+    // Quarantine (Hold) / Release a batch. Held batches stay in their bin but are excluded from picking.
+    const handleQuarantineBatch = (id: string, hold = true) => {
+        if (!requirePermission('holdStock', hold ? 'Quarantining batches' : 'Releasing batches')) return;
+        const item = inventory.find(i => i.id === id);
+        if (!item) return;
+
+        const newStatus = hold ? 'quarantine' : 'active';
+        if ((item.status || 'active') === newStatus) return;
+
+        setInventory(prev => prev.map(i => i.id === id ? { ...i, status: newStatus, updatedAt: Date.now() } : i));
+        logTransaction('ADJUSTMENT', item, 0, undefined, hold ? 'Quarantined: Expiry Hold' : 'Released from Quarantine');
+        trackMutation('MAP_CHANGE', `${hold ? 'Quarantine' : 'Release'}: ${item.productName}`);
+    };
+
+    // -- Ledger Reconciliation --
+    // Posts the events that make the ledger agree with stored stock (trust the shelf):
+    // untracked -> opening balance, mismatch -> adjustment / move, missing -> write-off
+    const handleReconcileLedger = (batchIds?: string[]) => {
+        if (!requirePermission('reconcileLedger', 'Ledger corrections')) return;
+        if (!requireFullHistory()) return;
+        const rows = reconcileLedger(inventory, transactions)
+            .filter(r => !batchIds || batchIds.includes(r.batchId));
+        if (rows.length === 0) return;
+
+        rows.forEach(row => {
+            const item = inventory.find(i => i.id === row.batchId);
+            if (row.status === 'untracked' && item) {
+                logTransaction('COUNT', item, 0, undefined, 'Ledger Opening Balance', undefined, { openingQuantity: item.quantity });
+            } else if (row.status === 'mismatch' && item) {
+                const diff = item.quantity - (row.ledgerQty || 0);
+                if (row.ledgerLocation && formatBinCode(row.ledgerLocation) !== formatBinCode(item.locations[0])) {
+                    logTransaction('MOVE', item, 0, `Moved: ${formatBinCode(row.ledgerLocation)} -> ${formatBinCode(item.locations[0])}`, 'Ledger Reconciliation', undefined, {
+                        fromLocation: row.ledgerLocation,
+                        toLocation: item.locations[0],
+                        toBatchId: item.id,
+                        movedQuantity: row.ledgerQty
+                    });
+                }
+                if (Math.abs(diff) > 1e-6) logTransaction('ADJUSTMENT', item, diff, undefined, 'Ledger Reconciliation');
+            } else if (row.status === 'missing') {
+                logTransaction('DELETE', {
+                    id: row.batchId,
+                    productCode: row.productCode,
+                    productName: row.productName,
+                    quantity: row.ledgerQty || 0,
+                    unit: row.unit,
+                    category: '',
+                    lotNumber: row.lotNumber,
+                    locations: row.ledgerLocation ? [row.ledgerLocation] : [],
+                    updatedAt: Date.now()
+                }, -(row.ledgerQty || 0), undefined, 'Ledger Reconciliation: Write-off');
+            }
+        });
+        showAlert('Ledger Reconciled', `Posted corrections for ${rows.length} batch(es).`);
+    };
+
+    // The opposite direction: overwrite stored quantities / bins with the ledger (trust the history)
+    const handleRebuildFromLedger = () => {
+        if (!requirePermission('reconcileLedger', 'Rebuilding stock from the ledger')) return;
+        if (!requireFullHistory()) return;
+        const projected = applyLedgerProjection(inventory, transactions);
+        if (projected === inventory) {
+            showAlert('Ledger', 'Stock already matches the ledger.');
+            return;
+        }
+        setInventory(projected);
+        showAlert('Stock Rebuilt', 'Tracked batches now match the ledger.');
+    };
+
+    // Turning ledger mode on opens a balance for every batch that predates the ledger,
+    // so the projection starts from today's stock instead of dropping those batches
+    const handleSetLedgerMode = (enabled: boolean) => {
+        if (!requirePermission('reconcileLedger', 'Changing ledger mode')) return;
+        if (enabled && !requireFullHistory()) return;
+        if (enabled) {
+            const untracked = reconcileLedger(inventory, transactions).filter(r => r.status === 'untracked');
+            if (untracked.length > 0) handleReconcileLedger(untracked.map(r => r.batchId));
+        }
+        setLedgerMode(enabled);
+    };
+
+    // -- Users --
+    const handleLogin = async (userId: string, pin: string): Promise<boolean> => {
+        const user = users.find(u => u.id === userId && u.active);
+        if (!user || !(await verifyPin(user, pin))) return false;
+        if (needsPinRehash(user)) {
+            const pinHash = await hashPin(user.id, pin);
+            setUsers(prev => prev.map(u => u.id === user.id ? { ...u, pinHash, updatedAt: Date.now() } : u));
+        }
+        setCurrentUserId(user.id);
+        return true;
+    };
+
+    const handleLogout = () => {
+        setCurrentUserId(null);
+        setEditingItem(null);
+    };
+
+    // First run only: no users here or on the remote backend, so the first account is an admin.
+    // Until the first pull finishes, a new or cleared device cannot tell, so it offers no setup.
+    const canCreateFirstAdmin = users.length === 0 && (!remoteAdapter || remoteHasNoUsers);
+    const handleCreateFirstAdmin = async (name: string, pin: string) => {
+        if (!canCreateFirstAdmin) return;
+        if (!name.trim() || !isValidPin(pin)) {
+            showAlert('Invalid User', 'Enter a name and a 4-8 digit PIN.', 'warning');
+            return;
+        }
+        const id = generateId();
+        const admin: UserProfile = { id, name: name.trim(), role: 'admin', pinHash: await hashPin(id, pin), active: true, createdAt: Date.now(), updatedAt: Date.now() };
+        setUsers([admin]);
+        setCurrentUserId(id);
+    };
+
+    // Create (no id) or update a user. The PIN is only changed when a new one is given.
+    const handleSaveUser = async (user: Pick<UserProfile, 'name' | 'role' | 'active'> & { id?: string }, pin?: string): Promise<boolean> => {
+        if (!requirePermission('manageUsers', 'Managing users')) return false;
+
+        const name = user.name.trim();
+        if (!name) {
+            showAlert('Invalid User', 'Name is required.', 'warning');
+            return false;
+        }
+        if (users.some(u => u.id !== user.id && u.name.toLowerCase() === name.toLowerCase())) {
+            showAlert('Invalid User', `A user named "${name}" already exists.`, 'warning');
+            return false;
+        }
+        if ((!user.id || pin) && !isValidPin(pin || '')) {
+            showAlert('Invalid PIN', 'PIN must be 4-8 digits.', 'warning');
+            return false;
+        }
+
+        const existing = user.id ? users.find(u => u.id === user.id) : undefined;
+        const remainingAdmins = users.filter(u => u.role === 'admin' && u.active && u.id !== user.id).length;
+        if (existing?.role === 'admin' && existing.active && (user.role !== 'admin' || !user.active) && remainingAdmins === 0) {
+            showAlert('Not Allowed', 'At least one active admin is required.', 'warning');
+            return false;
+        }
+
+        const id = existing?.id || generateId();
+        const saved: UserProfile = {
+            id,
+            name,
+            role: user.role,
+            active: user.active,
+            pinHash: pin ? await hashPin(id, pin) : existing!.pinHash,
+            createdAt: existing?.createdAt || Date.now(),
+            updatedAt: Date.now()
+        };
+        setUsers(prev => existing ? prev.map(u => u.id === id ? saved : u) : [...prev, saved]);
+        return true;
+    };
+
+    const handleDeleteUser = (id: string) => {
+        if (!requirePermission('manageUsers', 'Managing users')) return;
+        const user = users.find(u => u.id === id);
+        if (!user) return;
+        if (id === currentUser?.id) {
+            showAlert('Not Allowed', 'You cannot remove your own account while signed in.', 'warning');
+            return;
+        }
+        if (user.role === 'admin' && user.active && users.filter(u => u.role === 'admin' && u.active).length === 1) {
+            showAlert('Not Allowed', 'At least one active admin is required.', 'warning');
+            return;
+        }
+        showConfirm('Remove User', `Remove ${user.name}? Their history entries keep the name.`, () => {
+            setUsers(prev => prev.filter(u => u.id !== id));
+        });
+    };
+
+    // -- Purchase Orders --
+    // Create (no id) or edit a PO. Received totals stay with their line; a line with receipts cannot be removed.
+    const handleSavePurchaseOrder = (po: PurchaseOrderInput): boolean => {
+        if (!requirePermission('managePurchaseOrders', 'Managing purchase orders')) return false;
+
+        const poNumber = po.poNumber.trim();
+        if (!poNumber || !po.supplier.trim()) {
+            showAlert('Invalid Purchase Order', 'PO number and supplier are required.', 'warning');
+            return false;
+        }
+        if (purchaseOrders.some(p => p.id !== po.id && p.poNumber.toLowerCase() === poNumber.toLowerCase())) {
+            showAlert('Invalid Purchase Order', `PO ${poNumber} already exists.`, 'warning');
+            return false;
+        }
+        const lines = po.lines.filter(l => l.productCode);
+        if (lines.length === 0 || lines.some(l => !(l.expectedQty > 0))) {
+            showAlert('Invalid Purchase Order', 'Add at least one line, each with a quantity above zero.', 'warning');
+            return false;
+        }
+        const unknown = lines.find(l => !products.some(p => p.productCode === l.productCode));
+        if (unknown) {
+            showAlert('Invalid Purchase Order', `Product ${unknown.productCode} is not in the Product Master.`, 'warning');
+            return false;
+        }
+
+        const existing = po.id ? purchaseOrders.find(p => p.id === po.id) : undefined;
+        const droppedReceived = existing?.lines.find(l => getLineDelivered(l) > 0 && !lines.some(n => n.id === l.id));
+        if (droppedReceived) {
+            showAlert('Not Allowed', `${droppedReceived.productCode} has already been received and cannot be removed from the PO.`, 'warning');
+            return false;
+        }
+
+        const saved: PurchaseOrder = {
+            id: existing?.id || generateId(),
+            poNumber,
+            supplier: po.supplier.trim(),
+            // Link to the supplier master by name unless the form already carries the link
+            supplierId: po.supplierId
+                || (existing?.supplier === po.supplier.trim() ? existing.supplierId : undefined)
+                || suppliers.find(sp => sp.name.toLowerCase() === po.supplier.trim().toLowerCase())?.id,
+            expectedDate: po.expectedDate,
+            notes: po.notes?.trim() || undefined,
+            lines: lines.map(l => {
+                const prev = existing?.lines.find(x => x.id === l.id);
+                return { id: prev?.id || generateId(), productCode: l.productCode, expectedQty: l.expectedQty, receivedQty: prev?.receivedQty || 0, damagedQty: prev?.damagedQty || 0 };
+            }),
+            receipts: existing?.receipts || [],
+            status: existing?.status || 'open',
+            createdAt: existing?.createdAt || Date.now(),
+            createdBy: existing ? existing.createdBy : currentUser?.name
+        };
+        saved.status = derivePurchaseOrderStatus(saved);
+        setPurchaseOrders(prev => existing ? prev.map(p => p.id === saved.id ? saved : p) : [saved, ...prev]);
+        return true;
+    };
+
+    // Finishes a PO that will not be delivered in full; outstanding units are reported short
+    const handleClosePurchaseOrder = (id: string) => {
+        if (!requirePermission('managePurchaseOrders', 'Closing purchase orders')) return;
+        const po = purchaseOrders.find(p => p.id === id);
+        if (!po) return;
+        showConfirm('Close Purchase Order', `Close ${po.poNumber}? Anything not yet received is recorded as short.`, () => {
+            setPurchaseOrders(prev => prev.map(p => p.id === id ? { ...p, status: 'closed' } : p));
+        });
+    };
+
+    const handleDeletePurchaseOrder = (id: string) => {
+        if (!requirePermission('managePurchaseOrders', 'Deleting purchase orders')) return;
+        const po = purchaseOrders.find(p => p.id === id);
+        if (!po) return;
+        if (po.receipts.length > 0) {
+            showAlert('Not Allowed', `${po.poNumber} has receipts in history. Close it instead.`, 'warning');
+            return;
+        }
+        showConfirm('Delete Purchase Order', `Delete ${po.poNumber}?`, () => {
+            setPurchaseOrders(prev => prev.filter(p => p.id !== id));
+        });
+    };
+
+    // Books a delivery against a PO: good units become active batches, damaged units quarantined batches.
+    // Every batch is logged as INBOUND carrying the PO number.
+    const handleReceivePurchaseOrder = (poId: string, receiptLines: ReceiptLineInput[], options: { date?: number; note?: string; closeShort?: boolean; overrideReason?: string } = {}): boolean => {
+        const po = purchaseOrders.find(p => p.id === poId);
+        if (!po || po.status === 'closed' || po.status === 'received') {
+            showAlert('Cannot Receive', 'This purchase order is no longer open.', 'warning');
+            return false;
+        }
+        const lines = receiptLines.filter(r => r.qty > 0 || r.damagedQty > 0);
+        if (lines.some(r => r.qty < 0 || r.damagedQty < 0 || !Number.isFinite(r.qty) || !Number.isFinite(r.damagedQty))) {
+            showAlert('Invalid Entry', 'Quantities must be zero or more.', 'danger');
+            return false;
+        }
+        if (lines.length === 0 && !options.closeShort) {
+            showAlert('Invalid Entry', 'Enter a received quantity on at least one line.', 'warning');
+            return false;
+        }
+
+        const reserved: InventoryLocation[] = [];
+        const incoming: IncomingStock[] = [];
+        const putawayContext = { products, inventory, masterLocations, settings: putawaySettings, reserved };
+        const takeBin = (productCode: string, quantity: number, location?: InventoryLocation) => {
+            const unit = products.find(p => p.productCode === productCode)?.defaultUnit || 'pcs';
+            const bin = location || findReceivingBin(productCode, unit, putawayContext);
+            if (bin) {
+                reserved.push(bin);
+                incoming.push({ productCode, unit, quantity, bin });
+            }
+            return bin;
+        };
+        // Bins first, so a full warehouse stops the receipt before anything is booked
+        const bins = new Map<string, InventoryLocation | undefined>();
+        lines.forEach(r => {
+            const line = po.lines.find(l => l.id === r.lineId);
+            if (!line) return;
+            if (r.qty > 0) bins.set(`${r.lineId}:good`, takeBin(line.productCode, r.qty, r.location));
+            if (r.damagedQty > 0) bins.set(`${r.lineId}:damaged`, takeBin(line.productCode, r.damagedQty));
+        });
+        if ([...bins.values()].some(b => !b)) {
+            showAlert('No Free Bin', 'Transit is full and no storage bin fits this delivery. Put away stock or free up bins first.', 'warning');
+            return false;
+        }
+        const checks = findOverfilledBins(incoming, { inventory, products, masterLocations });
+        if (!confirmOverfill(checks, options.overrideReason, reason => handleReceivePurchaseOrder(poId, receiptLines, { ...options, overrideReason: reason }))) return false;
+        const newItems: InventoryItem[] = [];
+        const baseNote = withOverfillNote(`[Purchase] ${po.poNumber} - ${po.supplier}${options.note?.trim() ? ` - ${options.note.trim()}` : ''}`, checks, options.overrideReason)!;
+
+        lines.forEach(r => {
+            const line = po.lines.find(l => l.id === r.lineId);
+            if (!line) return;
+            const product = products.find(p => p.productCode === line.productCode);
+            const delivered = getLineDelivered(line) + r.qty + r.damagedQty;
+            const flags = [
+                delivered > line.expectedQty ? `OVER by ${delivered - line.expectedQty}` : '',
+                r.damagedQty > 0 ? `${r.damagedQty} DAMAGED` : ''
+            ].filter(Boolean).join(', ');
+
+            const base = {
+                productCode: line.productCode,
+                productName: product?.name || line.productCode,
+                unit: product?.defaultUnit || 'pcs',
+                category: product?.defaultCategory || 'OTH',
+                lotNumber: r.lotNumber?.trim() || undefined,
+                productionDate: r.productionDate,
+                expiryDate: r.expiryDate,
+                notes: baseNote
+            };
+            if (r.qty > 0) {
+                const item: InventoryItem = { ...base, id: generateId(), quantity: r.qty, locations: [bins.get(`${r.lineId}:good`)!], updatedAt: Date.now() };
+                newItems.push(item);
+                logTransaction('INBOUND', item, r.qty, undefined, flags ? `${baseNote} (${flags})` : baseNote, options.date, { poNumber: po.poNumber });
+            }
+            if (r.damagedQty > 0) {
+                // Kept apart from good stock so it can be returned or written off
+                const item: InventoryItem = { ...base, id: generateId(), quantity: r.damagedQty, locations: [bins.get(`${r.lineId}:damaged`)!], status: 'quarantine', updatedAt: Date.now() };
+                newItems.push(item);
+                logTransaction('INBOUND', item, r.damagedQty, undefined, `${baseNote} (DAMAGED on receipt - quarantined)`, options.date, { poNumber: po.poNumber });
+            }
+        });
+
+        if (newItems.length > 0) {
+            setInventory(prev => [...newItems, ...prev]);
+            trackMutation('SAVE_INVENTORY', `PO ${po.poNumber}: received ${lines.length} line(s)`);
+        }
+
+        const updated: PurchaseOrder = {
+            ...po,
+            lines: po.lines.map(l => {
+                const r = lines.find(x => x.lineId === l.id);
+                return r ? { ...l, receivedQty: l.receivedQty + r.qty, damagedQty: l.damagedQty + r.damagedQty } : l;
+            }),
+            receipts: lines.length > 0 ? [...po.receipts, {
+                id: generateId(),
+                date: options.date || Date.now(),
+                user: currentUser?.name,
+                lines: lines.map(r => ({ lineId: r.lineId, qty: r.qty, damagedQty: r.damagedQty })),
+                note: options.note?.trim() || undefined
+            }] : po.receipts
+        };
+        updated.status = options.closeShort ? 'closed' : derivePurchaseOrderStatus(updated);
+        setPurchaseOrders(prev => prev.map(p => p.id === poId ? updated : p));
+        return true;
+    };
+
+    // Opens a PO for reorder suggestions; expected date follows the supplier lead time
+    const handleDraftPurchaseOrder = (supplierId: string | undefined, lines: { productCode: string; expectedQty: number }[]): boolean => {
+        const supplier = suppliers.find(sp => sp.id === supplierId);
+        const today = toDateInputValue(Date.now()).replace(/-/g, '');
+        let seq = 1;
+        while (purchaseOrders.some(p => p.poNumber === `PO-${today}-${String(seq).padStart(2, '0')}`)) seq++;
+        const expected = new Date();
+        expected.setHours(0, 0, 0, 0);
+        expected.setDate(expected.getDate() + (supplier?.leadTimeDays || 0));
+
+        return handleSavePurchaseOrder({
+            poNumber: `PO-${today}-${String(seq).padStart(2, '0')}`,
+            supplier: supplier?.name || 'Unassigned supplier',
+            supplierId: supplier?.id,
+            expectedDate: expected.getTime(),
+            notes: 'Drafted from reorder suggestions',
+            lines
+        });
+    };
+
+    // -- Suppliers --
+    const handleSaveSupplier = (supplier: Omit<Supplier, 'id' | 'updatedAt'> & { id?: string }): boolean => {
+        if (!requirePermission('editProducts', 'Editing suppliers')) return false;
+        const name = supplier.name.trim();
+        if (!name) {
+            showAlert('Invalid Supplier', 'Name is required.', 'warning');
+            return false;
+        }
+        if (suppliers.some(sp => sp.id !== supplier.id && sp.name.toLowerCase() === name.toLowerCase())) {
+            showAlert('Invalid Supplier', `A supplier named "${name}" already exists.`, 'warning');
+            return false;
+        }
+        if (!(supplier.leadTimeDays >= 0) || (supplier.moq !== undefined && supplier.moq < 0) || supplier.packSizes?.some(p => !(p > 0))) {
+            showAlert('Invalid Supplier', 'Lead time, MOQ and pack sizes must be zero or more.', 'warning');
+            return false;
+        }
+
+        const saved: Supplier = {
+            ...supplier,
+            id: supplier.id || generateId(),
+            name,
+            packSizes: supplier.packSizes?.length ? [...supplier.packSizes].sort((a, b) => a - b) : undefined,
+            updatedAt: Date.now()
+        };
+        setSuppliers(prev => supplier.id ? prev.map(sp => sp.id === saved.id ? saved : sp) : [...prev, saved]);
+        return true;
+    };
+
+    // Products keep working without a supplier; they just fall back to zero lead time
+    const handleDeleteSupplier = (id: string) => {
+        if (!requirePermission('editProducts', 'Editing suppliers')) return;
+        const supplier = suppliers.find(sp => sp.id === id);
+        if (!supplier) return;
+        const linked = products.filter(p => p.supplierId === id);
+        const message = linked.length > 0
+            ? `Remove ${supplier.name}? ${linked.length} product(s) will be left without a supplier.`
+            : `Remove ${supplier.name}?`;
+        showConfirm('Remove Supplier', message, () => {
+            setSuppliers(prev => prev.filter(sp => sp.id !== id));
+            if (linked.length > 0) {
+                setProducts(prev => prev.map(p => p.supplierId === id ? { ...p, supplierId: undefined, updatedAt: Date.now() } : p));
+            }
+        });
+    };
+
+    // -- Categories & Units --
+    const getMasterList = (kind: MasterListKind) => kind === 'category' ? itemCategories : units;
+    const setMasterList = (kind: MasterListKind, update: (prev: string[]) => string[]) =>
+        (kind === 'category' ? setItemCategories : setUnits)(update);
+
+    const handleAddMasterValue = (kind: MasterListKind, value: string): boolean => {
+        if (!requirePermission('editProducts', 'Editing categories and units')) return false;
+        const label = MASTER_LIST_LABELS[kind];
+        const name = value.trim();
+        if (!name) {
+            showAlert(`Invalid ${label}`, 'Name is required.', 'warning');
+            return false;
+        }
+        const existing = findMasterValue(getMasterList(kind), name);
+        if (existing) {
+            showAlert(`Duplicate ${label}`, `"${existing}" already exists.`, 'warning');
+            return false;
+        }
+        setMasterList(kind, prev => [...prev, name]);
+        return true;
+    };
+
+    // Renames the value on every product that uses it; batches and history keep the old value
+    const handleRenameMasterValue = (kind: MasterListKind, from: string, to: string): boolean => {
+        if (!requirePermission('editProducts', 'Editing categories and units')) return false;
+        const label = MASTER_LIST_LABELS[kind];
+        const name = to.trim();
+        if (!name) {
+            showAlert(`Invalid ${label}`, 'Name is required.', 'warning');
+            return false;
+        }
+        if (name === from) return true;
+        const clash = getMasterList(kind).find(v => v !== from && isSameMasterValue(v, name));
+        if (clash) {
+            showAlert(`Duplicate ${label}`, `"${clash}" already exists.`, 'warning');
+            return false;
+        }
+
+        const usage = getMasterValueUsage(kind, from, products, inventory);
+        const apply = () => {
+            setMasterList(kind, prev => prev.map(v => v === from ? name : v));
+            if (usage.products > 0) setProducts(prev => renameProductValue(kind, prev, from, name));
+        };
+        if (usage.products === 0) {
+            apply();
+            return true;
+        }
+        showConfirm(
+            `Rename ${label}`,
+            `Rename "${from}" to "${name}"? ${usage.products} product(s) will be updated. Existing batches and history keep "${from}".`,
+            apply
+        );
+        return true;
+    };
+
+    const handleDeleteMasterValue = (kind: MasterListKind, value: string) => {
+        if (!requirePermission('editProducts', 'Editing categories and units')) return;
+        const label = MASTER_LIST_LABELS[kind];
+        const usage = getMasterValueUsage(kind, value, products, inventory);
+        if (usage.products > 0) {
+            showAlert(`${label} In Use`, `"${value}" is set on ${usage.products} product(s). Rename it, or change those products first.`, 'warning');
+            return;
+        }
+        const message = usage.batches > 0
+            ? `Delete "${value}"? ${usage.batches} batch(es) in stock still show it; they keep the value.`
+            : `Delete "${value}"?`;
+        showConfirm(`Delete ${label}`, message, () => setMasterList(kind, prev => prev.filter(v => v !== value)));
+    };
+
+    // -- Customers --
+    const handleSaveCustomer = (customer: Omit<Customer, 'id' | 'updatedAt'> & { id?: string }): boolean => {
+        if (!requirePermission('manageOrders', 'Editing customers')) return false;
+        const name = customer.name.trim();
+        if (!name) {
+            showAlert('Invalid Customer', 'Name is required.', 'warning');
+            return false;
+        }
+        if (customers.some(c => c.id !== customer.id && c.name.toLowerCase() === name.toLowerCase())) {
+            showAlert('Invalid Customer', `A customer named "${name}" already exists.`, 'warning');
+            return false;
+        }
+
+        const saved: Customer = { ...customer, id: customer.id || generateId(), name, updatedAt: Date.now() };
+        setCustomers(prev => customer.id ? prev.map(c => c.id === saved.id ? saved : c) : [...prev, saved]);
+        // Unshipped orders pick up the new name; shipped ones keep what was printed
+        if (customer.id) {
+            setOutboundOrders(prev => prev.map(o => o.customerId === saved.id && o.status !== 'shipped' ? { ...o, customerName: name } : o));
+        }
+        return true;
+    };
+
+    const handleDeleteCustomer = (id: string) => {
+        if (!requirePermission('manageOrders', 'Editing customers')) return;
+        const customer = customers.find(c => c.id === id);
+        if (!customer) return;
+        if (outboundOrders.some(o => o.customerId === id && o.status !== 'shipped')) {
+            showAlert('Not Allowed', `${customer.name} has orders that have not shipped yet.`, 'warning');
+            return;
+        }
+        showConfirm('Remove Customer', `Remove ${customer.name}? Shipped orders keep the name.`, () => {
+            setCustomers(prev => prev.filter(c => c.id !== id));
+        });
+    };
+
+    // -- Customer Orders --
+    // Create (no id) or edit an order. Picked quantities stay with their line; a picked line cannot be removed.
+    const handleSaveOutboundOrder = (order: OutboundOrderInput): boolean => {
+        if (!requirePermission('manageOrders', 'Managing orders')) return false;
+
+        const orderNumber = order.orderNumber.trim();
+        const customer = customers.find(c => c.id === order.customerId);
+        if (!orderNumber || !customer) {
+            showAlert('Invalid Order', 'Order number and customer are required.', 'warning');
+            return false;
+        }
+        if (outboundOrders.some(o => o.id !== order.id && o.orderNumber.toLowerCase() === orderNumber.toLowerCase())) {
+            showAlert('Invalid Order', `Order ${orderNumber} already exists.`, 'warning');
+            return false;
+        }
+        const lines = order.lines.filter(l => l.productCode);
+        if (lines.length === 0 || lines.some(l => !(l.orderedQty > 0))) {
+            showAlert('Invalid Order', 'Add at least one line, each with a quantity above zero.', 'warning');
+            return false;
+        }
+        const unknown = lines.find(l => !products.some(p => p.productCode === l.productCode));
+        if (unknown) {
+            showAlert('Invalid Order', `Product ${unknown.productCode} is not in the Product Master.`, 'warning');
+            return false;
+        }
+
+        const existing = order.id ? outboundOrders.find(o => o.id === order.id) : undefined;
+        if (existing?.status === 'shipped') {
+            showAlert('Not Allowed', `${existing.orderNumber} has shipped and can no longer be changed.`, 'warning');
+            return false;
+        }
+        const droppedPicked = existing?.lines.find(l => l.pickedQty > 0 && !lines.some(n => n.id === l.id));
+        if (droppedPicked) {
+            showAlert('Not Allowed', `${droppedPicked.productCode} has already been picked and cannot be removed from the order.`, 'warning');
+            return false;
+        }
+
+        const saved: OutboundOrder = {
+            id: existing?.id || generateId(),
+            orderNumber,
+            customerId: customer.id,
+            customerName: customer.name,
+            requestedDate: order.requestedDate,
+            notes: order.notes?.trim() || undefined,
+            lines: lines.map(l => {
+                const prev = existing?.lines.find(x => x.id === l.id);
+                return { id: prev?.id || generateId(), productCode: l.productCode, orderedQty: l.orderedQty, pickedQty: prev?.pickedQty || 0, picks: prev?.picks || [] };
+            }),
+            status: existing?.status || 'open',
+            createdAt: existing?.createdAt || Date.now(),
+            createdBy: existing ? existing.createdBy : currentUser?.name
+        };
+        saved.status = deriveOutboundOrderStatus(saved);
+        setOutboundOrders(prev => existing ? prev.map(o => o.id === saved.id ? saved : o) : [saved, ...prev]);
+        return true;
+    };
+
+    const handleDeleteOutboundOrder = (id: string) => {
+        if (!requirePermission('manageOrders', 'Deleting orders')) return;
+        const order = outboundOrders.find(o => o.id === id);
+        if (!order) return;
+        if (order.lines.some(l => l.pickedQty > 0)) {
+            showAlert('Not Allowed', `${order.orderNumber} already has stock picked against it.`, 'warning');
+            return;
+        }
+        showConfirm('Delete Order', `Delete ${order.orderNumber}?`, () => {
+            setOutboundOrders(prev => prev.filter(o => o.id !== id));
+        });
+    };
+
+    // Marks an order as being picked; the pick itself happens on the Outbound page
+    const handleStartPicking = (id: string): boolean => {
+        const order = outboundOrders.find(o => o.id === id);
+        if (!order || order.status === 'shipped') return false;
+        if (order.status === 'open') {
+            setOutboundOrders(prev => prev.map(o => o.id === id ? { ...o, status: 'picking' } : o));
+        }
+        return true;
+    };
+
+    // Stock already left with the pick; shipping records the carrier and freezes the order
+    const handleShipOrder = (id: string, shipment: { carrier?: string; trailerRef?: string } = {}) => {
+        const order = outboundOrders.find(o => o.id === id);
+        if (!order || order.status === 'shipped') return;
+        const pickedUnits = order.lines.reduce((acc, l) => acc + l.pickedQty, 0);
+        if (pickedUnits === 0) {
+            showAlert('Nothing Picked', `Pick ${order.orderNumber} before shipping it.`, 'warning');
+            return;
+        }
+
+        const ship = () => setOutboundOrders(prev => prev.map(o => o.id === id ? {
+            ...o,
+            status: 'shipped',
+            shippedAt: Date.now(),
+            shippedBy: currentUser?.name,
+            carrier: shipment.carrier?.trim() || undefined,
+            trailerRef: shipment.trailerRef?.trim() || undefined
+        } : o));
+
+        const short = order.lines.filter(l => getOrderLineRemaining(l) > 0);
+        if (short.length > 0) {
+            showConfirm('Ship Short', `${short.length} line(s) on ${order.orderNumber} are not fully picked. Ship what was picked and close the order?`, ship);
+        } else {
+            ship();
+        }
+    };
+
+    // -- Smart Pick Pallet Rules --
+    // Saves the whole rule set; priorities are renumbered in list order, only changed rules get a new updatedAt
+    const handleSavePalletRules = (rules: PalletRule[]): boolean => {
+        if (!requirePermission('managePickingRules', 'Editing pallet rules')) return false;
+        const error = validatePalletRules(rules);
+        if (error) {
+            showAlert('Invalid Pallet Rules', error, 'warning');
+            return false;
+        }
+
+        const previous = new Map(palletRules.map(r => [r.id, getRecordSignature(r)]));
+        setPalletRules(rules.map((rule, idx) => {
+            const next = { ...rule, title: rule.title.trim(), priority: idx + 1 };
+            return previous.get(next.id) === getRecordSignature(next) ? next : { ...next, updatedAt: Date.now() };
+        }));
+        return true;
+    };
+
+    // -- Warehouse Layout --
+    // Saves the areas as a new layout version. A version that drops a bin still holding stock is refused.
+    const handleSaveLayout = (areas: LayoutArea[], note?: string): boolean => {
+        if (!requirePermission('changeSettings', 'Editing the warehouse layout')) return false;
+        const cleaned = areas.map(area => ({
+            ...area,
+            code: area.code.trim().toUpperCase(),
+            name: area.name?.trim() || undefined,
+            levels: area.levels.map(l => l.trim())
+        }));
+        const error = validateLayoutAreas(cleaned);
+        if (error) {
+            showAlert('Invalid Layout', error, 'warning');
+            return false;
+        }
+        if (getRecordSignature(cleaned) === getRecordSignature(activeLayout.areas)) {
+            showAlert('No Changes', `The layout is the same as version ${activeLayout.version}.`);
+            return false;
+        }
+
+        const stocked = findStockedRemovedBins(activeLayout, { areas: cleaned }, inventory);
+        if (stocked.size > 0) {
+            const bins = Array.from(stocked.entries()).slice(0, 5).map(([code, items]) => `${code} (${items.map(i => i.productName).join(', ')})`);
+            showAlert('Bins Still Hold Stock', `This layout removes ${stocked.size} bin(s) that still hold stock: ${bins.join('; ')}${stocked.size > 5 ? '; ...' : ''}. Move the stock out first.`, 'warning');
+            return false;
+        }
+
+        const next: WarehouseLayout = {
+            id: generateId(),
+            version: activeLayout.version + 1,
+            areas: cleaned,
+            note: note?.trim() || undefined,
+            createdBy: currentUser?.name,
+            updatedAt: Date.now()
+        };
+        const before = new Set(getLayoutBinCodes(activeLayout));
+        const after = getLayoutBinCodes(next);
+        const added = after.filter(code => !before.has(code)).length;
+        setLayouts(prev => [...prev, next]);
+        showAlert('Layout Saved', `Version ${next.version} is now active: ${added} bin(s) added, ${before.size - (after.length - added)} removed.`);
+        return true;
+    };
+
+    // -- Approvals --
+    // The change is re-applied to the batch as it is now (stock may have moved since the request)
+    const handleApproveRequest = (id: string) => {
+        if (!requirePermission('approveChanges', 'Approving changes')) return;
+        const request = approvals.find(r => r.id === id && r.status === 'pending');
+        if (!request) return;
+        const current = inventory.find(i => i.id === request.item.id);
+        if (!current) {
+            showAlert('Cannot Approve', `${request.item.productName} is no longer in stock. Reject the request instead.`, 'warning');
+            return;
+        }
+        const newQty = current.quantity + request.qtyDiff;
+        if (request.kind !== 'DELETE' && newQty < 0) {
+            showAlert('Cannot Approve', `Only ${current.quantity} ${current.unit} left - the adjustment would go negative. Reject the request instead.`, 'warning');
+            return;
+        }
+
+        const approver = currentUser?.name || 'supervisor';
+        const note = `${request.note} (approved by ${approver}${request.requestedBy ? `, requested by ${request.requestedBy}` : ''})`;
+        if (request.kind === 'DELETE') {
+            setInventory(prev => prev.filter(i => i.id !== current.id));
+            logTransaction('DELETE', current, -current.quantity, undefined, note, request.date);
+        } else {
+            const updated: InventoryItem = {
+                ...current,
+                quantity: newQty,
+                lastCountedAt: request.kind === 'COUNT' ? Date.now() : current.lastCountedAt,
+                updatedAt: Date.now()
+            };
+            setInventory(prev => prev.map(i => i.id === current.id ? updated : i));
+            logTransaction('ADJUSTMENT', updated, request.qtyDiff, undefined, note, request.date);
+        }
+        trackMutation('MAP_CHANGE', `Approved ${request.kind}: ${current.productName}`);
+        setApprovals(prev => prev.map(r => r.id === id ? { ...r, status: 'approved', decidedBy: currentUser?.name, decidedAt: Date.now(), updatedAt: Date.now() } : r));
+    };
+
+    // Rejections leave stock untouched but are still written to history (0 qty, not a ledger event)
+    const handleRejectRequest = (id: string, reason?: string) => {
+        if (!requirePermission('approveChanges', 'Rejecting changes')) return;
+        const request = approvals.find(r => r.id === id && r.status === 'pending');
+        if (!request) return;
+
+        const change = request.kind === 'DELETE' ? 'removal' : `${request.qtyDiff > 0 ? '+' : ''}${request.qtyDiff} ${request.item.unit}`;
+        const note = `Rejected ${change} - ${request.note} (rejected by ${currentUser?.name || 'supervisor'}${request.requestedBy ? `, requested by ${request.requestedBy}` : ''})${reason?.trim() ? `: ${reason.trim()}` : ''}`;
+        logTransaction(request.kind === 'DELETE' ? 'DELETE' : 'ADJUSTMENT', request.item, 0, undefined, note, undefined, { batchId: undefined });
+        trackMutation('MAP_CHANGE', `Rejected ${request.kind}: ${request.item.productName}`);
+        setApprovals(prev => prev.map(r => r.id === id ? { ...r, status: 'rejected', decidedBy: currentUser?.name, decidedAt: Date.now(), decisionNote: reason?.trim() || undefined, updatedAt: Date.now() } : r));
+    };
+
+    const handleUpdateApprovalThresholds = (next: ApprovalThresholds) => {
+        if (!requirePermission('changeSettings', 'Changing approval thresholds')) return;
+        setApprovalThresholds({ quantity: Math.max(0, next.quantity || 0), value: Math.max(0, next.value || 0) });
+    };
+
+    const handleUpdatePutawaySettings = (next: PutawaySettings) => {
+        if (!requirePermission('changeSettings', 'Changing putaway strategies')) return;
+        setPutawaySettings(next);
+    };
+
     const handleUpdateProducts = (newProducts: Product[]) => {
+        if (!requirePermission('editProducts', 'Editing the Product Master')) return;
         // 1. Update Product Master ONLY
         // As per user request, do not cascade changes to historical inventory or transactions
         setProducts(newProducts);
     };
 
+    // Any user may confirm a match while picking: aliases only help matching, they do not change the product
+    const handleLearnProductAliases = (entries: { productCode: string; text: string }[]) => {
+        if (!currentUser || entries.length === 0) return;
+        setProducts(prev => learnProductAliases(prev, entries));
+    };
+
+    // Sets (or clears, with 0) the capacity of the given bins
+    const handleUpdateBinCapacity = (binCodes: string[], capacity: Pick<MasterLocation, 'capacity' | 'capacityUnit' | 'maxWeightKg'>) => {
+        if (!requirePermission('toggleBins', 'Setting bin capacity')) return;
+        const targets = new Set(binCodes);
+        setMasterLocations(prev => prev.map(loc => {
+            if (!targets.has(loc.binCode)) return loc;
+            const { capacity: _c, capacityUnit: _u, maxWeightKg: _w, ...rest } = loc;
+            return { ...rest, ...getBinCapacity(capacity) };
+        }));
+    };
+
+    // Sets (or clears, with '') the display alias of a bin, e.g. "Returns shelf"
+    const handleUpdateBinName = (binCode: string, name: string) => {
+        if (!requirePermission('toggleBins', 'Renaming bins')) return;
+        const alias = name.trim();
+        setMasterLocations(prev => prev.map(loc => {
+            if (loc.binCode !== binCode) return loc;
+            const { name: _n, ...rest } = loc;
+            return alias ? { ...rest, name: alias } : rest;
+        }));
+    };
+
     const handleToggleBinStatus = (rack: string, bay: number, level: string) => {
+        if (!requirePermission('toggleBins', 'Enabling / disabling bins')) return;
         setMasterLocations(prev => prev.map(loc => {
             if (loc.rack === rack && loc.bay === bay && loc.level === level) {
                 const newStatus = loc.status === 'disabled' ? 'active' : 'disabled';
@@ -611,18 +2299,45 @@ export function useAppState() {
         inventory,
         products,
         transactions,
+        historyVersion,
+        historyLimit,
+        isFullHistoryLoaded,
         savedPickLists,
+        palletRules,
         masterLocations,
+        layouts,
+        activeLayout,
         editingItem,
         sidebarOpen,
         modalConfig,
 
         gasConfig, // Exposed
         setGasConfig, // Exposed
+        storageConfig,
+        isSyncing,
+        syncStatus,
+        syncConflicts,
+        outbox,
+        ledgerMode,
+        users,
+        currentUser,
+        canCreateFirstAdmin,
+        approvals,
+        approvalThresholds,
+        putawaySettings,
+        purchaseOrders,
         inventorySummary,
-        lowStockItems,
+        reorderSuggestions,
+        suppliers,
+        itemCategories,
+        units,
+        customers,
+        outboundOrders,
         topMovers,
         deadStock,
+        expiredBatches,
+        expiringBatches,
+        expiryWarningDays,
         actions: {
             setEditingItem,
             setSidebarOpen,
@@ -635,7 +2350,48 @@ export function useAppState() {
             handleMoveStock,
             handleSyncGas,
             handleUpdateProducts,
+            handleLearnProductAliases,
             handleToggleBinStatus,
+            handleUpdateBinCapacity,
+            handleUpdateBinName,
+            handleQuarantineBatch,
+            handleResolveConflict,
+            handleChangeStorageConfig,
+            handleRetryOutboxEntry,
+            handleDiscardOutboxEntry,
+            queryTransactions,
+            handleLoadFullHistory,
+            handleSetLedgerMode,
+            handleReconcileLedger,
+            handleRebuildFromLedger,
+            handleLogin,
+            handleLogout,
+            handleCreateFirstAdmin,
+            handleSaveUser,
+            handleDeleteUser,
+            handleApproveRequest,
+            handleRejectRequest,
+            handleUpdateApprovalThresholds,
+            handleUpdatePutawaySettings,
+            handleSavePurchaseOrder,
+            handleClosePurchaseOrder,
+            handleDeletePurchaseOrder,
+            handleReceivePurchaseOrder,
+            handleDraftPurchaseOrder,
+            handleSaveSupplier,
+            handleDeleteSupplier,
+            handleAddMasterValue,
+            handleRenameMasterValue,
+            handleDeleteMasterValue,
+            handleSaveCustomer,
+            handleDeleteCustomer,
+            handleSaveOutboundOrder,
+            handleDeleteOutboundOrder,
+            handleStartPicking,
+            handleShipOrder,
+            handleSavePalletRules,
+            handleSaveLayout,
+            setExpiryWarningDays,
             showAlert,
             showConfirm,
             closeModal
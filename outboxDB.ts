@@ -0,0 +1,86 @@
+import { SyncChangeSet } from './services/syncEngine';
+
+export const OUTBOX_DB_CONFIG = {
+    DB_NAME: 'NexusOutbox',
+    STORE_NAME: 'outbox',
+    VERSION: 1
+};
+
+export type OutboxAction = 'SAVE_INVENTORY' | 'OUTBOUND' | 'MOVE_STOCK' | 'MAP_CHANGE';
+
+export interface OutboxEntry {
+    seq?: number; // Auto-increment key = replay order
+    id: string;
+    action: OutboxAction;
+    label: string; // Human readable summary ("Outbound: 3 line(s)")
+    createdAt: number;
+    changeSet: SyncChangeSet; // Records touched by this mutation (state right after it)
+    attempts: number;
+    status: 'pending' | 'failed'; // failed = gave up auto-retrying, needs Retry / Discard
+    lastError?: string;
+}
+
+export const initOutboxDB = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(OUTBOX_DB_CONFIG.DB_NAME, OUTBOX_DB_CONFIG.VERSION);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+
+        request.onupgradeneeded = (event) => {
+            const db = (event.target as IDBOpenDBRequest).result;
+            if (!db.objectStoreNames.contains(OUTBOX_DB_CONFIG.STORE_NAME)) {
+                db.createObjectStore(OUTBOX_DB_CONFIG.STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+            }
+        };
+    });
+};
+
+export const addOutboxEntry = async (entry: OutboxEntry): Promise<number> => {
+    const db = await initOutboxDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([OUTBOX_DB_CONFIG.STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(OUTBOX_DB_CONFIG.STORE_NAME);
+        const { seq, ...record } = entry; // Let IndexedDB assign the sequence
+        const request = store.add(record);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result as number);
+    });
+};
+
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+    const db = await initOutboxDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([OUTBOX_DB_CONFIG.STORE_NAME], 'readonly');
+        const store = transaction.objectStore(OUTBOX_DB_CONFIG.STORE_NAME);
+        const request = store.getAll(); // Ordered by key (seq)
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result || []);
+    });
+};
+
+export const updateOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+    const db = await initOutboxDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([OUTBOX_DB_CONFIG.STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(OUTBOX_DB_CONFIG.STORE_NAME);
+        const request = store.put(entry);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve();
+    });
+};
+
+export const deleteOutboxEntry = async (seq: number): Promise<void> => {
+    const db = await initOutboxDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([OUTBOX_DB_CONFIG.STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(OUTBOX_DB_CONFIG.STORE_NAME);
+        const request = store.delete(seq);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve();
+    });
+};
@@ -0,0 +1,35 @@
+// Copies the Tesseract.js worker, WASM core and language data into public/ocr/ so the
+// offline pick list reader (services/offlineOcr.ts) never needs a CDN. Runs before dev and build.
+import { copyFileSync, existsSync, mkdirSync, readdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const modules = join(root, 'node_modules');
+const target = join(root, 'public', 'ocr');
+
+const LANGUAGES = ['eng', 'chi_sim'];
+
+const copy = (from, to) => {
+    if (!existsSync(from)) {
+        console.error(`❌ Missing ${from}. Run npm install first.`);
+        process.exit(1);
+    }
+    mkdirSync(dirname(to), { recursive: true });
+    copyFileSync(from, to);
+};
+
+copy(join(modules, 'tesseract.js', 'dist', 'worker.min.js'), join(target, 'worker.min.js'));
+
+// LSTM-only cores; the worker picks the SIMD variant the browser supports
+const coreDir = join(modules, 'tesseract.js-core');
+readdirSync(coreDir)
+    .filter(file => file.endsWith('lstm.wasm.js'))
+    .forEach(file => copy(join(coreDir, file), join(target, 'core', file)));
+
+LANGUAGES.forEach(lang => {
+    const file = `${lang}.traineddata.gz`;
+    copy(join(modules, '@tesseract.js-data', lang, '4.0.0_best_int', file), join(target, 'lang', file));
+});
+
+console.log(`✅ OCR assets copied to ${target}`);
@@ -2,10 +2,10 @@ import 'dotenv/config';
 // Note: You might need to add "type": "module" to package.json or use .mjs extension if not already set.
 // For simplicity in this environment, I'll use standard fetch if node 18+ or global fetch.
 
-const apiKey = process.env.VITE_GEMINI_API_KEY;
+const apiKey = process.env.GEMINI_API_KEY;
 
 if (!apiKey) {
-    console.error("❌ No VITE_GEMINI_API_KEY found in environment variables.");
+    console.error("❌ No GEMINI_API_KEY found in environment variables.");
     process.exit(1);
 }
 
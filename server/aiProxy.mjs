@@ -0,0 +1,115 @@
+import { createServer } from 'node:http';
+
+/**
+ * AI Proxy
+ *
+ * Keeps model API keys off the client. The app posts JSON here; the configured provider talks to the model.
+ *   GET  /ai/health           -> { status, provider }
+ *   POST /ai/parse-pick-list  <- { image (base64 or data URL), mimeType?, products?: { productCode, name }[] }
+ *                             -> { date: string | null, items: { name, code, uom, qty }[] }
+ *   POST /ai/ask              <- { query, inventory: object[] }  -> { answer }
+ */
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024; // Resized photos are well below this
+
+class HttpError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+const readJson = (req) => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new HttpError(413, 'Request body too large'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+        } catch (e) {
+            reject(new HttpError(400, 'Invalid JSON body'));
+        }
+    });
+    req.on('error', reject);
+});
+
+// Rows with a positive quantity only; the model may return strings for numbers
+const normalizePickList = (result) => ({
+    date: typeof result?.date === 'string' && result.date ? result.date : null,
+    items: (Array.isArray(result?.items) ? result.items : [])
+        .map(row => ({
+            name: String(row.name ?? row.item ?? '').trim(),
+            code: row.code ? String(row.code) : null,
+            uom: String(row.uom ?? '').trim(),
+            qty: Number(row.qty) || 0
+        }))
+        .filter(row => row.name && row.qty > 0)
+});
+
+const routes = {
+    'GET /ai/health': async (_body, provider) => ({ status: 'ok', provider: provider.name }),
+
+    'POST /ai/parse-pick-list': async (body, provider) => {
+        const image = typeof body.image === 'string' ? body.image : '';
+        const match = image.match(/^data:([^;]+);base64,(.*)$/);
+        const imageBase64 = match ? match[2] : image;
+        if (!imageBase64) throw new HttpError(400, 'image is required');
+
+        const products = Array.isArray(body.products)
+            ? body.products.map(p => ({ productCode: String(p.productCode ?? ''), name: String(p.name ?? '') }))
+            : [];
+        const result = await provider.parsePickList({ imageBase64, mimeType: body.mimeType || match?.[1] || 'image/jpeg', products });
+        return normalizePickList(result);
+    },
+
+    'POST /ai/ask': async (body, provider) => {
+        if (typeof body.query !== 'string' || !body.query.trim()) throw new HttpError(400, 'query is required');
+        const answer = await provider.ask({ query: body.query, inventory: Array.isArray(body.inventory) ? body.inventory : [] });
+        return { answer };
+    }
+};
+
+/**
+ * @param {{ provider: object, allowedOrigins?: string[] }} options - allowedOrigins: CORS allow list ('*' = any, only when listed explicitly)
+ */
+export const createAiProxy = ({ provider, allowedOrigins = [] }) => createServer(async (req, res) => {
+    const origin = req.headers.origin;
+    if (origin && (allowedOrigins.includes('*') || allowedOrigins.includes(origin))) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+
+    const send = (status, payload) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+    };
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const handler = routes[`${req.method} ${path}`];
+    if (!handler) return send(404, { error: `Not found: ${req.method} ${path}` });
+
+    try {
+        const body = req.method === 'POST' ? await readJson(req) : {};
+        send(200, await handler(body, provider));
+    } catch (error) {
+        const status = error instanceof HttpError ? error.status : 502;
+        if (status === 502) console.error(`AI proxy: ${provider.name} failed on ${path}`, error);
+        send(status, { error: error.message || 'AI provider error' });
+    }
+});
@@ -0,0 +1,16 @@
+import 'dotenv/config';
+import { createAiProxy } from './aiProxy.mjs';
+import { createProvider } from './providers/index.mjs';
+
+// Usage: GEMINI_API_KEY=... npm run ai-proxy   (AI_PROVIDER=stub for canned responses)
+// Loopback only unless AI_PROXY_HOST says otherwise; the Vite dev server reaches it on localhost.
+const port = Number(process.env.AI_PROXY_PORT) || 8787;
+const host = process.env.AI_PROXY_HOST || '127.0.0.1';
+// No browser origin is allowed unless listed (same-origin requests through the dev server need none)
+const allowedOrigins = (process.env.AI_PROXY_ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+
+const provider = createProvider();
+createAiProxy({ provider, allowedOrigins }).listen(port, host, () => {
+    console.log(`AI proxy (${provider.name}) listening on http://${host}:${port}`);
+    if (allowedOrigins.length === 0) console.log('No cross-origin callers allowed. Set AI_PROXY_ALLOWED_ORIGINS to serve a build hosted elsewhere.');
+});
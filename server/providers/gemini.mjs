@@ -0,0 +1,71 @@
+import { GoogleGenAI } from '@google/genai';
+
+/**
+ * Gemini provider. The API key stays on the server (GEMINI_API_KEY).
+ */
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+const PICK_LIST_SCHEMA = {
+    type: 'OBJECT',
+    properties: {
+        date: { type: 'STRING', nullable: true },
+        items: {
+            type: 'ARRAY',
+            items: {
+                type: 'OBJECT',
+                properties: {
+                    name: { type: 'STRING' },
+                    code: { type: 'STRING', nullable: true },
+                    uom: { type: 'STRING' },
+                    qty: { type: 'NUMBER' }
+                },
+                required: ['name', 'uom', 'qty']
+            }
+        }
+    },
+    required: ['items']
+};
+
+export const createGeminiProvider = ({ apiKey = process.env.GEMINI_API_KEY, model = process.env.GEMINI_MODEL || DEFAULT_MODEL } = {}) => {
+    if (!apiKey) throw new Error('GEMINI_API_KEY is not set');
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+
+        async parsePickList({ imageBase64, mimeType, products }) {
+            const productList = products.length
+                ? `Match each row to the best Product Code from this list (leave code empty if none fits):\n${products.map(p => `Code: ${p.productCode}, Name: ${p.name}`).join('\n')}`
+                : 'Leave code empty.';
+            const prompt = `Extract the Date (YYYY-MM-DD) and every row of this warehouse pick list where Qty > 0: Item name as written, UoM, Qty. ${productList}`;
+
+            const response = await ai.models.generateContent({
+                model,
+                contents: [{ role: 'user', parts: [{ text: prompt }, { inlineData: { mimeType, data: imageBase64 } }] }],
+                config: { responseMimeType: 'application/json', responseSchema: PICK_LIST_SCHEMA }
+            });
+            return JSON.parse(response.text || '{}');
+        },
+
+        async ask({ query, inventory }) {
+            const prompt = `
+You are an intelligent Warehouse Assistant.
+Here is the current inventory data (JSON format):
+${JSON.stringify(inventory).slice(0, 20000)}
+
+User Query: "${query}"
+
+Please answer the user's question based on the inventory data provided.
+If asking for a summary, provide a concise table or bullet points.
+If asking for location, specify the Rack, Bay, and Level clearly.
+Keep the tone professional and helpful.`;
+
+            const response = await ai.models.generateContent({
+                model,
+                contents: [{ role: 'user', parts: [{ text: prompt }] }]
+            });
+            return response.text || '';
+        }
+    };
+};
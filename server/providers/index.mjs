@@ -0,0 +1,18 @@
+import { createGeminiProvider } from './gemini.mjs';
+import { createStubProvider } from './stub.mjs';
+
+/**
+ * Model providers. Each one implements:
+ *   parsePickList({ imageBase64, mimeType, products }) -> { date?: string, items: { name, code?, uom, qty }[] }
+ *   ask({ query, inventory })                          -> string
+ */
+const PROVIDERS = {
+    gemini: createGeminiProvider,
+    stub: createStubProvider
+};
+
+export const createProvider = (name = process.env.AI_PROVIDER || 'gemini', options) => {
+    const factory = PROVIDERS[name];
+    if (!factory) throw new Error(`Unknown AI provider "${name}" (expected ${Object.keys(PROVIDERS).join(' / ')})`);
+    return factory(options);
+};
@@ -0,0 +1,34 @@
+import { readFileSync } from 'node:fs';
+
+/**
+ * Stub provider for local development and tests: no network, canned JSON.
+ * AI_STUB_FILE may point to a JSON file { "parsePickList": {...}, "ask": "..." } to override the defaults.
+ */
+
+const DEFAULT_RESPONSES = {
+    parsePickList: {
+        date: '2026-01-15',
+        items: [
+            { name: 'Sushi Tray', code: null, uom: 'CS', qty: 12 },
+            { name: 'Sugar', code: null, uom: 'BAG', qty: 2 },
+            { name: 'BX-20', code: null, uom: 'PLT', qty: 1 }
+        ]
+    },
+    ask: 'Stub answer: the AI provider is not configured.'
+};
+
+export const createStubProvider = ({ file = process.env.AI_STUB_FILE } = {}) => {
+    const responses = file ? { ...DEFAULT_RESPONSES, ...JSON.parse(readFileSync(file, 'utf8')) } : DEFAULT_RESPONSES;
+
+    return {
+        name: 'stub',
+
+        async parsePickList() {
+            return structuredClone(responses.parsePickList);
+        },
+
+        async ask() {
+            return responses.ask;
+        }
+    };
+};
@@ -0,0 +1,60 @@
+import { InventoryItem, Product } from "../types";
+
+/**
+ * AI features go through the AI proxy (server/), which holds the model API key.
+ * VITE_AI_PROXY_URL is the proxy origin; empty = same origin (the dev server forwards /ai).
+ */
+
+const AI_PROXY_URL = (import.meta.env.VITE_AI_PROXY_URL || '').replace(/\/$/, '');
+
+export interface ParsedPickList {
+  date: string | null; // YYYY-MM-DD as read from the image
+  items: { name: string; code: string | null; uom: string; qty: number }[];
+}
+
+const postToProxy = async <T,>(path: string, body: unknown): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${AI_PROXY_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  } catch (error) {
+    throw new Error('AI service unreachable. Check VITE_AI_PROXY_URL and that the proxy is running.');
+  }
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(payload.error || `AI service error: ${response.status} ${response.statusText}`);
+  return payload as T;
+};
+
+/**
+ * Reads a photographed pick list: date, item, UoM and quantity per row.
+ * With products, each row is also matched to a product code where the model finds one.
+ */
+export const parsePickListImage = (image: string, products: Product[] = []): Promise<ParsedPickList> =>
+  postToProxy<ParsedPickList>('/ai/parse-pick-list', {
+    image,
+    products: products.map(p => ({ productCode: p.productCode, name: p.name }))
+  });
+
+export const analyzeInventory = async (query: string, inventory: InventoryItem[]) => {
+  try {
+    // Prepare a simplified version of inventory to save tokens
+    const simplifiedInventory = inventory.map(item => ({
+      name: item.productName,
+      code: item.productCode,
+      qty: item.quantity,
+      unit: item.unit,
+      cat: item.category,
+      locs: item.locations.map(l => `${l.rack}-${l.bay}-${l.level}`).join(', ')
+    }));
+
+    const { answer } = await postToProxy<{ answer: string }>('/ai/ask', { query, inventory: simplifiedInventory });
+    return answer;
+  } catch (error) {
+    console.error("AI Service Error:", error);
+    return "Sorry, I encountered an error analyzing the inventory. Please check the AI service or try again later.";
+  }
+};
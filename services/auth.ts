@@ -0,0 +1,110 @@
+import { UserProfile, UserRole } from '../types';
+
+/**
+ * Users & Roles
+ *
+ * Profiles are kept on each device (shared scanners / tablets) and synced through the remote
+ * backend like other records, so a user removed on one terminal is removed everywhere.
+ * Every operator signs in with a PIN; only a slow, salted hash of it is stored or synced.
+ * Roles are ordered operator < supervisor < admin, and each permission names the lowest role
+ * allowed to use it.
+ */
+
+export type Permission =
+    | 'approveChanges'  // Approve deletions / large adjustments (own changes skip the queue)
+    | 'toggleBins'      // Enable / disable bins
+    | 'deleteStock'     // Delete batch records outright (others send deletions for approval)
+    | 'holdStock'       // Quarantine / release batches
+    | 'editProducts'    // Product Master changes
+    | 'managePurchaseOrders' // Create / edit / close purchase orders (receiving is open to all)
+    | 'manageOrders'    // Customers and customer orders (picking / shipping is open to all)
+    | 'managePickingRules' // Smart Pick pallet rules
+    | 'reconcileLedger' // Ledger mode / corrections
+    | 'manageUsers'     // Create / edit / remove users
+    | 'changeSettings'; // Storage & sync backends
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    operator: 'Operator',
+    supervisor: 'Supervisor',
+    admin: 'Admin'
+};
+
+const ROLE_RANK: Record<UserRole, number> = { operator: 0, supervisor: 1, admin: 2 };
+
+const PERMISSION_MIN_ROLE: Record<Permission, UserRole> = {
+    approveChanges: 'supervisor',
+    toggleBins: 'supervisor',
+    deleteStock: 'supervisor',
+    holdStock: 'supervisor',
+    editProducts: 'supervisor',
+    managePurchaseOrders: 'supervisor',
+    manageOrders: 'supervisor',
+    managePickingRules: 'supervisor',
+    reconcileLedger: 'supervisor',
+    manageUsers: 'admin',
+    changeSettings: 'admin'
+};
+
+export const can = (user: UserProfile | null | undefined, permission: Permission): boolean => {
+    if (!user) return false;
+    return ROLE_RANK[user.role] >= ROLE_RANK[PERMISSION_MIN_ROLE[permission]];
+};
+
+export const getPermissionRole = (permission: Permission): UserRole => PERMISSION_MIN_ROLE[permission];
+
+export const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin);
+
+// FNV-1a, only for plain-http deployments where WebCrypto is unavailable
+const fnv1a = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(b => parseInt(b, 16)));
+
+// Hashes sync to every device (and sit in the backend's Users sheet), and a 4-8 digit PIN has few
+// candidates, so each guess has to be slow: PBKDF2-SHA256 with a random salt.
+const PBKDF2_ITERATIONS = 600000;
+
+const pbkdf2 = async (pin: string, salt: Uint8Array, iterations: number): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+    return toHex(new Uint8Array(bits));
+};
+
+const hasWebCrypto = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+/**
+ * Hashes a PIN for storage. Never store the PIN itself.
+ * Secure contexts get "pbkdf2:<iterations>:<salt>:<hash>"; the prefix records which algorithm was used.
+ */
+export const hashPin = async (userId: string, pin: string): Promise<string> => {
+    if (hasWebCrypto()) {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        return `pbkdf2:${PBKDF2_ITERATIONS}:${toHex(salt)}:${await pbkdf2(pin, salt, PBKDF2_ITERATIONS)}`;
+    }
+    return 'fnv:' + fnv1a(`${userId}:${pin}`);
+};
+
+export const verifyPin = async (user: UserProfile, pin: string): Promise<boolean> => {
+    const [scheme, ...parts] = user.pinHash.split(':');
+    if (scheme === 'fnv') return parts[0] === fnv1a(`${user.id}:${pin}`);
+    if (!hasWebCrypto()) return false;
+    if (scheme === 'pbkdf2') {
+        const [iterations, salt, hash] = parts;
+        return hash === await pbkdf2(pin, fromHex(salt), Number(iterations));
+    }
+    // Older versions: a single SHA-256 salted with the user id
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${user.id}:${pin}`));
+    return scheme === 'sha256' && parts[0] === toHex(new Uint8Array(digest));
+};
+
+// Hashes from older versions (or weaker settings) are replaced at the next successful sign-in
+export const needsPinRehash = (user: UserProfile): boolean => {
+    return hasWebCrypto() && !user.pinHash.startsWith(`pbkdf2:${PBKDF2_ITERATIONS}:`);
+};
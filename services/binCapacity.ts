@@ -0,0 +1,187 @@
+import { BinCapacityUnit, InventoryItem, InventoryLocation, MasterLocation, Product } from '../types';
+import { formatBinCode } from './ledger';
+import { isPalletUom } from './palletRules';
+import { getUnitsPerPallet } from './unitConversion';
+
+/**
+ * Bin Capacity
+ *
+ * A bin can be limited in pallet positions or in cases, with an optional weight limit on top.
+ * Bins without a limit are never full. Stock is converted using the Product Master:
+ *   pallets  a pallet UoM counts as-is; other units are divided by the units per pallet and rounded up
+ *            per batch (a part pallet still takes a position), or one position per batch if unknown
+ *   cases    the batch quantity; pallet UoMs are multiplied out by the units per pallet
+ *            (the product's PLT conversion, or countPerPallet)
+ *   weight   cases x caseWeightKg, for products with a case weight
+ * A bin's fill is its tightest limit, so 8 of 10 pallets at 1,200 of 1,000 kg is 120%.
+ * Stock that takes a bin past 100% is only stored with an override reason.
+ */
+
+export const BIN_CAPACITY_UNIT_LABELS: Record<BinCapacityUnit, string> = {
+    pallets: 'Pallets',
+    cases: 'Cases'
+};
+
+export interface BinLoad {
+    pallets: number;
+    cases: number;
+    weightKg: number;
+}
+
+export interface CapacityCheck {
+    binCode: string;
+    before: number; // Fill % now
+    after: number; // Fill % with the change
+    message: string;
+}
+
+export interface CapacityContext {
+    inventory: InventoryItem[];
+    products: Product[];
+    masterLocations: MasterLocation[];
+}
+
+// Stock arriving in a bin
+export interface IncomingStock extends Pick<InventoryItem, 'productCode' | 'unit' | 'quantity'> {
+    bin: InventoryLocation;
+}
+
+const EMPTY_LOAD: BinLoad = { pallets: 0, cases: 0, weightKg: 0 };
+
+const addLoads = (a: BinLoad, b: BinLoad): BinLoad => ({
+    pallets: a.pallets + b.pallets,
+    cases: a.cases + b.cases,
+    weightKg: a.weightKg + b.weightKg
+});
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const getCapacityUnit = (loc: MasterLocation): BinCapacityUnit => loc.capacityUnit || 'pallets';
+
+export const hasCapacityLimit = (loc: MasterLocation) => (loc.capacity || 0) > 0 || (loc.maxWeightKg || 0) > 0;
+
+/**
+ * The capacity fields of a saved bin, cleaned up (sheet rows store blanks as '' or 0). Unset limits are left out.
+ */
+export const getBinCapacity = (loc?: Partial<MasterLocation>): Pick<MasterLocation, 'capacity' | 'capacityUnit' | 'maxWeightKg'> => {
+    const capacity = Number(loc?.capacity) || 0;
+    const maxWeightKg = Number(loc?.maxWeightKg) || 0;
+    return {
+        ...(capacity > 0 ? { capacity, capacityUnit: loc?.capacityUnit === 'cases' ? 'cases' : 'pallets' } : {}),
+        ...(maxWeightKg > 0 ? { maxWeightKg } : {})
+    };
+};
+
+export const getItemLoad = (item: Pick<InventoryItem, 'productCode' | 'unit' | 'quantity'>, products: Product[]): BinLoad => {
+    if (item.quantity <= 0) return EMPTY_LOAD;
+    const product = products.find(p => p.productCode === item.productCode);
+    const perPallet = getUnitsPerPallet(product);
+    const onPallets = isPalletUom(item.unit);
+    const cases = onPallets && perPallet > 0 ? item.quantity * perPallet : item.quantity;
+    const pallets = onPallets ? item.quantity : perPallet > 0 ? Math.ceil(item.quantity / perPallet) : 1;
+    return { pallets, cases, weightKg: cases * (product?.caseWeightKg || 0) };
+};
+
+/**
+ * Load per bin code. A batch sits in its first location.
+ */
+export const getBinLoads = (inventory: InventoryItem[], products: Product[], excludeIds: string[] = []): Map<string, BinLoad> => {
+    const loads = new Map<string, BinLoad>();
+    const excluded = new Set(excludeIds);
+    inventory.forEach(item => {
+        if (excluded.has(item.id) || !item.locations[0]) return;
+        const code = formatBinCode(item.locations[0]);
+        loads.set(code, addLoads(loads.get(code) || EMPTY_LOAD, getItemLoad(item, products)));
+    });
+    return loads;
+};
+
+/**
+ * Fill % of a bin against its tightest limit, or undefined when it has no limit.
+ */
+export const getFillPercent = (loc: MasterLocation, load: BinLoad = EMPTY_LOAD): number | undefined => {
+    if (!hasCapacityLimit(loc)) return undefined;
+    const fills: number[] = [];
+    if ((loc.capacity || 0) > 0) fills.push(load[getCapacityUnit(loc)] / loc.capacity!);
+    if ((loc.maxWeightKg || 0) > 0) fills.push(load.weightKg / loc.maxWeightKg!);
+    return Math.round(Math.max(...fills) * 100);
+};
+
+export const describeBinLoad = (loc: MasterLocation, load: BinLoad = EMPTY_LOAD) => {
+    const parts: string[] = [];
+    if ((loc.capacity || 0) > 0) {
+        const unit = getCapacityUnit(loc);
+        parts.push(`${round(load[unit])} / ${loc.capacity} ${BIN_CAPACITY_UNIT_LABELS[unit].toLowerCase()}`);
+    }
+    if ((loc.maxWeightKg || 0) > 0) parts.push(`${round(load.weightKg)} / ${loc.maxWeightKg} kg`);
+    return parts.join(', ');
+};
+
+/**
+ * Bins the incoming stock would take past 100%. Stock in excludeIds is leaving (e.g. the batch
+ * being edited), so it does not count. Changes that do not add to a bin's fill are never flagged.
+ */
+export const findOverfilledBins = (incoming: IncomingStock[], ctx: CapacityContext, excludeIds: string[] = []): CapacityCheck[] => {
+    const current = getBinLoads(ctx.inventory, ctx.products);
+    const remaining = getBinLoads(ctx.inventory, ctx.products, excludeIds);
+    const added = new Map<string, BinLoad>();
+    incoming.forEach(s => {
+        const code = formatBinCode(s.bin);
+        added.set(code, addLoads(added.get(code) || EMPTY_LOAD, getItemLoad(s, ctx.products)));
+    });
+
+    const checks: CapacityCheck[] = [];
+    added.forEach((load, binCode) => {
+        const loc = ctx.masterLocations.find(l => formatBinCode(l) === binCode);
+        if (!loc || !hasCapacityLimit(loc)) return;
+        const before = getFillPercent(loc, current.get(binCode))!;
+        const afterLoad = addLoads(remaining.get(binCode) || EMPTY_LOAD, load);
+        const after = getFillPercent(loc, afterLoad)!;
+        if (after <= 100 || after <= before) return;
+        checks.push({ binCode, before, after, message: `${binCode} would be ${after}% full (${describeBinLoad(loc, afterLoad)}).` });
+    });
+    return checks;
+};
+
+export interface AreaUtilization {
+    area: string;
+    bins: number; // Active bins
+    occupiedBins: number;
+    limitedBins: number; // Bins with a capacity set
+    overfilledBins: number;
+    pallets: { used: number; capacity: number }; // Over bins limited in pallets
+    cases: { used: number; capacity: number }; // Over bins limited in cases
+}
+
+/**
+ * Occupancy per area of the layout, in layout order. Disabled bins are left out.
+ */
+export const getAreaUtilization = (masterLocations: MasterLocation[], inventory: InventoryItem[], products: Product[]): AreaUtilization[] => {
+    const loads = getBinLoads(inventory, products);
+    const areas = Array.from(new Set(masterLocations.map(l => l.rack)));
+    return areas.map(area => {
+        const row: AreaUtilization = {
+            area,
+            bins: 0,
+            occupiedBins: 0,
+            limitedBins: 0,
+            overfilledBins: 0,
+            pallets: { used: 0, capacity: 0 },
+            cases: { used: 0, capacity: 0 }
+        };
+        masterLocations.filter(l => l.rack === area && l.status !== 'disabled').forEach(loc => {
+            const load = loads.get(formatBinCode(loc));
+            row.bins++;
+            if (load && (load.pallets > 0 || load.cases > 0)) row.occupiedBins++;
+            if (!hasCapacityLimit(loc)) return;
+            row.limitedBins++;
+            if ((getFillPercent(loc, load) || 0) > 100) row.overfilledBins++;
+            if ((loc.capacity || 0) > 0) {
+                const unit = getCapacityUnit(loc);
+                row[unit].capacity += loc.capacity!;
+                row[unit].used += load ? load[unit] : 0;
+            }
+        });
+        return row;
+    });
+};
@@ -1,9 +1,71 @@
+import { SyncAck, SyncChangeSet } from './syncEngine';
+
 export interface GasResponse<T> {
     status: 'success' | 'error';
     message?: string;
     data?: T;
 }
 
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 1000; // ms, doubled after each failed attempt
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POST to the Web App and read the JSON reply.
+ * Sent as text/plain to avoid a CORS preflight (same as uploadImage), so the response stays readable.
+ * Network errors and "Server busy" (script lock timeout) are retried with exponential backoff.
+ */
+const postWithRetry = async (url: string, action: string, data: any): Promise<GasResponse<any>> => {
+    const payload = JSON.stringify({ action, data });
+    let lastError: Error = new Error('Unknown error saving to Google Sheet');
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+        if (attempt > 0) {
+            const delay = RETRY_BASE_DELAY * Math.pow(2, attempt - 1);
+            console.warn(`GASService: Retry ${attempt}/${MAX_RETRIES} for ${action} in ${delay}ms`);
+            await sleep(delay);
+        }
+
+        let text: string;
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                body: payload,
+                credentials: 'omit',
+                redirect: 'follow',
+                headers: {
+                    'Content-Type': 'text/plain;charset=utf-8',
+                },
+            });
+            text = await response.text();
+        } catch (e: any) {
+            lastError = new Error(e.message || 'Network error');
+            continue; // Retry network failures
+        }
+
+        let result: GasResponse<any>;
+        try {
+            result = JSON.parse(text);
+        } catch (e) {
+            if (text.includes('<!DOCTYPE html>') || text.includes('Google Accounts')) {
+                throw new Error('Access Denied. Please check your Google Script deployment settings ("Who has access" must be "Anyone").');
+            }
+            throw new Error('Invalid response from Google Sheets');
+        }
+
+        if (result.status === 'error') {
+            lastError = new Error(result.message || 'Unknown error from Google Sheet');
+            if ((result.message || '').includes('Server busy')) continue; // Lock contention is transient
+            throw lastError;
+        }
+
+        return result;
+    }
+
+    throw lastError;
+};
+
 export const GASService = {
     /**
      * Fetch all data from the Google Sheet
@@ -45,63 +107,40 @@ export const GASService = {
     },
 
     /**
-     * Save data to the Google Sheet
+     * Save data to the Google Sheet (full overwrite)
      * @param url The Web App URL
      * @param action The specific save action (e.g., saveInventory, saveAll)
      * @param data The data payload
      */
     async saveData(url: string, action: string, data: any) {
         if (!url) throw new Error('GAP API URL not configured');
-        const cleanUrl = url.trim();
 
-        // We use no-cors if we just want to fire and forget? 
-        // Actually, for the "Anyone" access setting, standard CORS usually works 
-        // or we use opaque mode. 
-        // However, Apps Script Web Apps handle CORS redirects tricky-ly.
-        // The standard way is using POST with text/plain (to avoid preflight) 
-        // and following redirects.
-
-        // Note: Apps Script POST requests often need to be sent as text/plain
-        // because application/json triggers preflight which GAS doesn't handle well
-        // in some "Simple Trigger" contexts, though "Web App" execution should be fine.
-        // To be safe and compatible with the script we wrote:
-
-        const payload = JSON.stringify({
-            action,
-            data
-        });
-
-        console.log('GASService: Preparing to send payload...');
         console.log('GASService: Action:', action);
         console.log('GASService: Data Keys:', Object.keys(data));
-        if (data.inventory) console.log('GASService: Inventory Count:', data.inventory.length);
-        if (data.pickLists) console.log('GASService: PickLists Count:', data.pickLists.length);
-        console.log('GASService: Payload Length:', payload.length);
 
-        try {
-            // Using no-cors mode to bypass CORS/401 issues common with GAS Web Apps
-            // from third-party origins. This results in an opaque response, 
-            // so we cannot read the result body. We assume success if the request sends without error.
-            await fetch(cleanUrl, {
-                method: 'POST',
-                mode: 'no-cors',
-                body: payload,
-                credentials: 'omit',
-                redirect: 'follow',
-                headers: {
-                    'Content-Type': 'text/plain;charset=utf-8',
-                },
-            });
-
-            // Return simulated success since response is opaque
-            return { status: 'success', message: 'Data sent to Google Sheets (Blind Send)' };
+        const result = await postWithRetry(url.trim(), action, data);
+        return { status: 'success', message: result.message || 'Data saved to Google Sheets' };
+    },
 
-        } catch (e: any) {
-            console.error(e);
+    /**
+     * Push an incremental change set and wait for the server acknowledgement.
+     * Only records listed in ack.applied were written; the caller keeps the rest dirty.
+     * @param url The Web App URL
+     * @param changeSet Per-collection upserts / deletes
+     */
+    async syncChanges(url: string, changeSet: SyncChangeSet): Promise<SyncAck> {
+        if (!url) throw new Error('GAP API URL not configured');
 
-            // Handle fallback if needed, but for now just throw the network error
-            throw new Error(e.message || 'Unknown error saving to Google Sheet');
+        const result = await postWithRetry(url.trim(), 'syncChanges', changeSet);
+        const ack = result.data as SyncAck | undefined;
+        if (!ack || !ack.applied) {
+            throw new Error('Google Sheet did not acknowledge the changes');
         }
+        return {
+            applied: ack.applied || {},
+            rejected: ack.rejected || {},
+            serverTime: ack.serverTime || Date.now()
+        };
     },
 
     /**
@@ -0,0 +1,210 @@
+import { InventoryItem, InventoryLocation, Transaction } from '../types';
+
+/**
+ * Stock Ledger
+ *
+ * Every stock change is an immutable Transaction that names the batch it applies to and the
+ * bin(s) involved. Replaying those events oldest-first gives each batch's balance and bin - the
+ * projection. In ledger mode the projection is the source of truth for InventoryItem quantities.
+ *
+ * A batch is tracked from its opening event: INBOUND, a MOVE that splits it off, or a COUNT
+ * carrying `openingQuantity` (posted for batches that existed before the ledger).
+ */
+
+export interface LedgerBalance {
+    batchId: string;
+    productCode: string;
+    productName: string;
+    unit: string;
+    lotNumber?: string;
+    quantity: number;
+    location?: InventoryLocation;
+    lastEventAt: number;
+}
+
+export type ReconciliationStatus = 'mismatch' | 'untracked' | 'missing';
+
+export interface ReconciliationRow {
+    batchId: string;
+    productCode: string;
+    productName: string;
+    lotNumber?: string;
+    unit: string;
+    storedQty?: number; // undefined = batch is no longer in stock
+    storedLocation?: InventoryLocation;
+    ledgerQty?: number; // undefined = no opening event
+    ledgerLocation?: InventoryLocation;
+    status: ReconciliationStatus;
+}
+
+const EPSILON = 1e-6; // Decimal units (kg, L) accumulate float error
+
+const round = (qty: number) => Math.round(qty * 1e6) / 1e6;
+
+export const formatBinCode = (loc?: InventoryLocation) => loc ? `${loc.rack}-${loc.bay}-${loc.level}` : '-';
+
+// Events replay in recording order; the business date can be back-dated
+const eventOrder = (t: Transaction) => t.recordedAt || t.date;
+
+export const projectLedger = (transactions: Transaction[]): Map<string, LedgerBalance> => {
+    // History is kept newest-first, so for equal timestamps the higher index was recorded first
+    const events = transactions
+        .map((t, idx) => ({ t, idx }))
+        .filter(({ t }) => t.batchId)
+        .sort((a, b) => eventOrder(a.t) - eventOrder(b.t) || b.idx - a.idx);
+
+    const balances = new Map<string, LedgerBalance>();
+    const open = (t: Transaction, batchId: string, quantity: number, location?: InventoryLocation) => {
+        balances.set(batchId, {
+            batchId,
+            productCode: t.productCode,
+            productName: t.productName,
+            unit: t.unit,
+            lotNumber: t.lotNumber,
+            quantity: round(quantity),
+            location,
+            lastEventAt: eventOrder(t)
+        });
+    };
+
+    events.forEach(({ t }) => {
+        const batchId = t.batchId!;
+        const current = balances.get(batchId);
+
+        if (t.type === 'COUNT' && typeof t.openingQuantity === 'number') {
+            open(t, batchId, t.openingQuantity, t.toLocation);
+            return;
+        }
+        if (t.type === 'INBOUND' && !current) {
+            open(t, batchId, t.quantity, t.toLocation);
+            return;
+        }
+
+        if (t.type === 'MOVE') {
+            const qty = Number(t.movedQuantity) || 0;
+            const targetId = t.toBatchId || batchId;
+
+            if (targetId === batchId) {
+                // Whole batch relocated
+                if (current && t.toLocation) current.location = t.toLocation;
+                if (current) current.lastEventAt = eventOrder(t);
+                return;
+            }
+
+            if (current) {
+                current.quantity = round(current.quantity - qty);
+                current.lastEventAt = eventOrder(t);
+            }
+            const target = balances.get(targetId);
+            if (target) {
+                target.quantity = round(target.quantity + qty);
+                if (t.toLocation) target.location = t.toLocation;
+                target.lastEventAt = eventOrder(t);
+            } else if (current) {
+                open(t, targetId, qty, t.toLocation); // Split off into a new batch
+            }
+            return;
+        }
+
+        // OUTBOUND / ADJUSTMENT / DELETE / COUNT / repeat INBOUND: signed quantity at the batch
+        if (!current) return; // No opening event -> untracked
+        current.quantity = round(current.quantity + t.quantity);
+        if (t.toLocation) current.location = t.toLocation;
+        current.lastEventAt = eventOrder(t);
+    });
+
+    return balances;
+};
+
+/**
+ * Compares stored InventoryItem quantities / bins against the ledger.
+ * - mismatch: stored quantity or bin disagrees with the ledger
+ * - untracked: batch has no opening event (predates the ledger)
+ * - missing: ledger still has stock for a batch that is gone from inventory
+ */
+export const reconcileLedger = (inventory: InventoryItem[], transactions: Transaction[]): ReconciliationRow[] => {
+    const balances = projectLedger(transactions);
+    const rows: ReconciliationRow[] = [];
+
+    inventory.forEach(item => {
+        const balance = balances.get(item.id);
+        const base = {
+            batchId: item.id,
+            productCode: item.productCode,
+            productName: item.productName,
+            lotNumber: item.lotNumber,
+            unit: item.unit,
+            storedQty: item.quantity,
+            storedLocation: item.locations[0]
+        };
+
+        if (!balance) {
+            rows.push({ ...base, status: 'untracked' });
+            return;
+        }
+
+        const qtyOff = Math.abs(balance.quantity - item.quantity) > EPSILON;
+        const binOff = !!balance.location && formatBinCode(balance.location) !== formatBinCode(item.locations[0]);
+        if (qtyOff || binOff) {
+            rows.push({ ...base, ledgerQty: balance.quantity, ledgerLocation: balance.location, status: 'mismatch' });
+        }
+    });
+
+    const inStock = new Set(inventory.map(i => i.id));
+    balances.forEach(balance => {
+        if (inStock.has(balance.batchId) || balance.quantity <= EPSILON) return;
+        rows.push({
+            batchId: balance.batchId,
+            productCode: balance.productCode,
+            productName: balance.productName,
+            lotNumber: balance.lotNumber,
+            unit: balance.unit,
+            ledgerQty: balance.quantity,
+            ledgerLocation: balance.location,
+            status: 'missing'
+        });
+    });
+
+    return rows;
+};
+
+/**
+ * Rebuilds tracked batches' quantity and bin from the ledger.
+ * Batches the ledger has emptied are removed; untracked batches are left as stored.
+ * Returns the same array when nothing changed (safe to call from an effect).
+ */
+export const applyLedgerProjection = (inventory: InventoryItem[], transactions: Transaction[]): InventoryItem[] => {
+    const balances = projectLedger(transactions);
+    let changed = false;
+    const next: InventoryItem[] = [];
+
+    inventory.forEach(item => {
+        const balance = balances.get(item.id);
+        if (!balance) {
+            next.push(item);
+            return;
+        }
+        if (balance.quantity <= EPSILON) {
+            changed = true;
+            return;
+        }
+
+        const location = balance.location || item.locations[0];
+        const same = Math.abs(balance.quantity - item.quantity) <= EPSILON &&
+            formatBinCode(location) === formatBinCode(item.locations[0]);
+        if (same) {
+            next.push(item);
+            return;
+        }
+
+        changed = true;
+        next.push({
+            ...item,
+            quantity: balance.quantity,
+            locations: location ? [location] : item.locations,
+            updatedAt: Date.now()
+        });
+    });
+
+    return changed ? next : inventory;
+};
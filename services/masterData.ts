@@ -0,0 +1,75 @@
+import { InventoryItem, Product } from '../types';
+
+/**
+ * Categories & Units
+ *
+ * Managed lists behind the Product Master's category and unit pickers. Products store the value
+ * itself rather than an id, so a rename rewrites the products that use it; batches and history keep
+ * the value they were recorded with. A value still used by a product (as its default, or for units in
+ * its conversion table) cannot be deleted.
+ * Values compare case-insensitively ("pcs" and "PCS" are the same unit).
+ */
+
+export type MasterListKind = 'category' | 'unit';
+
+export const MASTER_LIST_LABELS: Record<MasterListKind, string> = {
+    category: 'Category',
+    unit: 'Unit'
+};
+
+const PRODUCT_FIELDS = { category: 'defaultCategory', unit: 'defaultUnit' } as const;
+const BATCH_FIELDS = { category: 'category', unit: 'unit' } as const;
+
+export const isSameMasterValue = (a: string | undefined, b: string | undefined) =>
+    !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const findMasterValue = (list: string[], value: string) => list.find(v => isSameMasterValue(v, value));
+
+// Appends values the list does not have yet; returns the same array when nothing is new
+export const addToMasterList = (list: string[], values: (string | undefined)[]): string[] => {
+    const added: string[] = [];
+    values.forEach(v => {
+        const value = v?.trim();
+        if (value && !findMasterValue(list, value) && !findMasterValue(added, value)) added.push(value);
+    });
+    return added.length > 0 ? [...list, ...added] : list;
+};
+
+// Units also count when a product's conversion table uses them
+const usesValue = (kind: MasterListKind, p: Product, value: string) =>
+    isSameMasterValue(p[PRODUCT_FIELDS[kind]], value)
+    || (kind === 'unit' && !!p.unitConversions?.some(r => isSameMasterValue(r.unit, value) || isSameMasterValue(r.toUnit, value)));
+
+export const getProductsUsingValue = (kind: MasterListKind, value: string, products: Product[]) =>
+    products.filter(p => usesValue(kind, p, value));
+
+export interface MasterValueUsage {
+    products: number;
+    batches: number; // Batches in stock, informational only
+}
+
+export const getMasterValueUsage = (kind: MasterListKind, value: string, products: Product[], inventory: InventoryItem[]): MasterValueUsage => ({
+    products: getProductsUsingValue(kind, value, products).length,
+    batches: inventory.filter(i => i.quantity > 0 && isSameMasterValue(i[BATCH_FIELDS[kind]], value)).length
+});
+
+export const renameProductValue = (kind: MasterListKind, products: Product[], from: string, to: string): Product[] => {
+    const field = PRODUCT_FIELDS[kind];
+    const now = Date.now();
+    const rename = (value: string) => isSameMasterValue(value, from) ? to : value;
+    return products.map(p => {
+        if (!usesValue(kind, p, from)) return p;
+        const renamed: Product = { ...p, updatedAt: now };
+        if (isSameMasterValue(p[field], from)) renamed[field] = to;
+        if (kind === 'unit' && p.unitConversions) {
+            renamed.unitConversions = p.unitConversions.map(r => ({ ...r, unit: rename(r.unit), toUnit: rename(r.toUnit) }));
+        }
+        return renamed;
+    });
+};
+
+// Options for a picker: the managed list, plus the current value if it is not on it (legacy data)
+export const getMasterOptions = (list: string[], current?: string) => {
+    const options = [...list].sort((a, b) => a.localeCompare(b));
+    return current && !findMasterValue(options, current) ? [current, ...options] : options;
+};
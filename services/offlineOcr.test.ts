@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../types';
+import { parsePickListText } from './offlineOcr';
+
+const products: Product[] = [{ productCode: 'P1', name: 'Sparkling Water', defaultUnit: 'CS' }];
+
+const quantities = (text: string) => parsePickListText(text, products).items.map(i => [i.qty, i.uom]);
+
+describe('parsePickListText', () => {
+    it('reads a comma before three digits as a thousands separator', () => {
+        expect(quantities('Sparkling Water 1,200 CS')).toEqual([[1200, 'CS']]);
+        expect(quantities('Sparkling Water CS 12,500.5')).toEqual([[12500.5, 'CS']]);
+    });
+
+    it('still reads other commas as a decimal point', () => {
+        expect(quantities('Sparkling Water 1,5 KG')).toEqual([[1.5, 'KG']]);
+        expect(quantities('Sparkling Water 2.25 KG')).toEqual([[2.25, 'KG']]);
+    });
+});
@@ -0,0 +1,124 @@
+import type { Worker as OcrWorker } from 'tesseract.js';
+import { Product } from '../types';
+import { ParsedPickList } from './aiService';
+import { isConfidentMatch, matchProduct } from './productMatcher';
+
+/**
+ * Offline Pick List Reader
+ *
+ * Fallback for when the AI proxy is unreachable or over quota. Tesseract.js reads the photo in
+ * its own Web Worker, using the worker, WASM core and English / Simplified Chinese data that
+ * scripts/copy_ocr_assets.mjs serves from public/ocr/ - no network needed once the app is loaded.
+ * Each text line ending in a quantity (optionally with a UoM) becomes a row; confident matches
+ * against the Product Master (productMatcher.ts) replace the misread name, others keep the text as read.
+ */
+
+const OCR_LANGUAGES = ['eng', 'chi_sim'];
+
+// UoMs recognised next to the quantity, longest first so "PCS" wins over "PC"
+const UOM_WORDS = ['PALLET', 'PACK', 'CASE', 'PCS', 'PLT', 'CTN', 'BOX', 'BAG', 'BTL', 'CS', 'BX', 'PC', 'EA', 'PK', 'KG', '板', '箱', '件', '包', '瓶'];
+const UOM_PATTERN = UOM_WORDS.join('|');
+// "1,200" is a thousands group, "1,5" a decimal comma
+const QTY_PATTERN = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:[.,]\\d+)?)';
+const THOUSANDS_GROUPED = /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+
+const ROW_QTY_LAST = new RegExp(`^(.+?)[\\s:|]+${QTY_PATTERN}\\s*(${UOM_PATTERN})?\\.?$`, 'i');
+const ROW_UOM_FIRST = new RegExp(`^(.+?)[\\s:|]+(${UOM_PATTERN})[\\s:|]*${QTY_PATTERN}$`, 'i');
+
+const assetUrl = (path: string) => new URL(`${import.meta.env.BASE_URL}ocr/${path}`, window.location.href).href;
+
+let workerPromise: Promise<OcrWorker> | null = null;
+let progressListener: ((progress: number) => void) | undefined;
+
+// One worker per session: loading the language data is the slow part
+const getWorker = () => {
+  if (!workerPromise) {
+    workerPromise = import('tesseract.js').then(async ({ createWorker, OEM, PSM }) => {
+      const worker = await createWorker(OCR_LANGUAGES, OEM.LSTM_ONLY, {
+        workerPath: assetUrl('worker.min.js'),
+        corePath: assetUrl('core'),
+        langPath: assetUrl('lang'),
+        workerBlobURL: false,
+        logger: (m) => { if (m.status === 'recognizing text') progressListener?.(m.progress); }
+      });
+      // Pick lists are tables: read as one block so each row stays on one line
+      await worker.setParameters({ tessedit_pageseg_mode: PSM.SINGLE_BLOCK, preserve_interword_spaces: '1' });
+      return worker;
+    });
+    workerPromise.catch(() => { workerPromise = null; });
+  }
+  return workerPromise;
+};
+
+const toIsoDate = (y: number, m: number, d: number) => {
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+// YYYY-MM-DD, YYYY/MM/DD, 2026年2月15日 or M/D/YYYY
+const findDate = (line: string): string | null => {
+  const ymd = line.match(/(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})/);
+  if (ymd) return toIsoDate(Number(ymd[1]), Number(ymd[2]), Number(ymd[3]));
+  const mdy = line.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (mdy) return toIsoDate(Number(mdy[3]), Number(mdy[1]), Number(mdy[2]));
+  return null;
+};
+
+const cleanName = (value: string) => value
+  .replace(/^\s*\d{1,3}[.)\]]?\s+/, '') // Row number
+  .replace(/\s+[x×*]$/i, '') // "Item x 2"
+  .replace(/[\s:|_\-–—.]+$/, '')
+  .trim();
+
+const parseQty = (value: string) => Number(THOUSANDS_GROUPED.test(value) ? value.replace(/,/g, '') : value.replace(',', '.'));
+
+/**
+ * Turns OCR text into pick list rows: the first date found, then one row per quantity line.
+ */
+export const parsePickListText = (text: string, products: Product[]): ParsedPickList => {
+  let date: string | null = null;
+  const items: ParsedPickList['items'] = [];
+
+  text.split(/\r?\n/).map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean).forEach(line => {
+    if (!date) {
+      date = findDate(line);
+      if (date) return;
+    }
+
+    let name: string, qtyText: string, uom: string | undefined;
+    const qtyLast = line.match(ROW_QTY_LAST);
+    const uomFirst = line.match(ROW_UOM_FIRST);
+    if (uomFirst) [, name, uom, qtyText] = uomFirst;
+    else if (qtyLast) [, name, qtyText, uom] = qtyLast;
+    else return;
+
+    name = cleanName(name);
+    const qty = parseQty(qtyText);
+    if (!name || !/\p{L}/u.test(name) || !(qty > 0)) return;
+
+    const found = matchProduct(name, products);
+    const match = isConfidentMatch(found) ? found : undefined;
+    items.push({
+      name: match ? match.product.name : name,
+      code: match ? match.product.productCode : null,
+      uom: uom ? uom.toUpperCase() : (match?.product.defaultUnit || ''),
+      qty
+    });
+  });
+
+  return { date, items };
+};
+
+/**
+ * Reads a photographed pick list on the device. onProgress receives 0..1 while text is recognised.
+ */
+export const recognizePickList = async (image: string, products: Product[], onProgress?: (progress: number) => void): Promise<ParsedPickList> => {
+  const worker = await getWorker();
+  progressListener = onProgress;
+  try {
+    const { data } = await worker.recognize(image);
+    return parsePickListText(data.text, products);
+  } finally {
+    progressListener = undefined;
+  }
+};
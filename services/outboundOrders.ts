@@ -0,0 +1,67 @@
+import { OutboundOrder, OutboundOrderLine, Product } from '../types';
+import { getUnitsPerPallet } from './unitConversion';
+
+/**
+ * Customer Orders
+ *
+ * An order lists what a customer / destination should get. Stock leaves inventory when the pick
+ * is processed on the Outbound page (one OUTBOUND transaction per batch, tagged with the order
+ * number); each pick is recorded on its line so the packing slip and bill of lading can list the
+ * exact lots. Shipping only changes the status - the stock is already gone.
+ */
+
+// Create / edit form payload: picks are kept by the hook, never sent from the UI
+export type OutboundOrderInput = Pick<OutboundOrder, 'orderNumber' | 'customerId' | 'requestedDate' | 'notes'> & {
+    id?: string;
+    lines: { id?: string; productCode: string; orderedQty: number }[];
+};
+
+export const getOrderLineRemaining = (line: OutboundOrderLine) => Math.max(0, line.orderedQty - line.pickedQty);
+
+export const isOutboundOrderActive = (order: OutboundOrder) => order.status !== 'shipped';
+
+// Status after a pick: 'picking' sticks once started, 'shipped' is only ever set explicitly
+export const deriveOutboundOrderStatus = (order: OutboundOrder): OutboundOrder['status'] => {
+    if (order.status === 'shipped') return 'shipped';
+    if (order.lines.length > 0 && order.lines.every(l => getOrderLineRemaining(l) === 0)) return 'picked';
+    return order.status === 'picking' || order.lines.some(l => l.pickedQty > 0) ? 'picking' : 'open';
+};
+
+// Full pallets rounded up; undefined when the product has no pallet size
+export const getPalletCount = (qty: number, countPerPallet?: number) =>
+    countPerPallet && countPerPallet > 0 ? Math.ceil(qty / countPerPallet) : undefined;
+
+export interface ShipmentDocumentLine {
+    productCode: string;
+    name: string;
+    unit: string;
+    lotNumber?: string;
+    expiryDate?: number;
+    qty: number;
+    pallets?: number;
+}
+
+// Picks grouped by product and lot - the rows printed on the packing slip / bill of lading
+export const buildShipmentLines = (order: OutboundOrder, products: Product[]): ShipmentDocumentLine[] => {
+    const rows = new Map<string, ShipmentDocumentLine>();
+    order.lines.forEach(line => {
+        const product = products.find(p => p.productCode === line.productCode);
+        line.picks.forEach(pick => {
+            const key = `${line.productCode}|${pick.lotNumber || ''}|${pick.expiryDate || ''}`;
+            const row = rows.get(key) || {
+                productCode: line.productCode,
+                name: product?.name || line.productCode,
+                unit: product?.defaultUnit || 'pcs',
+                lotNumber: pick.lotNumber,
+                expiryDate: pick.expiryDate,
+                qty: 0
+            };
+            row.qty += pick.qty;
+            rows.set(key, row);
+        });
+    });
+    return Array.from(rows.values()).map(row => ({
+        ...row,
+        pallets: getPalletCount(row.qty, getUnitsPerPallet(products.find(p => p.productCode === row.productCode)))
+    }));
+};
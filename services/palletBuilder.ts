@@ -0,0 +1,132 @@
+import { Product } from '../types';
+import { PALLET_SPEC } from '../config/pickingConfig';
+import { PalletGroup, PalletLine, isPalletUom, resolvePickProduct } from './palletRules';
+import { getUnitsPerPallet } from './unitConversion';
+
+/**
+ * Smart Pick Pallet Builder
+ *
+ * Splits each pallet group (see palletRules.ts) across numbered physical pallets.
+ * Every case takes a share of a pallet:
+ *   fill   = max(1 / units per pallet, case volume / usable pallet cube)
+ *   weight = case weight, against the pallet weight limit
+ * Lines are placed in group order and split when the current pallet is full. Lines already in
+ * pallets (UoM PLT) get one pallet each. Products without a count or case size are placed
+ * without a capacity check and flagged.
+ */
+
+export type PalletSpec = typeof PALLET_SPEC;
+
+export interface PalletContent {
+    lineId: string;
+    item: string;
+    productCode?: string;
+    uom: string;
+    qty: number;
+}
+
+export interface BuiltPallet {
+    number: number; // 1..N across the whole manifest
+    ruleId: string;
+    title: string; // Pallet group title
+    contents: PalletContent[];
+    fill: number; // Share of the pallet used (count / cube), 0..1
+    weightKg: number;
+    unsized: boolean; // Holds items that could not be measured
+}
+
+export interface PalletBuildResult {
+    pallets: BuiltPallet[];
+    warnings: string[];
+}
+
+const EPSILON = 1e-9;
+
+// Share of a pallet and weight taken by one case; undefined fill = no count or size on the product
+const getCaseLoad = (product: Product | undefined, spec: PalletSpec): { fill?: number; weightKg: number } => {
+    const fills: number[] = [];
+    const perPallet = getUnitsPerPallet(product);
+    if (perPallet > 0) fills.push(1 / perPallet);
+    if (product?.caseLengthCm && product.caseWidthCm && product.caseHeightCm) {
+        const usableCube = spec.lengthCm * spec.widthCm * spec.maxLoadHeightCm * spec.fillFactor;
+        fills.push((product.caseLengthCm * product.caseWidthCm * product.caseHeightCm) / usableCube);
+    }
+    return { fill: fills.length ? Math.max(...fills) : undefined, weightKg: product?.caseWeightKg || 0 };
+};
+
+export const buildPallets = (groups: PalletGroup[], products: Product[], spec: PalletSpec = PALLET_SPEC): PalletBuildResult => {
+    const pallets: Omit<BuiltPallet, 'number'>[] = [];
+    const warnings: string[] = [];
+
+    groups.forEach(({ rule, items }) => {
+        let current: Omit<BuiltPallet, 'number'> | null = null;
+
+        const openPallet = () => {
+            current = { ruleId: rule.id, title: rule.title, contents: [], fill: 0, weightKg: 0, unsized: false };
+            pallets.push(current);
+            return current;
+        };
+
+        const place = (pallet: Omit<BuiltPallet, 'number'>, line: PalletLine, productCode: string | undefined, qty: number) => {
+            const existing = pallet.contents.find(c => c.lineId === line.id);
+            if (existing) existing.qty += qty;
+            else pallet.contents.push({ lineId: line.id, item: line.item, productCode, uom: line.uom, qty });
+        };
+
+        items.forEach((line: PalletLine) => {
+            if (line.qty <= 0) return;
+            const product = resolvePickProduct(line, products);
+
+            // Already counted in pallets: one pallet per PLT (a part pallet still needs its own)
+            if (isPalletUom(line.uom)) {
+                let remaining = line.qty;
+                while (remaining > EPSILON) {
+                    const qty = Math.min(1, remaining);
+                    const pallet = openPallet();
+                    place(pallet, line, product?.productCode, qty);
+                    pallet.fill = qty;
+                    remaining -= qty;
+                }
+                current = null; // Nothing else goes on a dedicated pallet
+                return;
+            }
+
+            const load = getCaseLoad(product, spec);
+            if (load.fill === undefined && load.weightKg === 0) {
+                const pallet = current || openPallet();
+                place(pallet, line, product?.productCode, line.qty);
+                pallet.unsized = true;
+                warnings.push(`${line.item}: no count per pallet or case size - placed without a capacity check.`);
+                return;
+            }
+
+            let remaining = line.qty;
+            while (remaining > EPSILON) {
+                const pallet: Omit<BuiltPallet, 'number'> = current || openPallet();
+                const byFill = load.fill ? Math.floor((1 - pallet.fill) / load.fill + EPSILON) : Infinity;
+                const byWeight = load.weightKg ? Math.floor((spec.maxWeightKg - pallet.weightKg) / load.weightKg + EPSILON) : Infinity;
+                let qty = Math.min(byFill, byWeight, remaining);
+
+                if (qty <= 0) {
+                    if (pallet.contents.length > 0) {
+                        openPallet();
+                        continue;
+                    }
+                    // A single case is over the limit on its own
+                    qty = Math.min(1, remaining);
+                    warnings.push(`${line.item}: one case exceeds the pallet limits.`);
+                }
+
+                place(pallet, line, product?.productCode, qty);
+                pallet.fill += (load.fill || 0) * qty;
+                pallet.weightKg += load.weightKg * qty;
+                remaining -= qty;
+            }
+        });
+    });
+
+    return {
+        pallets: pallets.map((p, idx) => ({ ...p, number: idx + 1 })),
+        warnings
+    };
+};
@@ -0,0 +1,89 @@
+import { PalletRule, Product } from '../types';
+import { matchProduct } from './productMatcher';
+
+/**
+ * Smart Pick Pallet Rules
+ *
+ * Manifest lines are grouped onto pallets by supervisor-defined rules. Rules are checked in
+ * priority order; a line joins the first rule where any condition matches:
+ *   product code / category / department  (of the product the line resolves to)
+ *   UoM                                    (as read from the manifest)
+ *   keyword                                (line text contains, case-insensitive)
+ * Lines no rule claims go to the fallback rule. Within a pallet, lines follow the rule's sort keywords.
+ */
+
+// A manifest line as read by Smart Pick
+export interface PalletLine {
+    id: string;
+    item: string;
+    qty: number;
+    uom: string;
+}
+
+export interface PalletGroup<T extends PalletLine = PalletLine> {
+    rule: PalletRule;
+    items: T[];
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Manifest lines counted in whole pallets
+export const isPalletUom = (uom: string) => ['plt', 'pallet', '板'].includes(normalize(uom || ''));
+
+export const sortPalletRules = (rules: PalletRule[]) => [...rules].sort((a, b) => a.priority - b.priority);
+
+/**
+ * Finds the product a manifest line refers to: a code in the text, a learned alias or the closest name.
+ */
+export const resolvePickProduct = (line: Pick<PalletLine, 'item'>, products: Product[]): Product | undefined =>
+    matchProduct(line.item, products)?.product;
+
+export const matchesPalletRule = (rule: PalletRule, line: PalletLine, product?: Product): boolean => {
+    const text = normalize(line.item);
+    const uom = normalize(line.uom || '');
+    const has = (list: string[], value?: string) => !!value && list.some(v => normalize(v) === normalize(value));
+
+    return rule.keywords.some(k => normalize(k) && text.includes(normalize(k)))
+        || rule.uoms.some(u => normalize(u) === uom)
+        || has(rule.productCodes, product?.productCode)
+        || has(rule.categories, product?.defaultCategory)
+        || has(rule.departments, product?.department);
+};
+
+const getSortRank = (rule: PalletRule, line: PalletLine) => {
+    const text = normalize(line.item);
+    const idx = rule.sortKeywords.findIndex(k => normalize(k) && text.includes(normalize(k)));
+    return idx === -1 ? rule.sortKeywords.length : idx;
+};
+
+/**
+ * Splits manifest lines into pallet groups, one per rule (in priority order, empty groups included).
+ */
+export const buildPalletGroups = <T extends PalletLine>(lines: T[], rules: PalletRule[], products: Product[]): PalletGroup<T>[] => {
+    const sorted = sortPalletRules(rules);
+    const groups = sorted.map(rule => ({ rule, items: [] as T[] }));
+    const fallback = groups.find(g => g.rule.isFallback);
+
+    lines.forEach(line => {
+        const product = resolvePickProduct(line, products);
+        const group = groups.find(g => !g.rule.isFallback && matchesPalletRule(g.rule, line, product)) || fallback;
+        group?.items.push(line);
+    });
+
+    // Stable sort: lines without a sort keyword keep manifest order
+    groups.forEach(g => {
+        if (g.rule.sortKeywords.length > 0) g.items.sort((a, b) => getSortRank(g.rule, a) - getSortRank(g.rule, b));
+    });
+    return groups;
+};
+
+/**
+ * Returns an error message, or null when the rule set can be saved.
+ */
+export const validatePalletRules = (rules: PalletRule[]): string | null => {
+    if (rules.some(r => !r.title.trim())) return 'Every pallet needs a title.';
+    if (rules.filter(r => r.isFallback).length !== 1) return 'Exactly one pallet must collect unmatched lines.';
+    const titles = rules.map(r => normalize(r.title));
+    if (new Set(titles).size !== titles.length) return 'Pallet titles must be unique.';
+    return null;
+};
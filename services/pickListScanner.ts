@@ -0,0 +1,33 @@
+import { Product } from '../types';
+import { ParsedPickList, parsePickListImage } from './aiService';
+import { recognizePickList } from './offlineOcr';
+
+/**
+ * Pick list photos are read by the AI proxy when it can be reached, and on the device
+ * (offlineOcr.ts) when the browser is offline or the proxy fails (unreachable, quota, model error).
+ */
+
+export interface PickListScan extends ParsedPickList {
+  source: 'ai' | 'offline';
+  fallbackReason?: string; // Why the AI reader was skipped
+}
+
+export const scanPickList = async (image: string, products: Product[], onOfflineProgress?: (progress: number) => void): Promise<PickListScan> => {
+  let fallbackReason = 'No network connection';
+
+  if (navigator.onLine) {
+    try {
+      return { ...(await parsePickListImage(image, products)), source: 'ai' };
+    } catch (error: unknown) {
+      // Reported to the caller on the offline result instead of the console
+      fallbackReason = error instanceof Error && error.message ? error.message : 'AI service error';
+    }
+  }
+
+  try {
+    return { ...(await recognizePickList(image, products, onOfflineProgress)), source: 'offline', fallbackReason };
+  } catch (error: unknown) {
+    const offlineReason = error instanceof Error && error.message ? error.message : 'unavailable';
+    throw new Error(`Failed to read pick list. ${fallbackReason}; offline reader: ${offlineReason}`);
+  }
+};
@@ -0,0 +1,170 @@
+import { Product } from '../types';
+
+/**
+ * Fuzzy Product Matching
+ *
+ * Maps free text (an AI- or OCR-read pick list line, or a typed name) to the Product Master.
+ * Each product scores 0..1 by the best of:
+ *   code    - the product code appears in the text (O/0 and I/L/1 misreads forgiven)
+ *   alias   - wording a user confirmed for this product before (see learnProductAliases)
+ *   name    - best of bigram overlap, edit distance, word overlap and containment
+ * Text is lower-cased with punctuation and spacing removed, so CJK names (糖 / 白糖) compare too.
+ *
+ * Matches at AUTO_MATCH_SCORE or above are taken as-is; weaker ones are offered for confirmation,
+ * and a confirmed match is stored as an alias so the same wording matches outright next time.
+ */
+
+export type MatchReason = 'code' | 'alias' | 'name';
+
+export interface ProductMatch {
+    product: Product;
+    score: number; // 0..1, 1 = code, alias or exact name
+    reason: MatchReason;
+}
+
+export const MIN_MATCH_SCORE = 0.6; // Used without asking when nobody can confirm (e.g. pallet grouping)
+export const AUTO_MATCH_SCORE = 0.85; // Taken without confirmation in review screens
+const CANDIDATE_SCORE = 0.4; // Shown as a suggestion
+
+const compact = (value: string) => (value || '').normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+// Whitespace-separated words, so codes such as "AB-120" stay whole
+const words = (value: string) => (value || '').split(/\s+/).map(compact).filter(Boolean);
+
+// Codes are compared with common OCR confusions folded together
+const codeKey = (value: string) => compact(value).replace(/o/g, '0').replace(/[il]/g, '1');
+
+// Long mixed codes such as UFTS0010 are also found when run into other text
+const isDistinctiveCode = (key: string) => key.length >= 5 && /\d/.test(key) && /\p{L}/u.test(key);
+
+const bigrams = (value: string) => {
+    const chars = Array.from(value);
+    if (chars.length < 2) return chars;
+    return chars.slice(0, -1).map((c, i) => c + chars[i + 1]);
+};
+
+const diceScore = (left: string[], right: string[]) => {
+    if (left.length === 0 || right.length === 0) return 0;
+    const pool = new Map<string, number>();
+    right.forEach(g => pool.set(g, (pool.get(g) || 0) + 1));
+    let shared = 0;
+    left.forEach(g => {
+        const n = pool.get(g) || 0;
+        if (n > 0) {
+            shared++;
+            pool.set(g, n - 1);
+        }
+    });
+    return (2 * shared) / (left.length + right.length);
+};
+
+const levenshteinRatio = (a: string, b: string) => {
+    const left = Array.from(a);
+    const right = Array.from(b);
+    if (left.length === 0 || right.length === 0) return 0;
+    let prev = right.map((_, j) => j + 1);
+    left.forEach((ca, i) => {
+        const row = [i + 1];
+        right.forEach((cb, j) => {
+            row.push(Math.min(prev[j] + 1, row[j] + 1, (j === 0 ? i : prev[j - 1]) + (ca === cb ? 0 : 1)));
+        });
+        prev = row.slice(1);
+    });
+    return 1 - prev[right.length - 1] / Math.max(left.length, right.length);
+};
+
+// Share of words in common regardless of order; a word counts if it is at most one typo away
+const wordScore = (a: string, b: string) => {
+    const left = words(a);
+    const right = words(b);
+    if (left.length === 0 || right.length === 0) return 0;
+    const unused = [...right];
+    let shared = 0;
+    left.forEach(w => {
+        const idx = unused.findIndex(r => r === w || (Math.min(r.length, w.length) >= 4 && levenshteinRatio(r, w) >= 0.75));
+        if (idx > -1) {
+            shared++;
+            unused.splice(idx, 1);
+        }
+    });
+    return (2 * shared) / (left.length + right.length);
+};
+
+// One name inside the other: "糖" in "白糖", "sushi tray" in "sushi tray large"
+const containmentScore = (left: string, right: string) => {
+    const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+    const minLength = /[a-z0-9]/.test(shorter) ? 3 : 1; // A single CJK character is a word; Latin needs more
+    if (shorter.length < minLength || !longer.includes(shorter)) return 0;
+    return 0.5 + 0.5 * (Array.from(shorter).length / Array.from(longer).length);
+};
+
+export const textSimilarity = (a: string, b: string): number => {
+    const left = compact(a);
+    const right = compact(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+    return Math.max(
+        diceScore(bigrams(left), bigrams(right)),
+        levenshteinRatio(left, right),
+        wordScore(a, b),
+        containmentScore(left, right)
+    );
+};
+
+const scoreProduct = (text: string, product: Product): ProductMatch => {
+    const key = product.productCode ? codeKey(product.productCode) : '';
+    if (key && (words(text).some(w => codeKey(w) === key) || (isDistinctiveCode(key) && codeKey(text).includes(key)))) {
+        return { product, score: 1, reason: 'code' };
+    }
+
+    let best: ProductMatch = { product, score: textSimilarity(text, product.name), reason: 'name' };
+    (product.aliases || []).forEach(alias => {
+        const score = textSimilarity(text, alias);
+        if (score > best.score || (score === 1 && best.reason === 'name')) best = { product, score, reason: 'alias' };
+    });
+    return best;
+};
+
+/**
+ * Candidates for a line of text, best first.
+ */
+export const rankProducts = (text: string, products: Product[], limit = 5, minScore = CANDIDATE_SCORE): ProductMatch[] => {
+    if (!compact(text)) return [];
+    return products
+        .map(p => scoreProduct(text, p))
+        .filter(m => m.score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
+
+/**
+ * Best product for a line of text, or undefined when nothing scores at least minScore.
+ */
+export const matchProduct = (text: string, products: Product[], minScore = MIN_MATCH_SCORE): ProductMatch | undefined =>
+    rankProducts(text, products, 1, minScore)[0];
+
+export const isConfidentMatch = (match?: ProductMatch) => !!match && match.score >= AUTO_MATCH_SCORE;
+
+/**
+ * Stores confirmed wording as an alias of the chosen product. Wording already covered by the
+ * product's name, code or aliases is skipped; wording moved to another product is removed from the old one.
+ */
+export const learnProductAliases = (products: Product[], entries: { productCode: string; text: string }[]): Product[] => {
+    let next = products;
+    entries.forEach(({ productCode, text }) => {
+        const alias = text.replace(/\s+/g, ' ').trim();
+        const key = compact(alias);
+        const target = next.find(p => p.productCode === productCode);
+        if (!key || !target) return;
+        const known = [target.name, target.productCode, ...(target.aliases || [])].some(v => compact(v) === key);
+        if (known) return;
+
+        const now = Date.now();
+        next = next.map(p => {
+            if (p.productCode === productCode) return { ...p, aliases: [...(p.aliases || []), alias], updatedAt: now };
+            if ((p.aliases || []).some(a => compact(a) === key)) return { ...p, aliases: p.aliases!.filter(a => compact(a) !== key), updatedAt: now };
+            return p;
+        });
+    });
+    return next;
+};
@@ -0,0 +1,50 @@
+import { InventoryLocation, PurchaseOrder, PurchaseOrderLine } from '../types';
+
+/**
+ * Purchase Orders
+ *
+ * A PO lists what a supplier should deliver. Receipts add to each line's received / damaged
+ * totals (partial deliveries are normal); good units go into stock, damaged units into quarantine.
+ * A line is short only once the PO is closed with units still outstanding.
+ */
+
+// Create / edit form payload: received totals are kept by the hook, never sent from the UI
+export type PurchaseOrderInput = Pick<PurchaseOrder, 'poNumber' | 'supplier' | 'supplierId' | 'expectedDate' | 'notes'> & {
+    id?: string;
+    lines: { id?: string; productCode: string; expectedQty: number }[];
+};
+
+// One line of a delivery as entered at the dock
+export interface ReceiptLineInput {
+    lineId: string;
+    qty: number; // Good units
+    damagedQty: number;
+    lotNumber?: string;
+    productionDate?: number;
+    expiryDate?: number;
+    location?: InventoryLocation; // Empty = next free Transit bin
+}
+
+export type LineStatus = 'pending' | 'partial' | 'complete' | 'over' | 'short';
+
+// Damaged units were still delivered, so they count towards the expected quantity
+export const getLineDelivered = (line: PurchaseOrderLine) => line.receivedQty + line.damagedQty;
+
+export const getLineOutstanding = (line: PurchaseOrderLine) => Math.max(0, line.expectedQty - getLineDelivered(line));
+
+export const getLineStatus = (line: PurchaseOrderLine, poStatus: PurchaseOrder['status']): LineStatus => {
+    const delivered = getLineDelivered(line);
+    if (delivered > line.expectedQty) return 'over';
+    if (delivered === line.expectedQty) return 'complete';
+    if (poStatus === 'closed') return 'short';
+    return delivered > 0 ? 'partial' : 'pending';
+};
+
+export const isPurchaseOrderOpen = (po: PurchaseOrder) => po.status === 'open' || po.status === 'partial';
+
+// Status after a receipt: 'closed' is only ever set explicitly
+export const derivePurchaseOrderStatus = (po: PurchaseOrder): PurchaseOrder['status'] => {
+    if (po.status === 'closed') return 'closed';
+    if (po.lines.length > 0 && po.lines.every(l => getLineOutstanding(l) === 0)) return 'received';
+    return po.lines.some(l => getLineDelivered(l) > 0) ? 'partial' : 'open';
+};
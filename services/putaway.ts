@@ -0,0 +1,130 @@
+import { InventoryItem, InventoryLocation, MasterLocation, Product, PutawaySettings } from '../types';
+import { formatBinCode } from './ledger';
+import { getBinLoads, getFillPercent } from './binCapacity';
+
+/**
+ * Directed Putaway
+ *
+ * Received stock lands in Transit (rack T) and is then put away to a storage bin. Suggestions
+ * come from active (not disabled) bins outside the excluded racks, in this order:
+ *   home         the product's fixed home bin, if empty or already holding only this product
+ *   consolidate  bins already holding only this product
+ *   empty        empty bins, in layout order
+ * With zoning on, a department only gets its own racks; with heavy levels on, heavy units
+ * (PLT, BG, ...) only get the heavy levels. Each strategy can be switched off in Settings.
+ * Bins already at their capacity (binCapacity.ts) are never suggested.
+ */
+
+export const TRANSIT_RACK = 'T';
+
+export type PutawayReason = 'home' | 'consolidate' | 'empty';
+
+export const PUTAWAY_REASON_LABELS: Record<PutawayReason, string> = {
+    home: 'Home Bin',
+    consolidate: 'Consolidate',
+    empty: 'Empty Bin'
+};
+
+export interface PutawaySuggestion {
+    location: InventoryLocation;
+    binCode: string;
+    reason: PutawayReason;
+}
+
+export interface PutawayContext {
+    products: Product[];
+    inventory: InventoryItem[];
+    masterLocations: MasterLocation[];
+    settings: PutawaySettings;
+    reserved?: InventoryLocation[]; // Bins already handed out in the same receipt / batch of moves
+}
+
+const norm = (value: string) => (value || '').trim().toUpperCase();
+
+// "a-01-1" and "A-1-1" are the same bin
+export const normalizeBinCode = (code: string) => norm(code).replace(/\s+/g, '').split('-').map(s => s.replace(/^0+(?=\d)/, '')).join('-');
+
+export const isHeavyUnit = (unit: string, settings: PutawaySettings) => settings.heavyUoms.some(u => norm(u) === norm(unit));
+
+export const isInTransit = (item: InventoryItem) => item.quantity > 0 && item.locations.some(l => l.rack === TRANSIT_RACK);
+
+// Bin code -> product codes stored there
+const getBinContents = (inventory: InventoryItem[]) => {
+    const contents = new Map<string, Set<string>>();
+    inventory.forEach(item => {
+        if (item.quantity <= 0) return;
+        item.locations.forEach(loc => {
+            const code = formatBinCode(loc);
+            if (!contents.has(code)) contents.set(code, new Set());
+            contents.get(code)!.add(item.productCode);
+        });
+    });
+    return contents;
+};
+
+const toLocation = (loc: MasterLocation): InventoryLocation => ({ rack: loc.rack, bay: loc.bay, level: loc.level });
+
+/**
+ * Destination bins for a product, best first.
+ */
+export const suggestPutaway = (productCode: string, unit: string, ctx: PutawayContext, limit = 5): PutawaySuggestion[] => {
+    const { settings } = ctx;
+    const product = ctx.products.find(p => p.productCode === productCode);
+    const contents = getBinContents(ctx.inventory);
+    const reserved = new Set((ctx.reserved || []).map(formatBinCode));
+    const loads = getBinLoads(ctx.inventory, ctx.products);
+
+    const isEmpty = (code: string) => !contents.has(code) && !reserved.has(code);
+    const holdsOnlyProduct = (code: string) => {
+        const codes = contents.get(code);
+        return !!codes && codes.size === 1 && codes.has(productCode);
+    };
+
+    const active = ctx.masterLocations.filter(l => l.status !== 'disabled' && (getFillPercent(l, loads.get(formatBinCode(l))) || 0) < 100);
+    const excluded = new Set(settings.excludedRacks.map(norm));
+    const zone = settings.strategies.zoning && product?.department ? (settings.zones[product.department] || []).map(norm) : [];
+    const heavy = settings.strategies.heavyLevels && isHeavyUnit(unit || product?.defaultUnit || '', settings);
+    const heavyLevels = settings.heavyLevels.map(norm);
+
+    const allowed = active.filter(l =>
+        !excluded.has(norm(l.rack))
+        && (zone.length === 0 || zone.includes(norm(l.rack)))
+        && (!heavy || heavyLevels.includes(norm(l.level)))
+    );
+
+    const suggestions: PutawaySuggestion[] = [];
+    const add = (loc: MasterLocation, reason: PutawayReason) => {
+        const binCode = formatBinCode(loc);
+        if (!suggestions.some(s => s.binCode === binCode)) suggestions.push({ location: toLocation(loc), binCode, reason });
+    };
+
+    // A fixed home bin is an explicit choice, so zoning and level rules do not apply to it
+    if (settings.strategies.homeBin && product?.homeBin) {
+        const home = active.find(l => normalizeBinCode(l.binCode) === normalizeBinCode(product.homeBin!));
+        if (home && (isEmpty(formatBinCode(home)) || holdsOnlyProduct(formatBinCode(home)))) add(home, 'home');
+    }
+    if (settings.strategies.consolidate) {
+        allowed.filter(l => holdsOnlyProduct(formatBinCode(l))).forEach(l => add(l, 'consolidate'));
+    }
+    allowed.filter(l => isEmpty(formatBinCode(l))).forEach(l => add(l, 'empty'));
+
+    return suggestions.slice(0, limit);
+};
+
+/**
+ * First empty, active Transit bin, or undefined when Transit is full.
+ */
+export const findTransitBin = (inventory: InventoryItem[], masterLocations: MasterLocation[], reserved: InventoryLocation[] = []): InventoryLocation | undefined => {
+    const contents = getBinContents(inventory);
+    const taken = new Set(reserved.map(formatBinCode));
+    const bin = masterLocations.find(l => l.rack === TRANSIT_RACK && l.status !== 'disabled' && !contents.has(formatBinCode(l)) && !taken.has(formatBinCode(l)));
+    return bin ? toLocation(bin) : undefined;
+};
+
+/**
+ * Where new stock goes when no bin was chosen: Transit, or straight to the best putaway bin when
+ * Transit is full. Undefined = nowhere free.
+ */
+export const findReceivingBin = (productCode: string, unit: string, ctx: PutawayContext): InventoryLocation | undefined =>
+    findTransitBin(ctx.inventory, ctx.masterLocations, ctx.reserved)
+    || suggestPutaway(productCode, unit, ctx, 1)[0]?.location;
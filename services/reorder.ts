@@ -0,0 +1,125 @@
+import { InventoryItem, Product, PurchaseOrder, Supplier, Transaction } from '../types';
+import { getLineOutstanding, isPurchaseOrderOpen } from './purchaseOrders';
+
+/**
+ * Reorder Suggestions
+ *
+ * For every product with a minimum level or recent demand:
+ *   demand/day     = OUTBOUND units over the lookback window / window days
+ *   reorder point  = minStockLevel (safety stock) + demand/day x supplier lead time
+ *   order up to    = reorder point + demand/day x review period
+ * When available stock (on hand + open PO quantities) is at or below the reorder point, the
+ * shortfall to "order up to" is proposed, raised to the supplier MOQ and rounded up to a pack size.
+ */
+
+export type ReorderUrgency = 'critical' | 'reorder';
+
+export interface ReorderSuggestion {
+    productCode: string;
+    name: string;
+    unit: string;
+    supplier?: Supplier;
+    onHand: number; // Excludes quarantined stock
+    onOrder: number; // Outstanding on open purchase orders
+    minStockLevel: number;
+    avgDailyDemand: number;
+    leadTimeDays: number;
+    reorderPoint: number;
+    daysOfCover?: number; // undefined = no recent demand
+    suggestedQty: number;
+    packSize?: number; // Pack the suggestion was rounded to
+    urgency: ReorderUrgency; // critical = runs out (or below minimum) before a new order can arrive
+}
+
+export interface ReorderOptions {
+    lookbackDays?: number;
+    reviewDays?: number; // How often orders are placed; stock to cover until the next review
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const round = (qty: number) => Math.round(qty * 100) / 100;
+
+// Picks the pack with the least overshoot; ties go to the larger pack (fewer handling units)
+export const roundToPackSize = (qty: number, packSizes: number[] = []): { qty: number; packSize?: number } => {
+    const packs = packSizes.filter(p => p > 0);
+    if (packs.length === 0) return { qty: Math.ceil(qty) };
+    let best: { qty: number; packSize?: number } | undefined;
+    packs.forEach(pack => {
+        const total = Math.ceil(qty / pack) * pack;
+        if (!best || total < best.qty || (total === best.qty && pack > (best.packSize || 0))) best = { qty: total, packSize: pack };
+    });
+    return best!;
+};
+
+export const buildReorderSuggestions = (
+    products: Product[],
+    inventory: InventoryItem[],
+    transactions: Transaction[],
+    suppliers: Supplier[],
+    purchaseOrders: PurchaseOrder[],
+    { lookbackDays = 30, reviewDays = 7 }: ReorderOptions = {}
+): ReorderSuggestion[] => {
+    const since = Date.now() - lookbackDays * DAY;
+
+    const demand = new Map<string, number>();
+    transactions.forEach(t => {
+        if (t.type !== 'OUTBOUND' || t.date < since) return;
+        demand.set(t.productCode, (demand.get(t.productCode) || 0) + Math.abs(t.quantity));
+    });
+
+    const onHand = new Map<string, number>();
+    inventory.forEach(i => {
+        if (i.status === 'quarantine') return;
+        onHand.set(i.productCode, (onHand.get(i.productCode) || 0) + i.quantity);
+    });
+
+    const onOrder = new Map<string, number>();
+    purchaseOrders.filter(isPurchaseOrderOpen).forEach(po => po.lines.forEach(l => {
+        onOrder.set(l.productCode, (onOrder.get(l.productCode) || 0) + getLineOutstanding(l));
+    }));
+
+    const suggestions: ReorderSuggestion[] = [];
+    products.forEach(product => {
+        const minStockLevel = product.minStockLevel || 0;
+        const avgDailyDemand = (demand.get(product.productCode) || 0) / lookbackDays;
+        if (minStockLevel <= 0 && avgDailyDemand <= 0) return;
+
+        const supplier = suppliers.find(s => s.id === product.supplierId);
+        const leadTimeDays = supplier?.leadTimeDays || 0;
+        const stock = onHand.get(product.productCode) || 0;
+        const incoming = onOrder.get(product.productCode) || 0;
+        const available = stock + incoming;
+
+        const reorderPoint = minStockLevel + avgDailyDemand * leadTimeDays;
+        if (available > reorderPoint) return;
+
+        const orderUpTo = reorderPoint + avgDailyDemand * reviewDays;
+        const needed = Math.max(orderUpTo - available, supplier?.moq || 0, 1);
+        const rounded = roundToPackSize(needed, supplier?.packSizes);
+
+        suggestions.push({
+            productCode: product.productCode,
+            name: product.name,
+            unit: product.defaultUnit || 'pcs',
+            supplier,
+            onHand: round(stock),
+            onOrder: round(incoming),
+            minStockLevel,
+            avgDailyDemand: round(avgDailyDemand),
+            leadTimeDays,
+            reorderPoint: round(reorderPoint),
+            daysOfCover: avgDailyDemand > 0 ? round(stock / avgDailyDemand) : undefined,
+            suggestedQty: rounded.qty,
+            packSize: rounded.packSize,
+            urgency: stock < minStockLevel || stock <= avgDailyDemand * leadTimeDays ? 'critical' : 'reorder'
+        });
+    });
+
+    // Most urgent first, then the soonest to run out
+    return suggestions.sort((a, b) =>
+        (a.urgency === b.urgency ? 0 : a.urgency === 'critical' ? -1 : 1) ||
+        (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) ||
+        a.name.localeCompare(b.name)
+    );
+};
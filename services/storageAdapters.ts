@@ -0,0 +1,577 @@
+import { Transaction } from '../types';
+import { smartSearch } from '../utils';
+import { GASService } from './gasApi';
+import { SyncAck, SyncChangeSet, SyncCollection, SyncData, SYNC_COLLECTIONS, SYNC_KEYS, getRecordKey } from './syncEngine';
+
+/**
+ * Storage Adapters
+ *
+ * One interface for every place NexusWMS can keep its data, so useAppState never talks to a
+ * specific backend directly.
+ * - Local (this device): localStorage, IndexedDB
+ * - Remote (shared source of truth): Google Apps Script, generic REST/JSON server
+ */
+
+export type LocalBackend = 'localStorage' | 'indexedDB';
+export type RemoteBackend = 'gas' | 'rest' | 'none';
+
+export interface StorageAdapter {
+    backend: LocalBackend | Exclude<RemoteBackend, 'none'>;
+    /** Reads every collection. Collections the backend has never stored are omitted. */
+    load(options?: LoadOptions): Promise<Partial<SyncData>>;
+    /** Overwrites the given collections. */
+    saveAll(data: Partial<SyncData>): Promise<void>;
+    /** Applies per-record upserts / deletes and reports which ones were accepted. */
+    applyChanges(changeSet: SyncChangeSet): Promise<SyncAck>;
+    testConnection(): Promise<boolean>;
+    /** Local backends only: wipe everything (used after migrating to another backend). */
+    clear?(): Promise<void>;
+    /** Local backends only: filtered, newest-first page of the transaction history. */
+    queryTransactions?(query: TransactionQuery): Promise<TransactionPage>;
+}
+
+export interface LoadOptions {
+    transactionsSince?: number; // IndexedDB only: older history stays on disk and is queried on demand
+}
+
+export interface TransactionQuery {
+    productCode?: string;
+    types?: Transaction['type'][];
+    from?: number; // Inclusive timestamp
+    to?: number; // Inclusive timestamp
+    search?: string; // smartSearch over code, name, type and lot
+    offset: number;
+    limit: number;
+}
+
+export interface TransactionPage {
+    items: Transaction[];
+    total: number; // Matches across all pages
+}
+
+export const matchesTransactionQuery = (t: Transaction, query: TransactionQuery) => {
+    if (query.productCode && t.productCode !== query.productCode) return false;
+    if (query.types && query.types.length > 0 && !query.types.includes(t.type)) return false;
+    if (query.from !== undefined && t.date < query.from) return false;
+    if (query.to !== undefined && t.date > query.to) return false;
+    return smartSearch(t, ['productCode', 'productName', 'type', 'lotNumber'], query.search || '');
+};
+
+// Same semantics as the IndexedDB query, for backends that hold history in memory
+export const queryTransactionsInMemory = (transactions: Transaction[], query: TransactionQuery): TransactionPage => {
+    const matches = transactions
+        .filter(t => matchesTransactionQuery(t, query))
+        .sort((a, b) => b.date - a.date);
+    return { items: matches.slice(query.offset, query.offset + query.limit), total: matches.length };
+};
+
+export interface StorageConfig {
+    local: LocalBackend;
+    remote: RemoteBackend;
+    restUrl: string;
+}
+
+export const loadStorageConfig = (): StorageConfig => {
+    const saved = localStorage.getItem('nexuswms_storage_config');
+    if (saved) return JSON.parse(saved);
+
+    // First run: IndexedDB where available (full history, no quota crash),
+    // and carry over the old Google Sheets on/off switch
+    const gasSaved = localStorage.getItem('nexuswms_gas_config');
+    const gasEnabled = gasSaved ? JSON.parse(gasSaved).enabled !== false : true;
+    return {
+        local: typeof indexedDB !== 'undefined' ? 'indexedDB' : 'localStorage',
+        remote: gasEnabled ? 'gas' : 'none',
+        restUrl: ''
+    };
+};
+
+// Applies a change set to a plain array (used by backends without native upsert)
+const applyChangeToRecords = (collection: SyncCollection, records: any[], changeSet: SyncChangeSet): any[] => {
+    const change = changeSet.changes[collection];
+    if (!change) return records;
+
+    const byKey = new Map(records.map(r => [getRecordKey(collection, r), r]));
+    change.upserts.forEach(r => byKey.set(getRecordKey(collection, r), r));
+    change.deletes.forEach(key => byKey.delete(key));
+    return Array.from(byKey.values());
+};
+
+// Local backends always accept everything
+const ackAll = (changeSet: SyncChangeSet): SyncAck => {
+    const applied: SyncAck['applied'] = {};
+    LOCAL_COLLECTIONS.forEach(collection => {
+        const change = changeSet.changes[collection];
+        if (!change) return;
+        applied[collection] = [...change.upserts.map(r => getRecordKey(collection, r)), ...change.deletes];
+    });
+    return { applied, rejected: {}, serverTime: Date.now() };
+};
+
+// ==========================================
+// LOCAL: localStorage
+// ==========================================
+
+// Users and approval requests stay in their own localStorage keys (the sign-in screen needs users before
+// any backend loads), so local backends hold every other collection. Remote backends hold all of them.
+type LocalCollection = Exclude<SyncCollection, 'users' | 'approvals'>;
+const LOCAL_COLLECTIONS = SYNC_COLLECTIONS.filter((c): c is LocalCollection => c !== 'users' && c !== 'approvals');
+
+const LOCAL_STORAGE_KEYS: Record<LocalCollection, string> = {
+    inventory: 'nexuswms_inventory',
+    products: 'nexuswms_products',
+    transactions: 'nexuswms_transactions',
+    locations: 'nexuswms_locations_v3',
+    pickLists: 'nexuswms_picklists',
+    palletRules: 'nexuswms_pallet_rules',
+    layouts: 'nexuswms_layouts'
+};
+
+// OPTIMIZATION: Only keep the last 1000 transactions locally to prevent LocalStorage Quota Exceeded crash.
+// Full history is preserved in IndexedDB or the remote backend.
+export const LOCAL_STORAGE_TRANSACTION_LIMIT = 1000;
+
+export const createLocalStorageAdapter = (): StorageAdapter => {
+    const adapter: StorageAdapter = {
+        backend: 'localStorage',
+
+        async load() {
+            const data: Partial<SyncData> = {};
+            LOCAL_COLLECTIONS.forEach(collection => {
+                const saved = localStorage.getItem(LOCAL_STORAGE_KEYS[collection]);
+                if (saved) data[collection] = JSON.parse(saved);
+            });
+            return data;
+        },
+
+        async saveAll(data) {
+            LOCAL_COLLECTIONS.forEach(collection => {
+                const records = data[collection];
+                if (!records) return;
+                const toSave = collection === 'transactions' ? records.slice(0, LOCAL_STORAGE_TRANSACTION_LIMIT) : records;
+                localStorage.setItem(LOCAL_STORAGE_KEYS[collection], JSON.stringify(toSave));
+            });
+        },
+
+        async applyChanges(changeSet) {
+            const current = await adapter.load();
+            const next: Partial<SyncData> = {};
+            LOCAL_COLLECTIONS.forEach(collection => {
+                if (changeSet.changes[collection]) {
+                    next[collection] = applyChangeToRecords(collection, current[collection] || [], changeSet);
+                }
+            });
+            await adapter.saveAll(next);
+            return ackAll(changeSet);
+        },
+
+        async testConnection() {
+            return typeof localStorage !== 'undefined';
+        },
+
+        async clear() {
+            LOCAL_COLLECTIONS.forEach(collection => localStorage.removeItem(LOCAL_STORAGE_KEYS[collection]));
+        },
+
+        async queryTransactions(query) {
+            const saved = localStorage.getItem(LOCAL_STORAGE_KEYS.transactions);
+            return queryTransactionsInMemory(saved ? JSON.parse(saved) : [], query);
+        }
+    };
+    return adapter;
+};
+
+// ==========================================
+// LOCAL: IndexedDB
+// ==========================================
+
+export const DATA_DB_CONFIG = {
+    DB_NAME: 'NexusWMSData',
+    VERSION: 4 // v2: query indexes on transactions / inventory, v3: palletRules store, v4: layouts store
+};
+
+// Secondary indexes per store (name = keyPath)
+const DATA_DB_INDEXES: Partial<Record<LocalCollection, string[]>> = {
+    transactions: ['productCode', 'date', 'type'],
+    inventory: ['productCode']
+};
+
+// One object store per collection, keyed by the collection's primary key
+export const initDataDB = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DATA_DB_CONFIG.DB_NAME, DATA_DB_CONFIG.VERSION);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+
+        request.onupgradeneeded = (event) => {
+            const openRequest = event.target as IDBOpenDBRequest;
+            const db = openRequest.result;
+            LOCAL_COLLECTIONS.forEach(collection => {
+                const store = db.objectStoreNames.contains(collection)
+                    ? openRequest.transaction!.objectStore(collection)
+                    : db.createObjectStore(collection, { keyPath: SYNC_KEYS[collection] });
+
+                (DATA_DB_INDEXES[collection] || []).forEach(field => {
+                    if (!store.indexNames.contains(field)) store.createIndex(field, field);
+                });
+            });
+        };
+    });
+};
+
+// Resolves when the whole IDB transaction commits (not just the last request)
+const completeTransaction = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const createIndexedDBAdapter = (): StorageAdapter => ({
+    backend: 'indexedDB',
+
+    async load(options = {}) {
+        const db = await initDataDB();
+        const data: Partial<SyncData> = {};
+        await Promise.all(LOCAL_COLLECTIONS.map(collection => new Promise<void>((resolve, reject) => {
+            const store = db.transaction([collection], 'readonly').objectStore(collection);
+            const request = collection === 'transactions' && options.transactionsSince !== undefined
+                ? store.index('date').getAll(IDBKeyRange.lowerBound(options.transactionsSince))
+                : store.getAll();
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => {
+                if (request.result && request.result.length > 0) data[collection] = request.result;
+                resolve();
+            };
+        })));
+        return data;
+    },
+
+    async saveAll(data) {
+        const collections = LOCAL_COLLECTIONS.filter(c => data[c]);
+        if (collections.length === 0) return;
+
+        const db = await initDataDB();
+        const transaction = db.transaction(collections, 'readwrite');
+        collections.forEach(collection => {
+            const store = transaction.objectStore(collection);
+            store.clear();
+            data[collection]!.forEach(record => store.put(record));
+        });
+        return completeTransaction(transaction);
+    },
+
+    async applyChanges(changeSet) {
+        const collections = LOCAL_COLLECTIONS.filter(c => changeSet.changes[c]);
+        if (collections.length > 0) {
+            const db = await initDataDB();
+            const transaction = db.transaction(collections, 'readwrite');
+            collections.forEach(collection => {
+                const store = transaction.objectStore(collection);
+                const change = changeSet.changes[collection]!;
+                change.upserts.forEach(record => store.put(record));
+                change.deletes.forEach(key => store.delete(key));
+            });
+            await completeTransaction(transaction);
+        }
+        return ackAll(changeSet);
+    },
+
+    async testConnection() {
+        return typeof indexedDB !== 'undefined';
+    },
+
+    async clear() {
+        const db = await initDataDB();
+        const transaction = db.transaction(LOCAL_COLLECTIONS, 'readwrite');
+        LOCAL_COLLECTIONS.forEach(collection => transaction.objectStore(collection).clear());
+        return completeTransaction(transaction);
+    },
+
+    /**
+     * Picks the narrowest index for the query, then walks it newest-first:
+     * - productCode -> 'productCode' index (one product's history is small, sorted after)
+     * - otherwise   -> 'date' index cursor, bounded by from/to
+     */
+    async queryTransactions(query) {
+        const db = await initDataDB();
+        const store = db.transaction(['transactions'], 'readonly').objectStore('transactions');
+
+        if (query.productCode) {
+            const all = await new Promise<Transaction[]>((resolve, reject) => {
+                const request = store.index('productCode').getAll(IDBKeyRange.only(query.productCode));
+                request.onerror = () => reject(request.error);
+                request.onsuccess = () => resolve(request.result || []);
+            });
+            return queryTransactionsInMemory(all, query);
+        }
+
+        let range: IDBKeyRange | undefined;
+        if (query.from !== undefined && query.to !== undefined) range = IDBKeyRange.bound(query.from, query.to);
+        else if (query.from !== undefined) range = IDBKeyRange.lowerBound(query.from);
+        else if (query.to !== undefined) range = IDBKeyRange.upperBound(query.to);
+
+        return new Promise<TransactionPage>((resolve, reject) => {
+            const items: Transaction[] = [];
+            let total = 0;
+            const request = store.index('date').openCursor(range, 'prev');
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) {
+                    resolve({ items, total });
+                    return;
+                }
+                const t = cursor.value as Transaction;
+                if (matchesTransactionQuery(t, query)) {
+                    if (total >= query.offset && items.length < query.limit) items.push(t);
+                    total++;
+                }
+                cursor.continue();
+            };
+        });
+    }
+});
+
+// ==========================================
+// MIGRATION: localStorage -> IndexedDB (one-time)
+// ==========================================
+
+const IDB_MIGRATION_FLAG = 'nexuswms_idb_migrated';
+
+/**
+ * Copies data saved by older versions (plain localStorage keys) into IndexedDB, then frees the keys.
+ * Collections IndexedDB already has are left alone. Safe to call on every start.
+ */
+export const migrateLocalStorageToIndexedDB = async (): Promise<void> => {
+    if (localStorage.getItem(IDB_MIGRATION_FLAG)) return;
+
+    const legacyAdapter = createLocalStorageAdapter();
+    const idbAdapter = createIndexedDBAdapter();
+    const [legacy, existing] = await Promise.all([legacyAdapter.load(), idbAdapter.load()]);
+
+    const toCopy: Partial<SyncData> = {};
+    LOCAL_COLLECTIONS.forEach(collection => {
+        if (legacy[collection] && !existing[collection]) toCopy[collection] = legacy[collection];
+    });
+
+    await idbAdapter.saveAll(toCopy);
+    await legacyAdapter.clear!();
+    localStorage.setItem(IDB_MIGRATION_FLAG, String(Date.now()));
+    console.log(`NexusWMS: Migrated ${Object.keys(toCopy).join(', ') || 'nothing'} from localStorage to IndexedDB.`);
+};
+
+// ==========================================
+// REMOTE: Google Apps Script
+// ==========================================
+
+export const createGASAdapter = (url: string): StorageAdapter => ({
+    backend: 'gas',
+
+    async load() {
+        return GASService.fetchData(url);
+    },
+
+    async saveAll(data) {
+        // GAS builds sheet headers from the first row, so make sure optional fields exist on every row
+        const payload: Partial<SyncData> = { ...data };
+        if (data.products) {
+            payload.products = data.products.map(p => ({
+                ...p,
+                countPerPallet: p.countPerPallet || 0,
+                caseLengthCm: p.caseLengthCm || 0,
+                caseWidthCm: p.caseWidthCm || 0,
+                caseHeightCm: p.caseHeightCm || 0,
+                caseWeightKg: p.caseWeightKg || 0,
+                shelfLifeDays: p.shelfLifeDays || 0,
+                unitCost: p.unitCost || 0,
+                supplierId: p.supplierId || '',
+                aliases: p.aliases || [],
+                unitConversions: p.unitConversions || [],
+                homeBin: p.homeBin || ''
+            }));
+        }
+        if (data.inventory) {
+            payload.inventory = data.inventory.map(i => ({
+                ...i,
+                lotNumber: i.lotNumber || '',
+                productionDate: i.productionDate || 0,
+                expiryDate: i.expiryDate || 0,
+                status: i.status || 'active'
+            }));
+        }
+        if (data.transactions) {
+            payload.transactions = data.transactions.map(t => ({
+                ...t,
+                lotNumber: t.lotNumber || '',
+                user: t.user || '',
+                recordedAt: t.recordedAt || t.date,
+                batchId: t.batchId || '',
+                fromLocation: t.fromLocation || '',
+                toLocation: t.toLocation || '',
+                toBatchId: t.toBatchId || '',
+                movedQuantity: t.movedQuantity || 0,
+                openingQuantity: t.openingQuantity ?? '', // Blank = not an opening balance
+                poNumber: t.poNumber || '',
+                orderNumber: t.orderNumber || '',
+                manifestId: t.manifestId || ''
+            }));
+        }
+        if (data.locations) {
+            payload.locations = data.locations.map(l => ({
+                ...l,
+                name: l.name || '',
+                status: l.status || 'active',
+                capacity: l.capacity || 0,
+                capacityUnit: l.capacityUnit || '',
+                maxWeightKg: l.maxWeightKg || 0
+            }));
+        }
+        if (data.palletRules) {
+            payload.palletRules = data.palletRules.map(r => ({
+                ...r,
+                note: r.note || '',
+                isFallback: !!r.isFallback
+            }));
+        }
+        if (data.layouts) {
+            payload.layouts = data.layouts.map(l => ({
+                ...l,
+                note: l.note || '',
+                createdBy: l.createdBy || ''
+            }));
+        }
+        if (data.users) {
+            payload.users = data.users.map(u => ({
+                ...u,
+                updatedAt: u.updatedAt || u.createdAt
+            }));
+        }
+        if (data.approvals) {
+            payload.approvals = data.approvals.map(r => ({
+                ...r,
+                value: r.value || 0,
+                date: r.date || 0,
+                requestedBy: r.requestedBy || '',
+                decidedBy: r.decidedBy || '',
+                decidedAt: r.decidedAt || 0,
+                decisionNote: r.decisionNote || '',
+                updatedAt: r.updatedAt || r.decidedAt || r.requestedAt
+            }));
+        }
+        await GASService.saveData(url, 'saveAll', payload);
+    },
+
+    async applyChanges(changeSet) {
+        return GASService.syncChanges(url, changeSet);
+    },
+
+    async testConnection() {
+        return GASService.testConnection(url);
+    }
+});
+
+// ==========================================
+// REMOTE: Generic REST / JSON
+// ==========================================
+// Contract (all JSON):
+//   GET  {base}/health  -> 200
+//   GET  {base}/data    -> { inventory: [], products: [], transactions: [], locations: [], pickLists: [], palletRules: [], layouts: [], users: [], approvals: [] }
+//   PUT  {base}/data    <- Partial of the above, overwrites the given collections
+//   POST {base}/sync    <- SyncChangeSet, -> SyncAck { applied, rejected, serverTime }
+
+const REST_MAX_RETRIES = 3;
+const REST_RETRY_BASE_DELAY = 1000;
+
+const restRequest = async (method: string, url: string, body?: any): Promise<any> => {
+    let lastError: Error = new Error('REST request failed');
+
+    for (let attempt = 0; attempt <= REST_MAX_RETRIES; attempt++) {
+        if (attempt > 0) {
+            await new Promise(resolve => setTimeout(resolve, REST_RETRY_BASE_DELAY * Math.pow(2, attempt - 1)));
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method,
+                headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+                body: body !== undefined ? JSON.stringify(body) : undefined
+            });
+        } catch (e: any) {
+            lastError = new Error(e.message || 'Network error');
+            continue; // Retry network failures
+        }
+
+        if (response.status >= 500 || response.status === 429) {
+            lastError = new Error(`Server error ${response.status}`);
+            continue; // Transient
+        }
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`Request failed (${response.status}): ${text || response.statusText}`);
+        }
+
+        const text = await response.text();
+        if (!text) return null;
+        try {
+            return JSON.parse(text);
+        } catch (e) {
+            throw new Error('Invalid JSON from REST backend');
+        }
+    }
+
+    throw lastError;
+};
+
+export const createRestAdapter = (baseUrl: string): StorageAdapter => {
+    const base = baseUrl.trim().replace(/\/+$/, '');
+    return {
+        backend: 'rest',
+
+        async load() {
+            const result = await restRequest('GET', `${base}/data`);
+            return result?.data || result || {};
+        },
+
+        async saveAll(data) {
+            await restRequest('PUT', `${base}/data`, data);
+        },
+
+        async applyChanges(changeSet) {
+            const result = await restRequest('POST', `${base}/sync`, changeSet);
+            const ack = result?.data || result;
+            if (!ack || !ack.applied) throw new Error('REST backend did not acknowledge the changes');
+            return { applied: ack.applied, rejected: ack.rejected || {}, serverTime: ack.serverTime || Date.now() };
+        },
+
+        async testConnection() {
+            try {
+                await restRequest('GET', `${base}/health`);
+                return true;
+            } catch (e) {
+                console.error(e);
+                return false;
+            }
+        }
+    };
+};
+
+// ==========================================
+// FACTORIES
+// ==========================================
+
+export const createLocalAdapter = (backend: LocalBackend): StorageAdapter => {
+    return backend === 'indexedDB' ? createIndexedDBAdapter() : createLocalStorageAdapter();
+};
+
+/**
+ * Returns null when sync is off or the selected backend has no URL configured.
+ */
+export const createRemoteAdapter = (config: StorageConfig, gasUrl: string): StorageAdapter | null => {
+    if (config.remote === 'gas' && gasUrl) return createGASAdapter(gasUrl);
+    if (config.remote === 'rest' && config.restUrl) return createRestAdapter(config.restUrl);
+    return null;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { buildBaseline, fromStoredBaseline, mergeCollection, toStoredBaseline } from './syncEngine';
+
+const admin = { id: 'u1', name: 'Ana', role: 'admin', active: true, pinHash: 'x', createdAt: 1, updatedAt: 1 };
+const operator = { id: 'u2', name: 'Ben', role: 'operator', active: true, pinHash: 'y', createdAt: 2, updatedAt: 2 };
+
+// Saved and read back the way the app does it across a reload
+const reload = (baseline: ReturnType<typeof buildBaseline>) => fromStoredBaseline(JSON.stringify(toStoredBaseline(baseline)));
+
+describe('stored sync baseline', () => {
+    it('keeps a user removed on another device deleted after a reload', () => {
+        const pulled = mergeCollection('users', [], [admin, operator], {});
+        const baseline = reload({ ...buildBaseline({}), users: pulled.baseline });
+
+        const next = mergeCollection('users', pulled.merged, [admin], baseline.users);
+
+        expect(next.merged.map(u => u.id)).toEqual(['u1']);
+    });
+
+    it('still keeps a user created on this device before it was pushed', () => {
+        const baseline = reload(buildBaseline({ users: [admin] }));
+
+        const next = mergeCollection('users', [admin, operator], [admin], baseline.users);
+
+        expect(next.merged.map(u => u.id)).toEqual(['u1', 'u2']);
+    });
+
+    it('stores every merged collection', () => {
+        const baseline = reload(buildBaseline({ inventory: [{ id: 'b1' }], products: [{ productCode: 'P1' }], users: [admin], approvals: [{ id: 'a1' }] }));
+
+        expect(Object.keys(baseline.inventory)).toEqual(['b1']);
+        expect(Object.keys(baseline.products)).toEqual(['P1']);
+        expect(Object.keys(baseline.users)).toEqual(['u1']);
+        expect(Object.keys(baseline.approvals)).toEqual(['a1']);
+    });
+});
+
+describe('approval requests', () => {
+    const pending = { id: 'a1', kind: 'DELETE', qtyDiff: -5, status: 'pending', requestedAt: 1, updatedAt: 1 };
+
+    it('brings a decision made on another device to this one', () => {
+        const approved = { ...pending, status: 'approved', decidedBy: 'Ana', updatedAt: 2 };
+
+        const next = mergeCollection('approvals', [pending], [approved], buildBaseline({ approvals: [pending] }).approvals);
+
+        expect(next.merged).toEqual([approved]);
+    });
+
+    it('keeps the decision already on the backend when both devices decided', () => {
+        const approved = { ...pending, status: 'approved', decidedBy: 'Ana', updatedAt: 2 };
+        const rejected = { ...pending, status: 'rejected', decidedBy: 'Ben', updatedAt: 3 };
+
+        const next = mergeCollection('approvals', [rejected], [approved], buildBaseline({ approvals: [pending] }).approvals);
+
+        expect(next.merged).toEqual([approved]);
+        expect(next.conflicts).toEqual([]);
+    });
+});
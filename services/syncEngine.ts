@@ -0,0 +1,279 @@
+import { generateId } from '../types';
+
+/**
+ * Incremental Sync Engine
+ *
+ * Computes per-record change sets by diffing the current local state against the
+ * "baseline" (the last version of each record the server acknowledged).
+ * Only changed records are sent; the baseline only advances for records the server acks.
+ */
+
+export type SyncCollection = 'inventory' | 'products' | 'transactions' | 'locations' | 'pickLists' | 'palletRules' | 'layouts' | 'users' | 'approvals';
+
+export const SYNC_COLLECTIONS: SyncCollection[] = ['inventory', 'products', 'transactions', 'locations', 'pickLists', 'palletRules', 'layouts', 'users', 'approvals'];
+
+// Primary key per collection (must match SHEET_KEYS in the Apps Script backend)
+export const SYNC_KEYS: Record<SyncCollection, string> = {
+    inventory: 'id',
+    products: 'productCode',
+    transactions: 'id',
+    locations: 'binCode',
+    pickLists: 'id',
+    palletRules: 'id',
+    layouts: 'id',
+    users: 'id',
+    approvals: 'id'
+};
+
+// Append-only collections never propagate deletes (local history may be trimmed)
+const APPEND_ONLY: SyncCollection[] = ['transactions', 'layouts'];
+
+export type SyncData = Record<SyncCollection, any[]>;
+
+// Baseline: collection -> record key -> signature of the last acknowledged version
+export type SyncBaseline = Record<SyncCollection, Record<string, string>>;
+
+export interface SyncChange {
+    upserts: any[];
+    deletes: string[];
+    deleteVersions?: Record<string, number>; // Key -> updatedAt this device last saw; newer rows on the server are not deleted
+}
+
+export interface SyncChangeSet {
+    clientId: string;
+    changes: Partial<Record<SyncCollection, SyncChange>>;
+}
+
+export interface SyncAck {
+    applied: Partial<Record<SyncCollection, string[]>>;
+    rejected: Partial<Record<SyncCollection, string[]>>; // Stale: server holds a newer updatedAt
+    serverTime: number;
+}
+
+// Collections where concurrent edits are surfaced for review instead of overwritten
+export type ConflictCollection = 'inventory' | 'products';
+
+export interface SyncConflict {
+    id: string; // `${collection}:${key}`
+    collection: ConflictCollection;
+    key: string;
+    local: any; // Our unsynced edit
+    cloud: any; // The other device's edit
+    base: any | null; // Last version both sides agreed on (null if unknown)
+    detectedAt: number;
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+export const getRecordKey = (collection: SyncCollection, record: any): string => String(record[SYNC_KEYS[collection]]);
+
+/**
+ * Signature used to detect changes.
+ * Content-based, since not every edit bumps updatedAt (e.g. cycle counts, quarantine).
+ * updatedAt itself is only used server-side to reject stale writes.
+ */
+export const getRecordSignature = (record: any): string => JSON.stringify(record);
+
+export const createEmptyBaseline = (): SyncBaseline => ({
+    inventory: {},
+    products: {},
+    transactions: {},
+    locations: {},
+    pickLists: {},
+    palletRules: {},
+    layouts: {},
+    users: {},
+    approvals: {}
+});
+
+// Collections merged three-way on pull (mergeCollection). Their baseline is kept across reloads, so a
+// record deleted on another device is still told apart from one created here. The rest are re-baselined on every pull.
+export const MERGED_COLLECTIONS: SyncCollection[] = ['inventory', 'products', 'users', 'approvals'];
+
+export const toStoredBaseline = (baseline: SyncBaseline): Partial<SyncBaseline> => {
+    const stored: Partial<SyncBaseline> = {};
+    MERGED_COLLECTIONS.forEach(collection => { stored[collection] = baseline[collection]; });
+    return stored;
+};
+
+export const fromStoredBaseline = (saved: string | null): SyncBaseline => {
+    return { ...createEmptyBaseline(), ...(saved ? JSON.parse(saved) : {}) };
+};
+
+/**
+ * Builds a baseline that treats the given data as fully synced (e.g. right after a pull).
+ */
+export const buildBaseline = (data: Partial<SyncData>): SyncBaseline => {
+    const baseline = createEmptyBaseline();
+    SYNC_COLLECTIONS.forEach(collection => {
+        (data[collection] || []).forEach(record => {
+            baseline[collection][getRecordKey(collection, record)] = getRecordSignature(record);
+        });
+    });
+    return baseline;
+};
+
+/**
+ * Diffs local data against the baseline.
+ * - New or modified records -> upserts
+ * - Records in baseline but missing locally -> deletes (with the version last seen, for the server's stale check)
+ * - Held records (unresolved conflicts, by SyncConflict.id) are skipped
+ */
+export const buildChangeSet = (baseline: SyncBaseline, data: SyncData, clientId: string, held: Set<string> = new Set()): SyncChangeSet => {
+    const changes: Partial<Record<SyncCollection, SyncChange>> = {};
+
+    SYNC_COLLECTIONS.forEach(collection => {
+        const known = baseline[collection] || {};
+        const seen = new Set<string>();
+        const upserts: any[] = [];
+
+        data[collection].forEach(record => {
+            const key = getRecordKey(collection, record);
+            seen.add(key);
+            if (held.has(`${collection}:${key}`)) return;
+            if (known[key] !== getRecordSignature(record)) {
+                upserts.push(record);
+            }
+        });
+
+        const deletes = APPEND_ONLY.includes(collection)
+            ? []
+            : Object.keys(known).filter(key => !seen.has(key));
+
+        if (upserts.length > 0 || deletes.length > 0) {
+            const deleteVersions: Record<string, number> = {};
+            deletes.forEach(key => { deleteVersions[key] = Number(JSON.parse(known[key]).updatedAt) || 0; });
+            changes[collection] = { upserts, deletes, deleteVersions };
+        }
+    });
+
+    return { clientId, changes };
+};
+
+export const countChanges = (changeSet: SyncChangeSet): number => {
+    return Object.values(changeSet.changes).reduce((acc, c) => acc + (c ? c.upserts.length + c.deletes.length : 0), 0);
+};
+
+export const countRejected = (ack: SyncAck): number => {
+    return SYNC_COLLECTIONS.reduce((acc, collection) => acc + (ack.rejected[collection]?.length || 0), 0);
+};
+
+/**
+ * Record IDs (`${collection}:${key}`) touched by a change set - used to hold them out of the diff push.
+ */
+export const getChangeSetKeys = (changeSet: SyncChangeSet): string[] => {
+    const keys: string[] = [];
+    SYNC_COLLECTIONS.forEach(collection => {
+        const change = changeSet.changes[collection];
+        if (!change) return;
+        change.upserts.forEach(record => keys.push(`${collection}:${getRecordKey(collection, record)}`));
+        change.deletes.forEach(key => keys.push(`${collection}:${key}`));
+    });
+    return keys;
+};
+
+/**
+ * Advances the baseline for every record the server acknowledged.
+ * Rejected (stale) and unacknowledged records stay dirty so they are retried / reviewed.
+ */
+export const applyAck = (baseline: SyncBaseline, changeSet: SyncChangeSet, ack: SyncAck): SyncBaseline => {
+    const next = createEmptyBaseline();
+    SYNC_COLLECTIONS.forEach(collection => {
+        next[collection] = { ...(baseline[collection] || {}) };
+        const change = changeSet.changes[collection];
+        if (!change) return;
+
+        const applied = new Set(ack.applied[collection] || []);
+
+        change.upserts.forEach(record => {
+            const key = getRecordKey(collection, record);
+            if (applied.has(key)) next[collection][key] = getRecordSignature(record);
+        });
+        change.deletes.forEach(key => {
+            if (applied.has(key)) delete next[collection][key];
+        });
+    });
+    return next;
+};
+
+/**
+ * Three-way merge of a pulled collection (local vs cloud vs baseline).
+ * - Unchanged locally -> take cloud
+ * - Changed locally only -> keep local (pushed on next sync)
+ * - Changed on both sides (cloud updatedAt moved, local content moved) -> conflict, local kept until resolved
+ * - Not in baseline -> cloud wins if present, otherwise the local record is new and kept
+ * - Deleted locally but edited on the cloud since -> cloud edit restored (the server rejects the stale delete)
+ * - Approval requests changed on both sides -> cloud wins (another device already decided it)
+ */
+export const mergeCollection = (
+    collection: SyncCollection,
+    local: any[],
+    cloud: any[],
+    baseline: Record<string, string>
+): { merged: any[]; baseline: Record<string, string>; conflicts: SyncConflict[] } => {
+    const merged: any[] = [];
+    const nextBaseline: Record<string, string> = {};
+    const conflicts: SyncConflict[] = [];
+    const localMap = new Map(local.map(r => [getRecordKey(collection, r), r]));
+    const now = Date.now();
+
+    cloud.forEach(cloudRecord => {
+        const key = getRecordKey(collection, cloudRecord);
+        const localRecord = localMap.get(key);
+        const baseSig = baseline[key];
+        localMap.delete(key);
+
+        nextBaseline[key] = getRecordSignature(cloudRecord);
+
+        if (!baseSig) {
+            merged.push(cloudRecord);
+            return;
+        }
+
+        const base = JSON.parse(baseSig);
+        const cloudChanged = (Number(cloudRecord.updatedAt) || 0) !== (Number(base.updatedAt) || 0);
+
+        if (!localRecord) {
+            // Deleted locally: pushed as a delete, unless another device edited it since (its edit wins)
+            if (cloudChanged) merged.push(cloudRecord);
+            return;
+        }
+
+        const localDirty = getRecordSignature(localRecord) !== baseSig;
+        if (!localDirty || getRecordSignature(localRecord) === getRecordSignature(cloudRecord)) {
+            merged.push(cloudRecord);
+            return;
+        }
+
+        if (cloudChanged && collection === 'approvals') {
+            merged.push(cloudRecord);
+            return;
+        }
+        if (cloudChanged && (collection === 'inventory' || collection === 'products')) {
+            conflicts.push({ id: `${collection}:${key}`, collection, key, local: localRecord, cloud: cloudRecord, base, detectedAt: now });
+            nextBaseline[key] = baseSig; // Keep the common ancestor so the conflict is re-detected until resolved
+        }
+        merged.push(localRecord);
+    });
+
+    // Local records the cloud doesn't have (including ones created before this device's first sync)
+    localMap.forEach((localRecord, key) => {
+        const baseSig = baseline[key];
+        if (baseSig && getRecordSignature(localRecord) === baseSig) return; // Deleted on another device
+        merged.push(localRecord); // New (or edited) locally - pushed on next sync
+    });
+
+    return { merged, baseline: nextBaseline, conflicts };
+};
+
+/**
+ * Stable per-device ID so the server can attribute change sets.
+ */
+export const getClientId = (): string => {
+    let clientId = localStorage.getItem('nexuswms_client_id');
+    if (!clientId) {
+        clientId = generateId();
+        localStorage.setItem('nexuswms_client_id', clientId);
+    }
+    return clientId;
+};
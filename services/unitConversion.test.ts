@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { InventoryItem, OutboundOrder, Product, WarehouseLayout, allocateFefo } from '../types';
+import { buildWavePlan } from './wavePicking';
+
+const product: Product = {
+    productCode: 'P1',
+    name: 'Sparkling Water',
+    defaultUnit: 'CS',
+    unitConversions: [{ unit: 'CS', qty: 12, toUnit: 'EA' }]
+};
+
+const batch = (id: string, quantity: number, unit: string, expiryDate: number): InventoryItem => ({
+    id,
+    productName: product.name,
+    productCode: product.productCode,
+    quantity,
+    unit,
+    category: 'OTH',
+    locations: [{ rack: 'A', bay: 1, level: '1' }],
+    expiryDate,
+    updatedAt: 0
+});
+
+const future = new Date().setFullYear(new Date().getFullYear() + 1);
+
+describe('allocateFefo', () => {
+    it('converts batches kept in another unit to the requested one', () => {
+        const stock = [batch('ea', 30, 'EA', future), batch('cs', 10, 'CS', future + 1)];
+
+        const plan = allocateFefo(stock, product, 4, new Map(), 'CS');
+
+        expect(plan.breakdown.map(b => [b.item.id, b.takeQty])).toEqual([['ea', 2.5], ['cs', 1.5]]);
+        expect(plan.fulfilled).toBe(4);
+    });
+
+    it('records what it took in each batch\'s own unit', () => {
+        const taken = new Map<string, number>();
+
+        allocateFefo([batch('cs', 10, 'CS', future)], product, 18, taken, 'EA');
+
+        expect(taken.get('cs')).toBe(1.5);
+    });
+});
+
+describe('buildWavePlan', () => {
+    it('takes default-unit demand from batches kept in EA', () => {
+        const order: OutboundOrder = {
+            id: 'o1', orderNumber: 'SO-1', customerId: 'c1', customerName: 'Cafe', status: 'open', createdAt: 0,
+            lines: [{ id: 'l1', productCode: 'P1', orderedQty: 2, pickedQty: 0, picks: [] }]
+        };
+        const layout: WarehouseLayout = { id: 'v1', version: 1, areas: [], updatedAt: 0 };
+
+        const plan = buildWavePlan([order], [batch('ea', 60, 'EA', future)], [product], layout);
+
+        expect(plan.stops.map(s => [s.batchId, s.qty, s.unit])).toEqual([['ea', 2, 'CS']]);
+        expect(plan.shortLines).toEqual([]);
+    });
+});
@@ -0,0 +1,135 @@
+import { Product, UnitConversion } from '../types';
+import { isPalletUom } from './palletRules';
+
+/**
+ * Unit of Measure Conversions
+ *
+ * A product can define extra units in a small table chained from its default unit, e.g.
+ * 1 PLT = 40 CS and 1 CS = 12 EA for a product kept in CS. Stock is stored in the batch unit
+ * (the default unit when received); quantities received, picked or counted in another unit are
+ * converted on the way in, and totals can be broken down into the larger units for display.
+ * Picks (allocateFefo, the wave planner) convert each batch to the unit asked for; a batch picked in a
+ * smaller unit than it is kept in is kept in that unit from then on, so no fractional cases are left.
+ * countPerPallet still reads as "1 PLT = countPerPallet <default unit>" unless the table defines pallets.
+ * Pallet spellings (PLT, Pallet, 板) are one unit.
+ */
+
+export interface UnitFactor {
+    unit: string;
+    factor: number; // Base units in one of this unit
+}
+
+const unitKey = (unit: string) => isPalletUom(unit) ? 'plt' : unit.trim().toLowerCase();
+
+export const isSameUnit = (a: string, b: string) => unitKey(a) === unitKey(b);
+
+// Conversions can leave float noise (0.1 + 0.2); stock quantities are kept to 6 decimals like the ledger
+export const roundQty = (qty: number) => Math.round(qty * 1e6) / 1e6;
+
+const getConversionRows = (product: Product): UnitConversion[] => {
+    const rows = product.unitConversions || [];
+    const root = product.defaultUnit?.trim();
+    const perPallet = product.countPerPallet || 0;
+    const palletDefined = rows.some(r => isPalletUom(r.unit) || isPalletUom(r.toUnit));
+    if (!root || perPallet <= 0 || palletDefined || isPalletUom(root)) return rows;
+    return [...rows, { unit: 'PLT', qty: perPallet, toUnit: root }];
+};
+
+// Walks the table outwards from the default unit; rows that never connect to it are ignored
+const resolveFactors = (product: Product): Map<string, UnitFactor> => {
+    const root = product.defaultUnit?.trim();
+    const known = new Map<string, UnitFactor>();
+    if (!root) return known;
+    known.set(unitKey(root), { unit: root, factor: 1 });
+
+    const rows = getConversionRows(product).filter(r => r.qty > 0 && r.unit.trim() && r.toUnit.trim());
+    let progress = true;
+    while (progress) {
+        progress = false;
+        rows.forEach(r => {
+            const from = known.get(unitKey(r.unit));
+            const to = known.get(unitKey(r.toUnit));
+            if (to && !from) known.set(unitKey(r.unit), { unit: r.unit.trim(), factor: r.qty * to.factor });
+            else if (from && !to) known.set(unitKey(r.toUnit), { unit: r.toUnit.trim(), factor: from.factor / r.qty });
+            else return;
+            progress = true;
+        });
+    }
+    return known;
+};
+
+/**
+ * Units a quantity of this product can be entered in, largest first, with their size in baseUnit
+ * (default: the product's default unit). A batch kept in a unit the table does not know only offers that unit.
+ */
+export const getUnitFactors = (product: Product | undefined, baseUnit?: string): UnitFactor[] => {
+    const base = (baseUnit || product?.defaultUnit || '').trim();
+    if (!base) return [];
+    const factors = product ? resolveFactors(product) : new Map<string, UnitFactor>();
+    const baseFactor = factors.get(unitKey(base));
+    if (!baseFactor) return [{ unit: base, factor: 1 }];
+    return Array.from(factors.values())
+        .map(f => ({ unit: isSameUnit(f.unit, base) ? base : f.unit, factor: f.factor / baseFactor.factor }))
+        .sort((a, b) => b.factor - a.factor);
+};
+
+/**
+ * Converts a quantity between two units of the product, or undefined when either unit is not defined.
+ */
+export const convertQty = (product: Product | undefined, qty: number, fromUnit: string, toUnit: string): number | undefined => {
+    if (isSameUnit(fromUnit || '', toUnit || '')) return qty;
+    const factors = getUnitFactors(product, toUnit);
+    const from = factors.find(f => isSameUnit(f.unit, fromUnit || ''));
+    return from ? roundQty(qty * from.factor) : undefined;
+};
+
+// Default units in one pallet (table or countPerPallet), 0 when unknown. Products kept in pallets keep countPerPallet.
+export const getUnitsPerPallet = (product?: Product): number => {
+    if (!product) return 0;
+    if (!product.defaultUnit || isPalletUom(product.defaultUnit)) return product.countPerPallet || 0;
+    return convertQty(product, 1, 'PLT', product.defaultUnit) || 0;
+};
+
+/**
+ * A quantity split into whole larger units, e.g. 95 CS -> "2 PLT + 15 CS". Empty when the product has no
+ * larger unit than the given one or the quantity is less than one of them.
+ */
+export const formatUnitBreakdown = (product: Product | undefined, qty: number, unit: string): string => {
+    if (!(qty > 0)) return '';
+    const larger = getUnitFactors(product, unit).filter(f => f.factor > 1 && qty >= f.factor);
+    if (larger.length === 0) return '';
+    const parts: string[] = [];
+    let rest = qty;
+    larger.forEach(f => {
+        const count = Math.floor(roundQty(rest / f.factor));
+        if (count > 0) {
+            parts.push(`${count} ${f.unit}`);
+            rest = roundQty(rest - count * f.factor);
+        }
+    });
+    if (rest > 0) parts.push(`${rest} ${unit}`);
+    return parts.join(' + ');
+};
+
+/**
+ * Checks a product's conversion table: every row needs two different units and a positive quantity,
+ * must connect to the default unit, and may not contradict another row.
+ */
+export const validateUnitConversions = (defaultUnit: string | undefined, rows: UnitConversion[]): string | null => {
+    if (rows.length === 0) return null;
+    const root = defaultUnit?.trim();
+    if (!root) return 'Set the default unit before adding conversions.';
+    for (const r of rows) {
+        if (!r.unit.trim() || !r.toUnit.trim()) return 'Every conversion needs both units.';
+        if (!(r.qty > 0)) return `1 ${r.unit} = ? ${r.toUnit}: the quantity must be more than zero.`;
+        if (isSameUnit(r.unit, r.toUnit)) return `1 ${r.unit} = ${r.qty} ${r.toUnit} converts a unit to itself.`;
+    }
+    const factors = resolveFactors({ productCode: '', name: '', defaultUnit: root, unitConversions: rows });
+    for (const r of rows) {
+        const from = factors.get(unitKey(r.unit));
+        const to = factors.get(unitKey(r.toUnit));
+        if (!from || !to) return `1 ${r.unit} = ${r.qty} ${r.toUnit} does not connect to the default unit (${root}).`;
+        if (Math.abs(from.factor - r.qty * to.factor) > 1e-9 * from.factor) return `1 ${r.unit} = ${r.qty} ${r.toUnit} contradicts another conversion.`;
+    }
+    return null;
+};
@@ -0,0 +1,119 @@
+import { InventoryItem, LayoutArea, MasterLocation, WarehouseLayout, generateId } from '../types';
+import { DEFAULT_WAREHOUSE_LAYOUT } from '../config/layoutConfig';
+import { formatBinCode } from './ledger';
+import { getBinCapacity } from './binCapacity';
+
+/**
+ * Warehouse Layout
+ *
+ * The racks and areas of the warehouse, edited on the Warehouse Layout page instead of being
+ * hard-coded. Every save is a new version (synced as the 'layouts' collection, never overwritten);
+ * the highest version is active and the bins (master locations) are generated from it.
+ * A version may not drop a bin that still holds stock - move the stock first.
+ */
+
+export const MAX_BAYS = 99;
+
+// Highest version wins; two devices saving the same version resolve to the later save
+export const getActiveLayout = (layouts: WarehouseLayout[]): WarehouseLayout => {
+    return layouts.reduce<WarehouseLayout>((best, l) =>
+        l.version > best.version || (l.version === best.version && l.updatedAt > best.updatedAt) ? l : best,
+        DEFAULT_WAREHOUSE_LAYOUT);
+};
+
+export const findArea = (layout: WarehouseLayout, code: string) => layout.areas.find(a => a.code === code);
+
+/**
+ * Display name for a rack / area code, e.g. "Staging (S)". Unnamed racks show their code.
+ */
+export const getAreaName = (layout: WarehouseLayout, code: string) => {
+    const name = findArea(layout, code)?.name?.trim();
+    return name ? `${name} (${code})` : code;
+};
+
+// Racks in floor plan order (left to right, then top to bottom)
+export const getRackAreas = (layout: WarehouseLayout) =>
+    layout.areas.filter(a => a.kind === 'rack').sort((a, b) => a.x - b.x || a.y - b.y);
+
+export const getAreaBinCodes = (area: LayoutArea): string[] => {
+    const codes: string[] = [];
+    for (let b = 1; b <= area.bays; b++) {
+        area.levels.forEach(l => codes.push(`${area.code}-${b}-${l}`));
+    }
+    return codes;
+};
+
+export const getLayoutBinCodes = (layout: Pick<WarehouseLayout, 'areas'>) => layout.areas.flatMap(getAreaBinCodes);
+
+/**
+ * Generates the bins of a layout, carrying over saved ids / aliases / statuses / capacities by bin code.
+ */
+export const buildMasterLocations = (layout: WarehouseLayout, savedLocs: MasterLocation[]): MasterLocation[] => {
+    const savedMap = new Map(savedLocs.map(l => [`${l.rack}-${l.bay}-${l.level}`, l]));
+    const locs: MasterLocation[] = [];
+    layout.areas.forEach(area => {
+        for (let b = 1; b <= area.bays; b++) {
+            area.levels.forEach(l => {
+                const key = `${area.code}-${b}-${l}`;
+                const existing = savedMap.get(key);
+                locs.push({
+                    id: existing?.id || generateId(),
+                    binCode: key,
+                    rack: area.code,
+                    bay: b,
+                    level: l,
+                    ...(existing?.name ? { name: existing.name } : {}),
+                    status: existing?.status || 'active', // Persist status
+                    ...getBinCapacity(existing)
+                });
+            });
+        }
+    });
+    return locs;
+};
+
+/**
+ * Bins of the current layout that the next one drops, mapped to the batches still stored there.
+ */
+export const findStockedRemovedBins = (current: WarehouseLayout, next: Pick<WarehouseLayout, 'areas'>, inventory: InventoryItem[]): Map<string, InventoryItem[]> => {
+    const kept = new Set(getLayoutBinCodes(next));
+    const removed = new Set(getLayoutBinCodes(current).filter(code => !kept.has(code)));
+    const stocked = new Map<string, InventoryItem[]>();
+    inventory.forEach(item => {
+        if (item.quantity <= 0) return;
+        item.locations.map(formatBinCode).filter(code => removed.has(code)).forEach(code => {
+            stocked.set(code, [...(stocked.get(code) || []), item]);
+        });
+    });
+    return stocked;
+};
+
+const overlaps = (a: LayoutArea, b: LayoutArea) =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+export const validateLayoutAreas = (areas: LayoutArea[]): string | null => {
+    if (areas.length === 0) return 'The layout needs at least one rack or area.';
+    for (const area of areas) {
+        const label = area.code || 'An area';
+        if (!/^[A-Z0-9]+$/.test(area.code)) return `${label}: codes may only use letters and digits (they become part of bin codes like A-1-Floor).`;
+        if (!Number.isInteger(area.bays) || area.bays < 1 || area.bays > MAX_BAYS) return `${label}: bays must be a whole number from 1 to ${MAX_BAYS}.`;
+        if (area.levels.length === 0) return `${label}: add at least one level.`;
+        if (area.levels.some(l => !l || l.includes('-'))) return `${label}: level names cannot be blank or contain "-".`;
+        if (new Set(area.levels).size !== area.levels.length) return `${label}: level names must be unique.`;
+        if (area.x < 0 || area.y < 0 || area.width < 1 || area.height < 1) return `${label}: the floor plan position is out of range.`;
+    }
+    const codes = areas.map(a => a.code);
+    const duplicate = codes.find((c, i) => codes.indexOf(c) !== i);
+    if (duplicate) return `${duplicate} is used more than once.`;
+    for (let i = 0; i < areas.length; i++) {
+        const clash = areas.slice(i + 1).find(b => overlaps(areas[i], b));
+        if (clash) return `${areas[i].code} and ${clash.code} overlap on the floor plan.`;
+    }
+    return null;
+};
+
+// Grid size that fits every area, plus room to move things around
+export const getFloorPlanSize = (areas: LayoutArea[]) => ({
+    cols: Math.max(24, ...areas.map(a => a.x + a.width + 2)),
+    rows: Math.max(16, ...areas.map(a => a.y + a.height + 2))
+});
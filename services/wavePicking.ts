@@ -0,0 +1,136 @@
+import { InventoryItem, InventoryLocation, OutboundOrder, Product, WarehouseLayout, compareFefo, getBatchExpiry, isBatchExpired } from '../types';
+import { getOrderLineRemaining } from './outboundOrders';
+import { convertQty, roundQty } from './unitConversion';
+
+/**
+ * Wave Picking
+ *
+ * A wave combines several customer orders into one trip: demand is consolidated per product,
+ * batches are allocated FEFO (as on the Outbound page), and every batch is visited once, in
+ * walking order. Orders in the wave are served in requested-date order when stock runs short.
+ * Demand and stops are in each product's default unit; batches kept in another unit are converted.
+ *
+ * Walking order is a serpentine through the areas in warehouse layout order (up the even ones,
+ * back down the odd ones). Within a bay, ground level first.
+ */
+
+// Areas are walked in layout order; areas not in the layout go last, alphabetically
+const getAreaRank = (layout: WarehouseLayout, rack: string) => {
+    const idx = layout.areas.findIndex(a => a.code === rack);
+    return idx === -1 ? layout.areas.length : idx;
+};
+
+// Floor / lowest level first; unknown levels last
+const getLevelRank = (layout: WarehouseLayout, rack: string, level: string) => {
+    const levels = layout.areas.find(a => a.code === rack)?.levels || [];
+    const idx = levels.indexOf(level);
+    return idx === -1 ? -1 : levels.length - idx;
+};
+
+export const comparePickPath = (a: InventoryLocation, b: InventoryLocation, layout: WarehouseLayout) => {
+    const areaA = getAreaRank(layout, a.rack);
+    const areaB = getAreaRank(layout, b.rack);
+    if (areaA !== areaB) return areaA - areaB;
+    if (a.rack !== b.rack) return a.rack.localeCompare(b.rack);
+    if (a.bay !== b.bay) return areaA % 2 === 0 ? a.bay - b.bay : b.bay - a.bay;
+    const levelA = getLevelRank(layout, a.rack, a.level);
+    const levelB = getLevelRank(layout, b.rack, b.level);
+    return (levelA === -1 ? Infinity : levelA) - (levelB === -1 ? Infinity : levelB);
+};
+
+export interface WaveStopOrder {
+    orderId: string;
+    orderNumber: string;
+    qty: number;
+}
+
+// One batch to visit, and how its units are split between the orders
+export interface WaveStop {
+    sequence: number;
+    location: InventoryLocation;
+    batchId: string;
+    productCode: string;
+    name: string;
+    unit: string;
+    lotNumber?: string;
+    expiryDate?: number;
+    qty: number;
+    orders: WaveStopOrder[];
+}
+
+export interface WaveDemand {
+    productCode: string;
+    name: string;
+    unit: string;
+    requested: number;
+    allocated: number;
+}
+
+export interface WavePlan {
+    stops: WaveStop[];
+    demand: WaveDemand[];
+    shortLines: { orderNumber: string; productCode: string; qty: number }[]; // Not covered by stock
+}
+
+export const buildWavePlan = (orders: OutboundOrder[], inventory: InventoryItem[], products: Product[], layout: WarehouseLayout): WavePlan => {
+    // Earliest requested date gets stock first
+    const sortedOrders = [...orders].sort((a, b) => (a.requestedDate || Infinity) - (b.requestedDate || Infinity) || a.createdAt - b.createdAt);
+
+    // Quarantined (on hold) and expired batches are never offered for picking
+    const productsByCode = new Map(products.map(p => [p.productCode, p]));
+    const pickable = inventory
+        .filter(i => i.status !== 'quarantine' && i.quantity > 0 && !isBatchExpired(i, productsByCode.get(i.productCode)))
+        .sort((a, b) => compareFefo(a, b, code => productsByCode.get(code)));
+    const available = new Map(pickable.map(i => [i.id, i.quantity])); // In the batch's own unit
+
+    const stopsByBatch = new Map<string, Omit<WaveStop, 'sequence'>>();
+    const demand = new Map<string, WaveDemand>();
+    const shortLines: WavePlan['shortLines'] = [];
+
+    sortedOrders.forEach(order => order.lines.forEach(line => {
+        let remaining = getOrderLineRemaining(line);
+        if (remaining <= 0) return;
+        const product = products.find(p => p.productCode === line.productCode);
+        const d = demand.get(line.productCode) || { productCode: line.productCode, name: product?.name || line.productCode, unit: product?.defaultUnit || 'pcs', requested: 0, allocated: 0 };
+        d.requested += remaining;
+        demand.set(line.productCode, d);
+
+        for (const batch of pickable) {
+            if (remaining <= 0) break;
+            if (batch.productCode !== line.productCode) continue;
+            const left = available.get(batch.id) || 0;
+            const leftInUnit = product?.defaultUnit ? convertQty(product, left, batch.unit, d.unit) : left;
+            if (leftInUnit === undefined) continue;
+            const take = Math.min(leftInUnit, remaining);
+            if (take <= 0) continue;
+            const used = take === leftInUnit ? left : convertQty(product, take, d.unit, batch.unit) ?? take;
+            available.set(batch.id, roundQty(left - used));
+            remaining = roundQty(remaining - take);
+            d.allocated = roundQty(d.allocated + take);
+
+            const stop = stopsByBatch.get(batch.id) || {
+                location: batch.locations[0] || { rack: '?', bay: 0, level: '?' },
+                batchId: batch.id,
+                productCode: batch.productCode,
+                name: d.name,
+                unit: product?.defaultUnit ? d.unit : batch.unit,
+                lotNumber: batch.lotNumber,
+                expiryDate: getBatchExpiry(batch, product),
+                qty: 0,
+                orders: []
+            };
+            stop.qty = roundQty(stop.qty + take);
+            const split = stop.orders.find(o => o.orderId === order.id);
+            if (split) split.qty = roundQty(split.qty + take);
+            else stop.orders.push({ orderId: order.id, orderNumber: order.orderNumber, qty: take });
+            stopsByBatch.set(batch.id, stop);
+        }
+        if (remaining > 0) shortLines.push({ orderNumber: order.orderNumber, productCode: line.productCode, qty: remaining });
+    }));
+
+    const stops = Array.from(stopsByBatch.values())
+        .sort((a, b) => comparePickPath(a.location, b.location, layout))
+        .map((stop, idx) => ({ ...stop, sequence: idx + 1 }));
+
+    return { stops, demand: Array.from(demand.values()), shortLines };
+};
@@ -1,7 +1,4 @@
-export const DEFAULT_ITEM_CATEGORIES = [
-  'RTE', 'RAW', 'FG', 'WIP', 'PKG', 'OTH',
-  'Box', 'Film', 'Tray', 'Sushi', 'Tape', 'Wrap', 'Pallet'
-] as const;
+import { convertQty, roundQty } from './services/unitConversion';
 
 export interface Product {
   productCode: string; // Formerly id & code
@@ -12,9 +9,40 @@ export interface Product {
   image?: string;
   department?: 'RTE' | 'RTC' | 'SHARED';
   countPerPallet?: number;
+  unitConversions?: UnitConversion[]; // Extra units, e.g. 1 PLT = 40 CS (see services/unitConversion.ts)
+  // One default unit (case) as shipped - Smart Pick pallet builder
+  caseLengthCm?: number;
+  caseWidthCm?: number;
+  caseHeightCm?: number;
+  caseWeightKg?: number;
+  shelfLifeDays?: number; // Days from production to expiry (auto-fills batch expiry)
+  unitCost?: number; // Value per default unit (approval thresholds)
+  supplierId?: string; // Preferred supplier (reorder suggestions)
+  aliases?: string[]; // Pick list wording confirmed for this product (fuzzy matching)
+  homeBin?: string; // Fixed bin ("A-1-1") suggested first on putaway
   updatedAt?: number;
 }
 
+// 1 unit = qty toUnit, e.g. { unit: 'CS', qty: 12, toUnit: 'EA' }
+export interface UnitConversion {
+  unit: string;
+  qty: number;
+  toUnit: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  leadTimeDays: number; // Order to delivery
+  moq?: number; // Minimum order quantity per product line (units)
+  packSizes?: number[]; // Units per orderable pack, e.g. [12, 48]
+  notes?: string;
+  updatedAt: number;
+}
+
 export interface InventoryLocation {
   rack: string; // A-H, J, STG, ADJ...
   bay: number;
@@ -29,6 +57,37 @@ export interface MasterLocation {
   bay: number;
   level: string;
   status?: 'active' | 'disabled'; // New status field
+  capacity?: number; // Max load in capacityUnit; unset or 0 = no limit
+  capacityUnit?: BinCapacityUnit; // Defaults to pallets
+  maxWeightKg?: number; // Optional weight limit; unset or 0 = no limit
+}
+
+export type BinCapacityUnit = 'pallets' | 'cases';
+
+// 'rack' = aisle racking shown side by side on the Visual Map; 'area' = a block area (staging, transit, ...)
+export type LayoutAreaKind = 'rack' | 'area';
+
+export interface LayoutArea {
+  code: string; // Rack / area letter used in bin codes ("A" in A-1-Floor)
+  name?: string; // Zone name, e.g. "Staging"
+  kind: LayoutAreaKind;
+  bays: number;
+  levels: string[]; // Top level first, e.g. ['3', '2', '1', 'Floor']
+  // Floor plan footprint, in grid cells
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One saved version of the warehouse layout; the highest version is the active one
+export interface WarehouseLayout {
+  id: string;
+  version: number;
+  areas: LayoutArea[]; // In pick-walk order
+  note?: string;
+  createdBy?: string;
+  updatedAt: number;
 }
 
 export interface InventoryItem {
@@ -41,6 +100,10 @@ export interface InventoryItem {
   category: string;
   locations: InventoryLocation[];
   notes?: string;
+  lotNumber?: string; // Supplier / Production Lot
+  productionDate?: number; // Timestamp (Local Midnight)
+  expiryDate?: number; // Timestamp (Local Midnight) - Drives FEFO picking
+  status?: 'active' | 'quarantine'; // Quarantine = on hold, excluded from picking
   updatedAt: number;
   lastCountedAt?: number; // Cycle Count Timestamp
 }
@@ -57,6 +120,149 @@ export interface Transaction {
   locationInfo: string; // Human readable location string
   user?: string;
   notes?: string;
+  lotNumber?: string; // Batch traceability for audits
+  // Ledger fields (see services/ledger.ts). Older entries don't have them.
+  recordedAt?: number; // System time the event was written (date can be back-dated)
+  batchId?: string; // InventoryItem the event applies to
+  fromLocation?: InventoryLocation; // Bin the stock left / was counted in
+  toLocation?: InventoryLocation; // Bin the stock arrived in / now sits in
+  toBatchId?: string; // MOVE: batch receiving the stock (new split or merge target)
+  movedQuantity?: number; // MOVE: units transferred (quantity stays 0 - no net change)
+  openingQuantity?: number; // COUNT: opening balance for a batch that predates the ledger
+  poNumber?: string; // INBOUND: purchase order the stock was received against
+  orderNumber?: string; // OUTBOUND: customer order the stock was picked for
+  manifestId?: string; // OUTBOUND: Smart Pick manifest (date id) the stock was picked for
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  productCode: string;
+  expectedQty: number;
+  receivedQty: number; // Good units put into stock, all receipts
+  damagedQty: number; // Damaged units (received into quarantine), all receipts
+}
+
+export interface PurchaseOrderReceipt {
+  id: string;
+  date: number;
+  user?: string;
+  lines: { lineId: string; qty: number; damagedQty: number }[];
+  note?: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplier: string; // Display name (free text for one-off suppliers)
+  supplierId?: string; // Supplier master record, when known
+  expectedDate?: number; // Timestamp (Local Midnight)
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseOrderReceipt[];
+  status: 'open' | 'partial' | 'received' | 'closed'; // closed = finished short / cancelled
+  notes?: string;
+  createdAt: number;
+  createdBy?: string;
+}
+
+// Ship-to party: an external customer, one of their stores, or an internal destination
+export interface Customer {
+  id: string;
+  name: string;
+  kind: 'customer' | 'internal'; // internal = our own kitchen / other sites
+  address?: string;
+  contactName?: string;
+  phone?: string;
+  notes?: string;
+  updatedAt: number;
+}
+
+// Stock taken from one batch for an order line (what the packing slip lists)
+export interface OutboundOrderPick {
+  batchId: string;
+  transactionId: string; // OUTBOUND transaction that removed the stock
+  qty: number;
+  lotNumber?: string;
+  expiryDate?: number;
+  location: string; // Bin(s) as shown in the transaction
+  date: number;
+}
+
+export interface OutboundOrderLine {
+  id: string;
+  productCode: string;
+  orderedQty: number;
+  pickedQty: number;
+  picks: OutboundOrderPick[];
+}
+
+export interface OutboundOrder {
+  id: string;
+  orderNumber: string;
+  customerId: string;
+  customerName: string; // Denormalized so documents survive a customer rename / delete
+  requestedDate?: number; // Timestamp (Local Midnight)
+  lines: OutboundOrderLine[];
+  status: 'open' | 'picking' | 'picked' | 'shipped';
+  notes?: string;
+  createdAt: number;
+  createdBy?: string;
+  shippedAt?: number;
+  shippedBy?: string;
+  carrier?: string;
+  trailerRef?: string; // Trailer / seal / tracking reference for the bill of lading
+}
+
+// Extra detail the Warehouse Map sends with an inventory change
+export interface MapChangeContext {
+  previousLocation?: InventoryLocation; // MOVE: the bin the batch left
+  overrideReason?: string; // Capacity override, logged on the leg that fills the bin
+  transfer?: { sourceId: string; qty: number }; // UPDATE / DELETE legs of a move: the source batch and the quantity moved
+}
+
+// Large adjustments and deletions wait for a supervisor (see useAppState approval handlers)
+export interface ApprovalRequest {
+  id: string;
+  kind: 'ADJUSTMENT' | 'COUNT' | 'DELETE'; // COUNT = cycle-count variance
+  item: InventoryItem; // Batch as it was when the request was raised
+  qtyDiff: number; // Signed change to apply (DELETE: -quantity)
+  value?: number; // |qtyDiff| x unit cost, when the product has one
+  note: string; // Transaction note used once approved
+  date?: number; // Business date of the change (may be back-dated)
+  requestedBy?: string;
+  requestedAt: number;
+  status: 'pending' | 'approved' | 'rejected';
+  decidedBy?: string;
+  decidedAt?: number;
+  decisionNote?: string;
+  updatedAt?: number; // Bumped when raised and when decided (sync stale check)
+}
+
+export interface ApprovalThresholds {
+  quantity: number; // Adjustments of more units than this need approval (0 = off)
+  value: number; // Adjustments worth more than this need approval (0 = off)
+}
+
+// Directed putaway (services/putaway.ts)
+export type PutawayStrategy = 'homeBin' | 'consolidate' | 'zoning' | 'heavyLevels';
+
+export interface PutawaySettings {
+  strategies: Record<PutawayStrategy, boolean>;
+  zones: Record<NonNullable<Product['department']>, string[]>; // Racks each department may use (empty = any)
+  heavyUoms: string[]; // Units only stored on heavyLevels, e.g. PLT / BG
+  heavyLevels: string[];
+  excludedRacks: string[]; // Never suggested, e.g. Transit and Staging
+}
+
+export type UserRole = 'operator' | 'supervisor' | 'admin';
+
+export interface UserProfile {
+  id: string;
+  name: string;
+  role: UserRole;
+  pinHash: string; // See services/auth.ts - the PIN itself is never stored
+  active: boolean; // Inactive users cannot sign in (kept for history attribution)
+  createdAt: number;
+  updatedAt?: number; // Synced like other records; the newer edit wins on the server
 }
 
 export interface SavedPickList {
@@ -66,9 +272,29 @@ export interface SavedPickList {
   createdAt: number;
 }
 
+export type PalletRuleColor = 'violet' | 'blue' | 'amber' | 'emerald' | 'rose' | 'cyan';
+
+// Smart Pick pallet group (see services/palletRules.ts).
+// A manifest line joins the first rule, by priority, where ANY condition matches.
+export interface PalletRule {
+  id: string;
+  title: string;
+  note?: string; // Shown under the title, e.g. "Standalone Pallet"
+  color: PalletRuleColor;
+  priority: number; // Lower = checked and shown first
+  productCodes: string[];
+  categories: string[]; // Product defaultCategory
+  departments: string[]; // Product department (RTE / RTC / SHARED)
+  uoms: string[]; // Unit as read from the manifest, e.g. PLT
+  keywords: string[]; // Line text contains (case-insensitive)
+  sortKeywords: string[]; // Lines are listed in this keyword order, the rest after
+  isFallback?: boolean; // Catch-all for lines no other rule claims (exactly one)
+  updatedAt: number;
+}
+
 
 
-// Warehouse constants moved to consts/warehouse.ts
+// Warehouse racks / areas are data now: see config/layoutConfig.ts and services/warehouseLayout.ts
 
 
 export type ViewState = 'dashboard' | 'entry' | 'outbound' | 'list' | 'history' | 'map' | 'products' | 'move' | 'smart-pick' | 'notes' | 'analytics';
@@ -112,4 +338,83 @@ export const getBestLocationScore = (locations: InventoryLocation[]) => {
   };
 
   return Math.min(...locations.map(scoreLocation));
-};
\ No newline at end of file
+};
+// Batch Identity Helper
+// Two records are the same batch only if product, lot, expiry and hold status all match (safe to merge).
+// Status is part of the identity so a quarantined row never merges into active stock and loses its hold.
+type BatchKey = Pick<InventoryItem, 'productCode' | 'lotNumber' | 'expiryDate' | 'status'>;
+export const isSameBatch = (a: BatchKey, b: BatchKey) => {
+  return a.productCode === b.productCode &&
+    (a.lotNumber || '') === (b.lotNumber || '') &&
+    (a.expiryDate || 0) === (b.expiryDate || 0) &&
+    (a.status || 'active') === (b.status || 'active');
+};
+
+// Effective Expiry Helper
+// Logic: Recorded Expiry -> Production Date + Product Shelf Life -> None
+export const getBatchExpiry = (item: InventoryItem, product?: Product): number | undefined => {
+  if (item.expiryDate) return item.expiryDate;
+  if (item.productionDate && product?.shelfLifeDays) {
+    const expiry = new Date(item.productionDate);
+    expiry.setDate(expiry.getDate() + product.shelfLifeDays); // Calendar days (DST safe)
+    return expiry.getTime();
+  }
+  return undefined;
+};
+
+// Expired = effective expiry before the start of today (same cut-off as the expiry alerts)
+export const isBatchExpired = (item: InventoryItem, product?: Product, now: number = Date.now()): boolean => {
+  const expiry = getBatchExpiry(item, product);
+  if (!expiry) return false;
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return expiry < today.getTime();
+};
+
+export type ProductLookup = (productCode: string) => Product | undefined;
+
+// FEFO Sort Helper (First-Expired-First-Out)
+// Logic: Earliest Effective Expiry (see getBatchExpiry) -> Undated Batches -> Location Score
+export const compareFefo = (a: InventoryItem, b: InventoryItem, getProduct?: ProductLookup) => {
+  const expA = getBatchExpiry(a, getProduct?.(a.productCode)) || Number.MAX_SAFE_INTEGER;
+  const expB = getBatchExpiry(b, getProduct?.(b.productCode)) || Number.MAX_SAFE_INTEGER;
+  if (expA !== expB) return expA - expB;
+  return getBestLocationScore(a.locations) - getBestLocationScore(b.locations);
+};
+
+export interface FefoAllocation {
+  breakdown: { item: InventoryItem; takeQty: number }[]; // takeQty in `unit`
+  fulfilled: number;
+  requested: number;
+  unit: string;
+}
+
+// Takes a quantity (in `unit`, default: the product's default unit) from pickable batches in FEFO order.
+// Batches kept in another unit are converted (see services/unitConversion.ts); ones that cannot be are skipped.
+// Expired batches are never allocated. `taken` (batch id -> qty in the batch's own unit) carries what
+// earlier lines already claimed and is updated.
+export const allocateFefo = (pickable: InventoryItem[], product: Product, qty: number, taken: Map<string, number> = new Map(), unit: string = product.defaultUnit || ''): FefoAllocation => {
+  const now = Date.now();
+  const batches = pickable
+    .filter(i => i.productCode === product.productCode && !isBatchExpired(i, product, now))
+    .sort((a, b) => compareFefo(a, b, () => product));
+  let remaining = qty;
+  const breakdown: FefoAllocation['breakdown'] = [];
+
+  for (const item of batches) {
+    if (remaining <= 0) break;
+    const left = item.quantity - (taken.get(item.id) || 0);
+    // Products without a default unit are picked in whatever unit the batch is kept in
+    const available = unit ? convertQty(product, left, item.unit, unit) : left;
+    if (available === undefined) continue;
+    const take = Math.min(available, remaining);
+    if (take > 0) {
+      const used = take === available ? left : convertQty(product, take, unit, item.unit) ?? take;
+      breakdown.push({ item, takeQty: take });
+      taken.set(item.id, roundQty((taken.get(item.id) || 0) + used));
+      remaining = roundQty(remaining - take);
+    }
+  }
+
+  return { breakdown, fulfilled: roundQty(qty - remaining), requested: qty, unit };
+};
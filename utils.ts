@@ -245,13 +245,97 @@ export const normalizeProduct = (product: any): any => {
 };
 
 /**
- * getAreaName
+ * toDateInputValue / fromDateInputValue
  * 
- * Returns the display name for a given area/rack code.
+ * Converts between stored timestamps and <input type="date"> strings (YYYY-MM-DD).
+ * Uses LOCAL dates to avoid UTC shift.
  */
-export const getAreaName = (code: string) => {
-    if (code === 'S') return 'Staging (S)';
-    if (code === 'R') return 'Reserve (R)';
-    if (code === 'Z') return 'Zone (Z)';
-    return code;
+export const toDateInputValue = (timestamp?: number): string => {
+    if (!timestamp) return '';
+    const d = new Date(timestamp);
+    const year = d.getFullYear();
+    const month = String(d.getMonth() + 1).padStart(2, '0');
+    const day = String(d.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+};
+
+export const fromDateInputValue = (dateStr: string): number | undefined => {
+    if (!dateStr) return undefined;
+    const [year, month, day] = dateStr.split('-').map(Number);
+    if (!year || !month || !day) return undefined;
+    return new Date(year, month - 1, day).getTime();
+};
+
+/**
+ * getExpiryStatus
+ * 
+ * Classifies a batch expiry date for display.
+ * - 'expired': expiry date is before today
+ * - 'soon': expires within `warnDays` (inclusive)
+ * - 'ok': later than that, 'none' if no expiry recorded
+ */
+export const getExpiryStatus = (expiryDate?: number, warnDays = 30): 'expired' | 'soon' | 'ok' | 'none' => {
+    if (!expiryDate) return 'none';
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    if (expiryDate < today) return 'expired';
+    if (expiryDate <= today + warnDays * 24 * 60 * 60 * 1000) return 'soon';
+    return 'ok';
+};
+
+/**
+ * getExpiryColor
+ * 
+ * Badge colors matching getExpiryStatus.
+ */
+export const getExpiryColor = (expiryDate?: number, warnDays = 30) => {
+    const status = getExpiryStatus(expiryDate, warnDays);
+    if (status === 'expired') return 'bg-red-500/20 text-red-400 border border-red-500/30';
+    if (status === 'soon') return 'bg-amber-500/20 text-amber-400 border border-amber-500/30';
+    return 'bg-slate-800 text-slate-400 border border-white/10';
+};
+
+/**
+ * getOccupancyColor
+ * 
+ * Heat colors for a bin's fill % (binCapacity.ts). Bins without a limit stay neutral.
+ */
+export const getOccupancyColor = (percent?: number) => {
+    if (percent === undefined) return 'bg-white/5 text-slate-500 border-white/10';
+    if (percent > 100) return 'bg-red-500/40 text-red-200 border-red-500/60';
+    if (percent >= 90) return 'bg-orange-500/30 text-orange-200 border-orange-500/50';
+    if (percent >= 60) return 'bg-amber-500/25 text-amber-200 border-amber-500/40';
+    if (percent > 0) return 'bg-emerald-500/20 text-emerald-200 border-emerald-500/40';
+    return 'bg-sky-500/10 text-sky-300 border-sky-500/30';
+};
+
+// The print window has no Tailwind, so the paper copy gets its own minimal styles
+const PRINT_CSS = `
+    body { font-family: Arial, sans-serif; color: #000; margin: 24px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 12px; }
+    th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; }
+    .num { text-align: right; }
+    .meta { display: flex; justify-content: space-between; gap: 24px; font-size: 12px; margin-top: 12px; }
+    .sign { margin-top: 48px; display: flex; gap: 48px; font-size: 12px; }
+    .sign div { flex: 1; border-top: 1px solid #000; padding-top: 4px; }
+    .muted { color: #555; }
+    .check { width: 24px; }
+    .label { page-break-after: always; border: 3px solid #000; padding: 16px; }
+    .label:last-child { page-break-after: auto; }
+    .label-number { font-size: 72px; font-weight: bold; line-height: 1; }
+`;
+
+/**
+ * printDocument
+ * 
+ * Prints rendered markup (e.g. a ref's innerHTML) in a new window.
+ */
+export const printDocument = (title: string, bodyHtml: string) => {
+    const win = window.open('', '_blank', 'width=900,height=700');
+    if (!win) return;
+    win.document.write(`<html><head><title>${title}</title><style>${PRINT_CSS}</style></head><body>${bodyHtml}</body></html>`);
+    win.document.close();
+    win.focus();
+    win.print();
 };
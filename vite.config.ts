@@ -7,5 +7,11 @@ export default defineConfig({
   base: '/nexus-wms/', // Sets the base path for GitHub Pages
   build: {
     outDir: 'dist',
+  },
+  server: {
+    // AI proxy (npm run ai-proxy) - keeps the model API key off the client
+    proxy: {
+      '/ai': 'http://localhost:8787'
+    }
   }
 });
\ No newline at end of file